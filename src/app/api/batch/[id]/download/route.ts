@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import JSZip from 'jszip';
+import { getProject } from '@/lib/db';
+import { getBatchStatus, type BatchItemStatusRow } from '@/lib/jobs';
+
+// GET /api/batch/[id]/download - ZIP of every generated variation plus a status report
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const batch = await getBatchStatus(id);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const zip = new JSZip();
+    const usedFolders = new Set<string>();
+    let fileCount = 0;
+
+    for (const item of batch.items) {
+      if (!item.projectId || item.variationCount === 0) continue;
+
+      const project = await getProject(item.projectId);
+      if (!project) continue;
+
+      // One folder per project, suffixed if two pages share a name
+      const baseName = safeFileName(project.name);
+      let folderName = baseName;
+      for (let n = 2; usedFolders.has(folderName); n++) folderName = `${baseName}-${n}`;
+      usedFolders.add(folderName);
+
+      for (const variation of project.variations) {
+        zip.file(`${folderName}/${baseName}-v${variation.number}.html`, variation.html);
+        fileCount++;
+      }
+    }
+
+    if (fileCount === 0) {
+      return NextResponse.json(
+        { error: 'No generated variations to download yet' },
+        { status: 400 }
+      );
+    }
+
+    zip.file('batch-report.csv', toReportCsv(batch.items));
+
+    const zipBuffer = await zip.generateAsync({ type: 'nodebuffer' });
+    const zipFileName = `${safeFileName(batch.name)}.zip`;
+
+    return new NextResponse(new Uint8Array(zipBuffer), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${zipFileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Batch download error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create download' },
+      { status: 500 }
+    );
+  }
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^a-z0-9]/gi, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || 'landing-page';
+}
+
+function toReportCsv(items: BatchItemStatusRow[]): string {
+  const escape = (value: string | number | null) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+  const rows = items.map(item =>
+    [item.url, item.name, item.status, item.variationCount, item.error].map(escape).join(',')
+  );
+  return ['url,name,status,variations,error', ...rows].join('\n');
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchStatus, cancelBatch } from '@/lib/jobs';
+
+// GET /api/batch/[id] - Per-URL status of a batch
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const batch = await getBatchStatus(id);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(batch);
+  } catch (error) {
+    console.error('Failed to get batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to get batch' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/batch/[id] - Cancel the batch and its unfinished generations
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const cancelled = await cancelBatch(id);
+
+    if (cancelled === null) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Batch already finished' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to cancel batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel batch' },
+      { status: 500 }
+    );
+  }
+}
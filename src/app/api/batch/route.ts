@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BATCH_MAX_URLS, parseBatchSources, createBatch, listBatches, wakeJobWorker } from '@/lib/jobs';
+import type { GenerationOptions } from '@/types';
+
+// GET /api/batch - Recent batches with status counts
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const batches = await listBatches({
+      userId: searchParams.get('userId') || undefined,
+      limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 10,
+    });
+
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('Failed to list batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to list batches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/batch - Queue one project per URL with a shared options preset
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { urls, csv, name, pipelineVersion, options, priority, userId } = body as {
+      urls?: string[];
+      csv?: string; // `url[,name[,trackingUrl]]` per line
+      name?: string;
+      pipelineVersion?: 'v1' | 'v3';
+      options?: Partial<GenerationOptions>;
+      priority?: number;
+      userId?: string;
+    };
+
+    const { sources, invalid } = parseBatchSources(csv ?? (urls || []).join('\n'));
+
+    if (sources.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid URLs found', invalid },
+        { status: 400 }
+      );
+    }
+
+    if (sources.length > BATCH_MAX_URLS) {
+      return NextResponse.json(
+        { error: `A batch can have at most ${BATCH_MAX_URLS} URLs (got ${sources.length})` },
+        { status: 400 }
+      );
+    }
+
+    const batchName = name?.trim() || `Batch ${new Date().toISOString().slice(0, 16).replace('T', ' ')}`;
+    const batch = await createBatch(
+      {
+        name: batchName,
+        pipelineVersion: pipelineVersion === 'v1' ? 'v1' : 'v3',
+        options: options || {},
+        sources,
+      },
+      { userId, priority: Number.isInteger(priority) ? priority : undefined }
+    );
+    wakeJobWorker();
+
+    return NextResponse.json({
+      success: true,
+      batchId: batch.id,
+      name: batchName,
+      count: sources.length,
+      invalid,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to create batch' },
+      { status: 500 }
+    );
+  }
+}
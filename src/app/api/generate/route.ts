@@ -4,6 +4,7 @@ import { writeBuilderPrompt } from '@/lib/prompt-writer';
 import { buildVariations } from '@/lib/builder-agent';
 import { analyzeLandingPage } from '@/lib/analyzer';
 import { buildLandingPage } from '@/lib/builder';
+import { trackLLMUsage, getTrackedLLMUsage } from '@/lib/llm';
 import type { ParsedLandingPage, GenerationOptions } from '@/types';
 import type { BuildOptions, TextBuildOptions, StyleBuildOptions } from '@/types/builder';
 import type { DatingVertical } from '@/types/component-analysis';
@@ -32,13 +33,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if we should use the new 3-agent workflow
-    if (options.styleHandling === 'generate-new') {
-      return handleNewAgentWorkflow(sourcePage, options, variationCount);
-    }
+    // Every agent call below is recorded for token/cost accounting
+    return await trackLLMUsage(async () => {
+      // Check if we should use the new 3-agent workflow
+      if (options.styleHandling === 'generate-new') {
+        return handleNewAgentWorkflow(sourcePage, options, variationCount);
+      }
 
-    // Fall back to old workflow for non-generate-new modes
-    return handleLegacyWorkflow(sourcePage, options, variationCount);
+      // Fall back to old workflow for non-generate-new modes
+      return handleLegacyWorkflow(sourcePage, options, variationCount);
+    });
   } catch (error) {
     console.error('Generate error:', error);
     return NextResponse.json(
@@ -68,7 +72,7 @@ async function handleNewAgentWorkflow(
 
   // ===== STEP 1: AI ANALYZER =====
   console.log('\n📊 Step 1: AI Analyzer (Cheerio + Grok)...');
-  const analysis = await analyzeWithAI(sourcePage.html, sourcePage.sourceUrl);
+  const analysis = await analyzeWithAI(sourcePage.html, sourcePage.sourceUrl, options.agentRouting);
 
   // Apply tracking URL override if provided
   if (options.ctaUrlOverride && options.ctaUrlOverride.trim()) {
@@ -127,7 +131,7 @@ async function handleNewAgentWorkflow(
     addElements: options.addElements,
   };
 
-  const builderPrompt = await writeBuilderPrompt(analysis, stylingOptions);
+  const builderPrompt = await writeBuilderPrompt(analysis, stylingOptions, undefined, options.agentRouting);
   console.log('Prompt written:', {
     hasSystemContext: !!builderPrompt.systemContext,
     hasRequirements: !!builderPrompt.requirements,
@@ -137,7 +141,7 @@ async function handleNewAgentWorkflow(
 
   // ===== STEP 3: BUILDER =====
   console.log('\n🔨 Step 3: Builder...');
-  const buildResults = await buildVariations(builderPrompt, analysis, variationCount);
+  const buildResults = await buildVariations(builderPrompt, analysis, variationCount, options.agentRouting);
   console.log('Build complete:', {
     variations: buildResults.length,
     successful: buildResults.filter(r => r.success).length,
@@ -169,6 +173,7 @@ async function handleNewAgentWorkflow(
     analysis,
     // Full prompt for PromptPreview
     builderPrompt,
+    usage: getTrackedLLMUsage(),
   });
 }
 
@@ -290,6 +295,7 @@ async function handleLegacyWorkflow(
       },
       persuasionElements: analysis.persuasionElements.length,
     },
+    usage: getTrackedLLMUsage(),
   });
 }
 
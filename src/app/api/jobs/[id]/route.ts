@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '@/lib/db';
+import { cancelQueuedJob } from '@/lib/jobs';
+
+// GET /api/jobs/[id] - Job status, progress and result
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Failed to get job:', error);
+    return NextResponse.json(
+      { error: 'Failed to get job' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/jobs/[id] - Cancel a pending or running job
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const cancelled = await cancelQueuedJob(id);
+
+    if (cancelled === null) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Job already finished' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to cancel job:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    );
+  }
+}
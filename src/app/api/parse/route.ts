@@ -8,7 +8,7 @@ export async function POST(request: NextRequest) {
     // Handle URL parsing
     if (contentType.includes('application/json')) {
       const body = await request.json();
-      const { url } = body;
+      const { url, resolveRedirects } = body;
 
       if (!url) {
         return NextResponse.json(
@@ -17,7 +17,7 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const parsed = await scrapeLandingPageFromUrl(url);
+      const parsed = await scrapeLandingPageFromUrl(url, { resolveRedirects: resolveRedirects === true });
       return NextResponse.json(parsed);
     }
 
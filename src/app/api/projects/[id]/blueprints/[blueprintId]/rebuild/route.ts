@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProject, getBlueprint } from '@/lib/db';
+import { enqueueGeneration } from '@/lib/jobs';
+
+// POST /api/projects/[id]/blueprints/[blueprintId]/rebuild - Queue Builder → QA → Repair from a saved version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; blueprintId: string }> }
+) {
+  try {
+    const { id, blueprintId } = await params;
+
+    const [project, blueprint] = await Promise.all([getProject(id), getBlueprint(blueprintId)]);
+    if (!project || !blueprint || blueprint.projectId !== id) {
+      return NextResponse.json(
+        { error: 'Blueprint not found' },
+        { status: 404 }
+      );
+    }
+
+    const job = await enqueueGeneration(project, 0, blueprint.id);
+    if (!job) {
+      // Already generating (prevents double-trigger)
+      return NextResponse.json(
+        { error: 'Generation already in progress' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Rebuild from blueprint v${blueprint.version} queued`,
+      projectId: id,
+      jobId: job.id,
+    });
+  } catch (error) {
+    console.error('Failed to queue rebuild:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue rebuild' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBlueprint } from '@/lib/db';
+
+// GET /api/projects/[id]/blueprints/[blueprintId] - Full blueprint, its analysis and QA reports
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; blueprintId: string }> }
+) {
+  try {
+    const { id, blueprintId } = await params;
+    const blueprint = await getBlueprint(blueprintId);
+
+    if (!blueprint || blueprint.projectId !== id) {
+      return NextResponse.json(
+        { error: 'Blueprint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(blueprint);
+  } catch (error) {
+    console.error('Failed to get blueprint:', error);
+    return NextResponse.json(
+      { error: 'Failed to get blueprint' },
+      { status: 500 }
+    );
+  }
+}
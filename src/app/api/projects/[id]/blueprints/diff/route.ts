@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBlueprint } from '@/lib/db';
+import { diffBlueprints } from '@/lib/pipeline';
+import type { LPBlueprint } from '@/lib/agents';
+
+// GET /api/projects/[id]/blueprints/diff?from=<blueprintId>&to=<blueprintId> - Field-level changes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to');
+
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        { error: 'Both from and to blueprint IDs are required' },
+        { status: 400 }
+      );
+    }
+
+    const [from, to] = await Promise.all([getBlueprint(fromId), getBlueprint(toId)]);
+    if (!from || !to || from.projectId !== id || to.projectId !== id) {
+      return NextResponse.json(
+        { error: 'Blueprint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      from: { id: from.id, version: from.version, createdAt: from.createdAt },
+      to: { id: to.id, version: to.version, createdAt: to.createdAt },
+      changes: diffBlueprints(from.blueprint as unknown as LPBlueprint, to.blueprint as unknown as LPBlueprint),
+    });
+  } catch (error) {
+    console.error('Failed to diff blueprints:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff blueprints' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProject, listBlueprints } from '@/lib/db';
+
+// GET /api/projects/[id]/blueprints - Blueprint versions with QA summaries, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const project = await getProject(id);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const blueprints = await listBlueprints(id);
+    type BlueprintRow = (typeof blueprints)[number];
+
+    return NextResponse.json({
+      blueprints: blueprints.map((blueprint: BlueprintRow) => {
+        const reports = blueprint.qaReports;
+        return {
+          id: blueprint.id,
+          version: blueprint.version,
+          totalSteps: blueprint.totalSteps,
+          jobId: blueprint.jobId,
+          createdAt: blueprint.createdAt,
+          variationCount: blueprint._count.variations, // Current variations built from it
+          qa: {
+            reports: reports.length,
+            passed: reports.filter((report: BlueprintRow['qaReports'][number]) => report.passed).length,
+            averageScore: reports.length
+              ? Math.round(reports.reduce((sum: number, report: BlueprintRow['qaReports'][number]) => sum + report.score, 0) / reports.length)
+              : null,
+          },
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Failed to list blueprints:', error);
+    return NextResponse.json(
+      { error: 'Failed to list blueprints' },
+      { status: 500 }
+    );
+  }
+}
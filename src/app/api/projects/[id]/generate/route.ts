@@ -1,13 +1,17 @@
 import { NextResponse } from 'next/server';
-import { getProject, updateProject, addVariation, deleteVariations } from '@/lib/db/projects';
+import { getProject } from '@/lib/db/projects';
+import { getActiveProjectJob } from '@/lib/db/jobs';
+import { enqueueGeneration, cancelQueuedJob } from '@/lib/jobs';
 
-// Background generation - starts generation and returns immediately
+// Background generation - queues a GENERATE_VARIATIONS job and returns immediately
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id: projectId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const priority = Number.isInteger(body?.priority) ? body.priority : 0;
 
     // Get project
     const project = await getProject(projectId);
@@ -15,14 +19,6 @@ export async function POST(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    // Guard: reject if already generating (prevents double-trigger)
-    if (project.status === 'GENERATING') {
-      return NextResponse.json(
-        { error: 'Generation already in progress' },
-        { status: 409 }
-      );
-    }
-
     const isV3 = project.pipelineVersion === 'v3';
     const options = (project.options as Record<string, unknown>) || {};
 
@@ -41,20 +37,21 @@ export async function POST(
       );
     }
 
-    // Update status to GENERATING
-    await updateProject(projectId, { status: 'GENERATING' });
-
-    // Start background generation (don't await - let it run in background)
-    const bgFn = isV3 ? generateV3InBackground : generateInBackground;
-    bgFn(projectId, project).catch(err => {
-      console.error('Background generation failed:', err);
-      updateProject(projectId, { status: 'FAILED' }).catch(console.error);
-    });
+    // Queued jobs survive a restart; the worker picks them up by priority
+    const job = await enqueueGeneration(project, priority);
+    if (!job) {
+      // Already generating (prevents double-trigger)
+      return NextResponse.json(
+        { error: 'Generation already in progress' },
+        { status: 409 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      message: 'Generation started',
-      projectId
+      message: 'Generation queued',
+      projectId,
+      jobId: job.id,
     });
   } catch (error) {
     console.error('Failed to start generation:', error);
@@ -65,133 +62,48 @@ export async function POST(
   }
 }
 
-type ProjectData = NonNullable<Awaited<ReturnType<typeof getProject>>>;
-
-// V1 background generation function
-async function generateInBackground(projectId: string, project: ProjectData) {
+// Progress of the project's pending/running generation job
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
   try {
-    const options = (project.options as Record<string, unknown>) || {};
-
-    const generateResponse = await fetch(
-      `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3002'}/api/generate`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sourcePage: {
-            html: project.sourceHtml,
-            sourceUrl: project.sourceUrl,
-            title: project.name,
-          },
-          options: {
-            ...options,
-            ctaUrlOverride: project.trackingUrl,
-            vertical: project.vertical,
-            language: project.language,
-            country: project.country,
-          },
-        }),
-      }
-    );
-
-    if (!generateResponse.ok) {
-      throw new Error('Generation failed');
-    }
-
-    const result = await generateResponse.json();
-
-    // Save variations
-    if (result.variations && result.variations.length > 0) {
-      for (const variation of result.variations) {
-        await addVariation(projectId, {
-          number: variation.variationNumber,
-          html: variation.html,
-        });
-      }
-    }
-
-    // Update project with analysis and status
-    await updateProject(projectId, {
-      status: 'COMPLETED',
-      analysis: result.analysis || undefined,
-    });
+    const { id: projectId } = await params;
+    const job = await getActiveProjectJob(projectId);
 
-    console.log(`Generation completed for project ${projectId}`);
+    return NextResponse.json({ job });
   } catch (error) {
-    console.error(`Generation failed for project ${projectId}:`, error);
-    await updateProject(projectId, { status: 'FAILED' });
-    throw error;
+    console.error('Failed to get generation status:', error);
+    return NextResponse.json(
+      { error: 'Failed to get generation status' },
+      { status: 500 }
+    );
   }
 }
 
-// V3 background generation function
-async function generateV3InBackground(projectId: string, project: ProjectData) {
+// Cancel the project's pending/running generation job
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
   try {
-    const options = (project.options as Record<string, unknown>) || {};
-    const brief = options.brief as string | undefined;
-
-    // Build request body — either source-page mode or brief mode
-    const body: Record<string, unknown> = {
-      options: {
-        ...options,
-        ctaUrlOverride: project.trackingUrl,
-        vertical: project.vertical,
-        language: project.language,
-        country: project.country,
-      },
-    };
-
-    if (project.sourceHtml) {
-      body.sourcePage = {
-        html: project.sourceHtml,
-        sourceUrl: project.sourceUrl,
-        title: project.name,
-      };
-    } else if (brief) {
-      body.brief = brief;
-    }
-
-    const generateResponse = await fetch(
-      `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3002'}/api/v3/generate`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-      }
-    );
-
-    if (!generateResponse.ok) {
-      const errorText = await generateResponse.text();
-      throw new Error(`V3 generation failed: ${generateResponse.status} - ${errorText.substring(0, 200)}`);
+    const { id: projectId } = await params;
+    const job = await getActiveProjectJob(projectId);
+    if (!job) {
+      return NextResponse.json({ error: 'No generation in progress' }, { status: 404 });
     }
 
-    const result = await generateResponse.json();
-
-    // Delete existing variations before saving new ones (avoids unique constraint)
-    await deleteVariations(projectId);
-
-    // Save variations
-    if (result.variations && result.variations.length > 0) {
-      for (const variation of result.variations) {
-        await addVariation(projectId, {
-          number: variation.variationNumber,
-          html: variation.html,
-        });
-      }
+    const cancelled = await cancelQueuedJob(job.id);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Generation already finished' }, { status: 409 });
     }
 
-    // Update project with analysis, blueprint, QA results, and status
-    await updateProject(projectId, {
-      status: 'COMPLETED',
-      analysis: result.analysis || undefined,
-      architectPlan: result.blueprint || undefined,
-      qaResults: result.qaResults?.[0] || undefined,
-    });
-
-    console.log(`V3 generation completed for project ${projectId}`);
+    return NextResponse.json({ success: true, jobId: job.id });
   } catch (error) {
-    console.error(`V3 generation failed for project ${projectId}:`, error);
-    await updateProject(projectId, { status: 'FAILED' });
-    throw error;
+    console.error('Failed to cancel generation:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel generation' },
+      { status: 500 }
+    );
   }
 }
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageSummary } from '@/lib/db';
+
+// GET /api/usage - LLM token/cost summary per day, project, user and agent
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const days = searchParams.get('days') ? parseInt(searchParams.get('days')!) : 30;
+    if (!Number.isFinite(days) || days < 1 || days > 365) {
+      return NextResponse.json(
+        { error: 'days must be between 1 and 365' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await getUsageSummary({
+      projectId: searchParams.get('projectId') || undefined,
+      userId: searchParams.get('userId') || undefined,
+      days,
+    });
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Failed to load usage summary:', error);
+    return NextResponse.json(
+      { error: 'Failed to load usage summary' },
+      { status: 500 }
+    );
+  }
+}
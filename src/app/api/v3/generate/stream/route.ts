@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mergeAgentRouting, trackLLMUsage, getTrackedLLMUsage } from '@/lib/llm';
+import {
+  runV3Pipeline,
+  planV3Blueprint,
+  buildFromEditedBlueprint,
+  validateBlueprint,
+  type V3PipelineEvent,
+} from '@/lib/pipeline';
+import { getProject, updateProject, startProjectGeneration } from '@/lib/db/projects';
+import { saveV3Result, saveTokenUsage } from '@/lib/db/generation';
+import type { ParsedLandingPage, GenerationOptions, AgentRouting } from '@/types';
+import type { ComponentAnalysis } from '@/types/component-analysis';
+import type { LPBlueprint } from '@/lib/agents';
+
+/**
+ * Streaming variant of /api/v3/generate (Server-Sent Events).
+ *
+ * Emits `stage`, `analysis`, `blueprint`, `token` (builder HTML as it is written),
+ * `variation`, `qa`, `repair`, then `done` with the full /api/v3/generate result
+ * or `error`. With a `projectId` the result is saved to the project, even if the
+ * client disconnects mid-stream.
+ *
+ * `stopAfter: 'architect'` ends after planning with a `plan` event (analysis + full
+ * blueprint) for the user to edit; posting that `analysis` and the edited `blueprint`
+ * back builds from it, skipping Analyzer and Architect.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sourcePage, brief, agentRouting, projectId, stopAfter, analysis, blueprint } = body as {
+      sourcePage?: ParsedLandingPage;
+      brief?: string;
+      options: Partial<GenerationOptions>;
+      agentRouting?: AgentRouting;
+      projectId?: string;
+      stopAfter?: 'architect';
+      analysis?: ComponentAnalysis;
+      blueprint?: LPBlueprint;
+    };
+
+    // Per-request routing overrides the project-level routing stored in options
+    const options: Partial<GenerationOptions> = {
+      ...body.options,
+      agentRouting: mergeAgentRouting(body.options?.agentRouting, agentRouting),
+    };
+
+    if (blueprint) {
+      if (!analysis?.flow) {
+        return NextResponse.json(
+          { error: 'The analysis the blueprint was planned from is required' },
+          { status: 400 }
+        );
+      }
+      const errors = validateBlueprint(blueprint);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: `Invalid blueprint: ${errors.join('; ')}`, details: errors },
+          { status: 400 }
+        );
+      }
+    } else if (!sourcePage && !brief) {
+      return NextResponse.json(
+        { error: 'Either source page data or a brief is required' },
+        { status: 400 }
+      );
+    }
+
+    // Planning only leaves the project as it is; building replaces its variations
+    const planOnly = !blueprint && stopAfter === 'architect';
+
+    const project = projectId ? await getProject(projectId) : null;
+    if (projectId && !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // Guard: reject if already generating (prevents double-trigger). Building claims the
+    // status in one conditional update so two requests can't both get through.
+    const claimed = project && !planOnly
+      ? await startProjectGeneration(project.id)
+      : project?.status !== 'GENERATING';
+    if (!claimed) {
+      return NextResponse.json(
+        { error: 'Generation already in progress' },
+        { status: 409 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let clientGone = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: V3PipelineEvent) => {
+          if (clientGone) return;
+          try {
+            controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+          } catch {
+            // Client disconnected - keep generating so the project still gets its result
+            clientGone = true;
+          }
+        };
+
+        await trackLLMUsage(async () => {
+          try {
+            if (planOnly) {
+              await planV3Blueprint({ sourcePage, brief }, options, send);
+              if (project) {
+                await saveTokenUsage(getTrackedLLMUsage(), { projectId: project.id, userId: project.userId });
+              }
+              return;
+            }
+
+            const result = blueprint
+              ? await buildFromEditedBlueprint(blueprint, analysis!, options, send, brief)
+              : await runV3Pipeline({ sourcePage, brief }, options, send);
+            if (project) {
+              await saveV3Result(project.id, result, { userId: project.userId });
+            }
+          } catch (error) {
+            console.error('V3 Stream error:', error);
+            const usage = getTrackedLLMUsage();
+            send({ type: 'error', error: error instanceof Error ? error.message : 'V3 workflow failed', usage });
+
+            if (project) {
+              await saveTokenUsage(usage, { projectId: project.id, userId: project.userId });
+              if (!planOnly) {
+                await updateProject(project.id, { status: 'FAILED' }).catch(console.error);
+              }
+            }
+          }
+        });
+
+        if (!clientGone) {
+          controller.close();
+        }
+      },
+      cancel() {
+        clientGone = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('V3 Stream setup error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start generation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { regenerateSection, applyAnswerParams, checkAnswerParams, findStep } from '@/lib/builder-agent';
+import { trackLLMUsage, getTrackedLLMUsage } from '@/lib/llm';
+import { getProject, getVariationByNumber } from '@/lib/db/projects';
+import { getBlueprint } from '@/lib/db/blueprints';
+import { saveVariationRevision } from '@/lib/db/revisions';
+import { recordTokenUsage } from '@/lib/db/usage';
+import type { LPBlueprint } from '@/lib/agents/architect';
+import type { AgentRouting } from '@/types/llm';
+
+/**
+ * Regenerate one step of a V3 variation and splice it into the page.
+ * With a `projectId` + `variationNumber` the saved variation is updated and the
+ * change recorded as a new revision; otherwise only the new HTML is returned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { html, stepNumber, instructions, agentRouting, projectId, variationNumber } = body as {
+      html?: string;              // Current page HTML (defaults to the saved variation)
+      stepNumber: number;
+      instructions?: string;
+      blueprint?: Partial<LPBlueprint>; // Used when the variation has no saved blueprint
+      agentRouting?: AgentRouting;
+      projectId?: string;
+      variationNumber?: number;
+    };
+
+    if (!Number.isInteger(stepNumber) || stepNumber < 1) {
+      return NextResponse.json(
+        { error: 'A step number is required' },
+        { status: 400 }
+      );
+    }
+
+    const project = projectId ? await getProject(projectId) : null;
+    if (projectId && !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    const variation = project && variationNumber
+      ? await getVariationByNumber(project.id, variationNumber)
+      : null;
+
+    const pageHtml = html || variation?.html;
+    if (!pageHtml) {
+      return NextResponse.json(
+        { error: 'HTML or a saved variation is required' },
+        { status: 400 }
+      );
+    }
+
+    // Prefer the blueprint the variation was built from
+    const saved = variation?.blueprintId ? await getBlueprint(variation.blueprintId) : null;
+    const blueprint: Partial<LPBlueprint> | undefined = (saved?.blueprint as unknown as LPBlueprint | undefined) || body.blueprint;
+
+    console.log(`\n🔨 V3 Regenerate step ${stepNumber}...`);
+
+    const { result, usage } = await trackLLMUsage(async () => ({
+      result: await regenerateSection(pageHtml, {
+        stepNumber,
+        section: blueprint?.sections?.find(section => section.stepNumber === stepNumber),
+        visualDirection: blueprint?.visualDirection,
+        instructions: instructions?.trim() || undefined,
+        routing: agentRouting,
+      }),
+      usage: getTrackedLLMUsage(),
+    }));
+
+    if (project) {
+      await recordTokenUsage(usage, {
+        projectId: project.id,
+        userId: project.userId,
+        variationId: variation?.id,
+      }).catch(error => console.error(`Failed to record section token usage for project ${project.id}:`, error));
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to regenerate step', usage },
+        { status: 422 }
+      );
+    }
+
+    // The model may drop the answers' data-param/data-value: put the mapped ones back and
+    // refuse a step that still can't carry its param
+    const answerParams = blueprint?.technical?.answerParams;
+    const newHtml = applyAnswerParams(result.html, answerParams);
+    const problems = checkAnswerParams(newHtml, answerParams?.filter(mapping => mapping.stepNumber === stepNumber));
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { error: `Regenerated step breaks its answer param: ${problems.join('; ')}`, usage },
+        { status: 422 }
+      );
+    }
+
+    const revision = variation
+      ? await saveVariationRevision(variation.id, {
+          html: newHtml,
+          source: 'section',
+          stepNumber,
+          instructions: instructions?.trim() || undefined,
+        })
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      html: newHtml,
+      stepHtml: findStep(newHtml, stepNumber)?.html ?? result.stepHtml,
+      stepNumber,
+      revision: revision?.revision ?? null,
+      usage,
+    });
+  } catch (error) {
+    console.error('V3 Regenerate section error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to regenerate step' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { repairLandingPage } from '@/lib/agents';
+import { repairUntilVerified } from '@/lib/agents';
+import { trackLLMUsage, getTrackedLLMUsage } from '@/lib/llm';
+import { getProject, getVariation } from '@/lib/db/projects';
+import { recordTokenUsage } from '@/lib/db/usage';
 import type { LPBlueprint } from '@/lib/agents/architect';
 import type { QAResult } from '@/lib/agents/qa';
+import type { AgentRouting } from '@/types/llm';
+import { MAX_REPAIR_ITERATIONS } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { html, blueprint, qaResult, userIssue } = body as {
+    const { html, blueprint, qaResult, userIssue, agentRouting, maxIterations, projectId, variationId } = body as {
       html: string;
       blueprint: Partial<LPBlueprint>;
       qaResult?: Partial<QAResult>;
       userIssue?: { description: string; expectedBehavior?: string };
+      agentRouting?: AgentRouting;
+      maxIterations?: number; // Repair rounds (default: DEFAULT_REPAIR_ITERATIONS, at most MAX_REPAIR_ITERATIONS)
+      projectId?: string; // Record token usage against this project
+      variationId?: string;
     };
 
     if (!html) {
@@ -20,6 +29,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (maxIterations !== undefined && !Number.isInteger(maxIterations)) {
+      return NextResponse.json(
+        { error: 'maxIterations must be an integer' },
+        { status: 400 }
+      );
+    }
+
     // Convert partial blueprint to full blueprint with defaults
     const fullBlueprint: LPBlueprint = {
       id: blueprint.id || 'repair-blueprint',
@@ -87,12 +103,25 @@ export async function POST(request: NextRequest) {
     console.log('QA issues:', fullQaResult?.issues?.length || 0);
     console.log('User issue:', userIssue?.description?.slice(0, 50) || 'None');
 
-    const repairResult = await repairLandingPage(
-      html,
-      fullBlueprint,
-      fullQaResult,
-      userIssue
-    );
+    const { repairResult, usage } = await trackLLMUsage(async () => ({
+      repairResult: await repairUntilVerified(
+        html,
+        fullBlueprint,
+        fullQaResult,
+        userIssue,
+        {
+          maxIterations: maxIterations === undefined ? undefined : Math.min(MAX_REPAIR_ITERATIONS, Math.max(1, maxIterations)),
+          routing: agentRouting,
+          // The HTML comes from the caller: only the static rules check it, its scripts aren't run
+          clickThrough: false,
+        }
+      ),
+      usage: getTrackedLLMUsage(),
+    }));
+
+    if (projectId) {
+      await saveRepairUsage(usage, projectId, variationId);
+    }
 
     console.log('Repair complete:', {
       fixedCount: repairResult.fixedCount,
@@ -107,6 +136,8 @@ export async function POST(request: NextRequest) {
       fixedCount: repairResult.fixedCount,
       failedCount: repairResult.failedCount,
       summary: repairResult.summary,
+      qaResult: repairResult.qaResult, // QA of the repaired page
+      usage,
     });
   } catch (error) {
     console.error('V3 Repair error:', error);
@@ -116,3 +147,27 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Persist repair token usage (never fails the repair).
+ * Variation IDs from an unsaved generation aren't in the DB, so only link known ones.
+ */
+async function saveRepairUsage(
+  usage: ReturnType<typeof getTrackedLLMUsage>,
+  projectId: string,
+  variationId?: string
+) {
+  try {
+    const project = await getProject(projectId);
+    if (!project) return;
+
+    const variation = variationId ? await getVariation(variationId) : null;
+    await recordTokenUsage(usage, {
+      projectId,
+      userId: project.userId,
+      variationId: variation?.projectId === projectId ? variation.id : undefined,
+    });
+  } catch (error) {
+    console.error(`Failed to record repair token usage for project ${projectId}:`, error);
+  }
+}
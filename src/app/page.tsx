@@ -38,9 +38,11 @@ import {
   ChevronLeft,
   ChevronRight,
   Copy,
+  Ban,
+  History,
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
-import { QuickSettings, AdvancedSettings } from '@/components/landing-builder';
+import { QuickSettings, AdvancedSettings, UsagePanel, BatchPanel, BlueprintHistory } from '@/components/landing-builder';
 import { COUNTRIES, LANGUAGES } from '@/types/languages';
 import type { GenerationOptions } from '@/types';
 
@@ -66,6 +68,14 @@ type Project = {
   updatedAt: string;
   variations: Variation[];
   _count?: { variations: number };
+  jobs?: GenerationJob[]; // Active generation job, if any
+};
+
+type GenerationJob = {
+  id: string;
+  status: 'PENDING' | 'RUNNING';
+  progress: number;
+  currentStep: string | null;
 };
 
 // Relative time helper
@@ -118,6 +128,9 @@ export default function AdminDashboard() {
   // View Settings dialog state
   const [settingsProject, setSettingsProject] = useState<Project | null>(null);
 
+  // Blueprint history dialog state
+  const [historyProject, setHistoryProject] = useState<Project | null>(null);
+
   // Clone with New Settings dialog state
   const [cloneProject, setCloneProject] = useState<Project | null>(null);
   const [cloneOptions, setCloneOptions] = useState<Partial<GenerationOptions>>({});
@@ -464,16 +477,35 @@ export default function AdminDashboard() {
     }
   };
 
+  // Cancel a queued or running generation
+  const handleCancelGeneration = async (projectId: string) => {
+    if (!confirm('Cancel this generation?')) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/generate`, {
+        method: 'DELETE',
+      });
+      if (response.ok) {
+        fetchProjects();
+      }
+    } catch (error) {
+      console.error('Failed to cancel generation:', error);
+    }
+  };
+
   // Get status badge
-  const getStatusBadge = (status: Project['status']) => {
-    switch (status) {
+  const getStatusBadge = (project: Project) => {
+    const job = project.jobs?.[0];
+
+    switch (project.status) {
       case 'COMPLETED':
         return <Badge className="bg-green-500">Completed</Badge>;
       case 'GENERATING':
         return (
-          <Badge className="bg-yellow-500">
+          <Badge className="bg-yellow-500" title={job?.currentStep || undefined}>
             <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-            Generating
+            {job?.status === 'PENDING' ? 'Queued' : 'Generating'}
+            {job?.status === 'RUNNING' && job.progress > 0 && ` ${job.progress}%`}
           </Badge>
         );
       case 'FAILED':
@@ -520,6 +552,7 @@ export default function AdminDashboard() {
               <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
               <TabsTrigger value="new">New Project</TabsTrigger>
               <TabsTrigger value="projects">Projects</TabsTrigger>
+              <TabsTrigger value="batch">Batch</TabsTrigger>
               <TabsTrigger value="v3" className="gap-1">
                 <Sparkles className="h-3 w-3" />
                 V3 Architect
@@ -594,6 +627,11 @@ export default function AdminDashboard() {
               </Card>
             </div>
 
+            {/* LLM Spend */}
+            <div className="mb-8">
+              <UsagePanel />
+            </div>
+
             {/* Recent Projects */}
             <Card>
               <CardHeader>
@@ -638,7 +676,7 @@ export default function AdminDashboard() {
                               {project.variations.length} variation(s)
                             </span>
                           )}
-                          {getStatusBadge(project.status)}
+                          {getStatusBadge(project)}
                         </div>
                       </div>
                     ))}
@@ -814,7 +852,7 @@ export default function AdminDashboard() {
                             </div>
                           )}
                         </TableCell>
-                        <TableCell>{getStatusBadge(project.status)}</TableCell>
+                        <TableCell>{getStatusBadge(project)}</TableCell>
                         <TableCell>{project.variations?.length || 0}</TableCell>
                         <TableCell>{project.language.toUpperCase()}</TableCell>
                         <TableCell className="text-muted-foreground">
@@ -853,6 +891,28 @@ export default function AdminDashboard() {
                                 </Button>
                               </>
                             )}
+                            {project.pipelineVersion === 'v3' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setHistoryProject(project)}
+                                title="Blueprint History"
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {project.status === 'GENERATING' && project.jobs?.[0] && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => handleCancelGeneration(project.id)}
+                                title="Cancel Generation"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="icon"
@@ -872,6 +932,11 @@ export default function AdminDashboard() {
             )}
           </TabsContent>
 
+          {/* Batch Tab */}
+          <TabsContent value="batch">
+            <BatchPanel onProjectsChanged={fetchProjects} />
+          </TabsContent>
+
           {/* V3 Architect Tab */}
           <TabsContent value="v3">
             <div className="grid md:grid-cols-2 gap-6">
@@ -1218,6 +1283,13 @@ export default function AdminDashboard() {
         </DialogContent>
       </Dialog>
 
+      {/* Blueprint History Dialog */}
+      <BlueprintHistory
+        project={historyProject}
+        onOpenChange={(open) => !open && setHistoryProject(null)}
+        onRebuildQueued={fetchProjects}
+      />
+
       {/* Clone with New Settings Dialog */}
       <Dialog open={!!cloneProject} onOpenChange={(open) => !open && setCloneProject(null)}>
         <DialogContent className="max-w-5xl h-[90vh] p-0 flex flex-col">
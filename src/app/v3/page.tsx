@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
-import { useSearchParams, useRouter } from 'next/navigation';
+import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -12,10 +12,15 @@ import {
   QuickSettings,
   AdvancedSettings,
   BriefInput,
+  BlueprintEditor,
 } from '@/components/landing-builder';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
 } from '@/components/ui/dialog';
 import Link from 'next/link';
 import {
@@ -38,6 +43,8 @@ import {
 } from 'lucide-react';
 import type { ParsedLandingPage, GenerationOptions } from '@/types';
 import type { ComponentAnalysis } from '@/types/component-analysis';
+import type { V3PipelineEvent, V3PipelineInput } from '@/lib/pipeline';
+import type { LPBlueprint } from '@/lib/agents';
 
 const DEFAULT_V3_OPTIONS: Partial<GenerationOptions> = {
   variationCount: 1,
@@ -57,6 +64,13 @@ const DEFAULT_V3_OPTIONS: Partial<GenerationOptions> = {
 type Step = 'upload' | 'analyze' | 'architect' | 'build' | 'qa' | 'repair' | 'complete';
 type ParseInput = { type: 'url' | 'file'; value: string | File };
 
+// Body for /api/v3/generate/stream: a full run, a plan-only run, or a build from an edited blueprint
+type StreamRequest = V3PipelineInput & {
+  stopAfter?: 'architect';
+  analysis?: ComponentAnalysis;
+  blueprint?: LPBlueprint;
+};
+
 type Project = {
   id: string;
   name: string;
@@ -114,6 +128,8 @@ type GeneratedVariation = {
     fixedCount: number;
     summary: string;
   };
+  revision?: number; // Latest saved revision after regenerating a step
+  builtWith?: 'llm' | 'template';
 };
 
 const SOURCE_STEPS: { id: Step; label: string; icon: React.ElementType; description: string }[] = [
@@ -157,17 +173,23 @@ export default function V3BuilderPage() {
 
 function V3BuilderContent() {
   const searchParams = useSearchParams();
-  const router = useRouter();
   const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const [project, setProject] = useState<Project | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isParsing, setIsParsing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isRepairing, setIsRepairing] = useState(false);
+  const [regenerateIndex, setRegenerateIndex] = useState<number | null>(null);
+  const [regenerateStep, setRegenerateStep] = useState(1);
+  const [regenerateInstructions, setRegenerateInstructions] = useState('');
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
   const [step, setStep] = useState<Step>('upload');
   const [parsedPage, setParsedPage] = useState<ParsedLandingPage | null>(null);
   const [analysis, setAnalysis] = useState<ComponentAnalysis | null>(null);
   const [blueprint, setBlueprint] = useState<BlueprintSummary | null>(null);
+  const [editableBlueprint, setEditableBlueprint] = useState<LPBlueprint | null>(null);
+  const [reviewBlueprint, setReviewBlueprint] = useState(false);
   const [variations, setVariations] = useState<GeneratedVariation[]>([]);
   const [qaResults, setQaResults] = useState<QAResultSummary[]>([]);
   const [userIssueDescription, setUserIssueDescription] = useState('');
@@ -177,6 +199,11 @@ function V3BuilderContent() {
   const [options, setOptions] = useState<Partial<GenerationOptions>>(DEFAULT_V3_OPTIONS);
   const [inputMode, setInputMode] = useState<'source' | 'scratch'>('source');
   const [briefText, setBriefText] = useState('');
+  const [liveHtml, setLiveHtml] = useState('');
+  const [liveVariationNumber, setLiveVariationNumber] = useState(1);
+  const liveHtmlRef = useRef('');
+  const liveVariationRef = useRef(1);
+  const liveFlushRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Read mode from URL query param
   useEffect(() => {
@@ -366,7 +393,136 @@ function V3BuilderContent() {
     }
   };
 
-  // Fire-and-forget V3 generation with source page, then redirect to dashboard
+  // Apply one streamed pipeline event to the page state
+  const handleStreamEvent = (event: V3PipelineEvent) => {
+    switch (event.type) {
+      case 'stage':
+        if (event.status === 'started' && event.stage !== 'embed' && event.stage !== 'repair') {
+          setStep(event.stage);
+        }
+        break;
+      case 'analysis':
+        setAnalysis(event.analysis);
+        break;
+      case 'blueprint':
+        setBlueprint(event.blueprint);
+        break;
+      case 'plan':
+        // Stopped after the Architect: hand the full blueprint to the editor
+        setAnalysis(event.analysis);
+        setEditableBlueprint(event.blueprint);
+        setStep('architect');
+        setIsGenerating(false);
+        break;
+      case 'token':
+        // Builder HTML as it is written - flushed to the live preview a few times per second
+        if (event.variationNumber !== liveVariationRef.current) {
+          liveHtmlRef.current = '';
+          liveVariationRef.current = event.variationNumber;
+          setLiveVariationNumber(event.variationNumber);
+        }
+        liveHtmlRef.current += event.text;
+        if (!liveFlushRef.current) {
+          liveFlushRef.current = setTimeout(() => {
+            liveFlushRef.current = null;
+            setLiveHtml(liveHtmlRef.current);
+          }, 300);
+        }
+        break;
+      case 'variation':
+        liveHtmlRef.current = '';
+        setLiveHtml('');
+        setVariations(prev => [
+          ...prev.filter(v => v.variationNumber !== event.variationNumber),
+          { id: `variation-${event.variationNumber}`, variationNumber: event.variationNumber, html: event.html },
+        ]);
+        break;
+      case 'qa':
+        setQaResults(prev => [...prev, event.qaResult]);
+        setVariations(prev => prev.map(v =>
+          v.variationNumber === event.variationNumber ? { ...v, qaResult: event.qaResult } : v
+        ));
+        break;
+      case 'repair':
+        setVariations(prev => prev.map(v =>
+          v.variationNumber === event.variationNumber
+            ? { ...v, repairResult: { fixedCount: event.fixedCount, summary: event.summary } }
+            : v
+        ));
+        break;
+      case 'done':
+        setEditableBlueprint(null);
+        setAnalysis(event.result.analysis);
+        setBlueprint(event.result.blueprint);
+        setQaResults(event.result.qaResults);
+        setVariations(event.result.variations.map(v => ({
+          id: v.id,
+          variationNumber: v.variationNumber,
+          html: v.html,
+          qaResult: v.qaResult || undefined,
+          builtWith: v.builtWith,
+          repairResult: v.repairResult
+            ? { fixedCount: v.repairResult.fixedCount, summary: v.repairResult.summary }
+            : undefined,
+        })));
+        setStep('complete');
+        setIsGenerating(false);
+        break;
+      case 'error':
+        throw new Error(event.error);
+    }
+  };
+
+  // Run the V3 pipeline through the streaming endpoint, updating each step as it completes
+  const streamV3Generation = async (input: StreamRequest) => {
+    if (!project) return;
+
+    setVariations([]);
+    setQaResults([]);
+    setLiveHtml('');
+    liveHtmlRef.current = '';
+
+    const response = await fetch('/api/v3/generate/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...input, options, projectId: project.id }),
+    });
+
+    if (!response.ok || !response.body) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || 'Failed to start generation');
+    }
+
+    // Parse SSE frames ("event: ...\ndata: {...}\n\n")
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() || '';
+
+      for (const frame of frames) {
+        const data = frame.split('\n').find(line => line.startsWith('data: '));
+        if (data) {
+          const event: V3PipelineEvent = JSON.parse(data.slice(6));
+          handleStreamEvent(event);
+          finished = finished || event.type === 'done' || event.type === 'plan';
+        }
+      }
+    }
+
+    if (!finished) {
+      throw new Error('Generation stream ended unexpectedly');
+    }
+  };
+
+  // Stream V3 generation with source page
   const runV3GenerationWithPage = async (page: ParsedLandingPage) => {
     if (!project) return;
 
@@ -389,18 +545,8 @@ function V3BuilderContent() {
         }),
       });
 
-      // Trigger background generation
-      const response = await fetch(`/api/projects/${project.id}/generate`, {
-        method: 'POST',
-      });
-
-      if (!response.ok) {
-        const result = await response.json();
-        throw new Error(result.error || 'Failed to start generation');
-      }
-
-      // Redirect to dashboard — generation runs in background
-      router.push('/');
+      // Stream the pipeline - the server saves the result to the project
+      await streamV3Generation({ sourcePage: page, stopAfter: reviewBlueprint ? 'architect' : undefined });
     } catch (error) {
       console.error('V3 generation error:', error);
       setGenerationError(error instanceof Error ? error.message : 'Failed to start generation');
@@ -415,7 +561,7 @@ function V3BuilderContent() {
     }
   };
 
-  // Fire-and-forget V3 generation from brief, then redirect to dashboard
+  // Stream V3 generation from brief
   const runV3GenerationFromBrief = async () => {
     if (!briefText.trim() || !project) return;
 
@@ -442,18 +588,8 @@ function V3BuilderContent() {
         }),
       });
 
-      // Trigger background generation
-      const response = await fetch(`/api/projects/${project.id}/generate`, {
-        method: 'POST',
-      });
-
-      if (!response.ok) {
-        const result = await response.json();
-        throw new Error(result.error || 'Failed to start generation');
-      }
-
-      // Redirect to dashboard — generation runs in background
-      router.push('/');
+      // Stream the pipeline - the server saves the result to the project
+      await streamV3Generation({ brief: briefText, stopAfter: reviewBlueprint ? 'architect' : undefined });
     } catch (error) {
       console.error('V3 scratch generation error:', error);
       setGenerationError(error instanceof Error ? error.message : 'Failed to start generation');
@@ -461,6 +597,27 @@ function V3BuilderContent() {
     }
   };
 
+  // Build from the reviewed/edited blueprint (Builder → QA → Repair)
+  const buildFromEditedBlueprint = async () => {
+    if (!editableBlueprint || !analysis) return;
+
+    setIsGenerating(true);
+    setGenerationError(null);
+
+    try {
+      await streamV3Generation({
+        analysis,
+        blueprint: editableBlueprint,
+        brief: inputMode === 'scratch' ? briefText : undefined,
+      });
+    } catch (error) {
+      console.error('V3 build error:', error);
+      setGenerationError(error instanceof Error ? error.message : 'Failed to build from blueprint');
+      setIsGenerating(false);
+      setStep('architect');
+    }
+  };
+
   // Run repair on a variation
   const runRepair = async (variationIndex: number) => {
     if (!variations[variationIndex]) return;
@@ -476,6 +633,8 @@ function V3BuilderContent() {
           blueprint,
           qaResult: variations[variationIndex].qaResult,
           userIssue: userIssueDescription ? { description: userIssueDescription } : undefined,
+          projectId: project?.id,
+          variationId: variations[variationIndex].id,
         }),
       });
 
@@ -490,6 +649,7 @@ function V3BuilderContent() {
       updatedVariations[variationIndex] = {
         ...updatedVariations[variationIndex],
         html: result.html,
+        qaResult: result.qaResult || updatedVariations[variationIndex].qaResult,
         repairResult: {
           fixedCount: result.fixedCount,
           summary: result.summary,
@@ -508,6 +668,65 @@ function V3BuilderContent() {
     }
   };
 
+  // Steps a variation can regenerate: the blueprint's sections, else the steps found in its HTML
+  const getRegenerableSteps = (variation: GeneratedVariation) => {
+    if (blueprint?.sections?.length) {
+      return blueprint.sections.map(section => ({ stepNumber: section.stepNumber, label: section.title }));
+    }
+    const numbers = [...variation.html.matchAll(/id=["']step-?(\d+)["']/g)].map(match => Number(match[1]));
+    return [...new Set(numbers)].sort((a, b) => a - b).map(stepNumber => ({ stepNumber, label: `Step ${stepNumber}` }));
+  };
+
+  const openRegenerate = (variationIndex: number) => {
+    setRegenerateIndex(variationIndex);
+    setRegenerateStep(1);
+    setRegenerateInstructions('');
+    setRegenerateError(null);
+  };
+
+  // Regenerate one step of a variation; the rest of the page is kept as is
+  const runRegenerateStep = async () => {
+    if (regenerateIndex === null) return;
+    const variation = variations[regenerateIndex];
+    if (!variation) return;
+
+    setIsRegenerating(true);
+    setRegenerateError(null);
+
+    try {
+      const response = await fetch('/api/v3/regenerate-section', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          html: variation.html,
+          stepNumber: regenerateStep,
+          instructions: regenerateInstructions || undefined,
+          blueprint,
+          projectId: project?.id,
+          variationNumber: variation.variationNumber,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setRegenerateError(result.error || 'Failed to regenerate step');
+        return;
+      }
+
+      setVariations(prev => prev.map(v =>
+        v.variationNumber === variation.variationNumber
+          ? { ...v, html: result.html, revision: result.revision ?? v.revision }
+          : v
+      ));
+      setRegenerateIndex(null);
+    } catch (error) {
+      console.error('Regenerate step error:', error);
+      setRegenerateError('Failed to regenerate step');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
   // Download HTML file
   const downloadHtml = (html: string, filename: string) => {
     const blob = new Blob([html], { type: 'text/html' });
@@ -713,6 +932,27 @@ function V3BuilderContent() {
                   options={options}
                   onChange={setOptions}
                 />
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={reviewBlueprint}
+                    onCheckedChange={checked => setReviewBlueprint(checked === true)}
+                  />
+                  Review and edit the blueprint before building
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={options.builderMode === 'template'}
+                    onCheckedChange={checked => setOptions({ ...options, builderMode: checked === true ? 'template' : 'llm' })}
+                  />
+                  Build from templates (instant, no AI cost)
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={options.builderMode === 'tree'}
+                    onCheckedChange={checked => setOptions({ ...options, builderMode: checked === true ? 'tree' : 'llm' })}
+                  />
+                  Build as a component tree (validated structure, auto-repaired)
+                </label>
               </div>
             </div>
           </div>
@@ -804,7 +1044,21 @@ function V3BuilderContent() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {blueprint ? (
+                {editableBlueprint && !isGenerating ? (
+                  <div className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      Review the Architect&apos;s plan: edit copy, reorder questions, adjust colours and
+                      urgency elements, then build.
+                    </p>
+                    <BlueprintEditor blueprint={editableBlueprint} onChange={setEditableBlueprint} />
+                    <div className="flex justify-end">
+                      <Button onClick={buildFromEditedBlueprint} className="bg-purple-600 hover:bg-purple-700">
+                        <Hammer className="h-4 w-4 mr-2" />
+                        Build from Blueprint
+                      </Button>
+                    </div>
+                  </div>
+                ) : blueprint ? (
                   <div className="space-y-4">
                     <div className="p-4 bg-green-50 dark:bg-green-950/20 rounded-lg border border-green-200">
                       <div className="flex items-center gap-2 text-green-700 dark:text-green-300">
@@ -901,6 +1155,21 @@ function V3BuilderContent() {
                     </div>
                   </div>
                 )}
+
+                {/* Live preview of the variation being written (scripts disabled until complete) */}
+                {isGenerating && liveHtml && (
+                  <div className="mt-4">
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Live preview — variation {liveVariationNumber} ({Math.round(liveHtml.length / 1024)} KB)
+                    </p>
+                    <iframe
+                      srcDoc={liveHtml}
+                      className="w-full h-[500px] border rounded-lg bg-white"
+                      title="Live preview"
+                      sandbox=""
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -1079,11 +1348,16 @@ function V3BuilderContent() {
                       <CardContent className="pt-4">
                         <div className="flex items-center justify-between mb-3">
                           <h4 className="font-medium">Variation {index + 1}</h4>
-                          {variation.qaResult && (
-                            <Badge variant={variation.qaResult.passed ? 'default' : 'secondary'}>
-                              QA: {variation.qaResult.score}/100
-                            </Badge>
-                          )}
+                          <div className="flex gap-1">
+                            {variation.builtWith === 'template' && (
+                              <Badge variant="outline" title="Rendered from the blueprint without the AI builder">Template</Badge>
+                            )}
+                            {variation.qaResult && (
+                              <Badge variant={variation.qaResult.passed ? 'default' : 'secondary'}>
+                                QA: {variation.qaResult.score}/100
+                              </Badge>
+                            )}
+                          </div>
                         </div>
 
                         {variation.repairResult && (
@@ -1093,6 +1367,10 @@ function V3BuilderContent() {
                           </div>
                         )}
 
+                        {variation.revision && (
+                          <Badge variant="outline" className="mb-3">Revision {variation.revision}</Badge>
+                        )}
+
                         <div className="flex gap-2">
                           <Button
                             variant="outline"
@@ -1120,6 +1398,15 @@ function V3BuilderContent() {
                             Download
                           </Button>
                         </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="w-full mt-2"
+                          onClick={() => openRegenerate(index)}
+                        >
+                          <RefreshCw className="h-3 w-3 mr-1" />
+                          Regenerate Step
+                        </Button>
                       </CardContent>
                     </Card>
                   ))}
@@ -1130,6 +1417,59 @@ function V3BuilderContent() {
         )}
       </main>
 
+      {/* Regenerate Step Modal */}
+      <Dialog open={regenerateIndex !== null} onOpenChange={open => !open && setRegenerateIndex(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Regenerate a Step</DialogTitle>
+            <DialogDescription>
+              Variation {regenerateIndex !== null ? regenerateIndex + 1 : ''} - only the selected step is rebuilt; the other steps, scripts and styles stay as they are
+            </DialogDescription>
+          </DialogHeader>
+          {regenerateIndex !== null && variations[regenerateIndex] && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {getRegenerableSteps(variations[regenerateIndex]).map(item => (
+                  <Button
+                    key={item.stepNumber}
+                    variant={regenerateStep === item.stepNumber ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setRegenerateStep(item.stepNumber)}
+                  >
+                    {item.stepNumber}. {item.label}
+                  </Button>
+                ))}
+              </div>
+              <Textarea
+                placeholder="What should change? e.g. 'Shorter headline, make the button green' (optional)"
+                value={regenerateInstructions}
+                onChange={e => setRegenerateInstructions(e.target.value)}
+                rows={3}
+              />
+              {regenerateError && <p className="text-sm text-red-600">{regenerateError}</p>}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setRegenerateIndex(null)} disabled={isRegenerating}>
+                  Cancel
+                </Button>
+                <Button onClick={runRegenerateStep} disabled={isRegenerating}>
+                  {isRegenerating ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Regenerating...
+                    </>
+                  ) : (
+                    <>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Regenerate Step {regenerateStep}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Preview Modal */}
       <Dialog open={previewOpen} onOpenChange={setPreviewOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] p-0">
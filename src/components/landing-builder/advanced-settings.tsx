@@ -1,15 +1,68 @@
 'use client';
 
 import { useState } from 'react';
-import { ChevronDown, ChevronRight, Palette, Layout, Link2, Type, Sparkles } from 'lucide-react';
+import { ChevronDown, ChevronRight, Palette, Layout, Link2, Type, Sparkles, Cpu, Activity, Gauge } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
-import type { GenerationOptions, TextHandling, ColorScheme, LayoutStyle, LinkHandling, CustomColors } from '@/types';
-import type { AddElementOptions } from '@/types/builder';
+import type { GenerationOptions, TextHandling, ColorScheme, LayoutStyle, LinkHandling, CustomColors, AgentName, LLMProviderName, TrackingConfig, TrackingEventMapping, TrackingPlatform, PerformanceBudget } from '@/types';
+import type { AddElementOptions, AnswerParamMapping } from '@/types/builder';
+import { CLICK_ID_PARAMS, CONSENT_CATEGORIES, TRACKING_PLATFORMS, TRACKING_PLATFORM_LABELS, DEFAULT_PERFORMANCE_BUDGET, DEFAULT_REPAIR_ITERATIONS, MAX_REPAIR_ITERATIONS } from '@/types/generation-options';
+import { requiresConsent } from '@/types/languages';
+import { LLM_PROVIDERS, LLM_PROVIDER_MODELS, DEFAULT_AGENT_ROUTING } from '@/types/llm';
+
+const AGENT_LABELS: Record<AgentName, string> = {
+  analyzer: 'Analyzer',
+  promptWriter: 'Prompt Writer',
+  architect: 'Architect',
+  builder: 'Builder',
+  qa: 'QA',
+  repair: 'Repair',
+};
+
+// "2=age, 3=sub2" → answer param mappings (invalid entries are dropped)
+function parseAnswerParams(text: string): AnswerParamMapping[] | undefined {
+  const mappings = text.split(',')
+    .map(entry => entry.split('=').map(part => part.trim()))
+    .filter(([step, param]) => Number(step) > 0 && /^[A-Za-z][\w.-]*$/.test(param || ''))
+    .map(([step, param]) => ({ stepNumber: Number(step), param }));
+  return mappings.length > 0 ? mappings : undefined;
+}
+
+const PIXEL_ID_PLACEHOLDERS: Record<Exclude<TrackingPlatform, 'custom'>, string> = {
+  facebook: '123456789012345',
+  tiktok: 'C1A2B3C4D5E6F7G8H9I0',
+  ga4: 'G-XXXXXXXXXX',
+  gtm: 'GTM-XXXXXXX',
+  snap: '1a2b3c4d-5e6f-7a8b-9c0d-1e2f3a4b5c6d',
+};
+
+// "page=ViewContent, 3=Lead, cta=InitiateCheckout" → event mappings (invalid entries are dropped)
+function parseTrackingEvents(text: string): TrackingEventMapping[] {
+  return text.split(',')
+    .map(entry => entry.split('=').map(part => part.trim()))
+    .filter(([trigger, event]) => !!event && (trigger === 'page' || trigger === 'cta' || Number(trigger) > 0))
+    .map(([trigger, event]): TrackingEventMapping => trigger === 'page'
+      ? { trigger: 'page-view', event }
+      : trigger === 'cta' ? { trigger: 'cta-click', event } : { trigger: 'step', stepNumber: Number(trigger), event });
+}
+
+const PERFORMANCE_BUDGET_LABELS: Record<keyof PerformanceBudget, string> = {
+  totalKB: 'Page (KB)',
+  imageKB: 'Images (KB)',
+  scriptKB: 'Scripts (KB)',
+  cssKB: 'CSS (KB)',
+  renderBlocking: 'Blocking files',
+  fonts: 'Web fonts',
+  loadSeconds3G: '3G load (s)',
+};
+
+function formatTrackingEvents(events: TrackingEventMapping[] = []): string {
+  return events.map(mapping => `${mapping.trigger === 'page-view' ? 'page' : mapping.trigger === 'cta-click' ? 'cta' : mapping.stepNumber}=${mapping.event}`).join(', ');
+}
 
 interface AdvancedSettingsProps {
   options: Partial<GenerationOptions>;
@@ -52,6 +105,47 @@ export function AdvancedSettings({
     });
   };
 
+  // One pixel per platform; an empty ID (or custom code) removes it
+  const updateTracking = (updates: Partial<TrackingConfig>) => {
+    const tracking = { pixels: [], events: [], ...options.tracking, ...updates };
+    updateOption('tracking', tracking.pixels.length > 0 || tracking.events.length > 0 ? tracking : undefined);
+  };
+
+  const setTrackingPixel = (platform: TrackingPlatform, value: string) => {
+    const pixels = (options.tracking?.pixels || []).filter(pixel => pixel.platform !== platform);
+    if (value.trim()) {
+      pixels.push(platform === 'custom' ? { platform, id: '', code: value.trim() } : { platform, id: value.trim() });
+    }
+    updateTracking({ pixels });
+  };
+
+  const trackingPixel = (platform: TrackingPlatform) =>
+    options.tracking?.pixels.find(pixel => pixel.platform === platform);
+
+  // An empty field falls back to the default limit
+  const updatePerformanceBudget = (limit: keyof PerformanceBudget, value: string) => {
+    const budget = { ...options.performanceBudget };
+    if (value.trim() && Number(value) >= 0) {
+      budget[limit] = Number(value);
+    } else {
+      delete budget[limit];
+    }
+    updateOption('performanceBudget', Object.keys(budget).length > 0 ? budget : undefined);
+  };
+
+  // Until it's set, consent follows the project's country
+  const consent = options.consent ?? { enabled: requiresConsent(options.country), categories: [...CONSENT_CATEGORIES] };
+
+  const updateAgentRoute = (agent: AgentName, provider: LLMProviderName, model?: string) => {
+    onChange({
+      ...options,
+      agentRouting: {
+        ...options.agentRouting,
+        [agent]: { provider, model },
+      },
+    });
+  };
+
   const addElements = options.addElements || {};
 
   return (
@@ -233,6 +327,153 @@ export function AdvancedSettings({
               {options.linkHandling === 'keep' && 'Keep all original links unchanged'}
               {options.linkHandling === 'remove-non-cta' && 'Only keep CTA buttons, remove other links'}
             </p>
+
+            <div className="flex items-start gap-3 p-3 bg-muted/30 rounded-lg">
+              <input
+                type="checkbox"
+                id="paramPassthroughEnabled"
+                checked={options.paramPassthrough?.enabled || false}
+                onChange={(e) => updateOption('paramPassthrough', {
+                  enabled: e.target.checked,
+                  params: options.paramPassthrough?.params || CLICK_ID_PARAMS,
+                })}
+                className="mt-1 rounded border-gray-300"
+              />
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="paramPassthroughEnabled" className="text-sm font-medium cursor-pointer">
+                  Pass Through Click IDs
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Incoming parameters are added to the offer URL; a {'{clickid}'}-style macro in it is filled instead
+                </p>
+                {options.paramPassthrough?.enabled && (
+                  <Input
+                    defaultValue={options.paramPassthrough.params.join(', ')}
+                    onBlur={(e) => updateOption('paramPassthrough', {
+                      enabled: true,
+                      params: e.target.value.split(',').map(param => param.trim()).filter(Boolean),
+                    })}
+                    placeholder="clickid, subid, gclid"
+                    className="h-8 text-sm font-mono"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Tracking Pixels Section */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Activity className="h-4 w-4 text-red-500" />
+              <span>Tracking Pixels</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {TRACKING_PLATFORMS.filter(platform => platform !== 'custom').map(platform => (
+                <div key={platform} className="space-y-1">
+                  <Label htmlFor={`pixel-${platform}`} className="text-xs">{TRACKING_PLATFORM_LABELS[platform]}</Label>
+                  <Input
+                    id={`pixel-${platform}`}
+                    defaultValue={trackingPixel(platform)?.id || ''}
+                    onBlur={(e) => setTrackingPixel(platform, e.target.value)}
+                    placeholder={PIXEL_ID_PLACEHOLDERS[platform as Exclude<TrackingPlatform, 'custom'>]}
+                    className="h-8 text-sm font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="pixel-custom" className="text-xs">{TRACKING_PLATFORM_LABELS.custom}</Label>
+              <Textarea
+                id="pixel-custom"
+                defaultValue={trackingPixel('custom')?.code || ''}
+                onBlur={(e) => setTrackingPixel('custom', e.target.value)}
+                placeholder="<script>...</script>"
+                rows={2}
+                className="text-sm font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="trackingEvents" className="text-xs">Events</Label>
+              <Input
+                id="trackingEvents"
+                defaultValue={formatTrackingEvents(options.tracking?.events)}
+                onBlur={(e) => updateTracking({ events: parseTrackingEvents(e.target.value) })}
+                placeholder="page=ViewContent, 3=Lead, cta=InitiateCheckout"
+                className="h-8 text-sm font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                page = page view, a step number = that quiz step reached, cta = CTA click; sent to every pixel above
+              </p>
+            </div>
+
+            <div className="flex items-start gap-3 p-3 bg-muted/30 rounded-lg">
+              <input
+                type="checkbox"
+                id="consentEnabled"
+                checked={consent.enabled}
+                onChange={(e) => updateOption('consent', { ...consent, enabled: e.target.checked })}
+                className="mt-1 rounded border-gray-300"
+              />
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="consentEnabled" className="text-sm font-medium cursor-pointer">
+                  Cookie Consent Banner
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Pixels and analytics wait for the visitor&apos;s consent; on by default for EU/EEA, UK and Swiss traffic
+                </p>
+                {consent.enabled && (
+                  <div className="flex gap-4">
+                    {CONSENT_CATEGORIES.map(category => (
+                      <label key={category} className="flex items-center gap-1.5 text-xs capitalize">
+                        <input
+                          type="checkbox"
+                          checked={consent.categories.includes(category)}
+                          onChange={(e) => updateOption('consent', {
+                            ...consent,
+                            categories: e.target.checked
+                              ? CONSENT_CATEGORIES.filter(c => c === category || consent.categories.includes(c))
+                              : consent.categories.filter(c => c !== category),
+                          })}
+                          className="rounded border-gray-300"
+                        />
+                        {category}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Page Weight Budget Section */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Gauge className="h-4 w-4 text-teal-500" />
+              <span>Page Weight Budget</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(PERFORMANCE_BUDGET_LABELS) as (keyof PerformanceBudget)[]).map(limit => (
+                <div key={limit} className="space-y-1">
+                  <Label htmlFor={`budget-${limit}`} className="text-xs">{PERFORMANCE_BUDGET_LABELS[limit]}</Label>
+                  <Input
+                    id={`budget-${limit}`}
+                    type="number"
+                    min={0}
+                    defaultValue={options.performanceBudget?.[limit] ?? ''}
+                    onBlur={(e) => updatePerformanceBudget(limit, e.target.value)}
+                    placeholder={String(DEFAULT_PERFORMANCE_BUDGET[limit])}
+                    className="h-8 text-sm font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Pages over a limit get performance issues in QA; heavy images are recompressed or lazy-loaded first
+            </p>
           </div>
 
           <Separator />
@@ -280,6 +521,70 @@ export function AdvancedSettings({
             </div>
           </div>
 
+          {/* Per-agent AI models */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Cpu className="h-4 w-4 text-slate-500" />
+              <span>AI Models</span>
+            </div>
+            <div className="space-y-2">
+              {(Object.keys(AGENT_LABELS) as AgentName[]).map((agent) => {
+                const route = options.agentRouting?.[agent] || DEFAULT_AGENT_ROUTING[agent];
+                const models = LLM_PROVIDER_MODELS[route.provider];
+                return (
+                  <div key={agent} className="grid grid-cols-3 gap-2 items-center">
+                    <Label className="text-xs">{AGENT_LABELS[agent]}</Label>
+                    <Select
+                      value={route.provider}
+                      onValueChange={(v) => updateAgentRoute(agent, v as LLMProviderName)}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LLM_PROVIDERS.map((provider) => (
+                          <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={route.model || models[0]}
+                      onValueChange={(v) => updateAgentRoute(agent, route.provider, v)}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {models.map((model) => (
+                          <SelectItem key={model} value={model}>{model}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Route each agent to a provider/model, e.g. a cheap model for the architect and a strong one for the builder
+            </p>
+            <div className="grid grid-cols-3 gap-2 items-center">
+              <Label htmlFor="repairIterations" className="text-xs">Repair rounds</Label>
+              <Input
+                id="repairIterations"
+                type="number"
+                min={1}
+                max={MAX_REPAIR_ITERATIONS}
+                defaultValue={options.repairIterations ?? ''}
+                onBlur={(e) => updateOption('repairIterations', Number(e.target.value) > 0 ? Math.min(MAX_REPAIR_ITERATIONS, Math.round(Number(e.target.value))) : undefined)}
+                placeholder={String(DEFAULT_REPAIR_ITERATIONS)}
+                className="h-8 text-sm font-mono"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Repair rounds for LLM-built pages; each fix is checked and one that breaks the page is rolled back
+            </p>
+          </div>
+
           {/* Custom Instructions */}
           <div className="space-y-2">
             <Label className="text-sm">Custom Instructions</Label>
@@ -365,6 +670,23 @@ export function AdvancedSettings({
                   </div>
                 </div>
 
+                {/* Answer params */}
+                <div className="space-y-1 p-3 bg-muted/30 rounded-lg">
+                  <Label htmlFor="answerParams" className="text-sm font-medium">
+                    Pass Quiz Answers to the Offer URL
+                  </Label>
+                  <Input
+                    id="answerParams"
+                    defaultValue={(addElements.answerParams || []).map(m => `${m.stepNumber}=${m.param}`).join(', ')}
+                    onBlur={(e) => updateAddElements({ answerParams: parseAnswerParams(e.target.value) })}
+                    placeholder="2=age, 3=sub2"
+                    className="h-8 text-sm font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Step number = query parameter or tracker sub-ID; appended to the offer URL at redirect
+                  </p>
+                </div>
+
                 {/* Social Proof */}
                 <div className="flex items-start gap-3 p-3 bg-muted/30 rounded-lg">
                   <input
@@ -0,0 +1,364 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Ban, Download, Layers, Loader2, Play, RefreshCw, Upload } from 'lucide-react';
+import { QuickSettings } from './quick-settings';
+import { AdvancedSettings } from './advanced-settings';
+import type { GenerationOptions } from '@/types';
+import type { BatchItemStatus, BatchStatus } from '@/lib/jobs/batch';
+
+const DEFAULT_BATCH_OPTIONS: Partial<GenerationOptions> = {
+  variationCount: 1,
+  styleHandling: 'generate-new',
+  colorScheme: 'generate-matching',
+  layoutStyle: 'mobile-optimized',
+  textHandling: 'rewrite-slight',
+  linkHandling: 'replace-all',
+  vertical: 'auto',
+  tone: 'auto',
+  targetAge: 'all',
+  country: 'US',
+  language: 'en',
+  creativity: 0.7,
+};
+
+const ACTIVE_STATUSES: BatchItemStatus[] = ['WAITING', 'PENDING', 'RUNNING'];
+
+type BatchPanelProps = {
+  onProjectsChanged?: () => void;
+};
+
+function getItemBadge(status: BatchItemStatus) {
+  switch (status) {
+    case 'COMPLETED':
+      return <Badge className="bg-green-500">Completed</Badge>;
+    case 'RUNNING':
+      return (
+        <Badge className="bg-yellow-500">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Generating
+        </Badge>
+      );
+    case 'PENDING':
+      return <Badge variant="secondary">Queued</Badge>;
+    case 'WAITING':
+      return <Badge variant="outline">Waiting</Badge>;
+    case 'IMPORT_FAILED':
+      return <Badge className="bg-red-500">Import failed</Badge>;
+    case 'FAILED':
+      return <Badge className="bg-red-500">Failed</Badge>;
+    default:
+      return <Badge variant="secondary">Cancelled</Badge>;
+  }
+}
+
+export function BatchPanel({ onProjectsChanged }: BatchPanelProps) {
+  const [name, setName] = useState('');
+  const [urlText, setUrlText] = useState('');
+  const [pipelineVersion, setPipelineVersion] = useState<'v1' | 'v3'>('v3');
+  const [options, setOptions] = useState<Partial<GenerationOptions>>(DEFAULT_BATCH_OPTIONS);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [invalidLines, setInvalidLines] = useState<string[]>([]);
+  const [batches, setBatches] = useState<BatchStatus[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/batch');
+      if (response.ok) {
+        const data = await response.json();
+        setBatches(data.batches);
+        setSelectedId(prev => prev || data.batches[0]?.id || null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch batches:', error);
+    }
+  }, []);
+
+  const selected = batches.find(batch => batch.id === selectedId) || null;
+  const isActive = batches.some(batch => batch.items.some(item => ACTIVE_STATUSES.includes(item.status)));
+
+  // Initial fetch, then poll while anything is still importing or generating
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(() => {
+      fetchBatches();
+      onProjectsChanged?.();
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [isActive, fetchBatches, onProjectsChanged]);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setUrlText(await file.text());
+    if (!name) setName(file.name.replace(/\.(csv|txt)$/i, ''));
+    event.target.value = '';
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setSubmitError(null);
+    setInvalidLines([]);
+
+    try {
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: urlText, name, pipelineVersion, options }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSubmitError(data.error || 'Failed to create batch');
+        setInvalidLines(data.invalid || []);
+        return;
+      }
+
+      setInvalidLines(data.invalid || []);
+      setUrlText('');
+      setName('');
+      setSelectedId(data.batchId);
+      await fetchBatches();
+      onProjectsChanged?.();
+    } catch (error) {
+      console.error('Failed to create batch:', error);
+      setSubmitError('Failed to create batch');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (batchId: string) => {
+    if (!confirm('Cancel this batch? Finished pages are kept.')) return;
+
+    try {
+      const response = await fetch(`/api/batch/${batchId}`, { method: 'DELETE' });
+      if (response.ok) {
+        await fetchBatches();
+        onProjectsChanged?.();
+      }
+    } catch (error) {
+      console.error('Failed to cancel batch:', error);
+    }
+  };
+
+  const urlCount = urlText.split(/\r?\n/).filter(line => /^\s*"?https?:\/\//i.test(line)).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-muted-foreground" />
+            Batch Generate
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Batch Name</label>
+              <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Optional - also used as the projects' folder"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Pipeline</label>
+              <div className="flex gap-2">
+                <Button
+                  variant={pipelineVersion === 'v3' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setPipelineVersion('v3')}
+                >
+                  V3 Architect
+                </Button>
+                <Button
+                  variant={pipelineVersion === 'v1' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setPipelineVersion('v1')}
+                >
+                  V1 Classic
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                Source URLs {urlCount > 0 && <span className="text-muted-foreground">({urlCount})</span>}
+              </label>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload CSV
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt"
+                className="hidden"
+                onChange={handleFileUpload}
+              />
+            </div>
+            <Textarea
+              value={urlText}
+              onChange={e => setUrlText(e.target.value)}
+              placeholder={'One URL per line, or CSV: url,name,trackingUrl\nhttps://example.com/lp1\nhttps://example.com/lp2,Summer promo,https://track.example.com/c'}
+              rows={6}
+              className="font-mono text-sm"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <QuickSettings options={options} onChange={setOptions} />
+            <AdvancedSettings options={options} onChange={setOptions} />
+          </div>
+
+          {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+          {invalidLines.length > 0 && (
+            <div className="text-sm text-amber-700 dark:text-amber-400">
+              <p>Skipped {invalidLines.length} line(s) without a valid URL:</p>
+              <ul className="list-disc pl-5 font-mono text-xs">
+                {invalidLines.slice(0, 5).map(line => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <Button onClick={handleSubmit} disabled={isSubmitting || urlCount === 0} className="w-full">
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Queueing...
+              </>
+            ) : (
+              <>
+                <Play className="h-4 w-4 mr-2" />
+                Queue {urlCount || ''} Page{urlCount === 1 ? '' : 's'}
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Batches</CardTitle>
+          <div className="flex items-center gap-1">
+            {selected && (
+              <>
+                {selected.items.some(item => ACTIVE_STATUSES.includes(item.status)) && (
+                  <Button variant="outline" size="sm" onClick={() => handleCancel(selected.id)}>
+                    <Ban className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selected.counts.completed === 0}
+                  onClick={() => window.open(`/api/batch/${selected.id}/download`, '_blank')}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download ZIP
+                </Button>
+              </>
+            )}
+            <Button variant="ghost" size="sm" onClick={fetchBatches}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {batches.length === 0 ? (
+            <div className="text-center py-6 text-sm text-muted-foreground">No batches yet</div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {batches.map(batch => (
+                  <Button
+                    key={batch.id}
+                    variant={batch.id === selectedId ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setSelectedId(batch.id)}
+                  >
+                    {batch.name}
+                    <span className="ml-2 text-xs opacity-70">
+                      {batch.counts.completed}/{batch.counts.total}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+
+              {selected && (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    {selected.counts.completed} completed · {selected.counts.running} generating ·{' '}
+                    {selected.counts.queued + selected.counts.waiting} waiting · {selected.counts.failed} failed
+                    {selected.counts.cancelled > 0 && ` · ${selected.counts.cancelled} cancelled`}
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Page</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="w-40">Progress</TableHead>
+                        <TableHead className="text-right">Variations</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selected.items.map(item => (
+                        <TableRow key={item.url}>
+                          <TableCell>
+                            <p className="font-medium truncate max-w-xs">{item.name}</p>
+                            <p className="text-xs text-muted-foreground truncate max-w-xs">{item.url}</p>
+                            {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                          </TableCell>
+                          <TableCell>{getItemBadge(item.status)}</TableCell>
+                          <TableCell>
+                            {item.status === 'RUNNING' ? (
+                              <div className="space-y-1">
+                                <Progress value={item.progress} />
+                                <p className="text-xs text-muted-foreground truncate">{item.currentStep}</p>
+                              </div>
+                            ) : item.status === 'COMPLETED' ? (
+                              <Progress value={100} />
+                            ) : null}
+                          </TableCell>
+                          <TableCell className="text-right">{item.variationCount}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import type { LPBlueprint, BlueprintSection, BlueprintElement } from '@/lib/agents';
+
+type BlueprintEditorProps = {
+  blueprint: LPBlueprint;
+  onChange: (blueprint: LPBlueprint) => void;
+};
+
+type Palette = LPBlueprint['visualDirection']['colorPalette'];
+
+const PALETTE_KEYS: (keyof Palette)[] = ['primary', 'secondary', 'accent', 'background', 'text'];
+
+const TOGGLES: { key: 'requiresCountdown' | 'requiresScarcity' | 'requiresSocialProof'; label: string }[] = [
+  { key: 'requiresCountdown', label: 'Countdown timer' },
+  { key: 'requiresScarcity', label: 'Scarcity message' },
+  { key: 'requiresSocialProof', label: 'Social proof' },
+];
+
+export function BlueprintEditor({ blueprint, onChange }: BlueprintEditorProps) {
+  const sections = blueprint.sections;
+
+  // Steps are renumbered by position when the blueprint is built; answer branches follow
+  // their target step (an edited step keeps its place, a removed one loses its branches)
+  const setSections = (next: BlueprintSection[]) => {
+    const newNumber = new Map(sections.map((section, index) => {
+      const position = next.indexOf(section);
+      return [section.stepNumber, position !== -1 ? position + 1 : next.length === sections.length ? index + 1 : 0];
+    }));
+
+    const answerParams = blueprint.technical.answerParams
+      ?.filter(mapping => newNumber.get(mapping.stepNumber))
+      .map(mapping => ({ ...mapping, stepNumber: newNumber.get(mapping.stepNumber)! }));
+
+    onChange({
+      ...blueprint,
+      totalSteps: next.length,
+      ...(answerParams && { technical: { ...blueprint.technical, answerParams } }),
+      sections: next.map((section, index) => {
+        const branches = section.transition?.branches
+          ?.filter(branch => branch.action === 'redirect' || newNumber.get(branch.stepNumber!))
+          .map(branch => branch.action === 'go-to-step' ? { ...branch, stepNumber: newNumber.get(branch.stepNumber!) } : branch);
+        return {
+          ...section,
+          stepNumber: index + 1,
+          ...(branches && { transition: { ...section.transition, branches } }),
+        };
+      }),
+    });
+  };
+
+  const updateSection = (index: number, changes: Partial<BlueprintSection>) => {
+    setSections(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const updateElement = (sectionIndex: number, elementIndex: number, changes: Partial<BlueprintElement>) => {
+    const elements = sections[sectionIndex].elements.map((element, i) =>
+      i === elementIndex ? { ...element, ...changes } : element
+    );
+    updateSection(sectionIndex, { elements });
+  };
+
+  const removeElement = (sectionIndex: number, elementIndex: number) => {
+    updateSection(sectionIndex, {
+      elements: sections[sectionIndex].elements.filter((_, i) => i !== elementIndex),
+    });
+  };
+
+  // Only quiz steps move: the hook stays first and the CTA last
+  const canMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    return sections[index].type === 'quiz' && sections[target]?.type === 'quiz';
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const next = [...sections];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setSections(next);
+  };
+
+  const removeSection = (index: number) => {
+    setSections(sections.filter((_, i) => i !== index));
+  };
+
+  const addQuizStep = () => {
+    const ctaIndex = sections.findIndex(section => section.type === 'cta');
+    const insertAt = ctaIndex === -1 ? sections.length : ctaIndex;
+    const quiz: BlueprintSection = {
+      stepNumber: insertAt + 1,
+      type: 'quiz',
+      title: 'New Question',
+      elements: [
+        { type: 'headline', content: 'Your question?', purpose: 'engage user' },
+        { type: 'options', content: 'Option A|Option B|Option C', purpose: 'micro-commitment' },
+      ],
+      transition: { action: 'next-step' },
+      notes: 'Added in the blueprint editor',
+    };
+    setSections([...sections.slice(0, insertAt), quiz, ...sections.slice(insertAt)]);
+  };
+
+  // The query parameter a quiz step's answer is passed to the offer URL as (empty: not passed)
+  const setAnswerParam = (stepNumber: number, param: string) => {
+    const others = (blueprint.technical.answerParams || []).filter(mapping => mapping.stepNumber !== stepNumber);
+    const current = blueprint.technical.answerParams?.find(mapping => mapping.stepNumber === stepNumber);
+    onChange({
+      ...blueprint,
+      technical: {
+        ...blueprint.technical,
+        answerParams: param.trim()
+          ? [...others, { ...current, stepNumber, param: param.trim() }].sort((a, b) => a.stepNumber - b.stepNumber)
+          : others,
+      },
+    });
+  };
+
+  const updatePalette = (key: keyof Palette, color: string) => {
+    onChange({
+      ...blueprint,
+      visualDirection: {
+        ...blueprint.visualDirection,
+        colorPalette: { ...blueprint.visualDirection.colorPalette, [key]: color },
+      },
+    });
+  };
+
+  const updateVisual = (changes: {
+    headlineStyle?: string;
+    bodyStyle?: string;
+    backgroundStyle?: string;
+  }) => {
+    const { typography, imagery } = blueprint.visualDirection;
+    onChange({
+      ...blueprint,
+      visualDirection: {
+        ...blueprint.visualDirection,
+        typography: {
+          headlineStyle: changes.headlineStyle ?? typography.headlineStyle,
+          bodyStyle: changes.bodyStyle ?? typography.bodyStyle,
+        },
+        imagery: { ...imagery, backgroundStyle: changes.backgroundStyle ?? imagery.backgroundStyle },
+      },
+    });
+  };
+
+  const updateStrategy = (changes: Partial<LPBlueprint['conversionStrategy']>) => {
+    onChange({ ...blueprint, conversionStrategy: { ...blueprint.conversionStrategy, ...changes } });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Steps */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium">Structure ({sections.length} steps)</h4>
+          <Button variant="outline" size="sm" onClick={addQuizStep}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </Button>
+        </div>
+
+        {sections.map((section, sectionIndex) => (
+          <div key={sectionIndex} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="text-xs">{section.type}</Badge>
+              <span className="text-sm text-muted-foreground whitespace-nowrap">Step {sectionIndex + 1}</span>
+              <Input
+                value={section.title}
+                onChange={e => updateSection(sectionIndex, { title: e.target.value })}
+                className="h-8"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={!canMove(sectionIndex, -1)}
+                onClick={() => moveSection(sectionIndex, -1)}
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={!canMove(sectionIndex, 1)}
+                onClick={() => moveSection(sectionIndex, 1)}
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive"
+                disabled={section.type !== 'quiz'}
+                onClick={() => removeSection(sectionIndex)}
+                title="Remove step"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {section.type === 'quiz' && (
+              <div className="flex items-center gap-2 pl-2">
+                <span className="text-xs text-muted-foreground w-24 shrink-0">offer param</span>
+                <Input
+                  value={blueprint.technical.answerParams?.find(mapping => mapping.stepNumber === section.stepNumber)?.param || ''}
+                  onChange={e => setAnswerParam(section.stepNumber, e.target.value)}
+                  placeholder="Pass the answer as, e.g. sub2"
+                  className="h-8 text-sm font-mono"
+                />
+              </div>
+            )}
+
+            {section.transition?.branches?.length ? (
+              <div className="flex flex-wrap gap-1 pl-2">
+                {section.transition.branches.map((branch, branchIndex) => (
+                  <Badge key={branchIndex} variant="secondary" className="text-xs font-normal">
+                    {branch.answer} → {branch.action === 'go-to-step' ? `Step ${branch.stepNumber}` : branch.target || 'tracking URL'}
+                  </Badge>
+                ))}
+              </div>
+            ) : null}
+
+            {section.elements.map((element, elementIndex) => (
+              <div key={elementIndex} className="flex items-start gap-2 pl-2">
+                <span className="text-xs text-muted-foreground w-24 pt-2 shrink-0">{element.type}</span>
+                {element.type === 'text' ? (
+                  <Textarea
+                    value={element.content}
+                    onChange={e => updateElement(sectionIndex, elementIndex, { content: e.target.value })}
+                    rows={2}
+                    className="text-sm"
+                  />
+                ) : (
+                  <Input
+                    value={element.content}
+                    onChange={e => updateElement(sectionIndex, elementIndex, { content: e.target.value })}
+                    placeholder={element.type === 'options' ? 'Answer 1|Answer 2|Answer 3' : undefined}
+                    className="h-8 text-sm"
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  disabled={section.elements.length <= 1}
+                  onClick={() => removeElement(sectionIndex, elementIndex)}
+                  title="Remove element"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Visual direction */}
+      <div className="space-y-3">
+        <h4 className="font-medium">Color Palette</h4>
+        <div className="grid grid-cols-5 gap-3">
+          {PALETTE_KEYS.map(key => (
+            <div key={key} className="space-y-1">
+              <input
+                type="color"
+                value={blueprint.visualDirection.colorPalette[key]}
+                onChange={e => updatePalette(key, e.target.value)}
+                className="w-full h-10 rounded border cursor-pointer"
+                aria-label={`${key} colour`}
+              />
+              <Input
+                value={blueprint.visualDirection.colorPalette[key]}
+                onChange={e => updatePalette(key, e.target.value)}
+                className="h-7 text-xs font-mono"
+              />
+              <span className="text-xs text-muted-foreground">{key}</span>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Headlines</label>
+            <Input
+              value={blueprint.visualDirection.typography.headlineStyle}
+              onChange={e => updateVisual({ headlineStyle: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Body text</label>
+            <Input
+              value={blueprint.visualDirection.typography.bodyStyle}
+              onChange={e => updateVisual({ bodyStyle: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Background</label>
+            <Input
+              value={blueprint.visualDirection.imagery.backgroundStyle}
+              onChange={e => updateVisual({ backgroundStyle: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Conversion strategy */}
+      <div className="space-y-3">
+        <h4 className="font-medium">Conversion Strategy</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Main hook</label>
+            <Input
+              value={blueprint.conversionStrategy.mainHook}
+              onChange={e => updateStrategy({ mainHook: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Value proposition</label>
+            <Input
+              value={blueprint.conversionStrategy.valueProposition}
+              onChange={e => updateStrategy({ valueProposition: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">Urgency tactics (comma-separated)</label>
+          <Input
+            value={blueprint.conversionStrategy.urgencyTactics.join(', ')}
+            onChange={e => updateStrategy({
+              // Empty entries are kept while typing so a trailing comma survives
+              urgencyTactics: e.target.value.split(',').map(tactic => tactic.trim()),
+            })}
+            className="h-8 text-sm"
+          />
+        </div>
+        <div className="flex flex-wrap gap-6">
+          {TOGGLES.map(toggle => (
+            <label key={toggle.key} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={blueprint.technical[toggle.key]}
+                onCheckedChange={checked => onChange({
+                  ...blueprint,
+                  technical: { ...blueprint.technical, [toggle.key]: checked === true },
+                })}
+              />
+              {toggle.label}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { GitCompare, Loader2, RotateCcw } from 'lucide-react';
+import type { BlueprintChange } from '@/lib/pipeline/blueprint-diff';
+
+type BlueprintVersion = {
+  id: string;
+  version: number;
+  totalSteps: number;
+  createdAt: string;
+  variationCount: number;
+  qa: { reports: number; passed: number; averageScore: number | null };
+};
+
+type BlueprintDiff = {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  changes: BlueprintChange[];
+};
+
+type BlueprintHistoryProps = {
+  project: { id: string; name: string; status: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onRebuildQueued?: () => void;
+};
+
+export function BlueprintHistory({ project, onOpenChange, onRebuildQueued }: BlueprintHistoryProps) {
+  const [versions, setVersions] = useState<BlueprintVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [diff, setDiff] = useState<BlueprintDiff | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [rebuildingId, setRebuildingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const projectId = project?.id;
+
+  const fetchVersions = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/blueprints`);
+      if (response.ok) {
+        const data = await response.json();
+        setVersions(data.blueprints);
+      }
+    } catch (error) {
+      console.error('Failed to fetch blueprints:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    setCompareIds([]);
+    setDiff(null);
+    setError(null);
+    fetchVersions();
+  }, [fetchVersions]);
+
+  // Keep at most two versions selected; the newest pick replaces the oldest
+  const toggleCompare = (id: string) => {
+    setDiff(null);
+    setCompareIds(prev =>
+      prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleCompare = async () => {
+    if (!projectId || compareIds.length !== 2) return;
+
+    // Always diff older → newer
+    const [from, to] = versions
+      .filter(version => compareIds.includes(version.id))
+      .sort((a, b) => a.version - b.version);
+
+    setIsDiffing(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/blueprints/diff?from=${from.id}&to=${to.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to compare blueprints');
+        return;
+      }
+      setDiff(data);
+    } catch (error) {
+      console.error('Failed to compare blueprints:', error);
+      setError('Failed to compare blueprints');
+    } finally {
+      setIsDiffing(false);
+    }
+  };
+
+  const handleRebuild = async (version: BlueprintVersion) => {
+    if (!projectId) return;
+    if (!confirm(`Rebuild the variations from blueprint v${version.version}? The current variations are replaced.`)) return;
+
+    setRebuildingId(version.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/blueprints/${version.id}/rebuild`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to queue rebuild');
+        return;
+      }
+      onRebuildQueued?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to queue rebuild:', error);
+      setError('Failed to queue rebuild');
+    } finally {
+      setRebuildingId(null);
+    }
+  };
+
+  const isGenerating = project?.status === 'GENERATING';
+
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Blueprint History</DialogTitle>
+          <DialogDescription>
+            {project?.name} - pick two versions to compare, or rebuild from an earlier one
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            No blueprints saved yet. Generate the project to create the first version.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Version</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Steps</TableHead>
+                  <TableHead>QA</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map(version => (
+                  <TableRow key={version.id}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(version.id)}
+                        onChange={() => toggleCompare(version.id)}
+                        aria-label={`Compare v${version.version}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <span className="font-medium">v{version.version}</span>
+                      {version.variationCount > 0 && (
+                        <Badge variant="secondary" className="ml-2">Current</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{version.totalSteps}</TableCell>
+                    <TableCell className="text-sm">
+                      {version.qa.reports === 0 ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : (
+                        <span>
+                          {version.qa.passed}/{version.qa.reports} passed · avg {version.qa.averageScore}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isGenerating || rebuildingId !== null}
+                        onClick={() => handleRebuild(version)}
+                        title={isGenerating ? 'Generation already in progress' : 'Rebuild from this version'}
+                      >
+                        {rebuildingId === version.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                        )}
+                        Rebuild
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={compareIds.length !== 2 || isDiffing}
+                onClick={handleCompare}
+              >
+                {isDiffing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <GitCompare className="h-4 w-4 mr-2" />
+                )}
+                Compare Selected
+              </Button>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+
+            {diff && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  v{diff.from.version} → v{diff.to.version}: {diff.changes.length} change{diff.changes.length === 1 ? '' : 's'}
+                </p>
+                {diff.changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The blueprints are identical.</p>
+                ) : (
+                  <div className="border rounded-md divide-y text-xs font-mono max-h-80 overflow-y-auto">
+                    {diff.changes.map(change => (
+                      <div key={change.path} className="p-2 space-y-1">
+                        <div className="font-semibold">{change.path}</div>
+                        {change.before !== undefined && (
+                          <div className="text-red-700 dark:text-red-400 whitespace-pre-wrap">- {change.before}</div>
+                        )}
+                        {change.after !== undefined && (
+                          <div className="text-green-700 dark:text-green-400 whitespace-pre-wrap">+ {change.after}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,3 +12,7 @@ export { AnalysisPanel } from './analysis-panel';
 export { PromptPreview } from './prompt-preview';
 export { ProjectManager } from './project-manager';
 export { BriefInput } from './brief-input';
+export { UsagePanel } from './usage-panel';
+export { BatchPanel } from './batch-panel';
+export { BlueprintHistory } from './blueprint-history';
+export { BlueprintEditor } from './blueprint-editor';
@@ -27,6 +27,15 @@ export function ParsedSummary({ page }: ParsedSummaryProps) {
     return acc;
   }, {} as Record<string, number>);
 
+  // Pixel / account IDs per platform, with the events they fire
+  const trackingIds = page.trackingCodes.reduce((acc, code) => {
+    for (const id of code.ids || []) {
+      const key = `${code.type} ${id}`;
+      acc[key] = [...new Set([...(acc[key] || []), ...(code.events || [])])];
+    }
+    return acc;
+  }, {} as Record<string, string[]>);
+
   return (
     <Card>
       <CardHeader>
@@ -81,6 +90,15 @@ export function ParsedSummary({ page }: ParsedSummaryProps) {
                 </Badge>
               ))}
             </div>
+            {Object.keys(trackingIds).length > 0 && (
+              <div className="mt-2 space-y-0.5">
+                {Object.entries(trackingIds).map(([key, events]) => (
+                  <p key={key} className="text-xs text-muted-foreground font-mono truncate">
+                    {key}{events.length > 0 && ` → ${events.join(', ')}`}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DollarSign, Loader2, RefreshCw } from 'lucide-react';
+import type { UsageBreakdown, UsageSummary } from '@/lib/db/usage';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const BREAKDOWNS: { key: 'byDay' | 'byProject' | 'byUser' | 'byAgent'; label: string }[] = [
+  { key: 'byDay', label: 'By Day' },
+  { key: 'byProject', label: 'By Project' },
+  { key: 'byUser', label: 'By User' },
+  { key: 'byAgent', label: 'By Agent' },
+];
+
+type UsagePanelProps = {
+  projectId?: string;
+};
+
+function formatCost(usd: number): string {
+  return usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function UsagePanel({ projectId }: UsagePanelProps) {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchUsage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ days: String(days) });
+      if (projectId) params.set('projectId', projectId);
+
+      const response = await fetch(`/api/usage?${params}`);
+      if (response.ok) {
+        setSummary(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch usage:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days, projectId]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const renderBreakdown = (rows: UsageBreakdown[], label: string) => {
+    if (rows.length === 0) {
+      return (
+        <div className="text-center py-6 text-sm text-muted-foreground">
+          No LLM usage recorded in this period
+        </div>
+      );
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            <TableHead className="text-right">Calls</TableHead>
+            <TableHead className="text-right">Prompt</TableHead>
+            <TableHead className="text-right">Completion</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell className="font-medium">{row.label}</TableCell>
+              <TableCell className="text-right">{row.calls}</TableCell>
+              <TableCell className="text-right">{formatTokens(row.promptTokens)}</TableCell>
+              <TableCell className="text-right">{formatTokens(row.completionTokens)}</TableCell>
+              <TableCell className="text-right">{formatCost(row.costUsd)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5 text-muted-foreground" />
+          LLM Spend
+        </CardTitle>
+        <div className="flex items-center gap-1">
+          {RANGE_OPTIONS.map(option => (
+            <Button
+              key={option}
+              variant={days === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setDays(option)}
+            >
+              {option}d
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={fetchUsage} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !summary ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !summary ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Usage data unavailable</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Estimated cost</p>
+                <p className="text-2xl font-bold">{formatCost(summary.totals.costUsd)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Tokens</p>
+                <p className="text-2xl font-bold">{formatTokens(summary.totals.totalTokens)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">LLM calls</p>
+                <p className="text-2xl font-bold">{summary.totals.calls}</p>
+              </div>
+            </div>
+
+            <Tabs defaultValue="byDay">
+              <TabsList>
+                {BREAKDOWNS.map(breakdown => (
+                  <TabsTrigger key={breakdown.key} value={breakdown.key}>
+                    {breakdown.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {BREAKDOWNS.map(breakdown => (
+                <TabsContent key={breakdown.key} value={breakdown.key}>
+                  {renderBreakdown(
+                    // Most recent day first
+                    breakdown.key === 'byDay' ? [...summary.byDay].reverse() : summary[breakdown.key],
+                    breakdown.label.replace('By ', '')
+                  )}
+                </TabsContent>
+              ))}
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,8 @@
+// Runs once when the server boots
+export async function register() {
+  // The job worker needs Node APIs and the database - skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startJobWorker } = await import('@/lib/jobs');
+    await startJobWorker();
+  }
+}
@@ -1,6 +1,9 @@
-import { getLLMProvider } from '@/lib/llm';
+import { getAgentLLM } from '@/lib/llm';
 import type { ComponentAnalysis, LPTone, PersuasionTechnique } from '@/types/component-analysis';
 import type { BuilderStylingOptions } from '@/lib/prompt-writer';
+import type { AgentRouting } from '@/types/llm';
+import type { AnswerParamMapping } from '@/types/builder';
+import { ANSWER_PARAMS_SCRIPT } from '@/lib/builder-agent/answer-params';
 
 /**
  * Section types in the LP blueprint
@@ -32,10 +35,30 @@ export interface BlueprintSection {
   transition: {
     action: 'next-step' | 'redirect';
     target?: string;         // URL for redirect
+    branches?: BlueprintBranch[]; // Quiz answers that go somewhere other than the next step
   };
   notes: string;             // Architect's notes about this section
 }
 
+/**
+ * Where one quiz answer leads instead of the next step, e.g. "No" on an age
+ * question jumping to a disqualify step or straight to another offer
+ */
+export interface BlueprintBranch {
+  answer: string;            // One of the section's options, as written there
+  action: 'go-to-step' | 'redirect';
+  stepNumber?: number;       // go-to-step: a later step
+  target?: string;           // redirect: offer URL (default: the tracking URL)
+}
+
+/**
+ * The branch planned for an answer, if any
+ */
+export function findBranch(section: Pick<BlueprintSection, 'transition'>, answer: string): BlueprintBranch | undefined {
+  const key = answer.trim().toLowerCase();
+  return section.transition?.branches?.find(branch => branch.answer.trim().toLowerCase() === key);
+}
+
 /**
  * The complete LP blueprint - the Architect's plan
  */
@@ -85,6 +108,7 @@ export interface LPBlueprint {
     requiresCountdown: boolean;
     requiresScarcity: boolean;
     requiresSocialProof: boolean;
+    answerParams?: AnswerParamMapping[]; // Quiz answers appended to the offer URL
   };
 
   // The full prompt for the builder (assembled from blueprint)
@@ -98,9 +122,11 @@ export interface LPBlueprint {
 export async function planLandingPage(
   analysis: ComponentAnalysis,
   stylingOptions?: BuilderStylingOptions,
-  brief?: string
+  brief?: string,
+  routing?: AgentRouting
 ): Promise<LPBlueprint> {
-  const llm = getLLMProvider('grok');
+  const llm = getAgentLLM('architect', routing);
+  const answerParams = stylingOptions?.addElements?.answerParams?.length ? stylingOptions.addElements.answerParams : undefined;
 
   const prompt = `You are an expert Landing Page Architect. Your job is to create a detailed BLUEPRINT for a landing page based on this analysis.
 
@@ -125,7 +151,11 @@ ${analysis.originalImages.length > 0
 
 **User Styling Preferences:**
 ${stylingOptions ? formatStylingPreferences(stylingOptions) : 'Use defaults'}
-
+${answerParams ? `
+**Answer Tracking:** these quiz answers are passed to the offer URL, so these step numbers must be quiz
+questions with answer options:
+${answerParams.map(mapping => `- Step ${mapping.stepNumber} → ${mapping.param}`).join('\n')}
+` : ''}
 ${brief ? `## USER BRIEF:\n${brief}\n` : ''}
 ## DESIGN DIRECTION:
 - Generate a UNIQUE color palette that matches the mood, vertical, and tone
@@ -160,6 +190,18 @@ ${analysis.originalImages.length > 0
    - Urgency/scarcity elements
    - Single CTA button that redirects
 
+## BRANCHING (optional):
+The flow is linear unless an answer should lead elsewhere (an age gate, a disqualifying answer,
+a different offer). Add "branches" to that quiz step's transition, using the answer text exactly:
+"transition": {"action": "next-step", "branches": [
+  {"answer": "No", "action": "go-to-step", "stepNumber": 5},
+  {"answer": "Just browsing", "action": "redirect", "target": "https://other-offer.example"}
+]}
+- go-to-step only jumps FORWARD; redirect without a target goes to the tracking URL
+- A step reached only through a branch (e.g. a disqualify step) is a "cta" step placed AFTER the main CTA;
+  the main CTA then has "transition": {"action": "redirect"} so the normal flow never enters it
+- Every path must end in a redirect; do not branch unless it helps the funnel
+
 ## OUTPUT FORMAT (JSON):
 
 {
@@ -249,6 +291,9 @@ Return ONLY valid JSON.`;
     const parsed = JSON.parse(jsonMatch[0]);
 
     // Generate the builder prompt from the blueprint
+    if (answerParams) {
+      parsed.technical = { ...parsed.technical, answerParams };
+    }
     const builderPrompt = generateBuilderPromptFromBlueprint(parsed, analysis, brief);
 
     return {
@@ -271,12 +316,13 @@ Return ONLY valid JSON.`;
         requiresCountdown: parsed.technical?.requiresCountdown ?? true,
         requiresScarcity: parsed.technical?.requiresScarcity ?? true,
         requiresSocialProof: parsed.technical?.requiresSocialProof ?? false,
+        ...(answerParams && { answerParams }),
       },
       builderPrompt,
     };
   } catch (error) {
     console.error('Architect failed, using fallback:', error);
-    return getFallbackBlueprint(analysis);
+    return getFallbackBlueprint(analysis, answerParams);
   }
 }
 
@@ -309,9 +355,9 @@ function formatStylingPreferences(options: BuilderStylingOptions): string {
 }
 
 /**
- * Generate builder prompt from blueprint
+ * Generate builder prompt from blueprint (also re-run after a user edits the blueprint)
  */
-function generateBuilderPromptFromBlueprint(
+export function generateBuilderPromptFromBlueprint(
   blueprint: Partial<LPBlueprint>,
   analysis: ComponentAnalysis,
   brief?: string
@@ -325,9 +371,18 @@ function generateBuilderPromptFromBlueprint(
       stepInstructions += `- ${el.type}: "${el.content}" (${el.purpose})\n`;
     }
     stepInstructions += `Transition: ${section.transition?.action}${section.transition?.target ? ` to ${section.transition.target}` : ''}\n`;
+    for (const branch of section.transition?.branches || []) {
+      stepInstructions += `- Answer "${branch.answer}" → ${branch.action === 'go-to-step'
+        ? `goToStep(${branch.stepNumber})`
+        : `goToOffer(${branch.target ? `'${branch.target}'` : ''})`}\n`;
+    }
   }
+  const hasBranches = sections.some(section =>
+    section.transition?.branches?.length || (section.transition?.action === 'redirect' && section !== sections[sections.length - 1])
+  );
 
   const colors = blueprint.visualDirection?.colorPalette || getDefaultVisualDirection(analysis.vertical).colorPalette;
+  const answerParams = blueprint.technical?.answerParams || [];
 
   const visualDir = blueprint.visualDirection;
 
@@ -366,7 +421,15 @@ ${blueprint.technical?.requiresSocialProof ? '- Add social proof below hook head
 ## TRACKING URL:
 
 All CTAs redirect to: ${analysis.trackingUrl || blueprint.technical?.trackingUrl}
+${answerParams.length > 0 ? `
+## ANSWER TRACKING:
 
+The offer URL receives these quiz answers as query parameters:
+${answerParams.map(mapping => `- Step ${mapping.stepNumber}: every answer button gets data-param="${mapping.param}" data-value="<answer as a-lowercase-slug>"`).join('\n')}
+
+Include this script and send EVERY redirect through offerUrl(), e.g. window.location.href = offerUrl(REDIRECT_URL); a link to the offer gets data-offer-url="<the same URL as its href>":
+\`\`\`javascript${ANSWER_PARAMS_SCRIPT}\`\`\`
+` : ''}
 ## TECHNICAL REQUIREMENTS:
 
 1. Single HTML file with inline CSS and JS
@@ -392,7 +455,18 @@ function nextStep() {
     document.getElementById('step' + currentStep).classList.add('active');
   }
 }
-\`\`\`
+${hasBranches ? `
+// Branching answers and steps that end the flow early
+function goToStep(n) {
+  document.getElementById('step' + currentStep).classList.remove('active');
+  currentStep = n;
+  document.getElementById('step' + currentStep).classList.add('active');
+}
+
+function goToOffer(url) {
+  window.location.href = url || REDIRECT_URL;
+}
+` : ''}\`\`\`
 
 ## CRITICAL RULES:
 
@@ -401,6 +475,7 @@ function nextStep() {
 3. CTA (Final step): Urgency + final button that redirects
 4. Follow the EXACT content provided in the blueprint above
 ${analysis.originalImages.length === 0 ? '5. Do NOT use any <img> tags or image URLs — no images are available' : ''}
+${hasBranches ? '- BRANCHING: answers listed with → call that function instead of nextStep(); a step with Transition: redirect calls goToOffer() so it never continues into the next step' : ''}
 
 Generate complete HTML starting with <!DOCTYPE html>`;
 }
@@ -538,7 +613,7 @@ function getDefaultVisualDirection(vertical: string): LPBlueprint['visualDirecti
 /**
  * Fallback blueprint if AI fails
  */
-function getFallbackBlueprint(analysis: ComponentAnalysis): LPBlueprint {
+function getFallbackBlueprint(analysis: ComponentAnalysis, answerParams?: AnswerParamMapping[]): LPBlueprint {
   const sections: BlueprintSection[] = [];
 
   // Hook section
@@ -586,6 +661,13 @@ function getFallbackBlueprint(analysis: ComponentAnalysis): LPBlueprint {
   });
 
   const visualDirection = getDefaultVisualDirection(analysis.vertical);
+  const technical: LPBlueprint['technical'] = {
+    trackingUrl: analysis.trackingUrl || 'https://example.com/track',
+    requiresCountdown: true,
+    requiresScarcity: true,
+    requiresSocialProof: false,
+    ...(answerParams && { answerParams }),
+  };
 
   return {
     id: `blueprint-fallback-${Date.now()}`,
@@ -602,13 +684,8 @@ function getFallbackBlueprint(analysis: ComponentAnalysis): LPBlueprint {
       primaryPersuasion: analysis.strategySummary.keyPersuasionTactics,
       urgencyTactics: ['countdown', 'limited spots'],
     },
-    technical: {
-      trackingUrl: analysis.trackingUrl || 'https://example.com/track',
-      requiresCountdown: true,
-      requiresScarcity: true,
-      requiresSocialProof: false,
-    },
-    builderPrompt: generateBuilderPromptFromBlueprint({ sections, totalSteps: analysis.flow.totalSteps, visualDirection }, analysis),
+    technical,
+    builderPrompt: generateBuilderPromptFromBlueprint({ sections, totalSteps: analysis.flow.totalSteps, visualDirection, technical }, analysis),
   };
 }
 
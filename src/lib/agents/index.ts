@@ -1,9 +1,16 @@
 // V3 Agent exports
-export { planLandingPage } from './architect';
-export type { LPBlueprint, BlueprintSection, BlueprintElement, BlueprintSectionType } from './architect';
+export { planLandingPage, generateBuilderPromptFromBlueprint, findBranch } from './architect';
+export type { LPBlueprint, BlueprintSection, BlueprintElement, BlueprintSectionType, BlueprintBranch } from './architect';
 
-export { reviewLandingPage, quickValidate } from './qa';
+export { reviewLandingPage, quickValidate, reviewComponentTree, reviewTrackingConsent, addQAIssues, applyClickThrough } from './qa';
 export type { QAResult, QAIssue, IssueSeverity, IssueCategory } from './qa';
+export { runStaticQA, STATIC_QA_RULES } from './qa-rules';
+export type { QARule, QARuleContext } from './qa-rules';
+export { auditAccessibility } from './qa-accessibility';
+export { analyzePerformance, checkPerformanceBudget, performanceBudget } from './qa-performance';
+export type { PerformanceReport, InlineImage } from './qa-performance';
+export { runClickThrough } from './qa-clickthrough';
+export type { ClickThroughResult, ClickThroughOptions } from './qa-clickthrough';
 
-export { repairLandingPage, quickFix } from './repair';
-export type { RepairResult, UserReportedIssue } from './repair';
+export { repairLandingPage, repairUntilVerified, quickFix, repairComponentTree, repairPerformance, mergeRepairResults } from './repair';
+export type { RepairResult, UserReportedIssue, RepairLoopOptions } from './repair';
@@ -0,0 +1,558 @@
+import * as cheerio from 'cheerio';
+import postcss, { type AtRule, type Container } from 'postcss';
+import type { Element } from 'domhandler';
+import type { QAIssue } from './qa';
+import { selectorFor } from './qa-rules';
+import { LANGUAGES, type LanguageCode } from '@/types/languages';
+
+// LP_RULES.layoutUX designs for 375×667 first: @media rules and % widths are resolved for it
+const VIEWPORT = { width: 375, height: 667 };
+
+const MIN_TAP_TARGET = 44; // px, WCAG 2.5.5 / platform guidelines
+const MIN_CONTRAST = 4.5;  // WCAG AA, and LP_RULES.visualRules for every CTA
+const MIN_CONTRAST_LARGE = 3;
+
+const CTAS = 'button, input[type="button"], input[type="submit"], [role="button"], [onclick], a.cta-button, a[class*="btn"]';
+const OPTIONS = '[onclick], [role="button"], [data-param], .option, .answer';
+const FOCUSABLE = 'button, a[href], input:not([type="hidden"]), select, textarea, summary';
+const SKIPPED = 'head, script, style, noscript, template, svg';
+
+// Properties children take from their parent when they don't set them
+const INHERITED = new Set(['color', 'font-size', 'font-weight', 'line-height', 'visibility']);
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff', yellow: '#ffff00',
+  orange: '#ffa500', purple: '#800080', pink: '#ffc0cb', gray: '#808080', grey: '#808080', silver: '#c0c0c0',
+  navy: '#000080', teal: '#008080', maroon: '#800000', gold: '#ffd700', crimson: '#dc143c', coral: '#ff7f50',
+  tomato: '#ff6347', hotpink: '#ff69b4', deeppink: '#ff1493', darkgray: '#a9a9a9', lightgray: '#d3d3d3',
+  whitesmoke: '#f5f5f5', transparent: 'rgba(0,0,0,0)',
+};
+
+type Rgba = [number, number, number, number];
+
+interface Declaration {
+  value: string;
+  important: boolean;
+  specificity: number;
+  order: number;
+}
+
+/**
+ * The cascaded styles of a page for the 375px viewport: declared values per element from
+ * <style> blocks and style attributes, with inheritance and var() resolved on read
+ */
+class StyleResolver {
+  private declared = new Map<Element, Map<string, Declaration>>();
+  private cache = new Map<Element, Map<string, string>>();
+
+  constructor(private $: cheerio.CheerioAPI) {
+    let order = 0;
+    $('style').each((_, el) => {
+      let root;
+      try {
+        root = postcss.parse($(el).html() || '');
+      } catch {
+        return; // Unparsable stylesheet: browsers drop most of it too
+      }
+      this.addRules(root, () => order++);
+    });
+    $('[style]').each((_, el) => {
+      try {
+        postcss.parse($(el).attr('style') || '').each(node => {
+          if (node.type === 'decl') this.declare(el as Element, node.prop, node.value, node.important, 1000000, order++);
+        });
+      } catch {
+        // An unparsable style attribute sets nothing
+      }
+    });
+  }
+
+  /**
+   * The value of a property for an element (inherited when it's an inherited property)
+   */
+  get(el: Element, property: string): string {
+    let values = this.cache.get(el);
+    if (!values) this.cache.set(el, values = new Map());
+    const cached = values.get(property);
+    if (cached !== undefined) return cached;
+
+    const own = this.declared.get(el)?.get(property)?.value;
+    const parent = el.parent && 'tagName' in el.parent ? el.parent as Element : undefined;
+    let value = own ?? ((INHERITED.has(property) || property.startsWith('--')) && parent ? this.get(parent, property) : '');
+    if (value === 'inherit' && parent) value = this.get(parent, property);
+    value = this.resolveVars(el, value);
+    values.set(property, value);
+    return value;
+  }
+
+  /**
+   * A length in px (em against the element's font size, % against `base`)
+   */
+  px(el: Element, value: string, base = 0): number | undefined {
+    const match = value.trim().match(/^(-?[\d.]+)(px|rem|em|%|vw|vh)?$/);
+    if (!match) return undefined;
+    const number = parseFloat(match[1]);
+    switch (match[2]) {
+      case 'rem': return number * this.fontSize(this.$('html')[0] as Element | undefined);
+      case 'em': return number * this.fontSize(el);
+      case '%': return (number / 100) * base;
+      case 'vw': return (number / 100) * VIEWPORT.width;
+      case 'vh': return (number / 100) * VIEWPORT.height;
+      default: return number;
+    }
+  }
+
+  fontSize(el?: Element): number {
+    if (!el) return 16;
+    const parent = el.parent && 'tagName' in el.parent ? el.parent as Element : undefined;
+    const inherited = parent ? this.fontSize(parent) : 16;
+    const own = this.declared.get(el)?.get('font-size')?.value;
+    if (!own) return inherited;
+    const value = this.resolveVars(el, own);
+    if (/^[\d.]+em$/.test(value)) return parseFloat(value) * inherited;
+    if (/^[\d.]+%$/.test(value)) return (parseFloat(value) / 100) * inherited;
+    return this.px(el, value) ?? inherited;
+  }
+
+  private addRules(container: Container, next: () => number) {
+    container.each(node => {
+      if (node.type === 'atrule') {
+        if (node.name === 'media' && matchesViewport(node)) this.addRules(node, next);
+        return;
+      }
+      if (node.type !== 'rule') return;
+      for (const selector of node.selectors) {
+        // States (:hover, :focus, ::before, ...) are not what the page shows at rest
+        if (/::?(hover|focus|active|visited|focus-within|focus-visible|before|after|placeholder|selection)\b/.test(selector)) continue;
+        let matched: Element[];
+        try {
+          matched = this.$(selector.replace(/:root\b/g, 'html')).toArray() as Element[];
+        } catch {
+          continue; // Selectors css-select doesn't know
+        }
+        const specificity = selectorSpecificity(selector);
+        node.each(child => {
+          if (child.type !== 'decl') return;
+          const order = next();
+          for (const el of matched) this.declare(el, child.prop, child.value, child.important, specificity, order);
+        });
+      }
+    });
+  }
+
+  private declare(el: Element, property: string, value: string, important: boolean, specificity: number, order: number) {
+    let declarations = this.declared.get(el);
+    if (!declarations) this.declared.set(el, declarations = new Map());
+    for (const [name, part] of expandShorthand(property.toLowerCase(), value)) {
+      const current = declarations.get(name);
+      const wins = !current || (important !== current.important
+        ? important
+        : specificity > current.specificity || (specificity === current.specificity && order >= current.order));
+      if (wins) declarations.set(name, { value: part, important, specificity, order });
+    }
+  }
+
+  private resolveVars(el: Element, value: string, depth = 0): string {
+    if (!value.includes('var(') || depth > 10) return value;
+    const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/g, (_, name: string, fallback?: string) =>
+      this.get(el, name) || fallback?.trim() || ''
+    );
+    return this.resolveVars(el, resolved, depth + 1);
+  }
+}
+
+/**
+ * Accessibility audit of a page (no LLM, no browser): WCAG contrast of every text from
+ * its cascaded colours and backgrounds, CTA tap-target sizes at the 375px viewport,
+ * alt text, heading order, keyboard focus and names of the answer options, and
+ * <html lang/dir> against the project language.
+ */
+export function auditAccessibility(html: string, language?: string): QAIssue[] {
+  const $ = cheerio.load(html);
+  const styles = new StyleResolver($);
+  const shown = (el: Element) => isShown($, styles, el);
+
+  return [
+    ...checkContrast($, styles, shown),
+    ...checkTapTargets($, styles, shown),
+    ...checkAltText($),
+    ...checkHeadings($),
+    ...checkOptions($),
+    ...checkLanguage($, language),
+  ];
+}
+
+function checkContrast($: cheerio.CheerioAPI, styles: StyleResolver, shown: (el: Element) => boolean): QAIssue[] {
+  const failures = new Map<string, { el: Element; ratio: number; cta: boolean; required: number; count: number; fg: string; bg: string }>();
+
+  $('body *').not(SKIPPED).not($(SKIPPED).find('*')).each((_, node) => {
+    const el = node as Element;
+    const text = el.children.filter(child => child.type === 'text').map(child => ('data' in child ? child.data : '')).join('').trim();
+    if (!text || !shown(el)) return;
+
+    const fg = parseColor(styles.get(el, 'color') || 'black');
+    const backgrounds = backgroundsOf(styles, el);
+    if (!fg || !backgrounds) return; // A colour we can't read, or text over an image
+
+    const opacity = opacityOf(styles, el);
+    const fontSize = styles.fontSize(el);
+    const weight = styles.get(el, 'font-weight');
+    const bold = weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 700;
+    const cta = $(el).is(CTAS) || $(el).closest(CTAS).length > 0;
+    const required = cta ? MIN_CONTRAST : fontSize >= 24 || (bold && fontSize >= 18.66) ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+
+    const ratio = Math.min(...backgrounds.map(bg => contrastRatio(blend([fg[0], fg[1], fg[2], fg[3] * opacity], bg), bg)));
+    if (ratio >= required) return;
+
+    const fgHex = toHex(blend([fg[0], fg[1], fg[2], fg[3] * opacity], backgrounds[0]));
+    const key = `${fgHex}/${backgrounds.map(toHex).join('+')}/${required}`;
+    const existing = failures.get(key);
+    if (existing) existing.count++;
+    else failures.set(key, { el, ratio, cta, required, count: 1, fg: fgHex, bg: backgrounds.map(toHex).join(' → ') });
+  });
+
+  return [...failures.values()].map((failure, index) => ({
+    id: `a11y-contrast-${index + 1}`,
+    severity: failure.cta || failure.ratio < MIN_CONTRAST_LARGE ? 'major' : 'minor',
+    category: 'accessibility',
+    title: failure.cta ? 'Low contrast on a CTA' : 'Low text contrast',
+    description: `${failure.fg} on ${failure.bg} has a contrast ratio of ${failure.ratio.toFixed(2)}:1, ${failure.required}:1 is needed` +
+      (failure.count > 1 ? ` (${failure.count} elements)` : ''),
+    location: selectorFor($, failure.el),
+    codeSnippet: $.html(failure.el).substring(0, 200),
+    suggestedFix: `Darken or lighten the text or background until the ratio is at least ${failure.required}:1`,
+  }));
+}
+
+function checkTapTargets($: cheerio.CheerioAPI, styles: StyleResolver, shown: (el: Element) => boolean): QAIssue[] {
+  const issues: QAIssue[] = [];
+  $(CTAS).each((_, node) => {
+    const el = node as Element;
+    if (!shown(el) || $(el).parents(CTAS).length > 0) return;
+    const { width, height } = tapTargetSize($, styles, el);
+    if (width >= MIN_TAP_TARGET && height >= MIN_TAP_TARGET) return;
+    issues.push({
+      id: `a11y-tap-target-${issues.length + 1}`,
+      severity: 'major',
+      category: 'accessibility',
+      title: 'Tap target too small',
+      description: `"${$(el).text().trim().substring(0, 40) || el.tagName}" is about ${Math.round(width)}×${Math.round(height)}px at the ${VIEWPORT.width}px viewport; CTAs need at least ${MIN_TAP_TARGET}×${MIN_TAP_TARGET}px`,
+      location: selectorFor($, el),
+      suggestedFix: `Give the button min-height: ${MIN_TAP_TARGET}px and enough padding (LP_RULES: padding 16px 32px, width 100%)`,
+    });
+  });
+  return issues;
+}
+
+function checkAltText($: cheerio.CheerioAPI): QAIssue[] {
+  return $('img:not([alt]), input[type="image"]:not([alt]), [role="img"]:not([aria-label]):not([aria-labelledby])').toArray()
+    .filter(el => !$(el).closest(SKIPPED).length && $(el).attr('aria-hidden') !== 'true' && !/^(0|1)(px)?$/.test($(el).attr('width') || ''))
+    .map((el, index) => ({
+      id: `a11y-alt-${index + 1}`,
+      severity: 'major',
+      category: 'accessibility',
+      title: 'Image without alt text',
+      description: `${$(el).attr('src') ? `The image ${$(el).attr('src')?.substring(0, 80)}` : 'An image'} has no alt text for screen readers`,
+      location: selectorFor($, el as Element),
+      suggestedFix: 'Add alt="..." describing the image, or alt="" if it is decoration',
+    }));
+}
+
+function checkHeadings($: cheerio.CheerioAPI): QAIssue[] {
+  const levels = $('body').find('h1, h2, h3, h4, h5, h6').toArray().map(el => ({ el: el as Element, level: Number((el as Element).tagName[1]) }));
+  if (levels.length === 0) return [];
+
+  const issues: QAIssue[] = [];
+  if (!levels.some(heading => heading.level === 1)) {
+    issues.push({
+      id: 'a11y-no-h1',
+      severity: 'minor',
+      category: 'accessibility',
+      title: 'No h1 heading',
+      description: 'The page has headings but none is an h1',
+      location: selectorFor($, levels[0].el),
+      suggestedFix: 'Make the first step\'s headline an <h1>',
+    });
+  }
+  const skip = levels.find((heading, index) => index > 0 && heading.level > levels[index - 1].level + 1);
+  if (skip) {
+    const previous = levels[levels.indexOf(skip) - 1].level;
+    issues.push({
+      id: 'a11y-heading-order',
+      severity: 'minor',
+      category: 'accessibility',
+      title: 'Heading levels skipped',
+      description: `An h${skip.level} follows an h${previous}; screen reader users navigate by heading level`,
+      location: selectorFor($, skip.el),
+      suggestedFix: `Use an h${previous + 1} here, or restyle the heading with CSS instead of changing its level`,
+    });
+  }
+  return issues;
+}
+
+// Answer options and buttons: reachable with the keyboard, with a name screen readers announce
+function checkOptions($: cheerio.CheerioAPI): QAIssue[] {
+  const issues: QAIssue[] = [];
+  const options = $(`${OPTIONS}, button`).toArray().filter(el => !$(el).closest(SKIPPED).length) as Element[];
+
+  options.filter(el => {
+    const tabindex = $(el).attr('tabindex');
+    if (tabindex !== undefined) return parseInt(tabindex, 10) < 0;
+    return !$(el).is(FOCUSABLE) && $(el).find(FOCUSABLE).length === 0;
+  }).forEach((el, index) => {
+    issues.push({
+      id: `a11y-focus-${index + 1}`,
+      severity: 'major',
+      category: 'accessibility',
+      title: 'Option not reachable by keyboard',
+      description: `"${$(el).text().trim().substring(0, 40)}" can be clicked but not focused with Tab, so keyboard and switch users can't answer`,
+      location: selectorFor($, el),
+      codeSnippet: $.html(el).substring(0, 200),
+      suggestedFix: 'Use a <button> for the option (or add tabindex="0", role="button" and an Enter/Space handler)',
+    });
+  });
+
+  options.filter(el => !$(el).text().trim() && !$(el).attr('aria-label') && !$(el).attr('aria-labelledby') &&
+    !$(el).attr('title') && !$(el).attr('value') && !$(el).find('img[alt]:not([alt=""])').length
+  ).forEach((el, index) => {
+    issues.push({
+      id: `a11y-name-${index + 1}`,
+      severity: 'major',
+      category: 'accessibility',
+      title: 'Button without a name',
+      description: 'A button or option has no text or aria-label, so screen readers announce it as "button"',
+      location: selectorFor($, el),
+      suggestedFix: 'Add visible text or an aria-label',
+    });
+  });
+  return issues;
+}
+
+function checkLanguage($: cheerio.CheerioAPI, language?: string): QAIssue[] {
+  const issues: QAIssue[] = [];
+  const lang = $('html').attr('lang')?.trim();
+  const config = language ? LANGUAGES[language as LanguageCode] : undefined;
+
+  if (!lang) {
+    issues.push({
+      id: 'a11y-lang',
+      severity: 'major',
+      category: 'accessibility',
+      title: 'Missing lang attribute',
+      description: 'Without <html lang> screen readers read the page with the wrong voice and pronunciation',
+      location: 'html',
+      suggestedFix: `Add lang="${language || 'en'}" to the <html> element`,
+    });
+  } else if (language && lang.toLowerCase().split('-')[0] !== language.toLowerCase().split('-')[0]) {
+    issues.push({
+      id: 'a11y-lang',
+      severity: 'major',
+      category: 'accessibility',
+      title: 'Wrong lang attribute',
+      description: `The page is in ${config?.name || language} but <html lang="${lang}"> says otherwise`,
+      location: 'html',
+      suggestedFix: `Set lang="${language}" on the <html> element`,
+    });
+  }
+
+  if (config) {
+    const dir = ($('html').attr('dir') || $('body').attr('dir') || 'ltr').toLowerCase();
+    if (dir !== config.direction) {
+      issues.push({
+        id: 'a11y-dir',
+        severity: 'major',
+        category: 'accessibility',
+        title: config.direction === 'rtl' ? 'Missing dir="rtl"' : 'Wrong text direction',
+        description: `${config.name} is written ${config.direction === 'rtl' ? 'right to left' : 'left to right'} but the page is dir="${dir}"`,
+        location: 'html',
+        suggestedFix: config.direction === 'rtl' ? 'Add dir="rtl" to the <html> element' : 'Remove dir="rtl" from the page',
+      });
+    }
+  }
+  return issues;
+}
+
+// Rough box of a CTA at 375px: explicit sizes where set, otherwise padding + line box / text width
+function tapTargetSize($: cheerio.CheerioAPI, styles: StyleResolver, el: Element): { width: number; height: number } {
+  const fontSize = styles.fontSize(el);
+  const length = (property: string, base = 0) => styles.px(el, styles.get(el, property), base) ?? 0;
+
+  // Space the CTA's container leaves at 375px (ancestors' horizontal padding taken off)
+  let available = VIEWPORT.width;
+  for (const ancestor of $(el).parents().toArray() as Element[]) {
+    const padding = (property: string) => styles.px(ancestor, styles.get(ancestor, property), VIEWPORT.width) ?? 0;
+    available -= padding('padding-left') + padding('padding-right');
+  }
+  available = Math.max(available, 0);
+
+  const lineHeight = styles.get(el, 'line-height');
+  const line = /^[\d.]+$/.test(lineHeight) ? parseFloat(lineHeight) * fontSize : styles.px(el, lineHeight, fontSize) ?? fontSize * 1.2;
+  const border = (side: string) => styles.px(el, styles.get(el, `border-${side}-width`)) ?? (el.tagName === 'button' ? 2 : 0);
+  const padding = (side: string) => styles.get(el, `padding-${side}`)
+    ? length(`padding-${side}`, available)
+    : el.tagName === 'button' ? (side === 'top' || side === 'bottom' ? 1 : 6) : 0;
+
+  let height = length('height') || line + padding('top') + padding('bottom') + border('top') + border('bottom');
+  height = Math.max(height, length('min-height'));
+
+  const display = styles.get(el, 'display');
+  const parent = el.parent && 'tagName' in el.parent ? el.parent as Element : undefined;
+  const stretched = !!parent && /flex/.test(styles.get(parent, 'display')) && /column/.test(styles.get(parent, 'flex-direction')) &&
+    !/center|start|end/.test(styles.get(parent, 'align-items'));
+  let width = length('width', available) ||
+    (display === 'block' || display === 'flex' || stretched
+      ? available
+      : $(el).text().trim().length * fontSize * 0.55 + padding('left') + padding('right') + border('left') + border('right'));
+  const maxWidth = length('max-width', available);
+  if (maxWidth > 0) width = Math.min(width, maxWidth);
+  width = Math.max(width, length('min-width', available));
+
+  return { width, height };
+}
+
+// The element and its ancestors aren't display:none / hidden (steps count as shown: one is at a time)
+function isShown($: cheerio.CheerioAPI, styles: StyleResolver, el: Element): boolean {
+  for (const node of [el, ...$(el).parents().toArray() as Element[]]) {
+    if (/^step\d+$/.test(node.attribs.id || '') || $(node).hasClass('step')) continue;
+    if (node.attribs.hidden !== undefined || styles.get(node, 'display') === 'none' || styles.get(node, 'visibility') === 'hidden') return false;
+  }
+  return true;
+}
+
+// What the text sits on: the first opaque layer going up (a gradient's colours are all
+// candidates), translucent layers blended over it; undefined when an image is behind it
+function backgroundsOf(styles: StyleResolver, el: Element): Rgba[] | undefined {
+  const layers: Rgba[] = [];
+  let base: Rgba[] = [[255, 255, 255, 1]];
+  for (let node: Element | undefined = el; node; node = node.parent && 'tagName' in node.parent ? node.parent as Element : undefined) {
+    const image = styles.get(node, 'background-image');
+    if (/url\(/.test(image)) return undefined;
+    const gradient = image.match(/gradient\((.*)\)/)?.[1];
+    if (gradient) {
+      const stops = (gradient.match(/#[\da-f]{3,8}\b|rgba?\([^)]*\)|hsla?\([^)]*\)|\b[a-z]+\b/gi) || [])
+        .map(parseColor)
+        .filter((color): color is Rgba => !!color);
+      if (stops.length > 0) {
+        base = stops.map(stop => blend(stop, [255, 255, 255, 1]));
+        break;
+      }
+    }
+    const color = parseColor(styles.get(node, 'background-color'));
+    if (color && color[3] >= 1) {
+      base = [color];
+      break;
+    }
+    if (color && color[3] > 0) layers.push(color);
+  }
+  return base.map(bottom => layers.reduceRight((result, layer) => blend(layer, result), bottom));
+}
+
+function opacityOf(styles: StyleResolver, el: Element): number {
+  let opacity = 1;
+  for (let node: Element | undefined = el; node; node = node.parent && 'tagName' in node.parent ? node.parent as Element : undefined) {
+    const value = parseFloat(styles.get(node, 'opacity'));
+    if (!isNaN(value)) opacity *= Math.min(Math.max(value, 0), 1);
+  }
+  return opacity;
+}
+
+// @media blocks that apply at 375×667 on screen
+function matchesViewport(rule: AtRule): boolean {
+  return rule.params.split(',').some(query => {
+    const negated = /^\s*not\s/i.test(query);
+    const text = query.replace(/^\s*(not|only)\s+/i, '').trim().toLowerCase();
+    if (/^(print|speech)\b/.test(text)) return negated;
+    const conditions = [...text.matchAll(/\(\s*([\w-]+)\s*(?::\s*([^)]+))?\)/g)];
+    const matches = conditions.every(([, feature, raw = '']) => {
+      const value = raw.trim();
+      const size = parseFloat(value) * (/em$/.test(value) ? 16 : 1);
+      switch (feature) {
+        case 'min-width': return VIEWPORT.width >= size;
+        case 'max-width': return VIEWPORT.width <= size;
+        case 'min-height': return VIEWPORT.height >= size;
+        case 'max-height': return VIEWPORT.height <= size;
+        case 'orientation': return value === 'portrait';
+        case 'hover': case 'pointer': return value === 'none' || value === 'coarse';
+        default: return false;
+      }
+    });
+    return negated ? !matches : matches;
+  });
+}
+
+// Longhands a declaration sets (only the ones the audit reads are split out)
+function expandShorthand(property: string, value: string): [string, string][] {
+  if (property === 'background') {
+    const color = value.match(/#[\da-f]{3,8}\b|rgba?\([^)]*\)|hsla?\([^)]*\)|var\([^)]*\)|\b(?!repeat|no-repeat|center|top|bottom|left|right|cover|contain|fixed|scroll|none)[a-z]+\b(?![(-])/i)?.[0];
+    const image = value.match(/(?:linear|radial|conic|repeating-linear|repeating-radial)-gradient\(.*\)|url\([^)]*\)/i)?.[0];
+    return [['background-color', image && !color ? 'transparent' : color || 'transparent'], ['background-image', image || 'none']];
+  }
+  if (property === 'padding') {
+    const [top, right = top, bottom = top, left = right] = value.trim().split(/\s+/);
+    return [['padding-top', top], ['padding-right', right], ['padding-bottom', bottom], ['padding-left', left]];
+  }
+  if (property === 'border' || property === 'border-width') {
+    const width = property === 'border' ? value.match(/(^|\s)([\d.]+(px|em|rem)?|0)(?=\s|$)/)?.[2] || (/none|hidden/.test(value) ? '0' : '2px') : value.trim().split(/\s+/)[0];
+    return ['top', 'right', 'bottom', 'left'].map(side => [`border-${side}-width`, width]);
+  }
+  return [[property, value]];
+}
+
+// (ids, classes/attributes/pseudo-classes, types) packed into one comparable number
+function selectorSpecificity(selector: string): number {
+  const stripped = selector.replace(/"[^"]*"|'[^']*'/g, '');
+  const ids = (stripped.match(/#[\w-]+/g) || []).length;
+  const classes = (stripped.match(/\.[\w-]+|\[[^\]]*\]|:(?!:)[\w-]+/g) || []).length;
+  const types = (stripped.replace(/\[[^\]]*\]|\([^)]*\)/g, '').match(/(^|[\s>+~(])[a-z][\w-]*/gi) || []).length;
+  return ids * 10000 + classes * 100 + types;
+}
+
+function parseColor(value?: string): Rgba | undefined {
+  if (!value) return undefined;
+  const color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) return parseColor(NAMED_COLORS[color]);
+
+  const hex = color.match(/^#([\da-f]{3,8})$/)?.[1];
+  if (hex) {
+    const full = hex.length <= 4 ? hex.split('').map(c => c + c).join('') : hex;
+    if (full.length !== 6 && full.length !== 8) return undefined;
+    const channel = (index: number) => parseInt(full.substring(index * 2, index * 2 + 2), 16);
+    return [channel(0), channel(1), channel(2), full.length === 8 ? channel(3) / 255 : 1];
+  }
+
+  const fn = color.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (!fn) return undefined;
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+  const alpha = parts[3] !== undefined ? parseFloat(parts[3]) / (parts[3].endsWith('%') ? 100 : 1) : 1;
+  if (fn[1].startsWith('rgb')) {
+    const channel = (part: string) => part.endsWith('%') ? parseFloat(part) * 2.55 : parseFloat(part);
+    return [channel(parts[0]), channel(parts[1]), channel(parts[2]), alpha];
+  }
+  const [h, s, l] = [parseFloat(parts[0]), parseFloat(parts[1]) / 100, parseFloat(parts[2]) / 100];
+  const k = (n: number) => (n + h / 30) % 12;
+  const f = (n: number) => l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0) * 255, f(8) * 255, f(4) * 255, alpha];
+}
+
+// A colour painted over an opaque one
+function blend(top: Rgba, bottom: Rgba): Rgba {
+  const alpha = top[3];
+  return [0, 1, 2].map(i => top[i] * alpha + bottom[i] * (1 - alpha)).concat(1) as Rgba;
+}
+
+// WCAG 2.x relative luminance contrast
+function contrastRatio(a: Rgba, b: Rgba): number {
+  const luminance = ([r, g, b]: Rgba) => {
+    const [R, G, B] = [r, g, b].map(channel => {
+      const value = channel / 255;
+      return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+  };
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+function toHex(color: Rgba): string {
+  return `#${color.slice(0, 3).map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
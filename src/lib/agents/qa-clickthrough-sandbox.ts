@@ -0,0 +1,398 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import path from 'path';
+
+// Redirects in page scripts are rewritten to call this recorder (see instrumentPage)
+export const NAVIGATE = '__qaNavigate';
+
+const ACTIONS = 'button, a[href], [onclick], [role="button"], input[type="button"], input[type="submit"]';
+const PROGRESS = '.progress, [class*="progress"], [role="progressbar"], progress';
+
+// The page process reports in this often while its event loop runs; a page script that
+// never returns blocks the loop, and a process silent for HANG_MS is killed
+const HEARTBEAT_MS = 250;
+const HANG_MS = 5000;
+
+// Heap of one page process; a page that needs more crashes it
+const PAGE_MEMORY_MB = 256;
+
+// Node's permission model (the flag was renamed in Node 22)
+const PERMISSION_FLAG = ['--permission', '--experimental-permission'].find(flag => process.allowedNodeEnvironmentFlags.has(flag));
+
+/**
+ * A click on the index-th action of a step
+ */
+export interface Click {
+  step: number;
+  index: number;
+}
+
+export interface PageState {
+  visible: number[];
+  step?: number;
+  progress: string;
+}
+
+export type ClickOutcome =
+  | { kind: 'redirect'; url?: string } // url unset: a navigation jsdom saw but we couldn't read
+  | { kind: 'step'; state: PageState }
+  | { kind: 'none' };
+
+/**
+ * One load of a page in the sandbox (replaying the clicks that lead to a step) and
+ * the click made on it. Plain data only.
+ */
+export interface PageVisit {
+  state: PageState;   // After loading and replaying the path
+  actions: number;    // What can be clicked on state.step
+  errors: string[];   // Script errors, while loading included
+  seen: number[];     // Steps shown at some point, including loaders that moved on by themselves
+  click?: { label: string; selector: string; outcome: ClickOutcome }; // Unset when the action isn't there
+}
+
+/**
+ * Why a visit came back without a result: the page stopped responding, ran out of
+ * memory, or the deadline passed first
+ */
+export type VisitFailure = 'hung' | 'crashed' | 'deadline';
+
+export interface PageSandbox {
+  visit(request: { path: Click[]; click?: Click }, deadline: number): Promise<PageVisit | VisitFailure>;
+  close(): Promise<void>;
+}
+
+/**
+ * Open a page in jsdom inside a separate Node process. Page scripts run with
+ * `runScripts: 'dangerously'` and can reach that process, so it runs under Node's
+ * permission model with an empty environment: it may read node_modules (jsdom) and
+ * nothing else, and can't start processes, workers or native addons. A page that
+ * never returns or eats memory only takes its own process down. A failed visit kills
+ * the process and the next visit starts a new one; a process that dies for any other
+ * reason rejects the visit. Without the permission model no page script is run.
+ */
+export function openPageSandbox(html: string, url: string, waitMs: number): PageSandbox {
+  let page: PageProcess | undefined;
+
+  const visit: PageSandbox['visit'] = (request, deadline) => new Promise((resolve, reject) => {
+    let current: PageProcess;
+    try {
+      current = page ??= startPageProcess(html, url, waitMs);
+    } catch (error) {
+      return reject(error);
+    }
+    let hangTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = () => {
+      clearTimeout(hangTimer);
+      clearTimeout(deadlineTimer);
+      current.onMessage = undefined;
+      current.child.off('close', onClose);
+      current.child.off('error', onError);
+    };
+    const stop = () => {
+      if (page === current) page = undefined;
+      current.child.kill('SIGKILL');
+    };
+    const fail = (failure: VisitFailure) => {
+      settle();
+      stop();
+      resolve(failure);
+    };
+    const watch = () => {
+      clearTimeout(hangTimer);
+      hangTimer = setTimeout(() => fail('hung'), HANG_MS);
+    };
+    const onClose = (code: number | null, signal: NodeJS.Signals | null) => {
+      settle();
+      if (page === current) page = undefined;
+      if (/heap out of memory/i.test(current.stderr)) return resolve('crashed');
+      const output = current.stderr.trim().slice(-500);
+      reject(new Error(`Click-through sandbox exited with ${signal || `code ${code}`}${output ? `: ${output}` : ''}`));
+    };
+    const onError = (error: Error) => {
+      settle();
+      stop();
+      reject(error);
+    };
+    const deadlineTimer = setTimeout(() => fail('deadline'), Math.max(0, deadline - Date.now()));
+
+    current.onMessage = message => {
+      if (message.type === 'alive') return watch();
+      settle();
+      if (message.type === 'visit') resolve(message.visit);
+      else reject(new Error(`Click-through sandbox: ${message.error}`));
+    };
+    current.child.on('close', onClose);
+    current.child.on('error', onError);
+    watch();
+    current.child.stdin.write(JSON.stringify(request) + '\n');
+  });
+
+  return {
+    visit,
+    close: async () => {
+      page?.child.kill('SIGKILL');
+      page = undefined;
+    },
+  };
+}
+
+type PageMessage = { type: 'alive' } | { type: 'visit'; visit: PageVisit } | { type: 'failed'; error: string };
+
+interface PageProcess {
+  child: ChildProcessWithoutNullStreams;
+  stderr: string; // The tail, to tell an out-of-memory crash from other exits
+  onMessage?: (message: PageMessage) => void;
+}
+
+// Start a page process and send it the page; it then answers one visit request per line
+function startPageProcess(html: string, url: string, waitMs: number): PageProcess {
+  if (!PERMISSION_FLAG) throw new Error('Click-through sandbox: this Node has no permission model, so page scripts are not run');
+  // Looked up at runtime: Turbopack turns a static createRequire(...).resolve() into a module id
+  const jsdom = process.getBuiltinModule('module').createRequire(import.meta.url).resolve('jsdom');
+  const modules = jsdom.slice(0, jsdom.indexOf(`${path.sep}node_modules${path.sep}`) + `${path.sep}node_modules`.length);
+  // Nothing from the server's environment is passed on (the cast: Next types NODE_ENV as required)
+  const child = spawn(process.execPath, [
+    PERMISSION_FLAG,
+    `--allow-fs-read=${modules}`,
+    `--max-old-space-size=${PAGE_MEMORY_MB}`,
+    '--no-warnings',
+    '-e', pageScript(jsdom),
+  ], { env: {} as NodeJS.ProcessEnv });
+  const page: PageProcess = { child, stderr: '' };
+
+  let buffered = '';
+  child.stdout.setEncoding('utf8');
+  child.stdout.on('data', (chunk: string) => {
+    buffered += chunk;
+    for (let end = buffered.indexOf('\n'); end !== -1; end = buffered.indexOf('\n')) {
+      const line = buffered.slice(0, end);
+      buffered = buffered.slice(end + 1);
+      try {
+        page.onMessage?.(JSON.parse(line));
+      } catch {
+        // Not a message (a page script writing to stdout)
+      }
+    }
+  });
+  child.stderr.setEncoding('utf8');
+  child.stderr.on('data', (chunk: string) => {
+    page.stderr = (page.stderr + chunk).slice(-4000);
+  });
+  // A process that dies between visits is just replaced
+  child.on('error', () => {});
+  child.stdin.on('error', () => {});
+  child.stdin.write(JSON.stringify({ html, url, waitMs }) + '\n');
+  return page;
+}
+
+// Runs in the page process (CommonJS, run with node -e). Redirects are recorded instead of
+// followed; dialogs and scrolling are no-ops.
+function pageScript(jsdom: string): string {
+  return `
+const { JSDOM, VirtualConsole } = require(${JSON.stringify(jsdom)});
+
+// Page scripts can reach this process: take away what the permission model doesn't cover
+for (const name of ['kill', '_kill', 'getBuiltinModule', 'binding', '_linkedBinding', 'dlopen']) process[name] = undefined;
+delete globalThis.require;
+delete globalThis.module;
+
+const NAVIGATE = ${JSON.stringify(NAVIGATE)};
+const ACTIONS = ${JSON.stringify(ACTIONS)};
+const PROGRESS = ${JSON.stringify(PROGRESS)};
+let html, url, waitMs;
+
+const send = message => process.stdout.write(JSON.stringify(message) + '\\n');
+setInterval(() => send({ type: 'alive' }), ${HEARTBEAT_MS});
+
+// The first line is the page, every further line a visit
+let buffered = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => {
+  buffered += chunk;
+  for (let end = buffered.indexOf('\\n'); end !== -1; end = buffered.indexOf('\\n')) {
+    const message = JSON.parse(buffered.slice(0, end));
+    buffered = buffered.slice(end + 1);
+    if (html === undefined) ({ html, url, waitMs } = message);
+    else handle(message);
+  }
+});
+process.stdin.on('end', () => process.exit());
+
+async function handle(request) {
+  try {
+    send({ type: 'visit', visit: await visit(request.path, request.click) });
+  } catch (error) {
+    send({ type: 'failed', error: String((error && error.stack) || error) });
+  }
+}
+
+async function visit(path, click) {
+  const session = await openPage(path);
+  try {
+    const state = readState(session.window);
+    const result = { state, actions: state.step === undefined ? 0 : stepActions(session.window, state.step).length };
+    const element = click && stepActions(session.window, click.step)[click.index];
+    if (element) {
+      result.click = { label: label(element), selector: domSelector(element), outcome: await clickAndWait(session, click) };
+    }
+    return { ...result, errors: session.errors, seen: [...session.seen] };
+  } finally {
+    session.window.close();
+  }
+}
+
+// Load the page and replay the clicks that lead to a step
+async function openPage(path) {
+  const virtualConsole = new VirtualConsole();
+  const session = { window: undefined, redirects: [], errors: [], seen: new Set() };
+  virtualConsole.on('jsdomError', error => {
+    if (error.type !== 'not-implemented') session.errors.push(error.message.split('\\n')[0]);
+    else if (/navigation to another Document/.test(error.message)) session.redirects.push(undefined);
+  });
+
+  const dom = new JSDOM(html, {
+    url,
+    runScripts: 'dangerously',
+    pretendToBeVisual: true,
+    virtualConsole,
+    beforeParse: window => installRecorders(window, session),
+  });
+  session.window = dom.window;
+
+  for (const step of path) {
+    await clickAndWait(session, step);
+  }
+  return session;
+}
+
+function installRecorders(window, session) {
+  const record = target => {
+    const href = String(target);
+    try {
+      session.redirects.push(new URL(href, window.document.baseURI).href);
+    } catch {
+      session.redirects.push(href);
+    }
+  };
+  Object.assign(window, {
+    [NAVIGATE]: target => {
+      record(target);
+      return target;
+    },
+    open: target => {
+      record(target);
+      return null;
+    },
+    scrollTo: () => {},
+    scrollBy: () => {},
+    alert: () => {},
+    confirm: () => true,
+  });
+
+  // Bubble phase on window runs after the page's own handlers (passthrough rewrites links on capture)
+  window.addEventListener('click', event => {
+    const link = event.target && event.target.closest ? event.target.closest('a[href]') : null;
+    if (!link || event.defaultPrevented) return;
+    const target = new URL(link.getAttribute('href') || '', window.document.baseURI);
+    if (target.href.split('#')[0] === window.location.href.split('#')[0] || !/^https?:$/.test(target.protocol)) return;
+    event.preventDefault();
+    record(target.href);
+  });
+  window.addEventListener('submit', event => {
+    event.preventDefault();
+    record(event.target.getAttribute('action') || window.location.href);
+  });
+}
+
+// Click and wait until the page shows another step or leaves; steps without anything
+// to click (loaders) are waited through
+async function clickAndWait(session, click) {
+  const before = readState(session.window);
+  const redirects = session.redirects.length;
+  const element = stepActions(session.window, click.step)[click.index];
+  if (element) element.click();
+
+  let last = before;
+  for (let round = 0; round < 10; round++) {
+    const changed = await waitFor(waitMs, () => {
+      if (session.redirects.length > redirects) return true;
+      return readState(session.window).visible.join() !== last.visible.join();
+    });
+    if (session.redirects.length > redirects) return { kind: 'redirect', url: session.redirects[redirects] };
+    if (!changed) break;
+    last = readState(session.window);
+    last.visible.forEach(step => session.seen.add(step));
+    if (last.step === undefined || stepActions(session.window, last.step).length > 0) break;
+  }
+  return last.visible.join() === before.visible.join() ? { kind: 'none' } : { kind: 'step', state: last };
+}
+
+async function waitFor(ms, done) {
+  const until = Date.now() + ms;
+  while (!done()) {
+    if (Date.now() > until) return false;
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+  return true;
+}
+
+// Visible steps (#stepN), the current one (the .active one when several show) and the progress shown
+function readState(window) {
+  const steps = [...window.document.querySelectorAll('[id^="step"]')].filter(el => /^step\\d+$/.test(el.id));
+  const shown = steps.filter(el => isVisible(window, el));
+  const visible = shown.map(el => Number(el.id.slice(4)));
+  const current = shown.find(el => el.classList.contains('active')) || shown[0];
+  const progress = [...window.document.querySelectorAll(PROGRESS)]
+    .filter(el => isVisible(window, el))
+    .map(el => [el.className, (el.textContent || '').trim(), el.getAttribute('style') || '', el.getAttribute('aria-valuenow') || '', el.getAttribute('value') || ''].join('|'))
+    .join('\\n');
+  return { visible, step: current ? Number(current.id.slice(4)) : undefined, progress };
+}
+
+// What can be clicked on a step (nested targets count once)
+function stepActions(window, step) {
+  const container = window.document.getElementById('step' + step);
+  if (!container) return [];
+  const candidates = [...container.querySelectorAll(ACTIONS)].filter(el => isVisible(window, el));
+  return candidates.filter(el => !candidates.some(other => other !== el && el.contains(other)));
+}
+
+function isVisible(window, el) {
+  for (let node = el; node; node = node.parentElement) {
+    if (node.hasAttribute('hidden')) return false;
+    const style = window.getComputedStyle(node);
+    if (style.display === 'none' || style.visibility === 'hidden') return false;
+  }
+  return true;
+}
+
+function label(el) {
+  const text = (el.textContent || el.getAttribute('value') || el.getAttribute('aria-label') || el.tagName.toLowerCase()).trim().replace(/\\s+/g, ' ');
+  return text.length > 40 ? text.substring(0, 40) + '...' : text;
+}
+
+// A CSS selector that finds an element again (its id, data-node, or a tag:nth-of-type path)
+function domSelector(el) {
+  const parts = [];
+  for (let node = el; node; node = node.parentElement) {
+    if (node.id) {
+      parts.unshift('#' + node.id);
+      break;
+    }
+    const dataNode = node.getAttribute('data-node');
+    if (dataNode) {
+      parts.unshift('[data-node="' + dataNode + '"]');
+      break;
+    }
+    const tag = node.tagName.toLowerCase();
+    if (['html', 'head', 'body'].includes(tag)) {
+      parts.unshift(tag);
+      break;
+    }
+    const sameTag = node.parentElement ? [...node.parentElement.children].filter(child => child.tagName === node.tagName) : [node];
+    parts.unshift(tag + ':nth-of-type(' + (sameTag.indexOf(node) + 1) + ')');
+  }
+  return parts.join(' > ');
+}
+`;
+}
@@ -0,0 +1,302 @@
+import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import type { LPBlueprint } from './architect';
+import type { QAIssue } from './qa';
+import { NAVIGATE, openPageSandbox, type Click, type PageState } from './qa-clickthrough-sandbox';
+import { rewriteRedirects, rewritePageScripts } from '@/lib/builder-agent/redirects';
+
+/**
+ * What clicking through a page in a simulated DOM showed
+ */
+export interface ClickThroughResult {
+  issues: QAIssue[];
+  stepsVisited: number[];
+  redirects: string[];        // Every URL the page tried to leave for
+  clicks: number;
+  complete: boolean;          // false when the time budget ran out (or the page hung while loading) before every option was clicked
+  hasWorkingJS: boolean;      // No script errors, one step at a time, every click does something
+  hasCorrectRedirect: boolean; // The tracking URL was reached with the passthrough params
+}
+
+export interface ClickThroughOptions {
+  params?: string[];  // Passthrough params: the page is opened with them and the offer URL must keep them
+  timeoutMs?: number; // For the whole page
+  waitMs?: number;    // How long a click may take to show the next step (loaders, animations)
+}
+
+const PAGE_URL = 'https://lp.qa.localhost/';
+
+/**
+ * Interactive QA: load the page in jsdom and click through every step and answer
+ * option. Each option is clicked on a fresh load (replaying the clicks that lead to
+ * its step), so branches are followed too. Checks that exactly one step is visible
+ * at a time, that the progress indicator moves with the steps, that no click throws
+ * or does nothing, and that the offer is reached at blueprint.technical.trackingUrl
+ * with the passthrough params the page was opened with. Redirects are recorded,
+ * never followed (location.href assignments are rewritten to a recorder first).
+ * The page runs in a sandboxed process (see openPageSandbox); one that stops
+ * responding is killed and reported.
+ */
+export async function runClickThrough(
+  html: string,
+  blueprint: LPBlueprint,
+  options: ClickThroughOptions = {}
+): Promise<ClickThroughResult> {
+  const { params = [], timeoutMs = 20000, waitMs = 1500 } = options;
+  const deadline = Date.now() + timeoutMs;
+  const pageUrl = `${PAGE_URL}${params.length > 0 ? `?${params.map(p => `${encodeURIComponent(p)}=${sampleValue(p)}`).join('&')}` : ''}`;
+  const instrumented = instrumentPage(html);
+  const trackingUrl = blueprint.technical.trackingUrl;
+
+  const issues: QAIssue[] = [];
+  const add = (issue: QAIssue) => {
+    if (!issues.some(i => i.id === issue.id)) issues.push(issue);
+  };
+  const errors = new Set<string>();
+  const addErrors = (messages: string[], when: string) => {
+    for (const message of messages.filter(error => !errors.has(error))) {
+      errors.add(message);
+      add({
+        id: `click-js-error-${contentKey(message)}`,
+        severity: 'critical',
+        category: 'functionality',
+        title: 'JavaScript error',
+        description: `${message} (${when})`,
+        suggestedFix: 'Fix the script error',
+      });
+    }
+  };
+  const addStopped = (failure: 'hung' | 'crashed', when: string) => add({
+    id: 'click-hang',
+    severity: 'critical',
+    category: 'functionality',
+    title: 'Page stops responding',
+    description: failure === 'hung'
+      ? `A script keeps running without returning ${when}, so the page freezes`
+      : `The page ran out of memory ${when}`,
+    suggestedFix: 'Remove the endless loop or runaway allocation from the page script',
+  });
+
+  const visited = new Set<number>();
+  const redirects: string[] = [];
+  let reachedOffer = false;
+  let clicks = 0;
+  let complete = true;
+
+  const checkState = (state: PageState) => {
+    state.visible.forEach(step => visited.add(step));
+    if (state.visible.length === 1) return;
+    add({
+      id: 'click-visible-steps',
+      severity: 'critical',
+      category: 'functionality',
+      title: state.visible.length === 0 ? 'No step visible' : 'Several steps visible at once',
+      description: state.visible.length === 0
+        ? 'After loading or clicking, none of the steps is visible'
+        : `Steps ${state.visible.join(', ')} are visible at the same time`,
+      location: state.visible.map(step => `#step${step}`).join(', ') || undefined,
+      suggestedFix: 'Show only the .step.active container (.step { display: none } .step.active { display: flex })',
+    });
+  };
+
+  const checkRedirect = (url: string | undefined, from: string) => {
+    if (!url) {
+      add({
+        id: 'click-redirect-unknown',
+        severity: 'major',
+        category: 'conversion',
+        title: 'Redirect could not be followed',
+        description: `${from} navigates away, but not via location.href, a link or a form, so the target can't be checked`,
+        suggestedFix: 'Redirect with window.location.href = ...',
+      });
+      return;
+    }
+    redirects.push(url);
+    const exits = [trackingUrl, ...blueprintExits(blueprint)].filter(Boolean);
+    const target = exits.find(exit => sameTarget(url, exit));
+    if (!target) {
+      add({
+        id: `click-redirect-wrong-${contentKey(url)}`,
+        severity: 'major',
+        category: 'conversion',
+        title: 'Redirect to an unplanned URL',
+        description: `${from} leaves for ${url}, which is neither the tracking URL nor a planned branch`,
+        suggestedFix: `Redirect to ${trackingUrl || 'the tracking URL'}`,
+      });
+      return;
+    }
+    if (target === trackingUrl) reachedOffer = true;
+    for (const param of params) {
+      if (url.includes(sampleValue(param))) continue;
+      add({
+        id: `click-passthrough-${param}`,
+        severity: 'critical',
+        category: 'conversion',
+        title: `Passthrough parameter lost: ${param}`,
+        description: `The page was opened with ?${param}=${sampleValue(param)} but ${from} leaves for ${url} without it`,
+        suggestedFix: 'Send the redirect through passthroughUrl()',
+      });
+    }
+  };
+
+  // Breadth first: every step is explored from the first path that reaches it
+  const queue: Click[][] = [[]];
+  const explored = new Set<number>();
+  const sandbox = openPageSandbox(instrumented, pageUrl, waitMs);
+  try {
+    while (complete && queue.length > 0) {
+      if (Date.now() > deadline) {
+        complete = false;
+        break;
+      }
+      const path = queue.shift() as Click[];
+      const loaded = await sandbox.visit({ path }, deadline);
+      if (loaded === 'deadline') {
+        complete = false;
+        break;
+      }
+      if (loaded === 'hung' || loaded === 'crashed') {
+        addStopped(loaded, path.length === 0 ? 'while loading' : `on the way to a step (${path.length} clicks in)`);
+        if (path.length > 0) continue;
+        complete = false; // Nothing could be clicked
+        break;
+      }
+      const state = loaded.state;
+      if (path.length === 0) {
+        addErrors(loaded.errors, 'while loading the page');
+        checkState(state);
+      }
+      if (state.step === undefined || explored.has(state.step)) continue;
+      explored.add(state.step);
+
+      for (let index = 0; index < loaded.actions; index++) {
+        if (Date.now() > deadline) {
+          complete = false;
+          break;
+        }
+        const click = { step: state.step, index };
+        const clicked = await sandbox.visit({ path, click }, deadline);
+        if (clicked === 'deadline') {
+          complete = false;
+          break;
+        }
+        if (clicked === 'hung' || clicked === 'crashed') {
+          clicks++;
+          addStopped(clicked, `after clicking option ${index + 1} on step ${click.step}`);
+          continue;
+        }
+        if (!clicked.click) continue;
+        const { label, selector, outcome } = clicked.click;
+        const from = `clicking "${label}" on step ${click.step}`;
+        clicks++;
+        const threw = clicked.errors.length > 0;
+        addErrors(clicked.errors, from);
+        clicked.seen.forEach(step => visited.add(step));
+
+        if (outcome.kind === 'redirect') {
+          checkRedirect(outcome.url, from);
+        } else if (outcome.kind === 'step') {
+          checkState(outcome.state);
+          if (outcome.state.step !== undefined && outcome.state.step !== state.step && state.progress && outcome.state.progress === state.progress) {
+            add({
+              id: `click-progress-${outcome.state.step}`,
+              severity: 'major',
+              category: 'structure',
+              title: 'Progress indicator does not move',
+              description: `The progress indicator shows the same after going from step ${state.step} to step ${outcome.state.step}`,
+              location: '.progress',
+              suggestedFix: 'Update the progress bar/label whenever the step changes',
+            });
+          }
+          if (outcome.state.step !== undefined && !explored.has(outcome.state.step)) queue.push([...path, click]);
+        } else if (!threw) {
+          add({
+            id: `click-dead-${click.step}-${index + 1}`,
+            severity: 'major',
+            category: 'functionality',
+            title: 'Click does nothing',
+            description: `Nothing happens after ${from}: no other step, no redirect`,
+            location: selector,
+            suggestedFix: 'Call nextStep(), goToStep(n) or goToOffer() from this element',
+          });
+        }
+      }
+    }
+  } finally {
+    await sandbox.close();
+  }
+
+  if (complete) {
+    const steps = Array.from({ length: blueprint.totalSteps }, (_, i) => i + 1);
+    for (const step of steps.filter(n => !visited.has(n) && instrumented.includes(`id="step${n}"`))) {
+      add({
+        id: `click-unreachable-step-${step}`,
+        severity: 'major',
+        category: 'structure',
+        title: `Step ${step} never shown`,
+        description: `No sequence of clicks leads to step ${step}`,
+        location: `#step${step}`,
+        suggestedFix: `Make an earlier step lead to step ${step}`,
+      });
+    }
+  }
+  if (!reachedOffer && (trackingUrl || redirects.length === 0)) {
+    add({
+      id: 'click-no-offer',
+      severity: complete ? 'critical' : 'major',
+      category: 'conversion',
+      title: 'Offer never reached',
+      description: `Clicking through ${complete ? 'every step and option' : `${clicks} options`} never redirects to ${trackingUrl || 'an offer'}`,
+      suggestedFix: `Redirect to ${trackingUrl || 'the tracking URL'} after the last step`,
+    });
+  }
+
+  const has = (prefix: string) => issues.some(issue => issue.id.startsWith(prefix));
+  return {
+    issues,
+    stepsVisited: [...visited].sort((a, b) => a - b),
+    redirects,
+    clicks,
+    complete,
+    hasWorkingJS: !['click-js-error', 'click-hang', 'click-visible-steps', 'click-dead', 'click-unreachable-step'].some(has),
+    hasCorrectRedirect: (reachedOffer || (!trackingUrl && redirects.length > 0)) && !has('click-passthrough'),
+  };
+}
+
+// Rewrite redirects in inline scripts and on* handlers so the recorder sees their URL
+function instrumentPage(html: string): string {
+  const $ = cheerio.load(html);
+  return rewritePageScripts($, instrumentRedirects) ? $.html() : html;
+}
+
+// location.href = X → __qaNavigate(X); location.assign/replace(X) → __qaNavigate(X)
+function instrumentRedirects(code: string): string {
+  return rewriteRedirects(code, redirect => `${NAVIGATE}(${redirect.target.code})`);
+}
+
+// The URLs a page may leave for besides the tracking URL: redirect branches and exits
+function blueprintExits(blueprint: LPBlueprint): string[] {
+  return blueprint.sections.flatMap(section => [
+    section.transition?.target || '',
+    ...(section.transition?.branches || []).map(branch => branch.target || ''),
+  ]).filter(target => /^https?:\/\//.test(target));
+}
+
+// Same origin and path; {macro} path segments of the target match anything
+function sameTarget(url: string, target: string): boolean {
+  const base = (value: string) => value.split(/[?#]/)[0].replace(/\/$/, '');
+  const pattern = base(target)
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\\\{[\w-]+\\\}/g, '[^/]*');
+  return new RegExp(`^${pattern}$`, 'i').test(base(url));
+}
+
+// Ids built from what went wrong (the error, the URL), so the repair loop can tell one
+// problem from another taking its place
+function contentKey(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 8);
+}
+
+function sampleValue(param: string): string {
+  return `qa-${param.toLowerCase().replace(/[^a-z0-9]/g, '')}`;
+}
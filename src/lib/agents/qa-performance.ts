@@ -0,0 +1,191 @@
+import * as cheerio from 'cheerio';
+import type { QAIssue, IssueSeverity } from './qa';
+import { selectorFor } from './qa-rules';
+import { DEFAULT_PERFORMANCE_BUDGET, type PerformanceBudget } from '@/types';
+
+// "Regular 3G" as WebPageTest and Chrome's throttling presets model it: 1.6 Mbps down, 300ms round trips
+const THREE_G = { bytesPerSecond: 1.6e6 / 8, rttMs: 300 };
+
+// What an external script/stylesheet/font file weighs when we can't know (we don't fetch them)
+const EXTERNAL_RESOURCE_BYTES = 40 * 1024;
+
+const DATA_IMAGE = /data:image\/([\w.+-]+);base64,[A-Za-z0-9+/=]+/g;
+
+/**
+ * An inline (data URI) image of a page
+ */
+export interface InlineImage {
+  location: string; // img selector, or 'style' for CSS backgrounds
+  mimeType: string;
+  bytes: number;
+}
+
+/**
+ * What a page weighs; sizes are bytes of the HTML file (base64 as it is)
+ */
+export interface PerformanceReport {
+  totalBytes: number;
+  inlineImageBytes: number;
+  images: InlineImage[];      // Largest first
+  externalImages: number;
+  scriptBytes: number;        // Inline scripts
+  externalScripts: string[];
+  cssBytes: number;           // <style> blocks and style attributes, without the images in them
+  renderBlocking: string[];   // External scripts/stylesheets the first paint waits for
+  fonts: string[];            // Web font files / Google Fonts families
+  estimatedLoadSeconds: number;
+}
+
+/**
+ * Measure a page: size, inline images, scripts, CSS, render-blocking resources, web
+ * fonts, and a rough 3G load time (connection + the HTML + one round of blocking
+ * resources + fonts; images inside the HTML are in its size)
+ */
+export function analyzePerformance(html: string): PerformanceReport {
+  const $ = cheerio.load(html);
+  const bytes = (text: string) => Buffer.byteLength(text, 'utf8');
+
+  const images: InlineImage[] = [];
+  $('img[src^="data:"], source[srcset*="data:"], img[srcset*="data:"]').each((_, el) => {
+    const value = `${$(el).attr('src') || ''} ${$(el).attr('srcset') || ''}`;
+    for (const match of value.matchAll(DATA_IMAGE)) {
+      images.push({ location: selectorFor($, el), mimeType: `image/${match[1]}`, bytes: match[0].length });
+    }
+  });
+  let cssBytes = 0;
+  const css = [
+    ...$('style').map((_, el) => $(el).html() || '').get(),
+    ...$('[style]').map((_, el) => $(el).attr('style') || '').get(),
+  ];
+  for (const block of css) {
+    let imageBytes = 0;
+    for (const match of block.matchAll(DATA_IMAGE)) {
+      images.push({ location: 'style', mimeType: `image/${match[1]}`, bytes: match[0].length });
+      imageBytes += match[0].length;
+    }
+    cssBytes += bytes(block) - imageBytes;
+  }
+  images.sort((a, b) => b.bytes - a.bytes);
+
+  const scripts = $('script').filter((_, el) => {
+    const type = ($(el).attr('type') || '').toLowerCase();
+    return !type || /javascript|module/.test(type); // Consent-gated (text/plain) and JSON scripts don't run
+  });
+  const scriptBytes = scripts.filter(':not([src])').map((_, el) => bytes($(el).html() || '')).get().reduce((sum, n) => sum + n, 0);
+  const externalScripts = scripts.filter('[src]').map((_, el) => $(el).attr('src') || '').get();
+
+  const renderBlocking = [
+    ...scripts.filter('[src]:not([async]):not([defer]):not([type="module"])').map((_, el) => $(el).attr('src') || '').get(),
+    ...$('link[rel="stylesheet"]:not([disabled])')
+      .filter((_, el) => !/^print$/i.test($(el).attr('media') || ''))
+      .map((_, el) => $(el).attr('href') || '').get(),
+    ...css.flatMap(block => [...block.matchAll(/@import\s+(?:url\()?['"]?([^'")\s;]+)/g)].map(match => match[1])),
+  ];
+
+  const fonts = [
+    ...css.flatMap(block => [...block.matchAll(/@font-face\s*\{[^}]*?url\(\s*['"]?([^'")]+)/g)].map(match => match[1])),
+    ...[...$('link[href*="fonts.googleapis.com"]').map((_, el) => $(el).attr('href') || '').get(), ...renderBlocking.filter(url => /fonts\.googleapis\.com/.test(url))]
+      .flatMap(url => [...url.matchAll(/family=([^&:]+)/g)].map(match => decodeURIComponent(match[1].replace(/\+/g, ' ')))),
+  ].filter((font, index, all) => all.indexOf(font) === index);
+
+  const totalBytes = bytes(html);
+  const blockingRound = renderBlocking.length > 0 ? 3 * THREE_G.rttMs + (renderBlocking.length * EXTERNAL_RESOURCE_BYTES / THREE_G.bytesPerSecond) * 1000 : 0;
+  const fontRound = fonts.length > 0 ? 2 * THREE_G.rttMs + (fonts.length * EXTERNAL_RESOURCE_BYTES / THREE_G.bytesPerSecond) * 1000 : 0;
+  const loadMs = 3 * THREE_G.rttMs + (totalBytes / THREE_G.bytesPerSecond) * 1000 + blockingRound + fontRound;
+
+  return {
+    totalBytes,
+    inlineImageBytes: images.reduce((sum, image) => sum + image.bytes, 0),
+    images,
+    externalImages: $('img[src^="http"]').length,
+    scriptBytes,
+    externalScripts,
+    cssBytes,
+    renderBlocking: [...new Set(renderBlocking)],
+    fonts,
+    estimatedLoadSeconds: Math.round(loadMs / 100) / 10,
+  };
+}
+
+/**
+ * The budget with the project's limits over the defaults
+ */
+export function performanceBudget(budget?: Partial<PerformanceBudget>): PerformanceBudget {
+  return { ...DEFAULT_PERFORMANCE_BUDGET, ...budget };
+}
+
+/**
+ * A `performance` issue per budget the page goes over (major when it's more than twice the limit)
+ */
+export function checkPerformanceBudget(report: PerformanceReport, budget?: Partial<PerformanceBudget>): QAIssue[] {
+  const limits = performanceBudget(budget);
+  const issues: QAIssue[] = [];
+  const over = (value: number, limit: number): IssueSeverity | undefined =>
+    value > limit ? (value > limit * 2 ? 'major' : 'minor') : undefined;
+
+  const checks: { id: string; severity?: IssueSeverity; title: string; description: string; location?: string; suggestedFix: string }[] = [
+    {
+      id: 'perf-total',
+      severity: over(report.totalBytes / 1024, limits.totalKB),
+      title: 'Page too heavy',
+      description: `The page is ${kb(report.totalBytes)}, the budget is ${limits.totalKB} KB`,
+      suggestedFix: 'Recompress or lazy-load the images, trim unused CSS/JS',
+    },
+    {
+      id: 'perf-images',
+      severity: over(report.inlineImageBytes / 1024, limits.imageKB),
+      title: 'Inline images too heavy',
+      description: `${report.images.length} inline images weigh ${kb(report.inlineImageBytes)} (budget ${limits.imageKB} KB)` +
+        (report.images[0] ? `; the largest is ${kb(report.images[0].bytes)} (${report.images[0].mimeType})` : ''),
+      location: report.images[0]?.location,
+      suggestedFix: 'Recompress the images (WebP, at most 750px wide) and lazy-load the ones below the first step',
+    },
+    {
+      id: 'perf-scripts',
+      severity: over(report.scriptBytes / 1024, limits.scriptKB),
+      title: 'Too much inline JavaScript',
+      description: `Inline scripts weigh ${kb(report.scriptBytes)} (budget ${limits.scriptKB} KB)`,
+      location: 'script',
+      suggestedFix: 'Remove unused scripts and libraries',
+    },
+    {
+      id: 'perf-css',
+      severity: over(report.cssBytes / 1024, limits.cssKB),
+      title: 'Too much CSS',
+      description: `CSS weighs ${kb(report.cssBytes)} (budget ${limits.cssKB} KB)`,
+      location: 'style',
+      suggestedFix: 'Remove unused rules',
+    },
+    {
+      id: 'perf-render-blocking',
+      severity: over(report.renderBlocking.length, limits.renderBlocking),
+      title: 'Render-blocking resources',
+      description: `The first paint waits for ${report.renderBlocking.length} external files (budget ${limits.renderBlocking}): ${report.renderBlocking.slice(0, 3).join(', ')}`,
+      location: 'head',
+      suggestedFix: 'Add defer/async to external scripts, inline critical CSS',
+    },
+    {
+      id: 'perf-fonts',
+      severity: over(report.fonts.length, limits.fonts),
+      title: 'Too many web fonts',
+      description: `${report.fonts.length} web fonts are loaded (budget ${limits.fonts}): ${report.fonts.slice(0, 4).join(', ')}`,
+      suggestedFix: 'Use the system font stack or a single font',
+    },
+    {
+      id: 'perf-load-time',
+      severity: over(report.estimatedLoadSeconds, limits.loadSeconds3G),
+      title: 'Slow on 3G',
+      description: `Estimated load time on 3G is ${report.estimatedLoadSeconds}s (budget ${limits.loadSeconds3G}s)`,
+      suggestedFix: 'Make the page lighter and remove render-blocking resources',
+    },
+  ];
+
+  for (const { severity, ...check } of checks) {
+    if (severity) issues.push({ ...check, severity, category: 'performance' });
+  }
+  return issues;
+}
+
+function kb(bytes: number): string {
+  return `${Math.round(bytes / 1024)} KB`;
+}
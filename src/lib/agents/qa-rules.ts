@@ -0,0 +1,447 @@
+import * as cheerio from 'cheerio';
+import { parse, type Program } from 'acorn';
+import type { Element } from 'domhandler';
+import type { LPBlueprint, BlueprintBranch } from './architect';
+import type { QAIssue } from './qa';
+import { checkAnswerParams } from '@/lib/builder-agent/answer-params';
+import { findTrackingType } from '@/lib/parser/tracking-detector';
+import { walk, isLocation, isGlobalObject, propertyName } from '@/lib/builder-agent/redirects';
+
+/**
+ * An inline script or event handler, parsed (ast is undefined when it has a syntax error)
+ */
+export interface ParsedScript {
+  element: Element;
+  selector: string;
+  code: string;
+  ast?: Program;
+  error?: { message: string; line: number };
+}
+
+/**
+ * What every rule gets: the document, its parsed scripts and handlers, and the names
+ * the inline scripts define (function declarations, variables, window.x = ...)
+ */
+export interface QARuleContext {
+  html: string;
+  $: cheerio.CheerioAPI;
+  blueprint: LPBlueprint;
+  scripts: ParsedScript[];
+  handlers: ParsedScript[]; // onclick attributes
+  defined: Set<string>;
+  externalScripts: string[]; // src of scripts that aren't trackers (may define globals we can't see)
+}
+
+export interface QARule {
+  id: string;
+  description: string;
+  check: (context: QARuleContext) => QAIssue[];
+}
+
+// Globals onclick handlers may call without the page defining them
+const BROWSER_GLOBALS = new Set([
+  'alert', 'confirm', 'prompt', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'open', 'close',
+  'scrollTo', 'scrollBy', 'print', 'fetch', 'encodeURIComponent', 'decodeURIComponent', 'parseInt', 'parseFloat',
+  'isNaN', 'String', 'Number', 'Boolean', 'Array', 'Object', 'Date', 'JSON', 'Math', 'requestAnimationFrame',
+]);
+
+/**
+ * Static QA rules: parse the page with cheerio and its inline JS with acorn, no LLM.
+ * Issue ids match the repair agent's (missing-nextstep, missing-redirect, missing-step-N, ...).
+ */
+export const STATIC_QA_RULES: QARule[] = [
+  {
+    id: 'doctype',
+    description: 'The page starts with <!DOCTYPE html>',
+    check: ({ html }) => /^\s*<!DOCTYPE html>/i.test(html) ? [] : [{
+      id: 'missing-doctype',
+      severity: 'minor',
+      category: 'structure',
+      title: 'Missing DOCTYPE',
+      description: 'HTML should start with <!DOCTYPE html>',
+    }],
+  },
+  {
+    id: 'viewport',
+    description: 'A viewport meta tag with width=device-width',
+    check: ({ $ }) => /width\s*=\s*device-width/i.test($('meta[name="viewport"]').attr('content') || '') ? [] : [{
+      id: 'missing-viewport',
+      severity: 'major',
+      category: 'responsive',
+      title: 'Missing viewport meta tag',
+      description: 'Without <meta name="viewport" content="width=device-width, initial-scale=1.0"> mobile browsers render the desktop width',
+      location: 'head',
+      suggestedFix: 'Add <meta name="viewport" content="width=device-width, initial-scale=1.0"> to the head',
+    }],
+  },
+  {
+    id: 'script-syntax',
+    description: 'Inline scripts and onclick handlers parse',
+    check: ({ scripts, handlers }) => [...scripts, ...handlers].flatMap(script => script.error ? [{ ...script, error: script.error }] : []).map((script, index) => ({
+      id: `script-syntax-${index + 1}`,
+      severity: 'critical',
+      category: 'functionality',
+      title: script.element.tagName === 'script' ? 'JavaScript syntax error' : 'Syntax error in onclick handler',
+      description: `${script.error.message}; nothing in this ${script.element.tagName === 'script' ? 'script' : 'handler'} runs`,
+      location: script.selector,
+      codeSnippet: script.code.split('\n')[script.error.line - 1]?.trim().substring(0, 200),
+      suggestedFix: 'Fix the syntax error',
+    })),
+  },
+  {
+    id: 'navigation',
+    description: 'nextStep() is defined',
+    check: ({ defined }) => defined.has('nextStep') ? [] : [{
+      id: 'missing-nextstep',
+      severity: 'critical',
+      category: 'functionality',
+      title: 'Missing nextStep function',
+      description: 'The nextStep() function is required for multi-step navigation',
+      suggestedFix: 'Add the nextStep() function in a script tag',
+    }],
+  },
+  {
+    id: 'onclick-handlers',
+    description: 'Every function an onclick handler calls is defined',
+    check: ({ handlers, defined, externalScripts }) => {
+      const issues: QAIssue[] = [];
+      for (const handler of handlers) {
+        for (const name of calledFunctions(handler.ast)) {
+          if (defined.has(name) || BROWSER_GLOBALS.has(name) || issues.some(i => i.id === `undefined-function-${name}`)) continue;
+          issues.push({
+            id: `undefined-function-${name}`,
+            // A script we can't read may define it
+            severity: externalScripts.length > 0 ? 'major' : 'critical',
+            category: 'functionality',
+            title: `Undefined function: ${name}`,
+            description: `onclick calls ${name}() but this function is not defined${externalScripts.length > 0 ? ` in the page's inline scripts (it may come from ${externalScripts[0]})` : ''}`,
+            location: handler.selector,
+            codeSnippet: handler.code,
+            suggestedFix: `Define the ${name} function or use the correct function name`,
+          });
+        }
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'steps',
+    description: 'The page has the blueprint\'s steps',
+    check: ({ $, blueprint }) => {
+      const issues: QAIssue[] = [];
+      for (let i = 1; i <= blueprint.totalSteps; i++) {
+        if ($(`[id="step${i}"]`).length === 0) {
+          issues.push({
+            id: `missing-step-${i}`,
+            severity: 'critical',
+            category: 'structure',
+            title: `Missing step ${i}`,
+            description: `Step ${i} of ${blueprint.totalSteps} is missing`,
+            suggestedFix: `Add <div id="step${i}" class="step">...</div>`,
+          });
+        }
+      }
+      const steps = $('[id]').filter((_, el) => /^step\d+$/.test($(el).attr('id') || '')).length;
+      if (steps > blueprint.totalSteps) {
+        issues.push({
+          id: 'step-count',
+          severity: 'major',
+          category: 'structure',
+          title: 'More steps than planned',
+          description: `The page has ${steps} steps, the blueprint plans ${blueprint.totalSteps}`,
+          location: `#step${blueprint.totalSteps + 1}`,
+          suggestedFix: `Remove the extra steps or merge them into the planned ${blueprint.totalSteps}`,
+        });
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'branches',
+    description: 'Every goToStep() jump lands on a step, and the planned branches are wired up',
+    check: ({ $, blueprint, scripts, handlers, html }) => {
+      const issues: QAIssue[] = [];
+      const jumps = [...scripts, ...handlers].flatMap(script =>
+        callsTo(script.ast, 'goToStep').map(target => ({ target, selector: script.selector }))
+      );
+      for (const { target, selector } of jumps) {
+        if ($(`[id="step${target}"]`).length > 0 || issues.some(i => i.id === `broken-branch-${target}`)) continue;
+        issues.push({
+          id: `broken-branch-${target}`,
+          severity: 'critical',
+          category: 'functionality',
+          title: `Branch to missing step ${target}`,
+          description: `An answer calls goToStep(${target}) but there is no step ${target}`,
+          location: selector,
+          suggestedFix: `Point the answer at an existing step or add step ${target}`,
+        });
+      }
+      for (const section of blueprint.sections) {
+        (section.transition?.branches || []).forEach((branch, index) => {
+          const wired = branch.action === 'go-to-step'
+            ? jumps.some(jump => jump.target === branch.stepNumber)
+            : !branch.target || html.includes(branch.target);
+          if (wired) return;
+          issues.push({
+            id: `missing-branch-step-${section.stepNumber}-${index + 1}`,
+            severity: 'major',
+            category: 'structure',
+            title: `Branch not implemented on step ${section.stepNumber}`,
+            description: `Answer "${branch.answer}" should ${describeBranch(branch)}`,
+            location: `#step${section.stepNumber}`,
+            suggestedFix: branch.action === 'go-to-step'
+              ? `Make the "${branch.answer}" answer call goToStep(${branch.stepNumber})`
+              : `Make the "${branch.answer}" answer call goToOffer('${branch.target}')`,
+          });
+        });
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'redirect',
+    description: 'The page leaves for the tracking URL',
+    check: ({ $, blueprint, scripts, handlers, html }) => {
+      const redirects = [...scripts, ...handlers].some(script => hasRedirect(script.ast)) ||
+        $('a[href^="http"], form[action^="http"]').length > 0;
+      if (!redirects) {
+        return [{
+          id: 'missing-redirect',
+          severity: 'critical',
+          category: 'conversion',
+          title: 'No redirect to the offer',
+          description: 'No script sets location.href (or calls location.assign/replace) and no link leaves the page',
+          suggestedFix: `Redirect to ${blueprint.technical.trackingUrl || 'the tracking URL'} after the last step`,
+        }];
+      }
+      if (blueprint.technical.trackingUrl && !html.includes(blueprint.technical.trackingUrl)) {
+        return [{
+          id: 'missing-redirect',
+          severity: 'critical',
+          category: 'conversion',
+          title: 'Missing tracking URL redirect',
+          description: `The page should redirect to ${blueprint.technical.trackingUrl}`,
+          suggestedFix: 'Add the tracking URL as the redirect destination',
+        }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'answer-params',
+    description: 'Mapped quiz answers reach the offer URL',
+    check: ({ html, blueprint }) => checkAnswerParams(html, blueprint.technical.answerParams).map((problem, index) => ({
+      id: `answer-params-${index + 1}`,
+      severity: 'major',
+      category: 'conversion',
+      title: 'Quiz answers not passed to the offer URL',
+      description: problem,
+      suggestedFix: 'Tag the answer buttons with data-param/data-value and redirect via offerUrl()',
+    })),
+  },
+  {
+    id: 'overflow',
+    description: 'No overflow:hidden on html/body or the step containers, no max-height: 100vh',
+    check: ({ $ }) => {
+      const issues: QAIssue[] = [];
+      const add = (issue: QAIssue) => {
+        if (!issues.some(i => i.id === issue.id)) issues.push(issue);
+      };
+
+      for (const { selector, declarations } of cssRules($)) {
+        const targets = selector.split(',').map(part => part.trim());
+        if (/(^|;)\s*overflow(-y)?\s*:\s*hidden/i.test(declarations)) {
+          if (targets.some(target => /^(html|body|:root)$/i.test(target))) {
+            add({
+              id: 'overflow-hidden-body',
+              severity: 'critical',
+              category: 'responsive',
+              title: 'overflow:hidden on html/body',
+              description: 'Using overflow:hidden on html or body prevents scrolling on mobile devices',
+              location: selector,
+              suggestedFix: 'Remove overflow:hidden from html and body elements',
+            });
+          }
+          if (targets.some(target => /\.step(\.[\w-]+|:[\w-]+)*$/.test(target) && !/\.step-/.test(target))) {
+            add({
+              id: 'overflow-hidden-step',
+              severity: 'critical',
+              category: 'responsive',
+              title: 'overflow:hidden on step containers',
+              description: 'Using overflow:hidden on step containers cuts off content on mobile',
+              location: selector,
+              suggestedFix: 'Remove overflow:hidden from .step containers or use overflow-x:hidden only',
+            });
+          }
+        }
+        if (/(^|;)\s*max-height\s*:\s*100vh/i.test(declarations)) {
+          add({
+            id: 'max-height-vh',
+            severity: 'critical',
+            category: 'responsive',
+            title: 'Using max-height: 100vh',
+            description: 'max-height: 100vh cuts off content on mobile devices with browser chrome',
+            location: selector,
+            suggestedFix: 'Use min-height: 100vh instead, or min-height: 100dvh for modern browsers',
+          });
+        }
+      }
+      return issues;
+    },
+  },
+];
+
+/**
+ * Run the static rules on a page
+ */
+export function runStaticQA(html: string, blueprint: LPBlueprint, rules: QARule[] = STATIC_QA_RULES): QAIssue[] {
+  const context = createRuleContext(html, blueprint);
+  return rules.flatMap(rule => rule.check(context));
+}
+
+/**
+ * Parse a page for the rules
+ */
+export function createRuleContext(html: string, blueprint: LPBlueprint): QARuleContext {
+  const $ = cheerio.load(html);
+
+  const scripts: ParsedScript[] = [];
+  const externalScripts: string[] = [];
+  $('script').each((_, el) => {
+    const type = ($(el).attr('type') || '').toLowerCase();
+    if (type && !/javascript|module/.test(type)) return; // JSON-LD, templates, consent-gated trackers
+    const src = $(el).attr('src');
+    if (src) {
+      if (!findTrackingType(src)) externalScripts.push(src);
+      return;
+    }
+    scripts.push(parseScript($, el, $(el).html() || '', type === 'module'));
+  });
+
+  const handlers = $('[onclick]').map((_, el) => parseScript($, el, $(el).attr('onclick') || '')).get();
+
+  const defined = new Set<string>();
+  for (const script of scripts) {
+    walk(script.ast, node => {
+      if (node.type === 'FunctionDeclaration' && node.id?.name) defined.add(node.id.name);
+      if (node.type === 'VariableDeclarator' && node.id?.type === 'Identifier') defined.add(node.id.name);
+      if (node.type === 'AssignmentExpression') {
+        const name = node.left.type === 'Identifier'
+          ? node.left.name
+          : node.left.type === 'MemberExpression' && isGlobalObject(node.left.object) ? propertyName(node.left) : undefined;
+        if (name) defined.add(name);
+      }
+    });
+  }
+
+  return { html, $, blueprint, scripts, handlers, defined, externalScripts };
+}
+
+/**
+ * A CSS selector that finds an element again (its id, data-node, or a tag:nth-of-type path)
+ */
+export function selectorFor($: cheerio.CheerioAPI, el: Element): string {
+  const parts: string[] = [];
+  let node: Element | null = el;
+  while (node && 'tagName' in node) {
+    const id = node.attribs.id;
+    const dataNode = node.attribs['data-node'];
+    if (id) {
+      parts.unshift(`#${id}`);
+      break;
+    }
+    if (dataNode) {
+      parts.unshift(`[data-node="${dataNode}"]`);
+      break;
+    }
+    if (['html', 'head', 'body'].includes(node.tagName)) {
+      parts.unshift(node.tagName);
+      break;
+    }
+    parts.unshift(`${node.tagName}:nth-of-type(${$(node).prevAll(node.tagName).length + 1})`);
+    node = node.parent as Element | null;
+  }
+  return parts.join(' > ');
+}
+
+/**
+ * How a branch should behave, for issue descriptions and the QA prompt
+ */
+export function describeBranch(branch: BlueprintBranch): string {
+  return branch.action === 'go-to-step'
+    ? `go to step ${branch.stepNumber}`
+    : `redirect to ${branch.target || 'the tracking URL'}`;
+}
+
+function parseScript($: cheerio.CheerioAPI, el: Element, code: string, module = false): ParsedScript {
+  const selector = selectorFor($, el);
+  try {
+    const ast = parse(code, {
+      ecmaVersion: 'latest',
+      sourceType: module ? 'module' : 'script',
+      allowReturnOutsideFunction: true, // onclick="return false"
+    });
+    return { element: el, selector, code, ast };
+  } catch (error) {
+    const loc = (error as { loc?: { line: number } }).loc;
+    return {
+      element: el,
+      selector,
+      code,
+      error: { message: error instanceof Error ? error.message : String(error), line: loc?.line || 1 },
+    };
+  }
+}
+
+// Plain function calls: nextStep(), goToStep(3) - not methods
+function calledFunctions(ast?: Program): string[] {
+  const names: string[] = [];
+  walk(ast, node => {
+    if (node.type === 'CallExpression' && node.callee.type === 'Identifier') names.push(node.callee.name);
+  });
+  return [...new Set(names)];
+}
+
+// The numeric arguments of every call to a function
+function callsTo(ast: Program | undefined, name: string): number[] {
+  const targets: number[] = [];
+  walk(ast, node => {
+    if (node.type !== 'CallExpression' || node.callee.type !== 'Identifier' || node.callee.name !== name) return;
+    const argument = node.arguments[0];
+    if (argument?.type === 'Literal' && typeof argument.value === 'number') targets.push(argument.value);
+  });
+  return targets;
+}
+
+// location.href = ..., location = ..., location.assign/replace(...), window.open(...)
+function hasRedirect(ast?: Program): boolean {
+  let found = false;
+  walk(ast, node => {
+    if (node.type === 'AssignmentExpression') {
+      const left = node.left;
+      if (isLocation(left) || (left.type === 'MemberExpression' && propertyName(left) === 'href' && isLocation(left.object))) found = true;
+    }
+    if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression') {
+      const method = propertyName(node.callee);
+      if ((method === 'assign' || method === 'replace') && isLocation(node.callee.object)) found = true;
+      if (method === 'open' && isGlobalObject(node.callee.object)) found = true;
+    }
+  });
+  return found;
+}
+
+// Rules from <style> blocks plus the inline styles of html, body and the steps
+function cssRules($: cheerio.CheerioAPI): { selector: string; declarations: string }[] {
+  const rules: { selector: string; declarations: string }[] = [];
+  $('style').each((_, el) => {
+    const css = ($(el).html() || '').replace(/\/\*[\s\S]*?\*\//g, '');
+    for (const match of css.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+      rules.push({ selector: match[1].trim(), declarations: match[2] });
+    }
+  });
+  $('html[style], body[style], .step[style]').each((_, el) => {
+    const tag = el.tagName === 'html' || el.tagName === 'body' ? el.tagName : `${selectorFor($, el)}.step`;
+    rules.push({ selector: tag, declarations: $(el).attr('style') || '' });
+  });
+  return rules;
+}
@@ -1,5 +1,13 @@
-import OpenAI from 'openai';
-import type { LPBlueprint } from './architect';
+import { getAgentLLM } from '@/lib/llm';
+import type { LPBlueprint, BlueprintSection } from './architect';
+import type { AgentRouting } from '@/types/llm';
+import type { ComponentTree, TreeElement } from '@/types/component-tree';
+import { getForbiddenCtaWords } from '@/lib/builder-agent/lp-rules';
+import { traceComponentTree } from '@/lib/builder-agent/component-tree';
+import { checkConsentGating } from '@/lib/builder-agent/consent-banner';
+import { requiresConsent } from '@/types/languages';
+import { runStaticQA, describeBranch } from './qa-rules';
+import type { ClickThroughResult } from './qa-clickthrough';
 
 /**
  * QA Issue severity levels
@@ -16,7 +24,8 @@ export type IssueCategory =
   | 'content'          // Missing text, wrong content
   | 'conversion'       // Missing CTA, no redirect
   | 'accessibility'    // Missing alt text, contrast issues
-  | 'performance';     // Large images, slow loading
+  | 'performance'      // Large images, slow loading
+  | 'compliance';      // Trackers firing before consent
 
 /**
  * A single QA issue
@@ -67,26 +76,16 @@ export interface QAResult {
   summary: string;
 }
 
-/**
- * Get OpenAI client for QA
- */
-function getOpenAIClient(): OpenAI {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY not set - required for QA agent');
-  }
-  return new OpenAI({ apiKey });
-}
-
 /**
  * QA Agent - Reviews and validates generated landing pages
- * Uses OpenAI for a fresh perspective (different from the builder's LLM)
+ * Defaults to OpenAI for a fresh perspective (different from the builder's LLM)
  */
 export async function reviewLandingPage(
   html: string,
-  blueprint: LPBlueprint
+  blueprint: LPBlueprint,
+  routing?: AgentRouting
 ): Promise<QAResult> {
-  const openai = getOpenAIClient();
+  const llm = getAgentLLM('qa', routing);
 
   const prompt = `You are a QA engineer specializing in landing page validation. Review this generated HTML against the blueprint and find ALL issues.
 
@@ -97,9 +96,10 @@ Tracking URL: ${blueprint.technical.trackingUrl}
 Vertical: ${blueprint.vertical}
 
 Expected Sections:
-${blueprint.sections.map(s => `- Step ${s.stepNumber} (${s.type}): ${s.title}`).join('\n')}
+${blueprint.sections.map(s => `- Step ${s.stepNumber} (${s.type}): ${s.title}${describeBranches(s, blueprint.sections.length)}`).join('\n')}
 
 Required Elements:
+${(blueprint.technical.answerParams || []).map(m => `- Step ${m.stepNumber} answers set data-param="${m.param}"; redirects go through offerUrl()`).join('\n')}
 ${blueprint.technical.requiresCountdown ? '- Countdown timer in CTA step' : ''}
 ${blueprint.technical.requiresScarcity ? '- Scarcity text above CTA button' : ''}
 ${blueprint.technical.requiresSocialProof ? '- Social proof element' : ''}
@@ -170,6 +170,7 @@ IMPORTANT:
 - Check that onclick handlers actually call defined functions
 - Verify the redirect URL matches: ${blueprint.technical.trackingUrl}
 - Check for quiz steps having BOTH answer options AND separate Continue buttons (this is WRONG)
+- Follow every branch (goToStep/goToOffer) to its end: each path must finish in a redirect, jump only to steps that exist, and match the blueprint
 - CRITICAL: Check CSS for overflow:hidden on html, body, or .step - mark as CRITICAL severity
 - CRITICAL: Check CSS for max-height:100vh on any container - mark as CRITICAL severity
 - These responsive issues BREAK the page on mobile and must be flagged as CRITICAL
@@ -177,24 +178,13 @@ IMPORTANT:
 Return ONLY valid JSON.`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert QA engineer who reviews HTML landing pages for issues. Always respond with valid JSON.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    const response = await llm.generateText(prompt, {
       temperature: 0.3,
-      max_tokens: 3000,
+      maxTokens: 3000,
+      systemPrompt: 'You are an expert QA engineer who reviews HTML landing pages for issues. Always respond with valid JSON.',
     });
 
-    const content = response.choices[0]?.message?.content || '';
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    const jsonMatch = response.content.match(/\{[\s\S]*\}/);
 
     if (!jsonMatch) {
       throw new Error('No JSON in QA response');
@@ -252,111 +242,326 @@ Return ONLY valid JSON.`;
 }
 
 /**
- * Basic validation without AI
+ * Basic validation without AI: the static rules in qa-rules.ts
  */
 function doBasicValidation(html: string, blueprint: LPBlueprint): QAResult {
+  const issues = runStaticQA(html, blueprint);
+  const found = (prefix: string) => issues.some(i => i.id.startsWith(prefix));
+
+  const criticalCount = issues.filter(i => i.severity === 'critical').length;
+  const majorCount = issues.filter(i => i.severity === 'major').length;
+  const minorCount = issues.filter(i => i.severity === 'minor').length;
+  const suggestionCount = issues.filter(i => i.severity === 'suggestion').length;
+  const score = Math.max(0, 100 - (criticalCount * 25) - (majorCount * 10) - (minorCount * 3));
+
+  return {
+    id: `qa-basic-${Date.now()}`,
+    testedAt: new Date(),
+    passed: criticalCount === 0,
+    score,
+    issues,
+    criticalCount,
+    majorCount,
+    minorCount,
+    suggestionCount,
+    checks: {
+      hasValidHTML: !found('missing-doctype'),
+      hasWorkingJS: !found('script-syntax') && !found('missing-nextstep') && !found('undefined-function'),
+      hasAllSteps: !found('missing-step'),
+      hasCorrectRedirect: !found('missing-redirect'),
+      hasResponsiveDesign: !issues.some(i => i.category === 'responsive'),
+      hasCTAButtons: /\sonclick=|<button\b/i.test(html),
+      matchesBlueprint: true, // Can't check without AI
+    },
+    summary: `Basic validation found ${issues.length} issues (${criticalCount} critical, ${majorCount} major)`,
+  };
+}
+
+/**
+ * Quick validation without an LLM (for testing)
+ */
+export function quickValidate(html: string, blueprint: LPBlueprint): QAResult {
+  return doBasicValidation(html, blueprint);
+}
+
+/**
+ * Consent QA on a finished page (no LLM): for countries that require consent, every
+ * tracker must wait for the banner. Runs after pixels and the banner are added, so the
+ * issues are added to the variation's QA result with addQAIssues().
+ */
+export function reviewTrackingConsent(html: string, country?: string): QAIssue[] {
+  if (!requiresConsent(country)) return [];
+
+  return checkConsentGating(html).map((problem, index) => ({
+    id: `consent-${index + 1}`,
+    severity: 'critical',
+    category: 'compliance',
+    title: 'Tracker fires before consent',
+    description: problem,
+    suggestedFix: 'Enable the consent banner for this project, or remove the tracker',
+  }));
+}
+
+/**
+ * A QA result with more issues (counts, score and pass/fail updated)
+ */
+export function addQAIssues(result: QAResult, added: QAIssue[], reason = 'after tracking was added'): QAResult {
+  if (added.length === 0) return result;
+
+  const issues = [...result.issues, ...added];
+  const count = (severity: IssueSeverity) => added.filter(i => i.severity === severity).length;
+  const criticalCount = result.criticalCount + count('critical');
+  const majorCount = result.majorCount + count('major');
+  const minorCount = result.minorCount + count('minor');
+  const suggestionCount = result.suggestionCount + count('suggestion');
+
+  return {
+    ...result,
+    issues,
+    criticalCount,
+    majorCount,
+    minorCount,
+    suggestionCount,
+    passed: result.passed && count('critical') === 0,
+    score: Math.max(0, result.score - (count('critical') * 25) - (count('major') * 10) - (count('minor') * 3) - count('suggestion')),
+    summary: `${result.summary} (+${added.length} issues ${reason})`,
+  };
+}
+
+/**
+ * A QA result with the click-through's findings: its issues are added and the
+ * JS/redirect checks take what actually happened in the simulated page
+ */
+export function applyClickThrough(result: QAResult, clickThrough: ClickThroughResult): QAResult {
+  const merged = addQAIssues(result, clickThrough.issues, 'in the click-through');
+  return {
+    ...merged,
+    checks: {
+      ...merged.checks,
+      hasWorkingJS: clickThrough.hasWorkingJS,
+      hasCorrectRedirect: clickThrough.hasCorrectRedirect,
+    },
+  };
+}
+
+/**
+ * QA on a component tree (no LLM).
+ * The tree is rendered by our own code, so HTML/JS/responsive checks always pass;
+ * this checks the page structure against the blueprint. Each issue's location is the
+ * node's data-node selector and its id ends in the step number, for repairComponentTree().
+ */
+export function reviewComponentTree(tree: ComponentTree, blueprint: LPBlueprint): QAResult {
   const issues: QAIssue[] = [];
+  const add = (issue: QAIssue) => issues.push(issue);
+  const node = (id: string) => `[data-node="${id}"]`;
 
-  // Check for DOCTYPE
-  if (!html.includes('<!DOCTYPE html>')) {
-    issues.push({
-      id: 'missing-doctype',
-      severity: 'minor',
+  // Steps
+  for (let i = tree.steps.length + 1; i <= blueprint.totalSteps; i++) {
+    add({
+      id: `missing-step-${i}`,
+      severity: 'critical',
       category: 'structure',
-      title: 'Missing DOCTYPE',
-      description: 'HTML should start with <!DOCTYPE html>',
+      title: `Missing step ${i}`,
+      description: `Step ${i} of ${blueprint.totalSteps} is missing`,
+      suggestedFix: `Add the "${blueprint.sections[i - 1]?.title || `step ${i}`}" step from the blueprint`,
     });
   }
-
-  // Check for nextStep function
-  if (!html.includes('function nextStep')) {
-    issues.push({
-      id: 'missing-nextstep',
-      severity: 'critical',
-      category: 'functionality',
-      title: 'Missing nextStep function',
-      description: 'The nextStep() function is required for multi-step navigation',
-      suggestedFix: 'Add the nextStep() function in a script tag',
+  if (tree.steps.length > blueprint.totalSteps) {
+    add({
+      id: 'extra-steps',
+      severity: 'major',
+      category: 'structure',
+      title: 'More steps than planned',
+      description: `The page has ${tree.steps.length} steps, the blueprint ${blueprint.totalSteps}`,
+    });
+  }
+  if (tree.steps[0] && tree.steps[0].kind !== 'hook') {
+    add({
+      id: 'first-step-kind-1',
+      severity: 'major',
+      category: 'structure',
+      title: 'First step is not the hook',
+      description: `Step 1 is a ${tree.steps[0].kind} step`,
+      location: node(tree.steps[0].id),
+    });
+  }
+  const lastStep = tree.steps[tree.steps.length - 1];
+  if (lastStep && lastStep.kind !== 'cta' && tree.steps.length >= blueprint.totalSteps) {
+    add({
+      id: `last-step-kind-${lastStep.stepNumber}`,
+      severity: 'major',
+      category: 'structure',
+      title: 'Last step is not the CTA',
+      description: `Step ${lastStep.stepNumber} is a ${lastStep.kind} step`,
+      location: node(lastStep.id),
     });
   }
 
-  // Check for tracking URL
-  if (blueprint.technical.trackingUrl && !html.includes(blueprint.technical.trackingUrl)) {
-    issues.push({
+  // Redirect
+  if (blueprint.technical.trackingUrl && tree.redirectUrl !== blueprint.technical.trackingUrl) {
+    add({
       id: 'missing-redirect',
       severity: 'critical',
       category: 'conversion',
-      title: 'Missing tracking URL redirect',
-      description: `The page should redirect to ${blueprint.technical.trackingUrl}`,
-      suggestedFix: 'Add the tracking URL as the redirect destination',
+      title: 'Wrong redirect URL',
+      description: `The page redirects to ${tree.redirectUrl} instead of ${blueprint.technical.trackingUrl}`,
+      suggestedFix: 'Set redirectUrl to the tracking URL',
     });
   }
 
-  // Check for all steps
-  for (let i = 1; i <= blueprint.totalSteps; i++) {
-    if (!html.includes(`id="step${i}"`) && !html.includes(`id='step${i}'`)) {
-      issues.push({
-        id: `missing-step-${i}`,
+  const forbidden = getForbiddenCtaWords().map(word => word.toLowerCase());
+
+  for (const step of tree.steps) {
+    const n = step.stepNumber;
+    const content = step.blocks.filter(block => block.kind === 'content').flatMap(block => block.elements);
+    const actions = step.blocks.filter(block => block.kind === 'actions').flatMap(block => block.elements);
+    const buttons = actions.filter(el => el.type === 'button');
+    const options = actions.filter(el => el.type === 'option');
+
+    if (buttons.length + options.length === 0) {
+      add({
+        id: `no-action-step-${n}`,
         severity: 'critical',
-        category: 'structure',
-        title: `Missing step ${i}`,
-        description: `Step ${i} of ${blueprint.totalSteps} is missing`,
-        suggestedFix: `Add <div id="step${i}" class="step">...</div>`,
+        category: 'functionality',
+        title: `Step ${n} has no way forward`,
+        description: 'No button or answer option in the actions block',
+        location: node(step.id),
+      });
+    }
+    if (!content.some(el => el.type === 'headline')) {
+      add({
+        id: `missing-headline-step-${n}`,
+        severity: 'major',
+        category: 'content',
+        title: `Step ${n} has no headline`,
+        description: 'Every step needs a headline or question',
+        location: node(step.id),
       });
     }
-  }
 
-  // Check for responsive issues - these are CRITICAL because they break mobile
-  // Check for overflow:hidden on html or body (prevents scrolling)
-  const overflowPattern = /(?:html|body)\s*\{[^}]*overflow\s*:\s*hidden/gi;
-  if (overflowPattern.test(html)) {
-    issues.push({
-      id: 'overflow-hidden-body',
-      severity: 'critical',
-      category: 'responsive',
-      title: 'overflow:hidden on html/body',
-      description: 'Using overflow:hidden on html or body prevents scrolling on mobile devices',
-      suggestedFix: 'Remove overflow:hidden from html and body elements',
-    });
+    if (step.kind === 'quiz') {
+      if (options.length > 0 && options.length < 2) {
+        add({
+          id: `quiz-options-step-${n}`,
+          severity: 'major',
+          category: 'content',
+          title: `Quiz step ${n} has one answer`,
+          description: 'Quiz questions need 2-4 answer options',
+          location: node(step.id),
+        });
+      }
+      if (options.length > 0 && buttons.length > 0) {
+        add({
+          id: `quiz-extra-button-step-${n}`,
+          severity: 'major',
+          category: 'conversion',
+          title: `Quiz step ${n} has answers and a separate button`,
+          description: 'Answer options should move on by themselves; the extra button competes with them',
+          location: node(buttons[0].id),
+        });
+      }
+    }
+
+    if (step.kind === 'cta' && buttons.length + options.length > 1) {
+      add({
+        id: `cta-buttons-step-${n}`,
+        severity: 'major',
+        category: 'conversion',
+        title: 'CTA step has more than one action',
+        description: `Step ${n} should have exactly one CTA button`,
+        location: node(step.id),
+      });
+    }
+
+    for (const element of [...content, ...actions]) {
+      checkTreeElement(element, n, forbidden, add, node);
+    }
   }
 
-  // Check for overflow:hidden on step containers
-  const stepOverflowPattern = /\.step\s*\{[^}]*overflow\s*:\s*hidden/gi;
-  if (stepOverflowPattern.test(html)) {
-    issues.push({
-      id: 'overflow-hidden-step',
-      severity: 'critical',
-      category: 'responsive',
-      title: 'overflow:hidden on step containers',
-      description: 'Using overflow:hidden on step containers cuts off content on mobile',
-      suggestedFix: 'Remove overflow:hidden from .step containers or use overflow-x:hidden only',
+  // Flow: every step is reachable, planned branches are wired and early exits stay exits
+  const { reachable, exits } = traceComponentTree(tree);
+  for (const step of tree.steps) {
+    const n = step.stepNumber;
+    if (!reachable.has(n)) {
+      add({
+        id: `unreachable-step-${n}`,
+        severity: 'major',
+        category: 'structure',
+        title: `Step ${n} can't be reached`,
+        description: 'No path from step 1 leads to this step',
+        location: node(step.id),
+      });
+    }
+
+    const section = blueprint.sections[n - 1];
+    if (!section) continue;
+    const options = step.blocks.filter(b => b.kind === 'actions').flatMap(b => b.elements);
+
+    (section.transition?.branches || []).forEach((branch, index) => {
+      const option = options.find(el => el.text?.trim().toLowerCase() === branch.answer.trim().toLowerCase());
+      const expectedUrl = branch.target && branch.target !== blueprint.technical.trackingUrl ? branch.target : undefined;
+      const wired = option && (branch.action === 'go-to-step'
+        ? option.action === 'go-to-step' && option.targetStep === branch.stepNumber
+        : option.action === 'redirect' && option.url === expectedUrl);
+      if (!wired) {
+        add({
+          id: `branch-step-${n}-${index + 1}`,
+          severity: 'major',
+          category: 'structure',
+          title: `Branch not implemented on step ${n}`,
+          description: `Answer "${branch.answer}" should ${describeBranch(branch)}`,
+          location: node(option?.id || step.id),
+        });
+      }
     });
+
+    const endsFlow = section.transition?.action === 'redirect' && n < blueprint.sections.length;
+    if (endsFlow && (exits.get(n) || []).some(exit => exit !== 'redirect')) {
+      add({
+        id: `flow-leak-step-${n}`,
+        severity: 'major',
+        category: 'conversion',
+        title: `Step ${n} continues instead of redirecting`,
+        description: `The blueprint ends the flow at step ${n}, but the page moves on to another step`,
+        location: node(step.id),
+      });
+    }
   }
 
-  // Check for max-height: 100vh (cuts off content on mobile)
-  if (html.includes('max-height: 100vh') || html.includes('max-height:100vh')) {
-    issues.push({
-      id: 'max-height-vh',
-      severity: 'critical',
-      category: 'responsive',
-      title: 'Using max-height: 100vh',
-      description: 'max-height: 100vh cuts off content on mobile devices with browser chrome',
-      suggestedFix: 'Use min-height: 100vh instead, or min-height: 100dvh for modern browsers',
-    });
+  // Answers the offer URL should receive
+  for (const mapping of blueprint.technical.answerParams || []) {
+    const step = tree.steps.find(s => s.stepNumber === mapping.stepNumber);
+    const options = step?.blocks.flatMap(block => block.elements).filter(el => el.type === 'option') || [];
+    if (options.length === 0 || options.some(option => option.param !== mapping.param)) {
+      add({
+        id: `answer-param-step-${mapping.stepNumber}`,
+        severity: 'major',
+        category: 'conversion',
+        title: `Step ${mapping.stepNumber} answers don't reach the offer URL`,
+        description: options.length === 0
+          ? `Step ${mapping.stepNumber} has no answer options for "${mapping.param}"`
+          : `Answer options should set "${mapping.param}"`,
+        location: step ? node(step.id) : undefined,
+      });
+    }
   }
 
-  // Check for onclick handlers
-  const onclickMatches = html.match(/onclick="([^"]+)"/g) || [];
-  for (const match of onclickMatches) {
-    const funcName = match.match(/onclick="([a-zA-Z]+)\(/)?.[1];
-    if (funcName && !html.includes(`function ${funcName}`)) {
-      issues.push({
-        id: `undefined-function-${funcName}`,
-        severity: 'critical',
-        category: 'functionality',
-        title: `Undefined function: ${funcName}`,
-        description: `onclick calls ${funcName}() but this function is not defined`,
-        suggestedFix: `Define the ${funcName} function or use the correct function name`,
+  // Widgets the blueprint requires
+  const elementTypes = new Set(tree.steps.flatMap(step => step.blocks.flatMap(block => block.elements.map(el => el.type))));
+  const widgets: [boolean, TreeElement['type'], string][] = [
+    [blueprint.technical.requiresCountdown, 'countdown', 'Countdown timer'],
+    [blueprint.technical.requiresScarcity, 'scarcity', 'Scarcity message'],
+    [blueprint.technical.requiresSocialProof, 'social-proof', 'Social proof'],
+  ];
+  for (const [required, type, label] of widgets) {
+    if (required && !elementTypes.has(type)) {
+      add({
+        id: `missing-widget-${type}`,
+        severity: 'major',
+        category: 'conversion',
+        title: `${label} missing`,
+        description: `The blueprint requires a ${label.toLowerCase()}`,
+        suggestedFix: 'Add it to the CTA step',
       });
     }
   }
@@ -365,12 +570,13 @@ function doBasicValidation(html: string, blueprint: LPBlueprint): QAResult {
   const majorCount = issues.filter(i => i.severity === 'major').length;
   const minorCount = issues.filter(i => i.severity === 'minor').length;
   const suggestionCount = issues.filter(i => i.severity === 'suggestion').length;
-  const score = Math.max(0, 100 - (criticalCount * 25) - (majorCount * 10) - (minorCount * 3));
+  const score = Math.max(0, 100 - (criticalCount * 25) - (majorCount * 10) - (minorCount * 3) - (suggestionCount * 1));
+  const structureIds = ['missing-step', 'extra-steps', 'first-step-kind', 'last-step-kind', 'unreachable-step', 'branch-step', 'flow-leak'];
 
   return {
-    id: `qa-basic-${Date.now()}`,
+    id: `qa-tree-${Date.now()}`,
     testedAt: new Date(),
-    passed: criticalCount === 0,
+    passed: criticalCount === 0 && majorCount <= 2,
     score,
     issues,
     criticalCount,
@@ -378,23 +584,61 @@ function doBasicValidation(html: string, blueprint: LPBlueprint): QAResult {
     minorCount,
     suggestionCount,
     checks: {
-      hasValidHTML: html.includes('<!DOCTYPE html>'),
-      hasWorkingJS: html.includes('function nextStep'),
+      hasValidHTML: true,
+      hasWorkingJS: true,
       hasAllSteps: !issues.some(i => i.id.startsWith('missing-step')),
-      hasCorrectRedirect: html.includes(blueprint.technical.trackingUrl),
-      hasResponsiveDesign: !(/(?:html|body)\s*\{[^}]*overflow\s*:\s*hidden/gi.test(html)) &&
-        !(/\.step\s*\{[^}]*overflow\s*:\s*hidden/gi.test(html)) &&
-        !html.includes('max-height: 100vh') && !html.includes('max-height:100vh'),
-      hasCTAButtons: html.includes('onclick'),
-      matchesBlueprint: true, // Can't check without AI
+      hasCorrectRedirect: !issues.some(i => i.id === 'missing-redirect'),
+      hasResponsiveDesign: true,
+      hasCTAButtons: !issues.some(i => i.id.startsWith('no-action')),
+      matchesBlueprint: !issues.some(i => structureIds.some(prefix => i.id.startsWith(prefix))),
     },
-    summary: `Basic validation found ${issues.length} issues (${criticalCount} critical, ${majorCount} major)`,
+    summary: `Component tree review found ${issues.length} issues (${criticalCount} critical, ${majorCount} major)`,
   };
 }
 
-/**
- * Quick validation without OpenAI (for testing)
- */
-export function quickValidate(html: string, blueprint: LPBlueprint): QAResult {
-  return doBasicValidation(html, blueprint);
+function checkTreeElement(
+  element: TreeElement,
+  stepNumber: number,
+  forbiddenCtaWords: string[],
+  add: (issue: QAIssue) => void,
+  node: (id: string) => string
+) {
+  if (element.type === 'headline' && element.text && element.text.split(/\s+/).length > 10) {
+    add({
+      id: `long-headline-${element.id}`,
+      severity: 'minor',
+      category: 'content',
+      title: `Long headline on step ${stepNumber}`,
+      description: 'Headlines should stay under 10 words',
+      location: node(element.id),
+    });
+  }
+  if (element.type === 'button' && element.text &&
+      forbiddenCtaWords.some(word => element.text!.toLowerCase().includes(word))) {
+    add({
+      id: `cta-copy-${element.id}`,
+      severity: 'minor',
+      category: 'conversion',
+      title: `Commitment-heavy button text on step ${stepNumber}`,
+      description: `"${element.text}" - prefer micro-commitment copy like "Continue" or "Show me"`,
+      location: node(element.id),
+    });
+  }
+  if (element.type === 'image' && !element.alt?.trim()) {
+    add({
+      id: `image-alt-${element.id}`,
+      severity: 'minor',
+      category: 'accessibility',
+      title: `Image without alt text on step ${stepNumber}`,
+      description: 'Images need alt text',
+      location: node(element.id),
+    });
+  }
+}
+
+// " - answer "No" → go to step 5", for the QA prompt
+function describeBranches(section: BlueprintSection, totalSteps: number): string {
+  const branches = (section.transition?.branches || []).map(branch => `answer "${branch.answer}" → ${describeBranch(branch)}`);
+  if (section.transition?.action === 'redirect' && section.stepNumber < totalSteps) branches.push('ends the flow (redirect)');
+  return branches.length > 0 ? ` - ${branches.join(', ')}` : '';
 }
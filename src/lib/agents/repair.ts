@@ -1,6 +1,20 @@
-import { getLLMProvider } from '@/lib/llm';
-import type { QAResult, QAIssue } from './qa';
+import { getAgentLLM } from '@/lib/llm';
+import { reviewComponentTree, reviewLandingPage, type QAResult, type QAIssue } from './qa';
+import { runStaticQA } from './qa-rules';
+import { runClickThrough } from './qa-clickthrough';
 import type { LPBlueprint } from './architect';
+import type { AgentRouting } from '@/types/llm';
+import type { ComponentTree, TreeStep, TreeElement } from '@/types/component-tree';
+import { sectionToStep, widgetElement, answerAction, type WidgetType } from '@/lib/builder-agent/blueprint-renderer';
+import { renderComponentTree } from '@/lib/builder-agent/component-tree';
+import { applyAnswerParamsToTree } from '@/lib/builder-agent/answer-params';
+import { findMacroUrls, restoreUrls } from '@/lib/parser/link-detector';
+import { recompressEmbeddedImages, lazyLoadImages } from '@/lib/parser/image-embedder';
+import { analyzePerformance, checkPerformanceBudget } from './qa-performance';
+import { DEFAULT_REPAIR_ITERATIONS, MAX_REPAIR_ITERATIONS, type PerformanceBudget } from '@/types';
+
+// Page-weight issues that lighter or lazy-loaded images can fix
+const IMAGE_WEIGHT_ISSUES = ['perf-total', 'perf-images', 'perf-load-time'];
 
 /**
  * Repair result
@@ -18,6 +32,7 @@ export interface RepairResult {
     issueTitle: string;
     fixDescription: string;
     success: boolean;
+    verified?: boolean;        // Settled by re-running QA (unset: the repairer's own word)
   }[];
 
   // Summary
@@ -27,6 +42,13 @@ export interface RepairResult {
   summary: string;
 }
 
+// One fix the repair agent proposes: exact replacements in the current page
+interface ProposedFix {
+  issueId: string;
+  fixDescription: string;
+  edits: { find: string; replace: string }[];
+}
+
 /**
  * User-reported issue
  */
@@ -43,24 +65,13 @@ export async function repairLandingPage(
   html: string,
   blueprint: LPBlueprint,
   qaResult?: QAResult,
-  userIssue?: UserReportedIssue
+  userIssue?: UserReportedIssue,
+  routing?: AgentRouting
 ): Promise<RepairResult> {
-  const llm = getLLMProvider('grok');
-
-  // Collect all issues to fix
-  const issuesToFix: string[] = [];
+  const llm = getAgentLLM('repair', routing);
 
-  if (qaResult) {
-    // Prioritize critical and major issues
-    const criticalAndMajor = qaResult.issues.filter(i => i.severity === 'critical' || i.severity === 'major');
-    for (const issue of criticalAndMajor) {
-      issuesToFix.push(`- [${issue.severity.toUpperCase()}] ${issue.title}: ${issue.description}${issue.suggestedFix ? `\n  Suggested fix: ${issue.suggestedFix}` : ''}${issue.codeSnippet ? `\n  Problematic code: ${issue.codeSnippet}` : ''}`);
-    }
-  }
-
-  if (userIssue) {
-    issuesToFix.push(`- [USER REPORTED] ${userIssue.description}${userIssue.expectedBehavior ? `\n  Expected: ${userIssue.expectedBehavior}` : ''}`);
-  }
+  // Prioritize critical and major issues
+  const issuesToFix = describeIssues(qaResult?.issues.filter(i => i.severity === 'critical' || i.severity === 'major') || [], userIssue);
 
   if (issuesToFix.length === 0) {
     return {
@@ -75,59 +86,7 @@ export async function repairLandingPage(
     };
   }
 
-  const prompt = `You are an expert HTML/CSS/JS repair agent. Fix ALL the issues listed below in this landing page.
-
-## ISSUES TO FIX:
-
-${issuesToFix.join('\n\n')}
-
-## BLUEPRINT REFERENCE:
-
-Total Steps: ${blueprint.totalSteps}
-Tracking URL: ${blueprint.technical.trackingUrl}
-Expected structure:
-${blueprint.sections.map(s => `- Step ${s.stepNumber} (${s.type}): ${s.title}`).join('\n')}
-
-## CURRENT HTML:
-
-\`\`\`html
-${html}
-\`\`\`
-
-## REPAIR INSTRUCTIONS:
-
-1. **Fix ALL listed issues** - don't skip any
-2. **Preserve working parts** - don't break what works
-3. **Test your logic** - make sure JS functions are defined and called correctly
-4. **Check responsive rules**:
-   - NO overflow:hidden on body or containers
-   - Use min-height: 100vh (NOT max-height)
-   - Use px/rem for fonts (NOT vw)
-   - Center with max-width: 600px for desktop
-5. **Verify the flow**:
-   - Step 1 (HOOK): Hero + headline + Continue button
-   - Steps 2 to N-1 (QUIZ): Question + answer options ONLY (no separate Continue)
-   - Step N (CTA): Urgency + final CTA that redirects
-
-## COMMON FIXES:
-
-**Non-clickable buttons**:
-- Ensure onclick="nextStep()" is properly attached
-- Verify function nextStep() is defined BEFORE it's called
-- Check for typos in function names
-
-**Missing redirect**:
-- Final step button should use: window.location.href = REDIRECT_URL
-- Or onclick="nextStep()" with nextStep checking if currentStep > TOTAL_STEPS
-
-**Responsive issues**:
-- Remove overflow: hidden from body and .step
-- Change max-height: 100vh to min-height: 100vh
-- Replace vw units with px or rem
-
-**Quiz steps with extra buttons**:
-- Quiz answer options should call nextStep() directly
-- Remove any separate Continue/Next buttons in quiz steps
+  const prompt = `${repairBrief(html, blueprint, issuesToFix)}
 
 ## OUTPUT FORMAT:
 
@@ -175,7 +134,8 @@ Return ONLY valid JSON.`;
     return {
       id: `repair-${Date.now()}`,
       repairedAt: new Date(),
-      html: parsed.fixedHtml || html,
+      // The page's tracker URLs come back exactly as they went in
+      html: parsed.fixedHtml ? restoreUrls(parsed.fixedHtml, [blueprint.technical.trackingUrl, ...findMacroUrls(html)]) : html,
       fixesApplied,
       totalIssues: issuesToFix.length,
       fixedCount: fixesApplied.filter((f: { success: boolean }) => f.success).length,
@@ -188,6 +148,141 @@ Return ONLY valid JSON.`;
   }
 }
 
+/**
+ * Options for repairUntilVerified()
+ */
+export interface RepairLoopOptions {
+  maxIterations?: number;                        // Repair rounds (default: DEFAULT_REPAIR_ITERATIONS, at most MAX_REPAIR_ITERATIONS)
+  routing?: AgentRouting;
+  clickThrough?: boolean;                        // Check fixes with a click-through too, which runs the page's scripts (default: true)
+  prepare?: (html: string) => string;            // The page as it ships (e.g. answer params added), for checks and QA
+  review?: (html: string) => Promise<QAResult>;  // QA of the page the loop ends on (default: reviewLandingPage)
+}
+
+/**
+ * Repair in rounds of single fixes, each checked by the deterministic checks: the
+ * static rules (qa-rules.ts) and, unless turned off, a click-through. The repair agent proposes one fix
+ * per issue as edits to the page; a fix that brings in a critical issue the page
+ * didn't have is rolled back on its own and the others are kept. An issue the checks
+ * report counts as fixed only when they no longer find it (the repair agent's own
+ * claim is ignored); issues only the LLM review or the user reported can't be checked
+ * and are tried once, on the agent's word. Comes back with the QA result of the page
+ * it ends on.
+ */
+export async function repairUntilVerified(
+  html: string,
+  blueprint: LPBlueprint,
+  qaResult?: QAResult,
+  userIssue?: UserReportedIssue,
+  options: RepairLoopOptions = {}
+): Promise<RepairResult & { qaResult: QAResult }> {
+  const { maxIterations = DEFAULT_REPAIR_ITERATIONS, routing, clickThrough = true, prepare = (page: string) => page } = options;
+  const review = options.review ?? ((page: string) => reviewLandingPage(prepare(page), blueprint, routing));
+  const check = (page: string) => runChecks(prepare(page), blueprint, clickThrough);
+  const serious = (issue: QAIssue) => issue.severity === 'critical' || issue.severity === 'major';
+
+  const outcomes = new Map<string, RepairResult['fixesApplied'][number]>();
+  let current = html;
+  let found = await check(html);
+  let unchecked = (qaResult?.issues || []).filter(i => serious(i) && !found.some(f => f.id === i.id));
+  let pendingUserIssue = userIssue;
+  let rounds = 0;
+  let rolledBack = 0;
+
+  const record = (issueId: string, issueTitle: string, fixDescription: string, success: boolean, verified?: boolean) => {
+    outcomes.set(issueId, {
+      issueId,
+      issueTitle,
+      fixDescription: `Round ${rounds}: ${fixDescription}`,
+      success,
+      ...(verified === undefined ? {} : { verified }),
+    });
+  };
+
+  while (rounds < Math.min(MAX_REPAIR_ITERATIONS, Math.max(1, maxIterations))) {
+    const checked = found.filter(serious);
+    const targets = [...checked, ...unchecked];
+    if (targets.length === 0 && !pendingUserIssue) break;
+    rounds++;
+
+    const fixes = await proposeFixes(current, blueprint, targets, pendingUserIssue, routing);
+    const userTitle = pendingUserIssue?.description.slice(0, 80);
+    unchecked = [];
+    pendingUserIssue = undefined;
+
+    const tried = new Set(fixes.map(fix => fix.issueId));
+    const kept = new Set<string>();
+    for (const fix of fixes) {
+      const target = targets.find(t => t.id === fix.issueId);
+      const isChecked = checked.some(t => t.id === fix.issueId);
+      const title = target?.title || (fix.issueId === 'user-reported' && userTitle) || fix.issueId;
+
+      const candidate = applyEdits(current, fix.edits, [blueprint.technical.trackingUrl, ...findMacroUrls(current)]);
+      if (!candidate) {
+        record(fix.issueId, title, 'Not applied, its edits don\'t match the page', false, isChecked ? false : undefined);
+        continue;
+      }
+      const after = await check(candidate);
+      const introduced = after.filter(i => i.severity === 'critical' && !found.some(before => before.id === i.id));
+      if (introduced.length > 0) {
+        rolledBack++;
+        console.log(`Repair round ${rounds}: rolled back the fix for ${fix.issueId}, it brought in`, introduced.map(i => i.id));
+        record(fix.issueId, title, `Rolled back, the fix brought in ${introduced.map(i => i.title).join(', ')}`, false, isChecked ? false : undefined);
+        continue;
+      }
+      current = candidate;
+      found = after;
+      kept.add(fix.issueId);
+      record(fix.issueId, title, fix.fixDescription || 'Fixed', true);
+    }
+
+    for (const issue of checked) {
+      const fixed = !found.some(after => after.id === issue.id);
+      const outcome = outcomes.get(issue.id);
+      if (kept.has(issue.id) && outcome) {
+        Object.assign(outcome, fixed
+          ? { verified: true }
+          : { success: false, verified: false, fixDescription: `${outcome.fixDescription} (the checks still find it)` });
+      } else if (fixed) {
+        record(issue.id, issue.title, 'Fixed along with another fix', true, true);
+      } else if (!tried.has(issue.id)) {
+        record(issue.id, issue.title, 'Not addressed', false, false);
+      }
+    }
+    for (const issue of targets.filter(t => !checked.includes(t) && !outcomes.has(t.id))) {
+      record(issue.id, issue.title, 'Not addressed', false);
+    }
+    if (userTitle && !outcomes.has('user-reported')) {
+      record('user-reported', userTitle, 'Not addressed', false);
+    }
+
+    // Nothing kept, so another round would start from the same page
+    if (kept.size === 0) break;
+  }
+
+  // A fix a later round undid doesn't count
+  for (const fix of outcomes.values()) {
+    if (fix.verified && found.some(after => after.id === fix.issueId)) {
+      Object.assign(fix, { success: false, verified: false, fixDescription: `${fix.fixDescription} (broken again later)` });
+    }
+  }
+
+  const fixesApplied = [...outcomes.values()];
+  const fixedCount = fixesApplied.filter(f => f.success).length;
+  return {
+    id: `repair-loop-${Date.now()}`,
+    repairedAt: new Date(),
+    html: current,
+    fixesApplied,
+    totalIssues: fixesApplied.length,
+    fixedCount,
+    failedCount: fixesApplied.length - fixedCount,
+    summary: `Fixed ${fixedCount} of ${fixesApplied.length} issues in ${rounds} repair round(s), checked by the static rules${clickThrough ? ' and a click-through' : ''}` +
+      (rolledBack > 0 ? `; ${rolledBack} fix(es) rolled back` : ''),
+    qaResult: current === html && qaResult ? qaResult : await review(current),
+  };
+}
+
 /**
  * Attempt basic repairs without AI
  */
@@ -300,9 +395,448 @@ function nextStep() {
 export async function quickFix(
   html: string,
   blueprint: LPBlueprint,
-  issueDescription: string
+  issueDescription: string,
+  routing?: AgentRouting
 ): Promise<RepairResult> {
   return repairLandingPage(html, blueprint, undefined, {
     description: issueDescription,
+  }, routing);
+}
+
+/**
+ * Repair a component tree without an LLM: the critical/major issues from
+ * reviewComponentTree() are fixed by editing the tree (from the blueprint where
+ * content is needed) and the page is rendered again. Anything else is reported as failed.
+ */
+export function repairComponentTree(
+  tree: ComponentTree,
+  blueprint: LPBlueprint,
+  qaResult: QAResult
+): RepairResult & { tree: ComponentTree } {
+  const fixed: ComponentTree = structuredClone(tree);
+  const fixesApplied: RepairResult['fixesApplied'] = [];
+  const needsFix = (issue: QAIssue) => issue.severity === 'critical' || issue.severity === 'major';
+  let issues = qaResult.issues.filter(needsFix);
+
+  const record = (issue: QAIssue, success: boolean, fixDescription: string) =>
+    fixesApplied.push({ issueId: issue.id, issueTitle: issue.title, fixDescription, success });
+
+  // Step issues point at a step or one of its elements via data-node
+  const findStep = (issue: QAIssue): TreeStep | undefined => {
+    const id = issue.location?.match(/data-node="([^"]+)"/)?.[1];
+    return fixed.steps.find(step =>
+      step.id === id || step.blocks.some(block => block.elements.some(element => element.id === id))
+    );
+  };
+  const planFor = (step: TreeStep) => blueprint.sections[step.stepNumber - 1];
+  const actionsOf = (step: TreeStep) => {
+    let block = step.blocks.find(b => b.kind === 'actions');
+    if (!block) {
+      block = { id: `${step.id}-actions`, kind: 'actions', elements: [] };
+      step.blocks.push(block);
+    }
+    return block;
+  };
+  const contentOf = (step: TreeStep) => {
+    let block = step.blocks.find(b => b.kind === 'content');
+    if (!block) {
+      block = { id: `${step.id}-content`, kind: 'content', elements: [] };
+      step.blocks.unshift(block);
+    }
+    return block;
+  };
+
+  // Missing steps go in first; the tree is then reviewed again, so the other issues
+  // (and jump targets) use the restored numbering
+  const missingSteps = issues.filter(i => i.id.startsWith('missing-step-'));
+  if (missingSteps.length > 0) {
+    const restored = restoreMissingSteps(fixed, blueprint);
+    fixed.steps.forEach((step, index) => { step.stepNumber = index + 1; });
+    for (const issue of missingSteps) {
+      record(issue, fixed.steps.length >= blueprint.totalSteps, restored.length > 0
+        ? `Restored from the blueprint: ${restored.join(', ')}`
+        : 'No blueprint step to restore');
+    }
+    issues = reviewComponentTree(fixed, blueprint).issues.filter(i => needsFix(i) && !i.id.startsWith('missing-step-'));
+  }
+
+  for (const issue of issues) {
+    const step = findStep(issue);
+
+    if (issue.id === 'missing-redirect') {
+      fixed.redirectUrl = blueprint.technical.trackingUrl;
+      record(issue, true, `Set redirectUrl to ${blueprint.technical.trackingUrl}`);
+    } else if (issue.id.startsWith('no-action-step-') && step) {
+      actionsOf(step).elements.push({ id: `${step.id}-continue`, type: 'button', text: 'Continue', action: 'next-step' });
+      record(issue, true, `Added a Continue button to step ${step.stepNumber}`);
+    } else if (issue.id.startsWith('missing-headline-step-') && step) {
+      const text = planFor(step)?.elements.find(el => el.type === 'headline')?.content || step.title;
+      contentOf(step).elements.unshift({ id: `${step.id}-headline`, type: 'headline', text });
+      record(issue, true, `Added the headline "${text}"`);
+    } else if (issue.id.startsWith('quiz-options-step-') && step) {
+      const planned = planFor(step)?.elements.find(el => el.type === 'options')?.content.split('|').map(o => o.trim()).filter(Boolean) || [];
+      const actions = actionsOf(step);
+      const existing = new Set(actions.elements.map(el => el.text));
+      const added = planned.filter(option => !existing.has(option));
+      added.forEach((option, index) => {
+        actions.elements.push({ id: `${step.id}-option-${index + 1}`, type: 'option', text: option, action: 'next-step' });
+      });
+      record(issue, added.length > 0, added.length > 0 ? `Added answers: ${added.join(', ')}` : 'No planned answers to add');
+    } else if (issue.id.startsWith('quiz-extra-button-step-') && step) {
+      for (const block of step.blocks) {
+        block.elements = block.elements.filter(el => el.type !== 'button');
+      }
+      record(issue, true, `Removed the separate button from quiz step ${step.stepNumber}`);
+    } else if (issue.id.startsWith('cta-buttons-step-') && step) {
+      let kept = false;
+      for (const block of step.blocks.filter(b => b.kind === 'actions')) {
+        block.elements = block.elements.filter(el => {
+          if (el.type !== 'button' && el.type !== 'option') return true;
+          if (kept) return false;
+          kept = true;
+          return true;
+        });
+      }
+      record(issue, true, 'Kept only the first CTA button');
+    } else if (issue.id.startsWith('first-step-kind-') && step) {
+      step.kind = 'hook';
+      record(issue, true, 'Made step 1 the hook');
+    } else if (issue.id.startsWith('last-step-kind-') && step) {
+      step.kind = 'cta';
+      record(issue, true, `Made step ${step.stepNumber} the CTA`);
+    } else if (issue.id.startsWith('branch-step-') && step) {
+      // branch-step-<step>-<branch>: wire the answer (adding it if missing) as planned
+      const section = planFor(step);
+      const branch = section?.transition?.branches?.[Number(issue.id.split('-').pop()) - 1];
+      if (section && branch) {
+        const actions = actionsOf(step);
+        let option = actions.elements.find(el => el.text?.trim().toLowerCase() === branch.answer.trim().toLowerCase());
+        if (!option) {
+          option = { id: `${step.id}-answer-${actions.elements.length + 1}`, type: 'option', text: branch.answer };
+          actions.elements.push(option);
+        }
+        delete option.targetStep;
+        delete option.url;
+        Object.assign(option, answerAction(section, branch.answer, blueprint));
+        record(issue, true, `Wired answer "${branch.answer}" to its branch`);
+      } else {
+        record(issue, false, 'Branch not found in the blueprint');
+      }
+    } else if (issue.id.startsWith('flow-leak-step-') && step) {
+      const target = planFor(step)?.transition?.target;
+      const url = target && target !== blueprint.technical.trackingUrl ? target : undefined;
+      for (const element of actionsOf(step).elements) {
+        if (element.action !== 'redirect') {
+          delete element.targetStep;
+          Object.assign(element, { action: 'redirect' }, url && { url });
+        }
+      }
+      record(issue, true, `Step ${step.stepNumber} now redirects instead of moving on`);
+    } else if (issue.id.startsWith('answer-param-step-') && step?.blocks.some(b => b.elements.some(el => el.type === 'option'))) {
+      const tagged = applyAnswerParamsToTree({ ...fixed, steps: [step] }, blueprint.technical.answerParams).steps[0];
+      step.blocks = tagged.blocks;
+      record(issue, true, `Tagged the answers on step ${step.stepNumber}`);
+    } else if (issue.id === 'extra-steps') {
+      // Drop surplus quiz steps from the end, keeping the hook and the CTA
+      while (fixed.steps.length > blueprint.totalSteps) {
+        const index = fixed.steps.map(s => s.kind).lastIndexOf('quiz');
+        if (index === -1) break;
+        fixed.steps.splice(index, 1);
+        shiftJumpTargets(fixed, index + 1, -1);
+      }
+      record(issue, fixed.steps.length <= blueprint.totalSteps, `Trimmed the page to ${fixed.steps.length} steps`);
+    } else if (issue.id.startsWith('missing-widget-')) {
+      const type = issue.id.replace('missing-widget-', '') as WidgetType;
+      const lastStep = fixed.steps[fixed.steps.length - 1];
+      contentOf(lastStep).elements.push(widgetElement(type, `${lastStep.id}-${type}`, '', blueprint));
+      record(issue, true, `Added a ${type} element to the CTA step`);
+    } else {
+      record(issue, false, 'Not fixable on the component tree');
+    }
+  }
+
+  fixed.steps.forEach((step, index) => { step.stepNumber = index + 1; });
+
+  const fixedCount = fixesApplied.filter(f => f.success).length;
+  return {
+    id: `repair-tree-${Date.now()}`,
+    repairedAt: new Date(),
+    html: renderComponentTree(fixed),
+    tree: fixed,
+    fixesApplied,
+    totalIssues: fixesApplied.length,
+    fixedCount,
+    failedCount: fixesApplied.length - fixedCount,
+    summary: `Fixed ${fixedCount} of ${fixesApplied.length} issues on the component tree`,
+  };
+}
+
+/**
+ * Fix page-weight issues without an LLM: the embedded images are recompressed and,
+ * if the page is still over its image/total/load-time budget, the ones below the
+ * first step are lazy-loaded from their URLs again. Script, CSS, font and
+ * render-blocking issues are reported as failed.
+ */
+export async function repairPerformance(
+  html: string,
+  issues: QAIssue[],
+  budget?: Partial<PerformanceBudget>
+): Promise<RepairResult> {
+  const fixesApplied: RepairResult['fixesApplied'] = [];
+  const imageIssues = issues.filter(issue => IMAGE_WEIGHT_ISSUES.includes(issue.id));
+  const stillOver = (page: string) =>
+    checkPerformanceBudget(analyzePerformance(page), budget).filter(issue => IMAGE_WEIGHT_ISSUES.includes(issue.id));
+  let fixedHtml = html;
+  const steps: string[] = [];
+
+  if (imageIssues.length > 0) {
+    const recompressed = await recompressEmbeddedImages(fixedHtml);
+    fixedHtml = recompressed.html;
+    if (recompressed.recompressed > 0) {
+      steps.push(`recompressed ${recompressed.recompressed} image(s) (${Math.round(recompressed.savedBytes / 1024)} KB saved)`);
+    }
+    if (stillOver(fixedHtml).length > 0) {
+      const lazy = lazyLoadImages(fixedHtml);
+      fixedHtml = lazy.html;
+      if (lazy.unembedded + lazy.lazy > 0) {
+        steps.push(`lazy-loaded ${Math.max(lazy.unembedded, lazy.lazy)} image(s) below the first step`);
+      }
+    }
+  }
+
+  const remaining = stillOver(fixedHtml).map(issue => issue.id);
+  for (const issue of issues) {
+    const fixable = IMAGE_WEIGHT_ISSUES.includes(issue.id);
+    fixesApplied.push({
+      issueId: issue.id,
+      issueTitle: issue.title,
+      fixDescription: !fixable
+        ? 'Not fixable by reworking the images'
+        : steps.length > 0 ? steps.join(', ').replace(/^./, c => c.toUpperCase()) : 'No image could be made lighter',
+      success: fixable && !remaining.includes(issue.id),
+    });
+  }
+
+  const fixedCount = fixesApplied.filter(f => f.success).length;
+  return {
+    id: `repair-performance-${Date.now()}`,
+    repairedAt: new Date(),
+    html: fixedHtml,
+    fixesApplied,
+    totalIssues: issues.length,
+    fixedCount,
+    failedCount: issues.length - fixedCount,
+    summary: `Fixed ${fixedCount} of ${issues.length} page-weight issues`,
+  };
+}
+
+/**
+ * One repair result out of two passes over the same page (the later one's HTML wins)
+ */
+export function mergeRepairResults(first: RepairResult | null, second: RepairResult): RepairResult {
+  if (!first) return second;
+  const fixesApplied = [...first.fixesApplied, ...second.fixesApplied];
+  const fixedCount = first.fixedCount + second.fixedCount;
+  return {
+    ...first,
+    html: second.html,
+    fixesApplied,
+    totalIssues: first.totalIssues + second.totalIssues,
+    fixedCount,
+    failedCount: first.failedCount + second.failedCount,
+    summary: `${first.summary}; ${second.summary}`,
+  };
+}
+
+/**
+ * Add the blueprint steps the tree lacks: a hook goes first, quiz steps before the
+ * CTA and the CTA last. Returns the titles of the restored steps.
+ */
+function restoreMissingSteps(tree: ComponentTree, blueprint: LPBlueprint): string[] {
+  const restored: string[] = [];
+
+  blueprint.sections.forEach((section, index) => {
+    const have = tree.steps.filter(step => step.kind === section.type).length;
+    const needed = blueprint.sections.slice(0, index + 1).filter(s => s.type === section.type).length;
+    if (have >= needed) return;
+
+    const step = prefixIds(sectionToStep(section, index, blueprint), 'restored-');
+    const ctaIndex = tree.steps.findIndex(s => s.kind === 'cta');
+    const at = section.type === 'hook' ? 0
+      : section.type === 'quiz' && ctaIndex !== -1 ? ctaIndex
+      : tree.steps.length;
+    shiftJumpTargets(tree, at + 1, 1);
+    tree.steps.splice(at, 0, step);
+    restored.push(section.title);
   });
+
+  return restored;
+}
+
+// The issues as the repair prompt lists them
+function describeIssues(issues: QAIssue[], userIssue?: UserReportedIssue): string[] {
+  return [
+    ...issues.map(issue => `- [${issue.severity.toUpperCase()}] (${issue.id}) ${issue.title}: ${issue.description}${issue.suggestedFix ? `\n  Suggested fix: ${issue.suggestedFix}` : ''}${issue.codeSnippet ? `\n  Problematic code: ${issue.codeSnippet}` : ''}`),
+    ...(userIssue ? [`- [USER REPORTED] (user-reported) ${userIssue.description}${userIssue.expectedBehavior ? `\n  Expected: ${userIssue.expectedBehavior}` : ''}`] : []),
+  ];
+}
+
+// What the repair agent is told about the page and its issues, before the output format
+function repairBrief(html: string, blueprint: LPBlueprint, issuesToFix: string[]): string {
+  return `You are an expert HTML/CSS/JS repair agent. Fix ALL the issues listed below in this landing page.
+
+## ISSUES TO FIX:
+
+${issuesToFix.join('\n\n')}
+
+## BLUEPRINT REFERENCE:
+
+Total Steps: ${blueprint.totalSteps}
+Tracking URL: ${blueprint.technical.trackingUrl}
+Expected structure:
+${blueprint.sections.map(s => `- Step ${s.stepNumber} (${s.type}): ${s.title}`).join('\n')}
+
+## CURRENT HTML:
+
+\`\`\`html
+${html}
+\`\`\`
+
+## REPAIR INSTRUCTIONS:
+
+1. **Fix ALL listed issues** - don't skip any
+2. **Preserve working parts** - don't break what works
+3. **Test your logic** - make sure JS functions are defined and called correctly
+4. **Check responsive rules**:
+   - NO overflow:hidden on body or containers
+   - Use min-height: 100vh (NOT max-height)
+   - Use px/rem for fonts (NOT vw)
+   - Center with max-width: 600px for desktop
+5. **Verify the flow**:
+   - Step 1 (HOOK): Hero + headline + Continue button
+   - Steps 2 to N-1 (QUIZ): Question + answer options ONLY (no separate Continue)
+   - Step N (CTA): Urgency + final CTA that redirects
+
+## COMMON FIXES:
+
+**Non-clickable buttons**:
+- Ensure onclick="nextStep()" is properly attached
+- Verify function nextStep() is defined BEFORE it's called
+- Check for typos in function names
+
+**Missing redirect**:
+- Final step button should use: window.location.href = REDIRECT_URL
+- Or onclick="nextStep()" with nextStep checking if currentStep > TOTAL_STEPS
+
+**Responsive issues**:
+- Remove overflow: hidden from body and .step
+- Change max-height: 100vh to min-height: 100vh
+- Replace vw units with px or rem
+
+**Quiz steps with extra buttons**:
+- Quiz answer options should call nextStep() directly
+- Remove any separate Continue/Next buttons in quiz steps`;
+}
+
+// One fix per issue from the repair agent, as edits to the page. Without an answer the
+// basic repairs make up a single fix.
+async function proposeFixes(
+  html: string,
+  blueprint: LPBlueprint,
+  issues: QAIssue[],
+  userIssue: UserReportedIssue | undefined,
+  routing?: AgentRouting
+): Promise<ProposedFix[]> {
+  const llm = getAgentLLM('repair', routing);
+  const prompt = `${repairBrief(html, blueprint, describeIssues(issues, userIssue))}
+
+## OUTPUT FORMAT:
+
+Fix each issue on its own: every fix is checked separately and dropped if it breaks the page.
+Each edit replaces one exact snippet of the CURRENT HTML; copy enough of it for the snippet to
+occur only once.
+
+Return a JSON object:
+{
+  "fixes": [
+    {
+      "issueId": "the id in parentheses, or 'user-reported'",
+      "fixDescription": "What you fixed and how",
+      "edits": [{ "find": "exact snippet of the current HTML", "replace": "what replaces it" }]
+    }
+  ],
+  "summary": "Brief summary of all fixes"
+}
+
+Return ONLY valid JSON.`;
+
+  try {
+    const response = await llm.generateText(prompt, { temperature: 0.3, maxTokens: 8000 });
+    const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) throw new Error('No JSON in repair response');
+
+    const parsed = JSON.parse(jsonMatch[0]) as { fixes?: { issueId?: string; fixDescription?: string; edits?: { find?: string; replace?: string }[] }[] };
+    return (parsed.fixes || []).map(fix => ({
+      issueId: fix.issueId || 'unknown',
+      fixDescription: fix.fixDescription || '',
+      edits: (fix.edits || []).map(edit => ({ find: edit.find || '', replace: edit.replace ?? '' })),
+    }));
+  } catch (error) {
+    console.error('Repair agent failed:', error);
+    const basic = attemptBasicRepairs(html, blueprint, undefined, userIssue);
+    return basic.html === html ? [] : [{
+      issueId: 'basic-repairs',
+      fixDescription: basic.fixesApplied.map(f => f.fixDescription).join('; '),
+      edits: [{ find: html, replace: basic.html }],
+    }];
+  }
+}
+
+// The page with a fix's edits made (each snippet must occur exactly once), tracker URLs
+// restored as they were; undefined when an edit doesn't match
+function applyEdits(html: string, edits: ProposedFix['edits'], urls: string[]): string | undefined {
+  if (edits.length === 0) return undefined;
+  let edited = html;
+  for (const { find, replace } of edits) {
+    const at = find ? edited.indexOf(find) : -1;
+    if (at === -1 || edited.indexOf(find, at + 1) !== -1) return undefined;
+    edited = edited.slice(0, at) + replace + edited.slice(at + find.length);
+  }
+  return edited === html ? undefined : restoreUrls(edited, urls);
+}
+
+// The checks a fix is verified against: the static rules and (optionally) a click-through, both deterministic
+async function runChecks(html: string, blueprint: LPBlueprint, clickThrough: boolean): Promise<QAIssue[]> {
+  const issues = runStaticQA(html, blueprint);
+  if (!clickThrough) return issues;
+  try {
+    issues.push(...(await runClickThrough(html, blueprint)).issues);
+  } catch (error) {
+    console.error('Click-through QA failed during repair:', error);
+  }
+  return issues;
+}
+
+// Steps from `fromStep` on moved by `delta`: keep go-to-step answers pointing at the
+// same steps (a jump to a removed step becomes a plain next-step)
+function shiftJumpTargets(tree: ComponentTree, fromStep: number, delta: number) {
+  for (const element of tree.steps.flatMap(step => step.blocks.flatMap(block => block.elements))) {
+    if (element.action !== 'go-to-step' || !element.targetStep || element.targetStep < fromStep) continue;
+    if (delta < 0 && element.targetStep === fromStep) {
+      element.action = 'next-step';
+      delete element.targetStep;
+    } else {
+      element.targetStep += delta;
+    }
+  }
+}
+
+// Keep ids unique when template steps are mixed into an LLM-built tree
+function prefixIds(step: TreeStep, prefix: string): TreeStep {
+  const prefixElement = (element: TreeElement): TreeElement => ({ ...element, id: prefix + element.id });
+  return {
+    ...step,
+    id: prefix + step.id,
+    blocks: step.blocks.map(block => ({ ...block, id: prefix + block.id, elements: block.elements.map(prefixElement) })),
+  };
 }
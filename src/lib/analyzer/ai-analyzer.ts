@@ -1,6 +1,7 @@
 import * as cheerio from 'cheerio';
 import { v4 as uuidv4 } from 'uuid';
-import { getLLMProvider } from '@/lib/llm';
+import { getAgentLLM, type LLMProvider } from '@/lib/llm';
+import type { AgentRouting } from '@/types/llm';
 import type {
   ComponentAnalysis,
   AnalyzedComponent,
@@ -21,7 +22,8 @@ import type {
  */
 export async function analyzeWithAI(
   html: string,
-  sourceUrl?: string
+  sourceUrl?: string,
+  routing?: AgentRouting
 ): Promise<ComponentAnalysis> {
   const $ = cheerio.load(html);
 
@@ -32,7 +34,7 @@ export async function analyzeWithAI(
   const trackingUrl = detectTrackingUrl($, html);
 
   // Step 3: Use AI to analyze components and their roles
-  const llm = getLLMProvider('grok');
+  const llm = getAgentLLM('analyzer', routing);
   const aiAnalysis = await getAIAnalysis(llm, rawData, html);
 
   // Step 4: Categorize images
@@ -359,7 +361,7 @@ function detectTrackingUrl($: cheerio.CheerioAPI, html: string): string {
  * Use Grok AI to analyze components and understand their roles
  */
 async function getAIAnalysis(
-  llm: ReturnType<typeof getLLMProvider>,
+  llm: LLMProvider,
   rawData: ReturnType<typeof extractRawData>,
   html: string
 ): Promise<{
@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
-import { getLLMProvider } from '@/lib/llm';
+import { getAgentLLM, type LLMProvider } from '@/lib/llm';
 import {
   validateComponents,
   validateVertical,
@@ -20,7 +20,7 @@ export async function analyzeFromBrief(
   brief: string,
   options: Partial<GenerationOptions>
 ): Promise<ComponentAnalysis> {
-  const llm = getLLMProvider('grok');
+  const llm = getAgentLLM('analyzer', options.agentRouting);
 
   try {
     const aiResult = await getAIBriefAnalysis(llm, brief, options);
@@ -55,7 +55,7 @@ export async function analyzeFromBrief(
  * Use Grok AI to synthesize components from a brief
  */
 async function getAIBriefAnalysis(
-  llm: ReturnType<typeof getLLMProvider>,
+  llm: LLMProvider,
   brief: string,
   options: Partial<GenerationOptions>
 ): Promise<{
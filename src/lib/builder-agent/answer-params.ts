@@ -0,0 +1,181 @@
+import * as cheerio from 'cheerio';
+import type { AnswerParamMapping } from '@/types/builder';
+import type { ComponentTree } from '@/types/component-tree';
+import { findStep } from './section-builder';
+import { pageScripts, rewritePageScripts, unwrappedRedirectTargets, wrapRedirectTargets } from './redirects';
+
+// Query parameter names the page may set; keeps them safe in attributes and URLs
+export const PARAM_NAME = /^[A-Za-z][\w.-]{0,39}$/;
+
+/**
+ * Runtime for answer params: answer buttons carry data-param/data-value, a capturing
+ * click listener records them before the button's own handler runs, and offerUrl()
+ * appends them to the redirect. Links to the offer carry their URL in data-offer-url
+ * and get href = offerUrl(it) when clicked. Parameters are appended as text so
+ * tracker macros in the offer URL ({clickid} etc.) are left exactly as written.
+ */
+export const ANSWER_PARAMS_SCRIPT = `
+    // Quiz answers passed on to the offer URL
+    var ANSWER_PARAMS = {};
+    document.addEventListener('click', function (event) {
+      var el = event.target.closest ? event.target.closest('[data-param]') : null;
+      if (el) ANSWER_PARAMS[el.getAttribute('data-param')] = el.getAttribute('data-value') || el.textContent.trim();
+    }, true);
+    function offerUrl(url) {
+      var hash = url.indexOf('#') === -1 ? '' : url.slice(url.indexOf('#'));
+      var base = hash ? url.slice(0, url.indexOf('#')) : url;
+      Object.keys(ANSWER_PARAMS).forEach(function (name) {
+        base += (base.indexOf('?') === -1 ? '?' : '&') + encodeURIComponent(name) + '=' + encodeURIComponent(ANSWER_PARAMS[name]);
+      });
+      return base + hash;
+    }
+    document.addEventListener('click', function (event) {
+      var link = event.target.closest ? event.target.closest('a[data-offer-url]') : null;
+      if (link) link.setAttribute('href', offerUrl(link.getAttribute('data-offer-url')));
+    }, true);
+`;
+
+/**
+ * Check answer param mappings (from AddElementOptions or an edited blueprint).
+ * Returns the problems found, empty if they can be applied.
+ */
+export function validateAnswerParams(value: unknown, path = 'answerParams'): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return [`${path} must be a list`];
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  value.forEach((mapping: unknown, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (typeof mapping !== 'object' || mapping === null) {
+      errors.push(`${itemPath} must be an object`);
+      return;
+    }
+    const { stepNumber, param, values } = mapping as Record<string, unknown>;
+    if (typeof stepNumber !== 'number' || !Number.isInteger(stepNumber) || stepNumber < 1) {
+      errors.push(`${itemPath}.stepNumber must be a step number`);
+    }
+    if (typeof param !== 'string' || !PARAM_NAME.test(param)) {
+      errors.push(`${itemPath}.param must be a parameter name (letters, digits, _ . -)`);
+    } else if (seen.has(param)) {
+      errors.push(`${itemPath}.param "${param}" is used twice`);
+    } else {
+      seen.add(param);
+    }
+    if (values !== undefined && (typeof values !== 'object' || values === null ||
+        Object.values(values).some(v => typeof v !== 'string'))) {
+      errors.push(`${itemPath}.values must map answers to text`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * The value sent for an answer: the mapped value, else a slug ("Something casual" → "something-casual")
+ */
+export function answerParamValue(answer: string, mapping: AnswerParamMapping): string {
+  const text = answer.trim();
+  const mapped = Object.entries(mapping.values || {}).find(([key]) => key.trim().toLowerCase() === text.toLowerCase());
+  if (mapped) return mapped[1];
+  return text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || text;
+}
+
+/**
+ * Tag the answer options of mapped steps in a component tree (the renderer adds the runtime)
+ */
+export function applyAnswerParamsToTree(tree: ComponentTree, mappings: AnswerParamMapping[] = []): ComponentTree {
+  if (mappings.length === 0) return tree;
+
+  return {
+    ...tree,
+    steps: tree.steps.map(step => {
+      const mapping = mappings.find(m => m.stepNumber === step.stepNumber);
+      if (!mapping) return step;
+      return {
+        ...step,
+        blocks: step.blocks.map(block => ({
+          ...block,
+          elements: block.elements.map(element => element.type === 'option'
+            ? { ...element, param: mapping.param, value: answerParamValue(element.text || '', mapping) }
+            : element),
+        })),
+      };
+    }),
+  };
+}
+
+/**
+ * Enforce answer params on a built HTML page: answer buttons on mapped steps get
+ * data-param/data-value, the runtime is added, every redirect in its scripts and
+ * handlers goes through offerUrl() and links to the offer get data-offer-url.
+ * Pages that already do all of this are returned unchanged.
+ */
+export function applyAnswerParams(html: string, mappings: AnswerParamMapping[] = []): string {
+  if (mappings.length === 0 || checkAnswerParams(html, mappings).length === 0) return html;
+
+  const $ = cheerio.load(html);
+  for (const mapping of mappings) {
+    const location = findStep(html, mapping.stepNumber);
+    if (!location) continue;
+    const stepId = cheerio.load(location.html, null, false).root().children().first().attr('id');
+    const step = stepId ? $(`[id="${stepId}"]`) : $(`[data-step="${mapping.stepNumber}"]`);
+    answerButtons($, step).each((_, el) => {
+      $(el).attr('data-param', mapping.param).attr('data-value', answerParamValue($(el).text(), mapping));
+    });
+  }
+
+  rewritePageScripts($, code => wrapRedirectTargets(code, 'offerUrl'));
+  offerLinks($).each((_, el) => {
+    $(el).attr('data-offer-url', $(el).attr('href') || '');
+  });
+  if (!/function\s+offerUrl\s*\(/.test($.html())) {
+    $('body').append(`<script>${ANSWER_PARAMS_SCRIPT}</script>`);
+  }
+
+  return $.html();
+}
+
+/**
+ * What's missing for the mapped answers to reach the offer URL (empty when wired up)
+ */
+export function checkAnswerParams(html: string, mappings: AnswerParamMapping[] = []): string[] {
+  if (mappings.length === 0) return [];
+  const problems: string[] = [];
+  const $ = cheerio.load(html);
+
+  for (const mapping of mappings) {
+    const location = findStep(html, mapping.stepNumber);
+    if (!location) {
+      problems.push(`Step ${mapping.stepNumber} (answer param "${mapping.param}") is missing`);
+      continue;
+    }
+    const $step = cheerio.load(location.html, null, false);
+    const buttons = answerButtons($step, $step.root());
+    if (buttons.length === 0 || buttons.toArray().some(el => $step(el).attr('data-param') !== mapping.param)) {
+      problems.push(`Answers on step ${mapping.stepNumber} don't set "${mapping.param}"`);
+    }
+  }
+
+  const scripts = pageScripts($);
+  if (!/function\s+offerUrl\s*\(/.test(scripts.join('\n'))) {
+    problems.push('offerUrl() is not defined');
+  } else if (scripts.some(code => unwrappedRedirectTargets(code, 'offerUrl').length > 0)) {
+    problems.push('A redirect skips offerUrl()');
+  }
+  offerLinks($).filter((_, el) => $(el).attr('data-offer-url') !== $(el).attr('href')).each((_, el) => {
+    problems.push(`The link to ${$(el).attr('href')} skips offerUrl()`);
+  });
+  return problems;
+}
+
+// Clickable answers in a step: buttons, links and anything with an onclick
+function answerButtons($: cheerio.CheerioAPI, step: ReturnType<cheerio.CheerioAPI>) {
+  return step.find('button, a, [onclick]').filter((_, el) => !$(el).parents('[onclick]').length);
+}
+
+// Links that leave for another page: inside the steps, or anywhere on a page without steps
+function offerLinks($: cheerio.CheerioAPI) {
+  const steps = $('.step, [data-step], [id^="step"]');
+  return $('a[href]').filter((_, el) =>
+    /^https?:\/\//i.test($(el).attr('href') || '') && (steps.length === 0 || $(el).parents().is(steps)));
+}
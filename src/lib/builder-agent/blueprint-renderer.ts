@@ -0,0 +1,180 @@
+import { findBranch, type LPBlueprint, type BlueprintSection, type BlueprintElement } from '@/lib/agents/architect';
+import type { ComponentTree, TreeBlock, TreeElement, TreeStep } from '@/types/component-tree';
+import { getCtaCopyGuidelines } from './lp-rules';
+import { renderComponentTree } from './component-tree';
+import { applyAnswerParamsToTree } from './answer-params';
+
+export interface RenderOptions {
+  variationNumber?: number; // Picks the style preset, so variations differ without an LLM
+  language?: string;
+}
+
+// Deterministic looks for template variations
+const STYLE_PRESETS: Pick<ComponentTree['theme'], 'radius' | 'background'>[] = [
+  { radius: 'md', background: 'solid' },
+  { radius: 'pill', background: 'gradient' },
+  { radius: 'sm', background: 'card' },
+];
+
+export type WidgetType = Extract<BlueprintElement['type'], 'countdown' | 'scarcity' | 'social-proof'>;
+
+/**
+ * Blueprint Renderer
+ * Compiles an LPBlueprint into a working multi-step page without an LLM: one
+ * template per section type, a progress line, countdown/scarcity/social-proof
+ * widgets and nextStep() navigation that redirects to the tracking URL after the
+ * last step. The markup follows LP_RULES (the HTML structure template and CSS
+ * framework the builder prompt asks for).
+ */
+export function renderBlueprint(blueprint: LPBlueprint, options: RenderOptions = {}): string {
+  return renderComponentTree(blueprintToComponentTree(blueprint, options));
+}
+
+/**
+ * The component tree the templates produce for a blueprint
+ */
+export function blueprintToComponentTree(blueprint: LPBlueprint, options: RenderOptions = {}): ComponentTree {
+  const preset = STYLE_PRESETS[((options.variationNumber || 1) - 1) % STYLE_PRESETS.length];
+  const widgets = getRequiredWidgets(blueprint);
+  const lastIndex = blueprint.sections.length - 1;
+
+  return applyAnswerParamsToTree({
+    version: 1,
+    title: blueprint.conversionStrategy.mainHook || blueprint.sections[0]?.title || 'Landing Page',
+    language: options.language || 'en',
+    redirectUrl: blueprint.technical.trackingUrl,
+    theme: {
+      colors: { ...blueprint.visualDirection.colorPalette },
+      font: 'system',
+      ...preset,
+    },
+    steps: blueprint.sections.map((section, index) =>
+      sectionToStep(section, index, blueprint, index === lastIndex ? widgets : [])
+    ),
+  }, blueprint.technical.answerParams);
+}
+
+/**
+ * The templated step for one blueprint section (also used to restore missing steps)
+ */
+export function sectionToStep(
+  section: BlueprintSection,
+  index: number,
+  blueprint: LPBlueprint,
+  extraWidgets: WidgetType[] = []
+): TreeStep {
+  const stepNumber = index + 1;
+  const id = (name: string) => `s${stepNumber}-${name}`;
+  const content: TreeElement[] = [];
+  const actions: TreeElement[] = [];
+  let hasImage = false;
+
+  // A redirect before the last step ends the flow there (the steps after it are branch targets)
+  const trackingUrl = blueprint.technical.trackingUrl;
+  const exitUrl = section.transition?.target && section.transition.target !== trackingUrl ? section.transition.target : undefined;
+  const endsFlow = section.transition?.action === 'redirect' && (index < blueprint.sections.length - 1 || !!exitUrl);
+  const stepAction = (): Pick<TreeElement, 'action' | 'url'> =>
+    endsFlow ? { action: 'redirect', ...(exitUrl && { url: exitUrl }) } : { action: 'next-step' };
+
+  section.elements.forEach((element, elementIndex) => {
+    const elementId = id(`${element.type}-${elementIndex + 1}`);
+    switch (element.type) {
+      case 'headline':
+      case 'subheadline':
+      case 'text':
+        content.push({ id: elementId, type: element.type, text: element.content });
+        break;
+      case 'image': {
+        // One dominant visual per step; descriptions without a URL are skipped
+        const src = /^https?:\/\//.test(element.content.trim())
+          ? element.content.trim()
+          : stepNumber === 1 ? blueprint.visualDirection.imagery.heroImage : undefined;
+        if (src && !hasImage) {
+          content.push({ id: elementId, type: 'image', src, alt: element.purpose || section.title });
+          hasImage = true;
+        }
+        break;
+      }
+      case 'options':
+        element.content.split('|').map(text => text.trim()).filter(Boolean).forEach((option, optionIndex) => {
+          actions.push({ id: `${elementId}-${optionIndex + 1}`, type: 'option', text: option, ...answerAction(section, option, blueprint, stepAction()) });
+        });
+        break;
+      case 'button':
+        actions.push({ id: elementId, type: 'button', text: element.content, ...stepAction() });
+        break;
+      case 'countdown':
+      case 'scarcity':
+      case 'social-proof':
+        content.push(widgetElement(element.type, elementId, element.content, blueprint));
+        break;
+      case 'progress':
+        // Every step already shows "Step N of X"
+        break;
+    }
+  });
+
+  for (const widget of extraWidgets) {
+    content.push(widgetElement(widget, id(widget), '', blueprint));
+  }
+
+  // Every step needs a way forward; the CTA step gets exactly one button
+  if (section.type === 'cta' && actions.length > 1) {
+    actions.splice(1);
+  }
+  if (actions.length === 0) {
+    actions.push({ id: id('button'), type: 'button', text: getCtaCopyGuidelines()[0], ...stepAction() });
+  }
+
+  const blocks: TreeBlock[] = [
+    { id: id('content'), kind: 'content', elements: content },
+    { id: id('actions'), kind: 'actions', elements: actions },
+  ];
+
+  return { id: id('step'), stepNumber, kind: section.type, title: section.title, blocks };
+}
+
+/**
+ * The tree action for a quiz answer: its planned branch, or the step's own transition
+ */
+export function answerAction(
+  section: BlueprintSection,
+  answer: string,
+  blueprint: LPBlueprint,
+  fallback: Pick<TreeElement, 'action' | 'url'> = { action: 'next-step' }
+): Pick<TreeElement, 'action' | 'targetStep' | 'url'> {
+  const branch = findBranch(section, answer);
+  if (branch?.action === 'go-to-step' && branch.stepNumber) {
+    return { action: 'go-to-step', targetStep: branch.stepNumber };
+  }
+  if (branch?.action === 'redirect') {
+    return branch.target && branch.target !== blueprint.technical.trackingUrl
+      ? { action: 'redirect', url: branch.target }
+      : { action: 'redirect' };
+  }
+  return fallback;
+}
+
+// Widgets the blueprint requires that no section places itself; they go on the CTA step
+function getRequiredWidgets(blueprint: LPBlueprint): WidgetType[] {
+  const placed = new Set(blueprint.sections.flatMap(section => section.elements.map(el => el.type)));
+  const widgets: WidgetType[] = [];
+  if (blueprint.technical.requiresCountdown && !placed.has('countdown')) widgets.push('countdown');
+  if (blueprint.technical.requiresScarcity && !placed.has('scarcity')) widgets.push('scarcity');
+  if (blueprint.technical.requiresSocialProof && !placed.has('social-proof')) widgets.push('social-proof');
+  return widgets;
+}
+
+/**
+ * A countdown/scarcity/social-proof element, with default copy when the blueprint gives none
+ */
+export function widgetElement(type: WidgetType, id: string, content: string, blueprint: LPBlueprint): TreeElement {
+  switch (type) {
+    case 'countdown':
+      return { id, type, text: content || 'Offer ends in' };
+    case 'scarcity':
+      return { id, type, text: content || blueprint.conversionStrategy.urgencyTactics[0] || 'Only a few spots left today' };
+    case 'social-proof':
+      return { id, type, text: content || '★★★★★ Thousands joined this week' };
+  }
+}
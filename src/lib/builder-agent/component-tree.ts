@@ -0,0 +1,459 @@
+import {
+  COLOR_TOKENS,
+  SIZE_TOKENS,
+  RADIUS_TOKENS,
+  FONT_TOKENS,
+  BACKGROUND_TOKENS,
+  TREE_STEP_KINDS,
+  TREE_BLOCK_KINDS,
+  TREE_ELEMENT_TYPES,
+  TREE_ACTIONS,
+  type ComponentTree,
+  type TreeStep,
+  type TreeElement,
+} from '@/types/component-tree';
+import { LP_RULES } from './lp-rules';
+import { ANSWER_PARAMS_SCRIPT } from './answer-params';
+import { LANGUAGES, type LanguageCode } from '@/types/languages';
+
+const MAX_STEPS = 12;
+
+const COUNTDOWN_SECONDS = 5 * 60;
+
+const RADIUS_CSS: Record<ComponentTree['theme']['radius'], string> = {
+  none: '0',
+  sm: '4px',
+  md: '8px',
+  lg: '16px',
+  pill: '999px',
+};
+
+const FONT_CSS: Record<ComponentTree['theme']['font'], string> = {
+  system: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  serif: "Georgia, 'Times New Roman', serif",
+  rounded: "'Nunito', 'Segoe UI Rounded', 'Arial Rounded MT Bold', sans-serif",
+};
+
+const SIZE_CSS: Record<(typeof SIZE_TOKENS)[number], string> = {
+  sm: '14px',
+  md: '17px',
+  lg: '22px',
+  xl: '30px',
+};
+
+// The framework's comments are guidance for the LLM ("Never use overflow:hidden"); QA's regexes would read them as rules
+const BASE_CSS = LP_RULES.cssFramework.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\n\s*\n/g, '\n');
+
+/**
+ * Check a component tree (e.g. parsed from the builder's JSON) against the schema.
+ * Returns the problems found, empty if the tree can be rendered.
+ */
+export function validateComponentTree(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return ['Component tree must be an object'];
+  }
+
+  if (value.version !== 1) {
+    errors.push('version must be 1');
+  }
+  requireString(value, 'title', 'title', errors);
+  requireString(value, 'language', 'language', errors);
+  requireString(value, 'redirectUrl', 'redirectUrl', errors);
+
+  // Theme tokens
+  const theme = value.theme;
+  if (!isObject(theme) || !isObject(theme.colors)) {
+    errors.push('theme.colors is required');
+  } else {
+    for (const token of COLOR_TOKENS) {
+      const color = theme.colors[token];
+      if (typeof color !== 'string' || !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color)) {
+        errors.push(`theme.colors.${token} must be a hex colour`);
+      }
+    }
+    requireOneOf(theme.radius, RADIUS_TOKENS, 'theme.radius', errors);
+    requireOneOf(theme.font, FONT_TOKENS, 'theme.font', errors);
+    requireOneOf(theme.background, BACKGROUND_TOKENS, 'theme.background', errors);
+  }
+
+  // Steps → blocks → elements
+  const steps = value.steps;
+  if (!Array.isArray(steps) || steps.length === 0) {
+    errors.push('steps must have at least one step');
+    return errors;
+  }
+  if (steps.length > MAX_STEPS) {
+    errors.push(`steps can have at most ${MAX_STEPS} entries`);
+  }
+
+  const ids = new Set<string>();
+  const checkId = (node: Record<string, unknown>, path: string) => {
+    if (typeof node.id !== 'string' || !node.id.trim()) {
+      errors.push(`${path}.id is required`);
+    } else if (ids.has(node.id)) {
+      errors.push(`${path}.id "${node.id}" is not unique`);
+    } else {
+      ids.add(node.id);
+    }
+  };
+
+  steps.forEach((step: unknown, stepIndex) => {
+    const stepPath = `steps[${stepIndex}]`;
+    if (!isObject(step)) {
+      errors.push(`${stepPath} must be an object`);
+      return;
+    }
+    checkId(step, stepPath);
+    if (step.stepNumber !== stepIndex + 1) {
+      errors.push(`${stepPath}.stepNumber must be ${stepIndex + 1}`);
+    }
+    requireOneOf(step.kind, TREE_STEP_KINDS, `${stepPath}.kind`, errors);
+    requireString(step, 'title', `${stepPath}.title`, errors);
+
+    if (!Array.isArray(step.blocks) || step.blocks.length === 0) {
+      errors.push(`${stepPath}.blocks must have at least one block`);
+      return;
+    }
+    step.blocks.forEach((block: unknown, blockIndex) => {
+      const blockPath = `${stepPath}.blocks[${blockIndex}]`;
+      if (!isObject(block)) {
+        errors.push(`${blockPath} must be an object`);
+        return;
+      }
+      checkId(block, blockPath);
+      requireOneOf(block.kind, TREE_BLOCK_KINDS, `${blockPath}.kind`, errors);
+      if (!Array.isArray(block.elements)) {
+        errors.push(`${blockPath}.elements must be a list`);
+        return;
+      }
+      block.elements.forEach((element: unknown, elementIndex) => {
+        const elementPath = `${blockPath}.elements[${elementIndex}]`;
+        if (!isObject(element)) {
+          errors.push(`${elementPath} must be an object`);
+          return;
+        }
+        checkId(element, elementPath);
+        validateElement(element, elementPath, errors);
+        validateAction(element, elementPath, stepIndex + 1, steps.length, errors);
+      });
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Parse the builder's JSON response into a validated component tree
+ */
+export function parseComponentTree(content: string): ComponentTree {
+  const json = content.replace(/^```(?:json)?\s*|\s*```\s*$/gi, '').match(/\{[\s\S]*\}/);
+  if (!json) {
+    throw new Error('No JSON component tree in builder response');
+  }
+
+  const tree = JSON.parse(json[0]);
+  const errors = validateComponentTree(tree);
+  if (errors.length > 0) {
+    throw new Error(`Invalid component tree: ${errors.slice(0, 5).join('; ')}${errors.length > 5 ? ` (+${errors.length - 5} more)` : ''}`);
+  }
+  return tree as ComponentTree;
+}
+
+/**
+ * Render a component tree to a standalone multi-step page.
+ * Steps use the LP_RULES structure (#stepN.step → .step-content / .step-cta) and every
+ * node carries data-node="<id>", so issues found in the HTML map back to the tree.
+ */
+export function renderComponentTree(tree: ComponentTree): string {
+  const elements = tree.steps.flatMap(step => step.blocks.flatMap(block => block.elements));
+  const hasCountdown = elements.some(element => element.type === 'countdown');
+  const hasRedirect = elements.some(element => element.action === 'redirect');
+  const hasJump = elements.some(element => element.action === 'go-to-step');
+  const hasParams = elements.some(element => element.param);
+  const redirectTo = (url: string) => hasParams ? `offerUrl(${url})` : url;
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(tree.language)}"${LANGUAGES[tree.language as LanguageCode]?.direction === 'rtl' ? ' dir="rtl"' : ''}>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(tree.title)}</title>
+  <style>${BASE_CSS}
+${renderThemeCss(tree.theme)}
+  </style>
+</head>
+<body>
+${tree.steps.map(step => renderStep(step, tree.steps.length)).join('\n')}
+  <script>
+    const REDIRECT_URL = ${toScriptString(tree.redirectUrl)};
+    const TOTAL_STEPS = ${tree.steps.length};
+    let currentStep = 1;
+
+    function nextStep() {
+      document.getElementById('step' + currentStep).classList.remove('active');
+      currentStep++;
+      if (currentStep > TOTAL_STEPS) {
+        window.location.href = ${redirectTo('REDIRECT_URL')};
+        return;
+      }
+      document.getElementById('step' + currentStep).classList.add('active');
+      window.scrollTo(0, 0);
+    }
+${hasJump ? `
+    // Branching answers skip ahead
+    function goToStep(n) {
+      document.getElementById('step' + currentStep).classList.remove('active');
+      currentStep = n;
+      document.getElementById('step' + currentStep).classList.add('active');
+      window.scrollTo(0, 0);
+    }
+` : ''}${hasRedirect ? `
+    function goToOffer(url) {
+      window.location.href = ${redirectTo('url || REDIRECT_URL')};
+    }
+` : ''}${hasParams ? ANSWER_PARAMS_SCRIPT : ''}${hasCountdown ? `
+    // Countdown widgets tick down from ${COUNTDOWN_SECONDS / 60}:00 and stop at zero
+    let secondsLeft = ${COUNTDOWN_SECONDS};
+    function updateCountdown() {
+      const minutes = String(Math.floor(secondsLeft / 60)).padStart(2, '0');
+      const seconds = String(secondsLeft % 60).padStart(2, '0');
+      document.querySelectorAll('.countdown-time').forEach(function (el) {
+        el.textContent = minutes + ':' + seconds;
+      });
+      if (secondsLeft > 0) secondsLeft--;
+    }
+    updateCountdown();
+    setInterval(updateCountdown, 1000);
+` : ''}  </script>
+</body>
+</html>`;
+}
+
+function renderStep(step: TreeStep, totalSteps: number): string {
+  const content: string[] = [];
+  const actions: string[] = [];
+
+  for (const block of step.blocks) {
+    const target = block.kind === 'actions' ? actions : content;
+    for (const element of block.elements) {
+      target.push(renderElement(element, step.stepNumber));
+    }
+  }
+
+  return `  <div id="step${step.stepNumber}" class="step step-kind-${step.kind}${step.stepNumber === 1 ? ' active' : ''}" data-step="${step.stepNumber}" data-node="${escapeHtml(step.id)}">
+    <div class="step-content">
+      ${content.join('\n      ')}
+    </div>
+    <div class="step-cta">
+      ${actions.join('\n      ')}
+      <div class="progress">Step ${step.stepNumber} of ${totalSteps}</div>
+    </div>
+  </div>`;
+}
+
+function renderElement(element: TreeElement, stepNumber: number): string {
+  const text = escapeHtml(element.text || '');
+  const attributes = `class="${elementClasses(element)}" data-node="${escapeHtml(element.id)}"${element.param
+    ? ` data-param="${escapeHtml(element.param)}" data-value="${escapeHtml(element.value ?? element.text ?? '')}"`
+    : ''}`;
+
+  switch (element.type) {
+    case 'headline':
+      // One h1 for the page, h2 on the following steps
+      return stepNumber === 1 ? `<h1 ${attributes}>${text}</h1>` : `<h2 ${attributes}>${text}</h2>`;
+    case 'image':
+      return `<img ${attributes} src="${escapeHtml(element.src || '')}" alt="${escapeHtml(element.alt || '')}">`;
+    case 'button':
+    case 'option':
+      if (element.action === 'go-to-step') {
+        return `<button ${attributes} onclick="goToStep(${element.targetStep})">${text}</button>`;
+      }
+      if (element.action === 'redirect') {
+        // Another offer's URL rides on the element, so no URL is ever inlined into JS
+        return element.url
+          ? `<button ${attributes} data-url="${escapeHtml(element.url)}" onclick="goToOffer(this.dataset.url)">${text}</button>`
+          : `<button ${attributes} onclick="goToOffer()">${text}</button>`;
+      }
+      return `<button ${attributes} onclick="nextStep()">${text}</button>`;
+    case 'countdown':
+      return `<div ${attributes}>${text} <span class="countdown-time">05:00</span></div>`;
+    default:
+      return `<p ${attributes}>${text}</p>`;
+  }
+}
+
+function elementClasses(element: TreeElement): string {
+  const classes = [element.type === 'button' || element.type === 'option' ? `cta-button ${element.type}-button` : element.type];
+  if (element.style?.color) classes.push(`color-${element.style.color}`);
+  if (element.style?.background) classes.push(`bg-${element.style.background}`);
+  if (element.style?.size) classes.push(`size-${element.style.size}`);
+  if (element.style?.bold) classes.push('bold');
+  return classes.join(' ');
+}
+
+function renderThemeCss(theme: ComponentTree['theme']): string {
+  const { colors } = theme;
+  const radius = RADIUS_CSS[theme.radius];
+  const bodyBackground = theme.background === 'gradient'
+    ? `linear-gradient(160deg, ${colors.background} 0%, ${colors.secondary} 100%)`
+    : colors.background;
+
+  return `
+:root { ${COLOR_TOKENS.map(token => `--${token}: ${colors[token]};`).join(' ')} }
+body { background: ${bodyBackground}; color: var(--text); font-family: ${FONT_CSS[theme.font]}; }
+.step-content { gap: 16px; max-width: 480px; width: 100%; margin: 0 auto; }
+${theme.background === 'card' ? `.step-content { background: rgba(255,255,255,0.06); border: 1px solid var(--primary); border-radius: ${radius}; padding: 24px; }\n` : ''}.headline { font-size: 28px; line-height: 1.2; font-weight: 800; }
+.subheadline { font-size: 18px; opacity: 0.9; }
+.text { font-size: 16px; opacity: 0.85; }
+.image { width: 100%; max-width: 360px; height: auto; border-radius: ${radius}; }
+.step-cta { width: 100%; display: flex; flex-direction: column; gap: 12px; }
+.cta-button { min-height: 48px; background: var(--accent); color: ${readableTextColor(colors.accent)}; border-radius: ${radius}; }
+.option-button { background: var(--primary); color: ${readableTextColor(colors.primary)}; }
+.progress { text-align: center; }
+.countdown { font-weight: 700; background: var(--accent); color: ${readableTextColor(colors.accent)}; padding: 8px 12px; border-radius: ${radius}; }
+.countdown-time { font-variant-numeric: tabular-nums; }
+.scarcity { font-weight: 600; border-left: 4px solid var(--accent); padding-left: 12px; }
+.social-proof { font-size: 14px; opacity: 0.85; }
+${COLOR_TOKENS.map(token => `.color-${token} { color: var(--${token}); }`).join('\n')}
+${COLOR_TOKENS.map(token => `.bg-${token} { background: var(--${token}); color: ${readableTextColor(colors[token])}; }`).join('\n')}
+${SIZE_TOKENS.map(token => `.size-${token} { font-size: ${SIZE_CSS[token]}; }`).join('\n')}
+.bold { font-weight: 700; }
+@media (prefers-reduced-motion: reduce) { .cta-button { transition: none; } }`;
+}
+
+function validateElement(element: Record<string, unknown>, path: string, errors: string[]) {
+  requireOneOf(element.type, TREE_ELEMENT_TYPES, `${path}.type`, errors);
+
+  if (element.type === 'image') {
+    if (typeof element.src !== 'string' || !/^(https?:|data:image\/)/.test(element.src)) {
+      errors.push(`${path}.src must be an http(s) or data: image URL`);
+    }
+  } else {
+    requireString(element, 'text', `${path}.text`, errors);
+  }
+
+  if (element.type === 'button' || element.type === 'option') {
+    requireOneOf(element.action, TREE_ACTIONS, `${path}.action`, errors);
+  } else if (element.action !== undefined) {
+    errors.push(`${path}.action is only allowed on buttons and options`);
+  }
+
+  if (element.param !== undefined) {
+    if (element.type !== 'option' && element.type !== 'button') {
+      errors.push(`${path}.param is only allowed on buttons and options`);
+    } else if (typeof element.param !== 'string' || !/^[A-Za-z][\w.-]{0,39}$/.test(element.param)) {
+      errors.push(`${path}.param must be a parameter name (letters, digits, _ . -)`);
+    }
+    if (element.value !== undefined && typeof element.value !== 'string') {
+      errors.push(`${path}.value must be text`);
+    }
+  }
+
+  if (element.style !== undefined) {
+    if (!isObject(element.style)) {
+      errors.push(`${path}.style must be an object`);
+      return;
+    }
+    const { color, background, size, bold } = element.style;
+    if (color !== undefined) requireOneOf(color, COLOR_TOKENS, `${path}.style.color`, errors);
+    if (background !== undefined) requireOneOf(background, COLOR_TOKENS, `${path}.style.background`, errors);
+    if (size !== undefined) requireOneOf(size, SIZE_TOKENS, `${path}.style.size`, errors);
+    if (bold !== undefined && typeof bold !== 'boolean') errors.push(`${path}.style.bold must be true or false`);
+  }
+}
+
+// Jumps only go forward, so every path through the page ends in a redirect
+function validateAction(element: Record<string, unknown>, path: string, stepNumber: number, totalSteps: number, errors: string[]) {
+  if (element.action === 'go-to-step') {
+    const target = element.targetStep;
+    if (typeof target !== 'number' || !Number.isInteger(target) || target <= stepNumber || target > totalSteps) {
+      errors.push(`${path}.targetStep must be a later step (${stepNumber + 1}-${totalSteps})`);
+    }
+  } else if (element.targetStep !== undefined) {
+    errors.push(`${path}.targetStep is only allowed with action go-to-step`);
+  }
+
+  if (element.url !== undefined) {
+    if (element.action !== 'redirect') {
+      errors.push(`${path}.url is only allowed with action redirect`);
+    } else if (typeof element.url !== 'string' || !/^https?:\/\//.test(element.url)) {
+      errors.push(`${path}.url must be an http(s) URL`);
+    }
+  }
+}
+
+/**
+ * Where each step can lead: the steps reachable from step 1 and, for each step, its
+ * exits (step numbers, or 'redirect' for leaving the page). A next-step on the last
+ * step redirects.
+ */
+export function traceComponentTree(tree: ComponentTree): { reachable: Set<number>; exits: Map<number, (number | 'redirect')[]> } {
+  const exits = new Map<number, (number | 'redirect')[]>();
+  for (const step of tree.steps) {
+    const targets = new Set<number | 'redirect'>();
+    for (const element of step.blocks.filter(b => b.kind === 'actions').flatMap(b => b.elements)) {
+      if (element.action === 'redirect') targets.add('redirect');
+      else if (element.action === 'go-to-step' && element.targetStep) targets.add(element.targetStep);
+      else if (element.action === 'next-step') targets.add(step.stepNumber < tree.steps.length ? step.stepNumber + 1 : 'redirect');
+    }
+    exits.set(step.stepNumber, [...targets]);
+  }
+
+  const reachable = new Set<number>();
+  const queue = tree.steps.length > 0 ? [1] : [];
+  while (queue.length > 0) {
+    const stepNumber = queue.shift()!;
+    if (reachable.has(stepNumber)) continue;
+    reachable.add(stepNumber);
+    for (const target of exits.get(stepNumber) || []) {
+      if (target !== 'redirect') queue.push(target);
+    }
+  }
+
+  return { reachable, exits };
+}
+
+function requireOneOf(value: unknown, allowed: readonly string[], path: string, errors: string[]) {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push(`${path} must be one of ${allowed.join(', ')}`);
+  }
+}
+
+function requireString(target: Record<string, unknown>, key: string, path: string, errors: string[]) {
+  const value = target[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${path} is required`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Black or white, whichever reads better on the given hex colour (WCAG relative luminance)
+function readableTextColor(hex: string): string {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const [r, g, b] = [0, 2, 4].map(i => {
+    const channel = parseInt(full.slice(i, i + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  if (Number.isNaN(luminance)) return '#ffffff';
+  return luminance > 0.179 ? '#111111' : '#ffffff';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A JS string literal that can't close the surrounding <script>
+function toScriptString(value: string): string {
+  return JSON.stringify(value).replace(/<\/(script)/gi, '<\\/$1');
+}
@@ -0,0 +1,296 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import {
+  CONSENT_CATEGORIES,
+  requiresConsent,
+  type ConsentCategory,
+  type ConsentOptions,
+  type LanguageCode,
+  type TrackingPlatform,
+} from '@/types';
+import { findTrackingType } from '@/lib/parser/tracking-detector';
+import { parse, type Program } from 'acorn';
+
+interface ConsentCopy {
+  message: string;
+  accept: string;
+  reject: string;
+  save: string;
+  categories: Record<ConsentCategory, string>;
+}
+
+const CONSENT_COPY: Record<LanguageCode, ConsentCopy> = {
+  'en': { message: 'We use cookies to measure and improve this page and to show relevant offers.', accept: 'Accept all', reject: 'Reject all', save: 'Save choices', categories: { analytics: 'Analytics', marketing: 'Marketing' } },
+  'de': { message: 'Wir verwenden Cookies, um diese Seite zu messen und zu verbessern und passende Angebote anzuzeigen.', accept: 'Alle akzeptieren', reject: 'Alle ablehnen', save: 'Auswahl speichern', categories: { analytics: 'Statistik', marketing: 'Marketing' } },
+  'fr': { message: 'Nous utilisons des cookies pour mesurer et améliorer cette page et afficher des offres pertinentes.', accept: 'Tout accepter', reject: 'Tout refuser', save: 'Enregistrer mes choix', categories: { analytics: 'Statistiques', marketing: 'Marketing' } },
+  'es': { message: 'Usamos cookies para medir y mejorar esta página y mostrar ofertas relevantes.', accept: 'Aceptar todo', reject: 'Rechazar todo', save: 'Guardar selección', categories: { analytics: 'Analítica', marketing: 'Marketing' } },
+  'pt': { message: 'Utilizamos cookies para medir e melhorar esta página e mostrar ofertas relevantes.', accept: 'Aceitar tudo', reject: 'Rejeitar tudo', save: 'Guardar escolhas', categories: { analytics: 'Análise', marketing: 'Marketing' } },
+  'pt-BR': { message: 'Usamos cookies para medir e melhorar esta página e mostrar ofertas relevantes.', accept: 'Aceitar todos', reject: 'Rejeitar todos', save: 'Salvar escolhas', categories: { analytics: 'Análise', marketing: 'Marketing' } },
+  'it': { message: 'Utilizziamo i cookie per misurare e migliorare questa pagina e mostrare offerte pertinenti.', accept: 'Accetta tutto', reject: 'Rifiuta tutto', save: 'Salva scelte', categories: { analytics: 'Statistiche', marketing: 'Marketing' } },
+  'nl': { message: 'We gebruiken cookies om deze pagina te meten en te verbeteren en relevante aanbiedingen te tonen.', accept: 'Alles accepteren', reject: 'Alles weigeren', save: 'Keuze opslaan', categories: { analytics: 'Statistieken', marketing: 'Marketing' } },
+  'ja': { message: '当サイトでは、ページの分析・改善と関連性の高いオファーの表示のためにCookieを使用しています。', accept: 'すべて許可', reject: 'すべて拒否', save: '選択を保存', categories: { analytics: '分析', marketing: 'マーケティング' } },
+  'ko': { message: '이 페이지를 측정하고 개선하며 관련 혜택을 보여 드리기 위해 쿠키를 사용합니다.', accept: '모두 허용', reject: '모두 거부', save: '선택 저장', categories: { analytics: '분석', marketing: '마케팅' } },
+  'pl': { message: 'Używamy plików cookie, aby mierzyć i ulepszać tę stronę oraz wyświetlać trafne oferty.', accept: 'Akceptuj wszystkie', reject: 'Odrzuć wszystkie', save: 'Zapisz wybór', categories: { analytics: 'Analityka', marketing: 'Marketing' } },
+  'sv': { message: 'Vi använder cookies för att mäta och förbättra sidan och visa relevanta erbjudanden.', accept: 'Godkänn alla', reject: 'Neka alla', save: 'Spara val', categories: { analytics: 'Statistik', marketing: 'Marknadsföring' } },
+  'no': { message: 'Vi bruker informasjonskapsler for å måle og forbedre denne siden og vise relevante tilbud.', accept: 'Godta alle', reject: 'Avvis alle', save: 'Lagre valg', categories: { analytics: 'Statistikk', marketing: 'Markedsføring' } },
+  'da': { message: 'Vi bruger cookies til at måle og forbedre siden og vise relevante tilbud.', accept: 'Accepter alle', reject: 'Afvis alle', save: 'Gem valg', categories: { analytics: 'Statistik', marketing: 'Marketing' } },
+  'fi': { message: 'Käytämme evästeitä sivun mittaamiseen ja parantamiseen sekä osuvien tarjousten näyttämiseen.', accept: 'Hyväksy kaikki', reject: 'Hylkää kaikki', save: 'Tallenna valinnat', categories: { analytics: 'Analytiikka', marketing: 'Markkinointi' } },
+  'cs': { message: 'Používáme cookies k měření a zlepšování této stránky a k zobrazování relevantních nabídek.', accept: 'Přijmout vše', reject: 'Odmítnout vše', save: 'Uložit volbu', categories: { analytics: 'Analytika', marketing: 'Marketing' } },
+  'sk': { message: 'Používame cookies na meranie a zlepšovanie tejto stránky a zobrazovanie relevantných ponúk.', accept: 'Prijať všetko', reject: 'Odmietnuť všetko', save: 'Uložiť výber', categories: { analytics: 'Analytika', marketing: 'Marketing' } },
+  'hu': { message: 'Sütiket használunk az oldal méréséhez és fejlesztéséhez, valamint releváns ajánlatok megjelenítéséhez.', accept: 'Összes elfogadása', reject: 'Összes elutasítása', save: 'Választás mentése', categories: { analytics: 'Statisztika', marketing: 'Marketing' } },
+  'ro': { message: 'Folosim cookie-uri pentru a măsura și îmbunătăți această pagină și pentru a afișa oferte relevante.', accept: 'Acceptă toate', reject: 'Respinge toate', save: 'Salvează opțiunile', categories: { analytics: 'Analiză', marketing: 'Marketing' } },
+  'el': { message: 'Χρησιμοποιούμε cookies για τη μέτρηση και βελτίωση αυτής της σελίδας και την εμφάνιση σχετικών προσφορών.', accept: 'Αποδοχή όλων', reject: 'Απόρριψη όλων', save: 'Αποθήκευση επιλογών', categories: { analytics: 'Στατιστικά', marketing: 'Μάρκετινγκ' } },
+  'lt': { message: 'Naudojame slapukus šiam puslapiui matuoti ir tobulinti bei aktualiems pasiūlymams rodyti.', accept: 'Priimti visus', reject: 'Atmesti visus', save: 'Išsaugoti pasirinkimą', categories: { analytics: 'Analitika', marketing: 'Rinkodara' } },
+  'et': { message: 'Kasutame küpsiseid selle lehe mõõtmiseks ja parandamiseks ning asjakohaste pakkumiste näitamiseks.', accept: 'Nõustu kõigiga', reject: 'Keeldu kõigist', save: 'Salvesta valik', categories: { analytics: 'Analüütika', marketing: 'Turundus' } },
+  'sl': { message: 'Piškotke uporabljamo za merjenje in izboljšanje te strani ter prikaz ustreznih ponudb.', accept: 'Sprejmi vse', reject: 'Zavrni vse', save: 'Shrani izbiro', categories: { analytics: 'Analitika', marketing: 'Trženje' } },
+  'hr': { message: 'Koristimo kolačiće za mjerenje i poboljšanje ove stranice te prikaz relevantnih ponuda.', accept: 'Prihvati sve', reject: 'Odbij sve', save: 'Spremi odabir', categories: { analytics: 'Analitika', marketing: 'Marketing' } },
+  'uk': { message: 'Ми використовуємо файли cookie, щоб вимірювати й покращувати цю сторінку та показувати релевантні пропозиції.', accept: 'Прийняти всі', reject: 'Відхилити всі', save: 'Зберегти вибір', categories: { analytics: 'Аналітика', marketing: 'Маркетинг' } },
+  'he': { message: 'אנו משתמשים בעוגיות כדי למדוד ולשפר את הדף ולהציג הצעות רלוונטיות.', accept: 'אישור הכל', reject: 'דחיית הכל', save: 'שמירת הבחירה', categories: { analytics: 'ניתוח נתונים', marketing: 'שיווק' } },
+};
+
+// Page scripts that define the LP's own runtime aren't gated as a whole: the tracker
+// statements at their top level are moved to a gated script of their own instead
+const LP_RUNTIME = /function\s+(nextStep|goToStep|goToOffer|offerUrl|passthroughUrl|trackLpEvent|saveConsent)\s*\(/;
+
+const CONSENT_CSS = `
+.lp-consent { position: fixed; left: 12px; right: 12px; bottom: 12px; z-index: 2147483000; max-width: 560px; margin: 0 auto; padding: 16px; border-radius: 12px; background: #fff; color: #222; box-shadow: 0 4px 24px rgba(0,0,0,0.25); font: 14px/1.4 system-ui, -apple-system, sans-serif; }
+.lp-consent[hidden] { display: none; }
+.lp-consent p { margin: 0 0 12px; }
+.lp-consent-categories { display: flex; flex-wrap: wrap; gap: 8px 16px; margin-bottom: 12px; }
+.lp-consent-buttons { display: flex; flex-wrap: wrap; gap: 8px; }
+.lp-consent-buttons button { flex: 1 1 auto; min-height: 44px; padding: 8px 14px; border: 1px solid #222; border-radius: 8px; background: #fff; color: #222; font: inherit; cursor: pointer; }
+.lp-consent-buttons button[data-consent-action="accept"] { background: #222; color: #fff; }
+`;
+
+/**
+ * Runtime for the banner: gated trackers (script type="text/plain" data-consent, pixel
+ * images with data-consent-src) are turned back on once their category is allowed. The
+ * choice is kept in localStorage, so returning visitors aren't asked again; "*" stands
+ * for "Accept all". Fires an lp:consent DOM event with the choice.
+ */
+export const CONSENT_SCRIPT = `
+    // Cookie consent: trackers wait for the visitor's choice
+    var CONSENT_KEY = 'lp-consent';
+    function consentGranted(granted, category) {
+      return !!granted && (granted['*'] === true || granted[category] === true);
+    }
+    function loadConsented(granted) {
+      document.querySelectorAll('script[type="text/plain"][data-consent]').forEach(function (el) {
+        if (!consentGranted(granted, el.getAttribute('data-consent'))) return;
+        var script = document.createElement('script');
+        for (var i = 0; i < el.attributes.length; i++) {
+          var attr = el.attributes[i];
+          if (attr.name !== 'type' && attr.name !== 'data-consent') script.setAttribute(attr.name, attr.value);
+        }
+        if (script.src) script.async = false;
+        script.text = el.text;
+        el.parentNode.replaceChild(script, el);
+      });
+      document.querySelectorAll('[data-consent-src]').forEach(function (el) {
+        if (!consentGranted(granted, el.getAttribute('data-consent'))) return;
+        el.setAttribute('src', el.getAttribute('data-consent-src'));
+        el.removeAttribute('data-consent-src');
+      });
+    }
+    function saveConsent(granted) {
+      try { localStorage.setItem(CONSENT_KEY, JSON.stringify(granted)); } catch (e) {}
+      document.getElementById('lp-consent').hidden = true;
+      loadConsented(granted);
+      document.dispatchEvent(new CustomEvent('lp:consent', { detail: granted }));
+    }
+    (function () {
+      var banner = document.getElementById('lp-consent');
+      var stored = null;
+      try { stored = JSON.parse(localStorage.getItem(CONSENT_KEY) || 'null'); } catch (e) {}
+      if (stored) {
+        loadConsented(stored);
+      } else {
+        banner.hidden = false;
+      }
+      banner.addEventListener('click', function (event) {
+        var action = event.target.getAttribute('data-consent-action');
+        if (!action) return;
+        var granted = {};
+        if (action === 'accept') granted['*'] = true;
+        if (action === 'save') {
+          banner.querySelectorAll('input[data-consent-category]').forEach(function (input) {
+            granted[input.getAttribute('data-consent-category')] = input.checked;
+          });
+        }
+        saveConsent(granted);
+      });
+    })();
+`;
+
+/**
+ * The consent settings a page gets: the project's own, or on with every category for
+ * countries that require consent
+ */
+export function consentSettings(consent?: ConsentOptions, country?: string): ConsentOptions {
+  return consent ?? { enabled: requiresConsent(country), categories: [...CONSENT_CATEGORIES] };
+}
+
+/**
+ * The banner markup in the page's language (English when there is no copy for it)
+ */
+export function consentBannerHtml(consent: ConsentOptions, language?: string): string {
+  const copy = CONSENT_COPY[language as LanguageCode] || CONSENT_COPY.en;
+  const categories = CONSENT_CATEGORIES.filter(category => consent.categories.includes(category));
+  // One category is a plain yes/no; more get a checkbox each
+  const choices = categories.length > 1
+    ? `
+  <div class="lp-consent-categories">
+${categories.map(category => `    <label><input type="checkbox" data-consent-category="${category}"> ${copy.categories[category]}</label>`).join('\n')}
+  </div>`
+    : '';
+
+  return `<div id="lp-consent" class="lp-consent" role="dialog" aria-describedby="lp-consent-message" hidden>
+  <p id="lp-consent-message">${copy.message}</p>${choices}
+  <div class="lp-consent-buttons">
+    <button type="button" data-consent-action="reject">${copy.reject}</button>${choices ? `
+    <button type="button" data-consent-action="save">${copy.save}</button>` : ''}
+    <button type="button" data-consent-action="accept">${copy.accept}</button>
+  </div>
+</div>`;
+}
+
+/**
+ * Gate a loaded page's trackers behind a consent banner: tracker scripts become
+ * type="text/plain" with their category (tracker statements in the page's own runtime
+ * script are moved to one), pixel images keep their URL in data-consent-src, and
+ * tracker noscript fallbacks (which would fire without JavaScript, so without asking)
+ * are removed. Returns false when consent is off or the page already has the banner.
+ */
+export function injectConsentBanner($: cheerio.CheerioAPI, consent: ConsentOptions, language?: string): boolean {
+  if (!consent.enabled || $('#lp-consent').length > 0) return false;
+
+  $('script').each((_, el) => {
+    const category = trackerCategory($, el);
+    if (category) $(el).attr('type', 'text/plain').attr('data-consent', category);
+    else splitRuntimeTrackers($, el);
+  });
+  $('img').each((_, el) => {
+    const category = trackerCategory($, el);
+    if (category) {
+      $(el).attr('data-consent-src', $(el).attr('src') || '').attr('data-consent', category).removeAttr('src');
+    }
+  });
+  $('noscript').each((_, el) => {
+    if (findTrackingType($(el).html() || '')) $(el).remove();
+  });
+
+  $('head').append(`<style>${CONSENT_CSS}</style>`);
+  $('body').append(`${consentBannerHtml(consent, language)}\n<script>${CONSENT_SCRIPT}</script>`);
+  return true;
+}
+
+/**
+ * Same as injectConsentBanner() for a page's HTML
+ */
+export function applyConsentBanner(html: string, consent: ConsentOptions, language?: string): string {
+  if (!html || !consent.enabled) return html;
+
+  const $ = cheerio.load(html);
+  return injectConsentBanner($, consent, language) ? $.html() : html;
+}
+
+/**
+ * Trackers that would run before the visitor consents (empty when every tracker waits
+ * for the banner)
+ */
+export function checkConsentGating(html: string): string[] {
+  const $ = cheerio.load(html);
+  const problems: string[] = [];
+  const hasBanner = $('#lp-consent').length > 0 && /function\s+saveConsent\s*\(/.test($('script:not([src])').text());
+
+  $('script:not([src])').each((_, el) => {
+    const code = $(el).html() || '';
+    if (!isRuntimeScript($, el)) return;
+    const types = (runtimeTrackerStatements(code) || []).map(statement => findTrackingType(code.slice(statement.start, statement.end)));
+    for (const type of new Set(types)) {
+      problems.push(`A ${type} tracker inside the page's own script runs before consent`);
+    }
+  });
+  $('script, img').each((_, el) => {
+    if (!trackerCategory($, el)) return;
+    const type = $(el).attr('data-pixel') || findTrackingType(trackerCode($, el)) || 'tracking pixel';
+    problems.push(el.tagName === 'img'
+      ? `A ${type} image loads before consent (${($(el).attr('src') || '').substring(0, 80)})`
+      : `A ${type} script runs before consent`);
+  });
+  $('noscript').each((_, el) => {
+    const type = findTrackingType($(el).html() || '');
+    if (type) problems.push(`A ${type} noscript fallback fires without asking for consent`);
+  });
+  if ($('[data-consent]').length > 0 && !hasBanner) {
+    problems.push('Trackers are gated but the page has no consent banner to turn them on');
+  }
+
+  return problems;
+}
+
+// The consent category of a tag that would track on load (undefined when it doesn't or is already gated)
+function trackerCategory($: cheerio.CheerioAPI, el: Element): ConsentCategory | undefined {
+  const $el = $(el);
+  if (el.tagName === 'img') {
+    const src = $el.attr('src') || '';
+    const tiny = ($el.attr('width') === '1' && $el.attr('height') === '1') || ($el.attr('width') === '0' && $el.attr('height') === '0');
+    if (!src || src.startsWith('data:') || (!tiny && !$el.attr('data-pixel') && !findTrackingType(src))) return undefined;
+    return platformCategory($el.attr('data-pixel')) || 'marketing';
+  }
+
+  const type = $el.attr('type');
+  if ((type && !/javascript|module/i.test(type)) || isRuntimeScript($, el)) return undefined;
+  const pixel = $el.attr('data-pixel');
+  if (pixel) return platformCategory(pixel);
+
+  const tracker = findTrackingType(trackerCode($, el));
+  return tracker ? trackerTypeCategory(tracker) : undefined;
+}
+
+function trackerTypeCategory(tracker: NonNullable<ReturnType<typeof findTrackingType>>): ConsentCategory {
+  return tracker === 'google-analytics' || tracker === 'custom' ? 'analytics' : 'marketing';
+}
+
+function platformCategory(platform?: string): ConsentCategory | undefined {
+  if (!platform) return undefined;
+  return (platform as TrackingPlatform) === 'ga4' ? 'analytics' : 'marketing';
+}
+
+function trackerCode($: cheerio.CheerioAPI, el: Element): string {
+  return `${$(el).attr('src') || ''} ${$(el).html() || ''}`;
+}
+
+function isRuntimeScript($: cheerio.CheerioAPI, el: Element): boolean {
+  const type = $(el).attr('type');
+  return !$(el).attr('src') && (!type || /javascript/i.test(type)) && LP_RUNTIME.test($(el).html() || '');
+}
+
+// Top-level statements of a runtime script that track when it loads (fbq('init'), the
+// pixel snippet IIFE, gtag('config')...). Declarations stay: they don't run anything.
+function runtimeTrackerStatements(code: string): { start: number; end: number }[] | undefined {
+  let ast: Program;
+  try {
+    ast = parse(code, { ecmaVersion: 'latest', sourceType: 'script' });
+  } catch {
+    return undefined;
+  }
+  return ast.body
+    .filter(node => !['FunctionDeclaration', 'ClassDeclaration', 'VariableDeclaration'].includes(node.type))
+    .filter(node => findTrackingType(code.slice(node.start, node.end)))
+    .map(node => ({ start: node.start, end: node.end }));
+}
+
+// Move a runtime script's tracker statements into a gated script right after it
+function splitRuntimeTrackers($: cheerio.CheerioAPI, el: Element) {
+  if (!isRuntimeScript($, el)) return;
+  const code = $(el).html() || '';
+  const statements = runtimeTrackerStatements(code) || [];
+  if (statements.length === 0) return;
+
+  const tracker = statements.map(statement => code.slice(statement.start, statement.end)).join('\n');
+  const runtime = [...statements].reverse().reduce((rest, statement) => rest.slice(0, statement.start) + rest.slice(statement.end), code);
+  const category = trackerTypeCategory(findTrackingType(tracker) || 'custom');
+  $(el).text(runtime);
+  $(el).after(`<script type="text/plain" data-consent="${category}">\n${tracker}\n</script>`);
+}
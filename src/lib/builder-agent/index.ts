@@ -1,6 +1,30 @@
-import { getLLMProvider } from '@/lib/llm';
+import { getAgentLLM, withVariationUsage } from '@/lib/llm';
 import type { BuilderPrompt, ComponentAnalysis } from '@/types/component-analysis';
+import type { AgentRouting } from '@/types/llm';
 import { getAllRules } from './lp-rules';
+import { blueprintToComponentTree } from './blueprint-renderer';
+import { renderComponentTree } from './component-tree';
+import { buildLandingPageTree } from './tree-builder';
+import type { LPBlueprint } from '@/lib/agents';
+import { findUrlMacros, restoreUrls } from '@/lib/parser/link-detector';
+import type { ComponentTree } from '@/types/component-tree';
+
+export { regenerateSection, findStep, countSteps } from './section-builder';
+export type { SectionRequest, SectionResult, StepLocation } from './section-builder';
+export { renderBlueprint, blueprintToComponentTree, sectionToStep } from './blueprint-renderer';
+export type { RenderOptions } from './blueprint-renderer';
+export { validateComponentTree, parseComponentTree, renderComponentTree, traceComponentTree } from './component-tree';
+export {
+  applyAnswerParams,
+  applyAnswerParamsToTree,
+  checkAnswerParams,
+  validateAnswerParams,
+  answerParamValue,
+} from './answer-params';
+export { applyParamPassthrough, injectParamPassthrough, passthroughParams } from './param-passthrough';
+export { applyTrackingPixels, injectTrackingPixels, trackingPixels, trackingEvents } from './tracking-pixels';
+export { applyConsentBanner, injectConsentBanner, consentSettings, checkConsentGating } from './consent-banner';
+export { buildLandingPageTree } from './tree-builder';
 
 export interface BuilderResult {
   id: string;
@@ -8,6 +32,21 @@ export interface BuilderResult {
   success: boolean;
   error?: string;
   generatedAt: Date;
+  builtWith?: 'llm' | 'template'; // 'template' = rendered from the blueprint without an LLM
+  tree?: ComponentTree;            // Set when the page was rendered from a component tree
+}
+
+/**
+ * Builder output: raw HTML from the LLM, or a JSON component tree we render
+ */
+export type BuildFormat = 'html' | 'tree';
+
+/**
+ * Progress callbacks for streaming builds
+ */
+export interface BuildProgress {
+  onToken?: (variationNumber: number, text: string) => void; // Raw HTML as the LLM writes it
+  onVariation?: (variationNumber: number, result: BuilderResult) => void;
 }
 
 /**
@@ -16,9 +55,11 @@ export interface BuilderResult {
  */
 export async function buildLandingPage(
   builderPrompt: BuilderPrompt,
-  analysis: ComponentAnalysis
+  analysis: ComponentAnalysis,
+  routing?: AgentRouting,
+  onToken?: (text: string) => void
 ): Promise<BuilderResult> {
-  const llm = getLLMProvider('grok');
+  const llm = getAgentLLM('builder', routing);
 
   // Construct the final prompt for the builder
   const isMultiStep = analysis.flow.type === 'multi-step';
@@ -78,7 +119,9 @@ function nextStep() {
 ### SINGLE PAGE REQUIREMENTS:
 1. All CTA buttons link to: ${analysis.trackingUrl}
 2. Clear call-to-action visible above the fold
-`}
+`}${findUrlMacros(analysis.trackingUrl || '').length > 0 ? `
+The tracking URL contains tracker macros (${findUrlMacros(analysis.trackingUrl).join(', ')}): copy it character for character - do not fill in, encode or remove them.
+` : ''}
 
 ## OTHER REQUIREMENTS:
 - Use inline styles - no external CSS
@@ -96,6 +139,7 @@ Generate ONLY the complete HTML code.
     const response = await llm.generateText(prompt, {
       temperature: 0.7, // Some creativity for design
       maxTokens: 8000,  // Landing pages can be long
+      onToken,
     });
 
     // Extract HTML from response
@@ -118,6 +162,13 @@ Generate ONLY the complete HTML code.
       throw new Error('Generated content does not appear to be valid HTML');
     }
 
+    // Undo any re-encoding of the tracking URL's macros, then keep them out of the placeholder cleanup
+    const trackingUrls = analysis.trackingUrl ? [analysis.trackingUrl] : [];
+    html = restoreUrls(html, trackingUrls);
+
+    // Replace common placeholders the AI might leave in
+    html = replacePlaceholders(html, trackingUrls);
+
     // Ensure tracking URL is present for multi-step
     if (analysis.flow.type === 'multi-step' && analysis.trackingUrl) {
       if (!html.includes(analysis.trackingUrl)) {
@@ -126,9 +177,6 @@ Generate ONLY the complete HTML code.
       }
     }
 
-    // Replace common placeholders the AI might leave in
-    html = replacePlaceholders(html);
-
     return {
       id: `build-${Date.now()}`,
       html,
@@ -153,7 +201,10 @@ Generate ONLY the complete HTML code.
 export async function buildVariations(
   builderPrompt: BuilderPrompt,
   analysis: ComponentAnalysis,
-  count: number = 1
+  count: number = 1,
+  routing?: AgentRouting,
+  progress?: BuildProgress,
+  format: BuildFormat = 'html'
 ): Promise<BuilderResult[]> {
   const results: BuilderResult[] = [];
 
@@ -170,9 +221,12 @@ export async function buildVariations(
       };
     }
 
-    const result = await buildLandingPage(promptToUse, analysis);
+    const onToken = progress?.onToken ? (text: string) => progress.onToken!(i + 1, text) : undefined;
+    const build = format === 'tree' ? buildLandingPageTree : buildLandingPage;
+    const result = await withVariationUsage(i + 1, () => build(promptToUse, analysis, routing, onToken));
     result.id = `variation-${i + 1}-${Date.now()}`;
     results.push(result);
+    progress?.onVariation?.(i + 1, result);
 
     // Small delay between generations to avoid rate limiting
     if (i < count - 1) {
@@ -183,6 +237,25 @@ export async function buildVariations(
   return results;
 }
 
+/**
+ * Render one variation from the blueprint templates (no LLM, no cost)
+ */
+export function buildFromTemplate(
+  blueprint: LPBlueprint,
+  variationNumber: number,
+  language?: string
+): BuilderResult {
+  const tree = blueprintToComponentTree(blueprint, { variationNumber, language });
+  return {
+    id: `variation-${variationNumber}-${Date.now()}`,
+    html: renderComponentTree(tree),
+    tree,
+    success: true,
+    generatedAt: new Date(),
+    builtWith: 'template',
+  };
+}
+
 /**
  * Inject redirect URL if builder forgot it
  */
@@ -432,9 +505,16 @@ function generateFallbackSinglePage(analysis: ComponentAnalysis, trackingUrl: st
 }
 
 /**
- * Replace common AI placeholders with realistic values
+ * Replace common AI placeholders with realistic values. The kept URLs are skipped, so
+ * tracker macros such as [SUBID] or [COUNT] in them survive.
  */
-function replacePlaceholders(html: string): string {
+function replacePlaceholders(html: string, keep: string[] = []): string {
+  if (keep.length > 0) {
+    const kept = keep.flatMap(url => [url, url.replace(/&/g, '&amp;')]);
+    const alternatives = kept.map(url => url.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    return html.split(new RegExp(`(${alternatives})`)).map((part, index) => index % 2 === 1 ? part : replacePlaceholders(part)).join('');
+  }
+
   // Generate random but realistic numbers
   const getRandomNumber = (min: number, max: number) =>
     Math.floor(Math.random() * (max - min + 1)) + min;
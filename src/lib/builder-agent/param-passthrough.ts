@@ -0,0 +1,75 @@
+import * as cheerio from 'cheerio';
+import type { ParamPassthrough } from '@/types';
+import { PARAM_NAME } from './answer-params';
+import { rewritePageScripts, wrapRedirectTargets } from './redirects';
+
+/**
+ * Runtime for param passthrough: passthroughUrl() copies the listed parameters of the
+ * page's own URL onto an outgoing URL. A {name} macro in the URL (Voluum, RedTrack,
+ * Binom, Keitaro templates) is filled with the incoming value instead of appending it,
+ * macros without an incoming value are left for the tracker. Links are rewritten on
+ * click, JS redirects call passthroughUrl() themselves.
+ */
+export function paramPassthroughScript(params: string[]): string {
+  return `
+    // Incoming click IDs / sub-IDs passed on to the offer
+    var PASSTHROUGH_PARAMS = ${JSON.stringify(params)};
+    function passthroughUrl(url) {
+      var incoming = new URLSearchParams(window.location.search);
+      var hashAt = url.indexOf('#');
+      var base = hashAt === -1 ? url : url.slice(0, hashAt);
+      var hash = hashAt === -1 ? '' : url.slice(hashAt);
+      PASSTHROUGH_PARAMS.forEach(function (name) {
+        var value = incoming.get(name);
+        if (value === null) return;
+        var macro = '{' + name + '}';
+        if (base.indexOf(macro) !== -1) {
+          base = base.split(macro).join(encodeURIComponent(value));
+        } else if (('&' + (base.split('?')[1] || '')).indexOf('&' + name + '=') === -1) {
+          base += (base.indexOf('?') === -1 ? '?' : '&') + encodeURIComponent(name) + '=' + encodeURIComponent(value);
+        }
+      });
+      return base + hash;
+    }
+    document.addEventListener('click', function (event) {
+      var link = event.target.closest ? event.target.closest('a[href]') : null;
+      if (link && /^https?:/i.test(link.getAttribute('href'))) {
+        link.setAttribute('href', passthroughUrl(link.getAttribute('href')));
+      }
+    }, true);
+`;
+}
+
+/**
+ * The parameters a passthrough setting applies (none when disabled; invalid names are dropped)
+ */
+export function passthroughParams(passthrough?: ParamPassthrough): string[] {
+  if (!passthrough?.enabled) return [];
+  return [...new Set((passthrough.params || []).map(param => param.trim()).filter(param => PARAM_NAME.test(param)))];
+}
+
+/**
+ * Add param passthrough to a loaded page: the runtime goes at the end of the body and
+ * every redirect in its scripts and handlers (location = / .href = / .assign() /
+ * .replace()) goes through passthroughUrl(). Returns false when there is nothing to
+ * pass on or the page already has it.
+ */
+export function injectParamPassthrough($: cheerio.CheerioAPI, passthrough?: ParamPassthrough): boolean {
+  const params = passthroughParams(passthrough);
+  if (params.length === 0 || /function\s+passthroughUrl\s*\(/.test($('script:not([src])').text())) return false;
+
+  // answer params' offerUrl(X) ends up inside passthroughUrl()
+  rewritePageScripts($, code => wrapRedirectTargets(code, 'passthroughUrl'));
+  $('body').append(`<script>${paramPassthroughScript(params)}</script>`);
+  return true;
+}
+
+/**
+ * Same as injectParamPassthrough() for a page's HTML
+ */
+export function applyParamPassthrough(html: string, passthrough?: ParamPassthrough): string {
+  if (!html || passthroughParams(passthrough).length === 0) return html;
+
+  const $ = cheerio.load(html);
+  return injectParamPassthrough($, passthrough) ? $.html() : html;
+}
@@ -0,0 +1,175 @@
+import * as cheerio from 'cheerio';
+import { parse, type AnyNode, type MemberExpression, type Program } from 'acorn';
+
+/**
+ * A redirect in a script: `location = X`, `location.href = X`, `location.assign(X)` or
+ * `location.replace(X)`. start/end cover the whole expression, target is X.
+ */
+export interface ScriptRedirect {
+  start: number;
+  end: number;
+  target: { start: number; end: number; code: string };
+}
+
+/**
+ * The redirects in a script or event handler (undefined when it doesn't parse)
+ */
+export function findRedirects(code: string): ScriptRedirect[] | undefined {
+  const ast = parseCode(code);
+  if (!ast) return undefined;
+
+  const redirects: ScriptRedirect[] = [];
+  const add = (node: AnyNode, target: AnyNode) =>
+    redirects.push({ start: node.start, end: node.end, target: { start: target.start, end: target.end, code: code.slice(target.start, target.end) } });
+
+  walk(ast, node => {
+    if (node.type === 'AssignmentExpression' && node.operator === '=') {
+      const left = node.left;
+      if (isLocation(left) || (left.type === 'MemberExpression' && propertyName(left) === 'href' && isLocation(left.object))) {
+        add(node, node.right);
+      }
+    }
+    if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression' && node.arguments[0]) {
+      const method = propertyName(node.callee);
+      if ((method === 'assign' || method === 'replace') && isLocation(node.callee.object)) {
+        add(node, node.arguments[0]);
+      }
+    }
+  });
+
+  // Only the outermost redirect of nested ones
+  return redirects
+    .sort((a, b) => a.start - b.start)
+    .filter((redirect, index, all) => !all.slice(0, index).some(other => redirect.start < other.end));
+}
+
+/**
+ * Replace each redirect's range with `replace(redirect)`. Code that doesn't parse, or
+ * that wouldn't parse after the edit, comes back unchanged.
+ */
+export function rewriteRedirects(code: string, replace: (redirect: ScriptRedirect) => string | undefined): string {
+  const redirects = findRedirects(code);
+  if (!redirects) return code;
+
+  let rewritten = code;
+  for (const redirect of [...redirects].reverse()) {
+    const text = replace(redirect);
+    if (text !== undefined) rewritten = rewritten.slice(0, redirect.start) + text + rewritten.slice(redirect.end);
+  }
+  return rewritten === code || !parseCode(rewritten) ? code : rewritten;
+}
+
+/**
+ * Send every redirect target through `fn()`: `location.href = X` → `location.href = fn(X)`.
+ * Targets that already call fn() are left alone.
+ */
+export function wrapRedirectTargets(code: string, fn: string): string {
+  return rewriteRedirects(code, redirect => callsFunction(redirect.target.code, fn)
+    ? undefined
+    : code.slice(redirect.start, redirect.target.start) + `${fn}(${redirect.target.code})` + code.slice(redirect.target.end, redirect.end));
+}
+
+/**
+ * The redirect targets in a script that don't go through `fn()`
+ */
+export function unwrappedRedirectTargets(code: string, fn: string): string[] {
+  return (findRedirects(code) || []).map(redirect => redirect.target.code).filter(target => !callsFunction(target, fn));
+}
+
+/**
+ * Apply `rewrite` to every inline script and on* handler of a loaded page.
+ * Returns whether anything changed.
+ */
+export function rewritePageScripts($: cheerio.CheerioAPI, rewrite: (code: string) => string): boolean {
+  let changed = false;
+  $('script:not([src])').each((_, el) => {
+    const type = ($(el).attr('type') || '').toLowerCase();
+    if (type && !/javascript|module/.test(type)) return; // JSON, templates, consent-gated trackers
+    const code = $(el).html() || '';
+    const rewritten = rewrite(code);
+    if (rewritten !== code) {
+      $(el).text(rewritten);
+      changed = true;
+    }
+  });
+  $('*').each((_, el) => {
+    if (!('attribs' in el)) return;
+    for (const [name, code] of Object.entries(el.attribs)) {
+      if (!name.startsWith('on')) continue;
+      const rewritten = rewrite(code);
+      if (rewritten !== code) {
+        $(el).attr(name, rewritten);
+        changed = true;
+      }
+    }
+  });
+  return changed;
+}
+
+/**
+ * The code of every inline script and on* handler of a loaded page
+ */
+export function pageScripts($: cheerio.CheerioAPI): string[] {
+  const scripts = $('script:not([src])')
+    .filter((_, el) => !$(el).attr('type') || /javascript|module/i.test($(el).attr('type') || ''))
+    .map((_, el) => $(el).html() || '').get();
+  const handlers = $('*').toArray().flatMap(el =>
+    'attribs' in el ? Object.entries(el.attribs).filter(([name]) => name.startsWith('on')).map(([, code]) => code) : []);
+  return [...scripts, ...handlers];
+}
+
+/**
+ * Visit every node below (and including) node; children are found by their `type`
+ */
+export function walk(node: AnyNode | undefined, visit: (node: AnyNode) => void) {
+  if (!node) return;
+  visit(node);
+  for (const value of Object.values(node)) {
+    const children: unknown[] = Array.isArray(value) ? value : [value];
+    for (const child of children) {
+      if (child && typeof child === 'object' && typeof (child as AnyNode).type === 'string') walk(child as AnyNode, visit);
+    }
+  }
+}
+
+/**
+ * location, window.location, document.location, ...
+ */
+export function isLocation(node: AnyNode): boolean {
+  if (node.type === 'Identifier') return node.name === 'location';
+  return node.type === 'MemberExpression' && propertyName(node) === 'location' &&
+    (isGlobalObject(node.object) || (node.object.type === 'Identifier' && node.object.name === 'document'));
+}
+
+/**
+ * window, self, globalThis, top
+ */
+export function isGlobalObject(node: AnyNode): boolean {
+  return node.type === 'Identifier' && ['window', 'self', 'globalThis', 'top'].includes(node.name);
+}
+
+/**
+ * The name of a member expression's property (x.name or x['name'])
+ */
+export function propertyName(node: MemberExpression): string | undefined {
+  if (!node.computed && node.property.type === 'Identifier') return node.property.name;
+  return node.property.type === 'Literal' && typeof node.property.value === 'string' ? node.property.value : undefined;
+}
+
+function parseCode(code: string): Program | undefined {
+  try {
+    return parse(code, { ecmaVersion: 'latest', sourceType: 'script', allowReturnOutsideFunction: true });
+  } catch {
+    return undefined;
+  }
+}
+
+// Whether an expression calls fn() anywhere (offerUrl(X) inside passthroughUrl(...) counts)
+function callsFunction(expression: string, fn: string): boolean {
+  const ast = parseCode(`(${expression})`);
+  let found = false;
+  walk(ast, node => {
+    if (node.type === 'CallExpression' && node.callee.type === 'Identifier' && node.callee.name === fn) found = true;
+  });
+  return found;
+}
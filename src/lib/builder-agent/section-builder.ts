@@ -0,0 +1,211 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { getAgentLLM } from '@/lib/llm';
+import type { AgentRouting } from '@/types/llm';
+import type { LPBlueprint, BlueprintSection } from '@/lib/agents';
+import { findMacroUrls, restoreUrls } from '@/lib/parser/link-detector';
+
+/**
+ * A step container located in the page HTML, with its offsets in the source
+ */
+export interface StepLocation {
+  stepNumber: number;
+  start: number;
+  end: number;
+  html: string;
+}
+
+export interface SectionResult {
+  html: string;      // Full page with the step replaced (unchanged on failure)
+  stepHtml: string;  // The new step markup
+  success: boolean;
+  error?: string;
+}
+
+// A blueprint summary only carries the step's type and title
+type SectionPlan = Pick<BlueprintSection, 'type' | 'title'> & Partial<BlueprintSection>;
+
+export interface SectionRequest {
+  stepNumber: number;
+  section?: SectionPlan;                                    // What the Architect planned for this step
+  visualDirection?: Partial<LPBlueprint['visualDirection']>;
+  instructions?: string;                                    // What the user wants changed
+  routing?: AgentRouting;
+}
+
+// Builder pages use id="step1"; some use id="step-1" or data-step="1"
+const stepSelectors = (n: number) => [`#step${n}`, `#step-${n}`, `[data-step="${n}"]`];
+
+// The step root keeps these so the page's CSS and nextStep() show/hide it as before
+const PRESERVED_ATTRIBUTES = ['id', 'class', 'style', 'data-step'];
+
+// Not handler names, e.g. onclick="if (ok) nextStep()"
+const JS_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'return', 'function', 'typeof', 'new']);
+
+/**
+ * Find step N's container in the page, with its exact source offsets
+ */
+export function findStep(html: string, stepNumber: number): StepLocation | null {
+  const $ = cheerio.load(html, { sourceCodeLocationInfo: true });
+
+  for (const selector of stepSelectors(stepNumber)) {
+    const element = $(selector).get(0) as Element | undefined;
+    const location = element?.sourceCodeLocation;
+    if (location) {
+      return {
+        stepNumber,
+        start: location.startOffset,
+        end: location.endOffset,
+        html: html.slice(location.startOffset, location.endOffset),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Number of consecutive steps (step1, step2, ...) found in the page
+ */
+export function countSteps(html: string): number {
+  const $ = cheerio.load(html);
+  let count = 0;
+  while (stepSelectors(count + 1).some(selector => $(selector).length > 0)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Section Builder
+ * Regenerates one step of a built page and splices it back in. Everything outside
+ * the step (styles, scripts, the other steps) is kept byte for byte, and the step
+ * keeps its id/class/style and the JS handlers it called.
+ */
+export async function regenerateSection(html: string, request: SectionRequest): Promise<SectionResult> {
+  const { stepNumber } = request;
+  const current = findStep(html, stepNumber);
+  if (!current) {
+    return { html, stepHtml: '', success: false, error: `Step ${stepNumber} not found in the page` };
+  }
+
+  const llm = getAgentLLM('builder', request.routing);
+  const totalSteps = countSteps(html);
+  const handlers = getCalledHandlers(current.html);
+  const $ = cheerio.load(html);
+  const styles = $('style').map((_, el) => $(el).text()).get().join('\n');
+
+  const prompt = `You are an expert landing page section developer. Rewrite ONE step of an existing multi-step landing page.
+
+## STEP TO REWRITE: ${stepNumber} of ${totalSteps}${request.section ? ` (${request.section.type.toUpperCase()}: ${request.section.title})` : ''}
+
+${request.section?.elements?.length ? `## PLANNED CONTENT:
+${request.section.elements.map(el => `- ${el.type}: "${el.content}" (${el.purpose})`).join('\n')}
+${request.section.notes ? `Notes: ${request.section.notes}` : ''}
+` : ''}
+${request.instructions ? `## CHANGES REQUESTED:
+${request.instructions}
+` : `## CHANGES REQUESTED:
+Make this step more engaging and persuasive while keeping its purpose.
+`}
+${request.visualDirection?.colorPalette ? `## COLORS:
+${Object.entries(request.visualDirection.colorPalette).map(([name, color]) => `- ${name}: ${color}`).join('\n')}
+` : ''}
+## CURRENT STEP HTML:
+${current.html}
+
+## PAGE STYLES (reuse these classes; add inline styles only if needed):
+${styles.slice(0, 6000)}
+
+## RULES:
+1. Return ONLY the new step element: one root element with the same tag and id as the current step
+2. Keep the JS wiring: ${handlers.length > 0 ? handlers.map(name => `${name}()`).join(', ') : 'the same onclick handlers'} must still be called the same way, and answer buttons keep their data-* attributes (data-param, data-value)
+3. Do not add <style>, <script>, <html>, <head> or <body> tags
+4. Do not include other steps
+5. Mobile-first, touch targets at least 48px
+
+Return ONLY the HTML of the step, no explanation, no markdown.`;
+
+  try {
+    const response = await llm.generateText(prompt, {
+      temperature: 0.7,
+      maxTokens: 3000,
+    });
+
+    const stepHtml = restoreUrls(extractStepHtml(response.content, current.html), findMacroUrls(current.html));
+    const missing = handlers.filter(name => !getCalledHandlers(stepHtml).includes(name));
+    if (missing.length > 0) {
+      throw new Error(`Regenerated step no longer calls ${missing.map(name => `${name}()`).join(', ')}`);
+    }
+
+    return {
+      html: html.slice(0, current.start) + stepHtml + html.slice(current.end),
+      stepHtml,
+      success: true,
+    };
+  } catch (error) {
+    console.error(`Section builder failed for step ${stepNumber}:`, error);
+    return {
+      html,
+      stepHtml: current.html,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Pull the step element out of the LLM response and give it the original root attributes
+ */
+function extractStepHtml(content: string, originalStepHtml: string): string {
+  const fragment = content.replace(/^```(?:html)?\s*|\s*```\s*$/gi, '').trim();
+
+  const $ = cheerio.load(fragment, null, false);
+  const root = $.root().children().first();
+  if (!root.length) {
+    throw new Error('No HTML element in Section builder response');
+  }
+  if (root.is('html, head, body, style, script')) {
+    throw new Error('Section builder returned a full page instead of one step');
+  }
+
+  const original = cheerio.load(originalStepHtml, null, false).root().children().first();
+
+  // Same tag and the same root attributes as before (ids, visibility classes, inline display)
+  for (const name of PRESERVED_ATTRIBUTES) {
+    const value = original.attr(name);
+    if (value === undefined) {
+      root.removeAttr(name);
+    } else {
+      root.attr(name, value);
+    }
+  }
+  const tag = original.prop('tagName')?.toLowerCase() || 'div';
+  if (root.prop('tagName')?.toLowerCase() !== tag) {
+    const attributes = Object.entries(root.attr() || {})
+      .map(([name, value]) => ` ${name}="${value.replace(/"/g, '&quot;')}"`)
+      .join('');
+    return `<${tag}${attributes}>${root.html() || ''}</${tag}>`;
+  }
+
+  return $.html(root);
+}
+
+/**
+ * Function names called from inline handlers, e.g. onclick="nextStep()" → nextStep
+ */
+function getCalledHandlers(stepHtml: string): string[] {
+  const $ = cheerio.load(stepHtml, null, false);
+  const names = new Set<string>();
+
+  $('*').each((_, el) => {
+    for (const [attribute, value] of Object.entries((el as Element).attribs || {})) {
+      if (!attribute.startsWith('on')) continue;
+      for (const match of value.matchAll(/([A-Za-z_$][\w$]*)\s*\(/g)) {
+        if (!JS_KEYWORDS.has(match[1])) names.add(match[1]);
+      }
+    }
+  });
+
+  return [...names];
+}
@@ -0,0 +1,192 @@
+import * as cheerio from 'cheerio';
+import type { TrackingConfig, TrackingPixel, TrackingPlatform, TrackingEventMapping } from '@/types';
+
+// What a usable ID looks like per platform (custom pixels carry their own code)
+const PIXEL_IDS: Record<Exclude<TrackingPlatform, 'custom'>, RegExp> = {
+  facebook: /^\d{5,20}$/,
+  tiktok: /^[A-Z0-9]{10,32}$/i,
+  ga4: /^G-[A-Z0-9]{4,}$/i,
+  gtm: /^GTM-[A-Z0-9]{4,}$/i,
+  snap: /^[a-f0-9-]{20,40}$/i,
+};
+
+const EVENT_NAME = /^[A-Za-z][\w .:-]{0,63}$/;
+
+// Facebook only takes these with 'track'; anything else goes through 'trackCustom'
+const FACEBOOK_STANDARD_EVENTS = [
+  'AddPaymentInfo', 'AddToCart', 'AddToWishlist', 'CompleteRegistration', 'Contact', 'CustomizeProduct',
+  'Donate', 'FindLocation', 'InitiateCheckout', 'Lead', 'PageView', 'Purchase', 'Schedule', 'Search',
+  'StartTrial', 'SubmitApplication', 'Subscribe', 'ViewContent',
+];
+
+/**
+ * The base snippet (script tags for the head) that loads a pixel and records the page view
+ */
+export function pixelBaseHtml(pixel: TrackingPixel): string {
+  const id = JSON.stringify(pixel.id);
+  switch (pixel.platform) {
+    case 'facebook':
+      return `<script>
+!function(f,b,e,v,n,t,s)
+{if(f.fbq)return;n=f.fbq=function(){n.callMethod?
+n.callMethod.apply(n,arguments):n.queue.push(arguments)};
+if(!f._fbq)f._fbq=n;n.push=n;n.loaded=!0;n.version='2.0';
+n.queue=[];t=b.createElement(e);t.async=!0;
+t.src=v;s=b.getElementsByTagName(e)[0];
+s.parentNode.insertBefore(t,s)}(window, document,'script',
+'https://connect.facebook.net/en_US/fbevents.js');
+fbq('init', ${id});
+fbq('track', 'PageView');
+</script>`;
+    case 'tiktok':
+      return `<script>
+!function (w, d, t) {
+  w.TiktokAnalyticsObject=t;var ttq=w[t]=w[t]||[];ttq.methods=["page","track","identify","instances","debug","on","off","once","ready","alias","group","enableCookie","disableCookie"],ttq.setAndDefer=function(t,e){t[e]=function(){t.push([e].concat(Array.prototype.slice.call(arguments,0)))}};for(var i=0;i<ttq.methods.length;i++)ttq.setAndDefer(ttq,ttq.methods[i]);ttq.instance=function(t){for(var e=ttq._i[t]||[],n=0;n<ttq.methods.length;n++)ttq.setAndDefer(e,ttq.methods[n]);return e},ttq.load=function(e,n){var i="https://analytics.tiktok.com/i18n/pixel/events.js";ttq._i=ttq._i||{},ttq._i[e]=[],ttq._i[e]._u=i,ttq._t=ttq._t||{},ttq._t[e]=+new Date,ttq._o=ttq._o||{},ttq._o[e]=n||{};var o=document.createElement("script");o.type="text/javascript",o.async=!0,o.src=i+"?sdkid="+e+"&lib="+t;var a=document.getElementsByTagName("script")[0];a.parentNode.insertBefore(o,a)};
+  ttq.load(${id});
+  ttq.page();
+}(window, document, 'ttq');
+</script>`;
+    case 'ga4':
+      return `<script async src="https://www.googletagmanager.com/gtag/js?id=${encodeURIComponent(pixel.id)}"></script>
+<script>
+  window.dataLayer = window.dataLayer || [];
+  function gtag(){dataLayer.push(arguments);}
+  gtag('js', new Date());
+  gtag('config', ${id});
+</script>`;
+    case 'gtm':
+      return `<script>
+(function(w,d,s,l,i){w[l]=w[l]||[];w[l].push({'gtm.start':new Date().getTime(),event:'gtm.js'});var f=d.getElementsByTagName(s)[0],j=d.createElement(s),dl=l!='dataLayer'?'&l='+l:'';j.async=true;j.src='https://www.googletagmanager.com/gtm.js?id='+i+dl;f.parentNode.insertBefore(j,f);})(window,document,'script','dataLayer',${id});
+</script>`;
+    case 'snap':
+      return `<script>
+(function(e,t,n){if(e.snaptr)return;var a=e.snaptr=function(){a.handleRequest?a.handleRequest.apply(a,arguments):a.queue.push(arguments)};a.queue=[];var s='script';var r=t.createElement(s);r.async=!0;r.src=n;var u=t.getElementsByTagName(s)[0];u.parentNode.insertBefore(r,u);})(window,document,'https://sc-static.net/scevent.min.js');
+snaptr('init', ${id}, {});
+snaptr('track', 'PAGE_VIEW');
+</script>`;
+    case 'custom':
+      return pixel.code || '';
+  }
+}
+
+/**
+ * Runtime for the event mapping: trackLpEvent() sends an event to every configured
+ * platform and as an lp:track DOM event. Page-view events fire on load, step events
+ * the first time #stepN becomes .active, cta-click events on the first click that
+ * leaves for the offer (an outbound link, goToOffer()/location.href, or any button
+ * on the last step).
+ */
+export function trackingEventsScript(platforms: TrackingPlatform[], events: TrackingEventMapping[]): string {
+  const calls = [
+    platforms.includes('facebook') && `if (window.fbq) fbq(FB_STANDARD_EVENTS.indexOf(name) === -1 ? 'trackCustom' : 'track', name, data);`,
+    platforms.includes('tiktok') && `if (window.ttq) ttq.track(name, data);`,
+    platforms.includes('ga4') && `if (window.gtag) gtag('event', name, data);`,
+    platforms.includes('gtm') && `if (window.dataLayer) dataLayer.push(Object.assign({ event: name }, data));`,
+    platforms.includes('snap') && `if (window.snaptr) snaptr('track', name, data);`,
+  ].filter(Boolean);
+
+  return `
+    // LP events sent to the configured pixels
+    var TRACKING_EVENTS = ${JSON.stringify(events)};${platforms.includes('facebook') ? `
+    var FB_STANDARD_EVENTS = ${JSON.stringify(FACEBOOK_STANDARD_EVENTS)};` : ''}
+    function trackLpEvent(name, data) {
+      data = data || {};
+      ${[...calls, `document.dispatchEvent(new CustomEvent('lp:track', { detail: { event: name, data: data } }));`].join('\n      ')}
+    }
+    function fireTrackingEvents(trigger, stepNumber) {
+      TRACKING_EVENTS.forEach(function (mapping) {
+        if (mapping.trigger !== trigger || (trigger === 'step' && mapping.stepNumber !== stepNumber)) return;
+        trackLpEvent(mapping.event, stepNumber ? { step: stepNumber } : {});
+      });
+    }
+    fireTrackingEvents('page-view');
+
+    var trackedSteps = {};
+    function trackStep(el) {
+      var n = Number(el.getAttribute('data-step') || el.id.replace(/^step/, ''));
+      if (!n || trackedSteps[n]) return;
+      trackedSteps[n] = true;
+      fireTrackingEvents('step', n);
+    }
+    document.querySelectorAll('.step.active').forEach(trackStep);
+    if (window.MutationObserver) {
+      new MutationObserver(function (records) {
+        records.forEach(function (record) {
+          if (record.target.classList.contains('step') && record.target.classList.contains('active')) trackStep(record.target);
+        });
+      }).observe(document.body, { subtree: true, attributes: true, attributeFilter: ['class'] });
+    }
+
+    var ctaTracked = false;
+    document.addEventListener('click', function (event) {
+      var el = event.target.closest ? event.target.closest('a[href], button, [onclick]') : null;
+      if (!el || ctaTracked) return;
+      var steps = document.querySelectorAll('.step');
+      var outbound = el.tagName === 'A' && /^https?:/i.test(el.getAttribute('href'));
+      var redirect = /goToOffer|location\\.href/.test(el.getAttribute('onclick') || '');
+      var lastStep = steps.length > 0 && steps[steps.length - 1].contains(el) && el.tagName !== 'A';
+      if (!outbound && !redirect && !lastStep) return;
+      ctaTracked = true;
+      fireTrackingEvents('cta-click');
+    }, true);
+`;
+}
+
+/**
+ * The pixels of a tracking config that can be injected (IDs that don't fit the platform
+ * and custom pixels without code are dropped, as are duplicates)
+ */
+export function trackingPixels(config?: TrackingConfig): TrackingPixel[] {
+  const seen = new Set<string>();
+  return (config?.pixels || []).filter(pixel => {
+    const id = pixel.id?.trim() || '';
+    const usable = pixel.platform === 'custom' ? !!pixel.code?.trim() : !!PIXEL_IDS[pixel.platform]?.test(id);
+    const key = `${pixel.platform}:${pixel.platform === 'custom' ? pixel.code : id}`;
+    if (!usable || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).map(pixel => ({ ...pixel, id: (pixel.id || '').trim() }));
+}
+
+/**
+ * The event mappings of a tracking config that can fire (step mappings need a step number)
+ */
+export function trackingEvents(config?: TrackingConfig): TrackingEventMapping[] {
+  return (config?.events || [])
+    .filter(mapping => EVENT_NAME.test(mapping.event?.trim() || ''))
+    .filter(mapping => mapping.trigger !== 'step' || (Number.isInteger(mapping.stepNumber) && (mapping.stepNumber || 0) > 0))
+    .map(mapping => ({ ...mapping, event: mapping.event.trim() }));
+}
+
+/**
+ * Add a tracking config to a loaded page: base pixels go in the head (a pixel whose ID
+ * the page already loads is skipped), the event runtime at the end of the body. Returns
+ * false when there are no usable pixels or the page already has the runtime.
+ */
+export function injectTrackingPixels($: cheerio.CheerioAPI, config?: TrackingConfig): boolean {
+  const pixels = trackingPixels(config);
+  const events = trackingEvents(config);
+  if (pixels.length === 0 || /function\s+trackLpEvent\s*\(/.test($('script:not([src])').text())) return false;
+
+  const pageScripts = $('script').map((_, el) => `${$(el).attr('src') || ''} ${$(el).html() || ''}`).get().join('\n');
+  for (const pixel of pixels) {
+    if (pixel.platform === 'custom' || !pageScripts.includes(pixel.id)) {
+      // data-pixel tells consent gating which platform (and so which category) a tag is for
+      const $snippet = $('<div></div>').append(`\n${pixelBaseHtml(pixel)}\n`);
+      $snippet.find('script, img, iframe').attr('data-pixel', pixel.platform);
+      $('head').append($snippet.contents());
+    }
+  }
+  $('body').append(`<script>${trackingEventsScript(pixels.map(pixel => pixel.platform), events)}</script>`);
+  return true;
+}
+
+/**
+ * Same as injectTrackingPixels() for a page's HTML
+ */
+export function applyTrackingPixels(html: string, config?: TrackingConfig): string {
+  if (!html || trackingPixels(config).length === 0) return html;
+
+  const $ = cheerio.load(html);
+  return injectTrackingPixels($, config) ? $.html() : html;
+}
@@ -0,0 +1,119 @@
+import { getAgentLLM } from '@/lib/llm';
+import type { BuilderPrompt, ComponentAnalysis } from '@/types/component-analysis';
+import type { AgentRouting } from '@/types/llm';
+import {
+  COLOR_TOKENS,
+  SIZE_TOKENS,
+  RADIUS_TOKENS,
+  FONT_TOKENS,
+  BACKGROUND_TOKENS,
+  TREE_ELEMENT_TYPES,
+} from '@/types/component-tree';
+import { LP_RULES } from './lp-rules';
+import { parseComponentTree, renderComponentTree } from './component-tree';
+import type { BuilderResult } from './index';
+
+/**
+ * Tree Builder
+ * Same job as buildLandingPage(), but the LLM returns a JSON component tree
+ * (steps → blocks → elements with style tokens) instead of raw HTML. The tree is
+ * validated against the schema and rendered, so the markup and JS are always ours.
+ */
+export async function buildLandingPageTree(
+  builderPrompt: BuilderPrompt,
+  analysis: ComponentAnalysis,
+  routing?: AgentRouting,
+  onToken?: (text: string) => void
+): Promise<BuilderResult> {
+  const llm = getAgentLLM('builder', routing);
+  // V3 pages always have at least a hook and a CTA step
+  const stepCount = Math.max(analysis.flow.totalSteps || 0, 2);
+
+  const prompt = `You are an expert landing page component designer. Design a high-converting multi-step landing page as a JSON component tree (NOT HTML).
+
+${builderPrompt.fullPrompt}
+
+${LP_RULES.layoutUX}
+
+${LP_RULES.copyRules}
+
+## COMPONENT TREE SCHEMA:
+
+{
+  "version": 1,
+  "title": "page title",
+  "language": "en",
+  "redirectUrl": "${analysis.trackingUrl}",
+  "theme": {
+    "colors": { ${COLOR_TOKENS.map(token => `"${token}": "#hex"`).join(', ')} },
+    "radius": "${RADIUS_TOKENS.join('|')}",
+    "font": "${FONT_TOKENS.join('|')}",
+    "background": "${BACKGROUND_TOKENS.join('|')}"
+  },
+  "steps": [
+    {
+      "id": "step-1",
+      "stepNumber": 1,
+      "kind": "hook|quiz|cta",
+      "title": "internal name",
+      "blocks": [
+        { "id": "step-1-content", "kind": "content", "elements": [
+          { "id": "step-1-headline", "type": "headline", "text": "...", "style": { "color": "accent", "size": "xl", "bold": true } }
+        ] },
+        { "id": "step-1-actions", "kind": "actions", "elements": [
+          { "id": "step-1-button", "type": "button", "text": "Continue", "action": "next-step" }
+        ] }
+      ]
+    }
+  ]
+}
+
+- Element types: ${TREE_ELEMENT_TYPES.join(', ')}
+- "image" needs "src" (an https URL) and "alt" instead of "text"
+- "button" and "option" need "action": "next-step" (or "redirect" to leave for the offer immediately)
+- Branches from the structure above: "action": "go-to-step" with "targetStep": N (a later step), or
+  "action": "redirect" with "url" for a different offer; a step that ends the flow uses "redirect" on its button
+- Style tokens only: color/background ${COLOR_TOKENS.join('|')}, size ${SIZE_TOKENS.join('|')}, bold true|false
+- Every id is unique
+
+## STRUCTURE RULES:
+1. EXACTLY ${stepCount} steps, stepNumber 1 to ${stepCount} in order
+2. Step 1 is the hook, step ${stepCount} is the CTA, the steps in between are quiz questions
+3. Quiz steps: a headline question plus 2-4 "option" elements in the actions block - no separate Continue button
+4. The CTA step has exactly ONE button; after the last step the page redirects to redirectUrl
+5. Buttons and options go in the "actions" block, everything else in the "content" block
+
+Return ONLY the JSON object, no explanation, no markdown.`;
+
+  try {
+    const response = await llm.generateText(prompt, {
+      temperature: 0.7,
+      maxTokens: 6000,
+      onToken,
+    });
+
+    const tree = parseComponentTree(response.content);
+    // The tracking URL is not the model's to choose
+    if (analysis.trackingUrl) {
+      tree.redirectUrl = analysis.trackingUrl;
+    }
+
+    return {
+      id: `build-${Date.now()}`,
+      html: renderComponentTree(tree),
+      tree,
+      success: true,
+      generatedAt: new Date(),
+      builtWith: 'llm',
+    };
+  } catch (error) {
+    console.error('Tree builder failed:', error);
+    return {
+      id: `build-${Date.now()}`,
+      html: '', // No page to show; callers fall back to the template renderer
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      generatedAt: new Date(),
+    };
+  }
+}
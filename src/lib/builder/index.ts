@@ -1,6 +1,6 @@
 import * as cheerio from 'cheerio';
 import { v4 as uuidv4 } from 'uuid';
-import { getLLMProvider } from '@/lib/llm';
+import { getLLMProvider, recordAgentUsage, withVariationUsage } from '@/lib/llm';
 import type { BuildOptions, BuildResult, BuildChange } from '@/types/builder';
 import type { LLMProviderName } from '@/types';
 import { applyTextModifications } from './text-builder';
@@ -14,10 +14,10 @@ export async function buildLandingPage(
   options: BuildOptions
 ): Promise<BuildResult[]> {
   const results: BuildResult[] = [];
-  const llm = getLLMProvider('grok' as LLMProviderName);
+  const llm = recordAgentUsage('builder', getLLMProvider('grok' as LLMProviderName));
 
   for (let i = 0; i < options.variationCount; i++) {
-    const result = await buildSingleVariation(options, llm, i + 1);
+    const result = await withVariationUsage(i + 1, () => buildSingleVariation(options, llm, i + 1));
     results.push(result);
   }
 
@@ -0,0 +1,97 @@
+import prisma from './prisma';
+import type { Prisma } from '@prisma/client';
+
+// Blueprint & QA history (V3)
+
+export type SaveBlueprintInput = {
+  blueprint: Prisma.InputJsonValue; // Full LPBlueprint
+  analysis?: Prisma.InputJsonValue;
+  totalSteps: number;
+  jobId?: string;
+};
+
+export type SaveQAReportInput = {
+  variationNumber: number;
+  variationId?: string;
+  blueprintId?: string;
+  passed: boolean;
+  score: number;
+  criticalCount: number;
+  majorCount: number;
+  result: Prisma.InputJsonValue; // Full QAResult
+};
+
+// Save a new blueprint as the project's next version
+export async function saveBlueprint(projectId: string, data: SaveBlueprintInput) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const latest = await tx.blueprint.findFirst({
+      where: { projectId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    return tx.blueprint.create({
+      data: {
+        projectId,
+        version: (latest?.version || 0) + 1,
+        blueprint: data.blueprint,
+        analysis: data.analysis,
+        totalSteps: data.totalSteps,
+        jobId: data.jobId,
+      },
+    });
+  });
+}
+
+// Get a blueprint with its QA reports
+export async function getBlueprint(id: string) {
+  return prisma.blueprint.findUnique({
+    where: { id },
+    include: {
+      qaReports: {
+        orderBy: [{ createdAt: 'desc' }, { variationNumber: 'asc' }],
+      },
+      _count: {
+        select: { variations: true },
+      },
+    },
+  });
+}
+
+// A project's blueprint versions, newest first (without the full JSON)
+export async function listBlueprints(projectId: string) {
+  return prisma.blueprint.findMany({
+    where: { projectId },
+    select: {
+      id: true,
+      version: true,
+      totalSteps: true,
+      jobId: true,
+      createdAt: true,
+      qaReports: {
+        select: { passed: true, score: true, variationNumber: true, createdAt: true },
+      },
+      _count: {
+        select: { variations: true },
+      },
+    },
+    orderBy: { version: 'desc' },
+  });
+}
+
+// Save the QA reviews of a run
+export async function saveQAReports(projectId: string, reports: SaveQAReportInput[]) {
+  if (reports.length === 0) return { count: 0 };
+
+  return prisma.qaReport.createMany({
+    data: reports.map((report) => ({ projectId, ...report })),
+  });
+}
+
+// A project's QA history, newest first
+export async function listQAReports(projectId: string, blueprintId?: string) {
+  return prisma.qaReport.findMany({
+    where: { projectId, blueprintId },
+    orderBy: [{ createdAt: 'desc' }, { variationNumber: 'asc' }],
+  });
+}
@@ -0,0 +1,90 @@
+import type { Prisma } from '@prisma/client';
+import { updateProject, addVariation, deleteVariations } from './projects';
+import { recordTokenUsage, type UsageTarget } from './usage';
+import { saveBlueprint, saveQAReports } from './blueprints';
+import type { LLMUsageRecord } from '@/types';
+
+// Persisting pipeline results
+
+type QAResultInput = {
+  passed: boolean;
+  score: number;
+  criticalCount: number;
+  majorCount: number;
+};
+
+export type GenerationResultInput = {
+  variations?: { variationNumber: number; html: string; tree?: unknown; qaResult?: QAResultInput | null }[];
+  analysis?: unknown;
+  blueprint?: unknown; // Summary, kept on the project
+  architectPlan?: { totalSteps: number }; // Full blueprint, saved as a new version
+  blueprintId?: string; // Set instead of architectPlan when rebuilding from a saved version
+  qaResults?: unknown[];
+  usage?: LLMUsageRecord[];
+};
+
+// Save a completed V3 run: replaces the project's variations, versions the blueprint,
+// stores QA reports, analysis and token usage and marks the project COMPLETED
+export async function saveV3Result(
+  projectId: string,
+  result: GenerationResultInput,
+  target: Omit<UsageTarget, 'projectId' | 'variationIds'> = {}
+) {
+  // Delete existing variations before saving new ones (avoids unique constraint)
+  await deleteVariations(projectId);
+
+  const blueprintId = result.blueprintId || (result.architectPlan
+    ? (await saveBlueprint(projectId, {
+        blueprint: result.architectPlan as Prisma.InputJsonValue,
+        analysis: (result.analysis || undefined) as Prisma.InputJsonValue | undefined,
+        totalSteps: result.architectPlan.totalSteps,
+        jobId: target.jobId,
+      })).id
+    : undefined);
+
+  const variationIds: Record<number, string> = {};
+  for (const variation of result.variations || []) {
+    const saved = await addVariation(projectId, {
+      number: variation.variationNumber,
+      html: variation.html,
+      blueprintId,
+      componentTree: (variation.tree || undefined) as Prisma.InputJsonValue | undefined,
+    });
+    variationIds[saved.number] = saved.id;
+  }
+
+  await saveQAReports(
+    projectId,
+    (result.variations || [])
+      .filter(variation => variation.qaResult)
+      .map(variation => ({
+        variationNumber: variation.variationNumber,
+        variationId: variationIds[variation.variationNumber],
+        blueprintId,
+        passed: variation.qaResult!.passed,
+        score: variation.qaResult!.score,
+        criticalCount: variation.qaResult!.criticalCount,
+        majorCount: variation.qaResult!.majorCount,
+        result: variation.qaResult as Prisma.InputJsonValue,
+      }))
+  );
+
+  await saveTokenUsage(result.usage, { ...target, projectId, variationIds });
+
+  return updateProject(projectId, {
+    status: 'COMPLETED',
+    analysis: (result.analysis || undefined) as Prisma.InputJsonValue | undefined,
+    architectPlan: (result.blueprint || undefined) as Prisma.InputJsonValue | undefined,
+    qaResults: (result.qaResults?.[0] || undefined) as Prisma.InputJsonValue | undefined,
+  });
+}
+
+// Persist token usage records without failing the caller (usage is bookkeeping)
+export async function saveTokenUsage(usage: LLMUsageRecord[] | undefined, target: UsageTarget) {
+  if (!usage || usage.length === 0) return;
+  try {
+    await recordTokenUsage(usage, target);
+  } catch (error) {
+    console.error(`Failed to record token usage for project ${target.projectId}:`, error);
+  }
+}
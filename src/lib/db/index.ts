@@ -1,2 +1,7 @@
 export { prisma, default } from './prisma';
 export * from './projects';
+export * from './usage';
+export * from './generation';
+export * from './jobs';
+export * from './blueprints';
+export * from './revisions';
@@ -0,0 +1,211 @@
+import prisma from './prisma';
+import type { Prisma } from '@prisma/client';
+
+// Background job queue (Job model)
+
+export type JobType = 'GENERATE_VARIATIONS' | 'ANALYZE_PAGE' | 'GENERATE_IMAGES' | 'DEPLOY' | 'BATCH_GENERATE';
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export type CreateJobInput = {
+  type: JobType;
+  config?: Prisma.InputJsonValue;
+  priority?: number;
+  totalSteps?: number;
+  projectId?: string;
+  userId?: string | null;
+};
+
+const ACTIVE_STATUSES: JobStatus[] = ['PENDING', 'RUNNING'];
+
+// Queue a new job
+export async function createJob(data: CreateJobInput) {
+  return prisma.job.create({
+    data: {
+      type: data.type,
+      config: data.config,
+      priority: data.priority || 0,
+      totalSteps: data.totalSteps,
+      projectId: data.projectId,
+      userId: data.userId || undefined,
+    },
+  });
+}
+
+// Get job by ID
+export async function getJob(id: string) {
+  return prisma.job.findUnique({
+    where: { id },
+  });
+}
+
+// Pending or running job for a project, if any
+export async function getActiveProjectJob(projectId: string) {
+  return prisma.job.findFirst({
+    where: { projectId, status: { in: ACTIVE_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+// Claim the next PENDING job (highest priority, then oldest).
+// The status-guarded update makes the claim safe across several workers.
+export async function claimNextJob() {
+  for (let tries = 0; tries < 3; tries++) {
+    const next = await prisma.job.findFirst({
+      where: { status: 'PENDING' },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      select: { id: true },
+    });
+    if (!next) return null;
+
+    const { count } = await prisma.job.updateMany({
+      where: { id: next.id, status: 'PENDING' },
+      data: {
+        status: 'RUNNING',
+        startedAt: new Date(),
+        progress: 0,
+        currentStep: 'Starting',
+        error: null,
+        attempts: { increment: 1 },
+      },
+    });
+
+    // Another worker got there first - try the next one
+    if (count > 0) return getJob(next.id);
+  }
+
+  return null;
+}
+
+// Update progress (also refreshes updatedAt, which serves as the heartbeat)
+export async function updateJobProgress(id: string, progress: number, currentStep?: string) {
+  return prisma.job.updateMany({
+    where: { id, status: 'RUNNING' },
+    data: {
+      progress: Math.max(0, Math.min(100, Math.round(progress))),
+      currentStep,
+    },
+  });
+}
+
+// Heartbeat for a running job; returns its current status so the worker can notice cancellation
+export async function touchJob(id: string): Promise<JobStatus | null> {
+  await prisma.job.updateMany({
+    where: { id, status: 'RUNNING' },
+    data: { updatedAt: new Date() },
+  });
+
+  const job = await prisma.job.findUnique({
+    where: { id },
+    select: { status: true },
+  });
+  return (job?.status as JobStatus | undefined) || null;
+}
+
+// Mark a running job as completed
+export async function completeJob(id: string, result?: Prisma.InputJsonValue) {
+  return prisma.job.updateMany({
+    where: { id, status: 'RUNNING' },
+    data: {
+      status: 'COMPLETED',
+      progress: 100,
+      currentStep: 'Completed',
+      result,
+      completedAt: new Date(),
+    },
+  });
+}
+
+// Mark a running job as failed
+export async function failJob(id: string, error: string) {
+  return prisma.job.updateMany({
+    where: { id, status: 'RUNNING' },
+    data: {
+      status: 'FAILED',
+      error,
+      completedAt: new Date(),
+    },
+  });
+}
+
+// Cancel a pending or running job. Returns false if it had already finished.
+export async function cancelJob(id: string) {
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: { in: ACTIVE_STATUSES } },
+    data: {
+      status: 'CANCELLED',
+      currentStep: 'Cancelled',
+      completedAt: new Date(),
+    },
+  });
+  return count > 0;
+}
+
+// RUNNING jobs whose heartbeat is older than `staleBefore` (their worker died)
+export async function findStaleJobs(staleBefore: Date) {
+  return prisma.job.findMany({
+    where: { status: 'RUNNING', updatedAt: { lt: staleBefore } },
+    select: { id: true, attempts: true, projectId: true },
+  });
+}
+
+// Put a stale job back in the queue
+export async function requeueJob(id: string) {
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: 'RUNNING' },
+    data: {
+      status: 'PENDING',
+      currentStep: 'Re-queued after worker restart',
+      startedAt: null,
+    },
+  });
+  return count > 0;
+}
+
+// Projects stuck in GENERATING with no pending/running job behind them
+export async function findOrphanedGeneratingProjects(updatedBefore: Date) {
+  return prisma.project.findMany({
+    where: {
+      status: 'GENERATING',
+      updatedAt: { lt: updatedBefore },
+      jobs: { none: { status: { in: ACTIVE_STATUSES } } },
+    },
+    select: { id: true },
+  });
+}
+
+// Save partial results while a job is still running
+export async function updateJobResult(id: string, result: Prisma.InputJsonValue) {
+  return prisma.job.update({
+    where: { id },
+    data: { result },
+  });
+}
+
+// Recent jobs of a type, newest first
+export async function listJobs(options: { type?: JobType; userId?: string; limit?: number }) {
+  const { type, userId, limit = 20 } = options;
+
+  return prisma.job.findMany({
+    where: { type, userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+// Jobs with their project's name, status and variation count (for batch status)
+export async function getJobsWithProjects(ids: string[]) {
+  return prisma.job.findMany({
+    where: { id: { in: ids } },
+    include: {
+      project: {
+        select: {
+          id: true,
+          name: true,
+          status: true,
+          _count: { select: { variations: true } },
+        },
+      },
+    },
+  });
+}
@@ -103,6 +103,12 @@ export async function listProjects(options: {
         _count: {
           select: { variations: true },
         },
+        jobs: {
+          where: { status: { in: ['PENDING', 'RUNNING'] } },
+          select: { id: true, status: true, progress: true, currentStep: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1, // Active generation job, for progress
+        },
       },
       orderBy: { updatedAt: 'desc' },
       skip: (page - 1) * limit,
@@ -134,6 +140,15 @@ export async function updateProject(id: string, data: UpdateProjectInput) {
   });
 }
 
+// Mark a project GENERATING unless it already is (false when another generation got it first)
+export async function startProjectGeneration(id: string): Promise<boolean> {
+  const { count } = await prisma.project.updateMany({
+    where: { id, status: { not: 'GENERATING' } },
+    data: { status: 'GENERATING', updatedAt: new Date() },
+  });
+  return count > 0;
+}
+
 // Delete project (and its variations)
 export async function deleteProject(id: string) {
   return prisma.project.delete({
@@ -239,6 +254,8 @@ export async function addVariation(
     number: number;
     html: string;
     generationTime?: number;
+    blueprintId?: string;
+    componentTree?: Prisma.InputJsonValue;
   }
 ) {
   return prisma.variation.create({
@@ -247,6 +264,8 @@ export async function addVariation(
       number: data.number,
       html: data.html,
       generationTime: data.generationTime,
+      blueprintId: data.blueprintId,
+      componentTree: data.componentTree,
     },
   });
 }
@@ -261,6 +280,13 @@ export async function getVariation(id: string) {
   });
 }
 
+// Get a project's variation by its number
+export async function getVariationByNumber(projectId: string, number: number) {
+  return prisma.variation.findUnique({
+    where: { projectId_number: { projectId, number } },
+  });
+}
+
 // Update variation stats (for A/B testing)
 export async function updateVariationStats(
   id: string,
@@ -0,0 +1,69 @@
+import prisma from './prisma';
+import type { Prisma } from '@prisma/client';
+
+// Variation edit history (VariationRevision model)
+
+export type SaveRevisionInput = {
+  html: string;
+  source: 'section';
+  stepNumber?: number;
+  instructions?: string;
+};
+
+// Replace a variation's HTML, keeping the previous HTML in its revision history.
+// The first edit also records the generated HTML as revision 1.
+export async function saveVariationRevision(variationId: string, data: SaveRevisionInput) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const variation = await tx.variation.findUniqueOrThrow({
+      where: { id: variationId },
+      select: { html: true },
+    });
+    const latest = await tx.variationRevision.findFirst({
+      where: { variationId },
+      orderBy: { revision: 'desc' },
+      select: { revision: true },
+    });
+
+    let revision = latest?.revision;
+    if (!revision) {
+      revision = 1;
+      await tx.variationRevision.create({
+        data: { variationId, revision, html: variation.html, source: 'generated' },
+      });
+    }
+
+    const saved = await tx.variationRevision.create({
+      data: {
+        variationId,
+        revision: revision + 1,
+        html: data.html,
+        source: data.source,
+        stepNumber: data.stepNumber,
+        instructions: data.instructions,
+      },
+    });
+
+    await tx.variation.update({
+      where: { id: variationId },
+      data: { html: data.html },
+    });
+
+    return saved;
+  });
+}
+
+// Revision history of a variation, newest first (without the HTML)
+export async function listVariationRevisions(variationId: string) {
+  return prisma.variationRevision.findMany({
+    where: { variationId },
+    orderBy: { revision: 'desc' },
+    select: {
+      id: true,
+      revision: true,
+      source: true,
+      stepNumber: true,
+      instructions: true,
+      createdAt: true,
+    },
+  });
+}
@@ -0,0 +1,123 @@
+import prisma from './prisma';
+import type { Prisma } from '@prisma/client';
+import { summarizeLLMUsage } from '@/lib/llm';
+import type { LLMUsageRecord, LLMUsageTotals } from '@/types';
+
+// Token/cost accounting
+
+export type UsageTarget = {
+  projectId?: string;
+  userId?: string | null;
+  jobId?: string;
+  variationId?: string; // All records belong to one variation (e.g. repair)
+  variationIds?: Record<number, string>; // Variation number -> ID, for records tagged with variationNumber
+};
+
+export type UsageBreakdown = LLMUsageTotals & { key: string; label: string };
+
+export type UsageSummary = {
+  since: string;
+  totals: LLMUsageTotals;
+  byDay: UsageBreakdown[];
+  byProject: UsageBreakdown[];
+  byUser: UsageBreakdown[];
+  byAgent: UsageBreakdown[];
+};
+
+// Save usage records collected during a generation/repair run
+export async function recordTokenUsage(records: LLMUsageRecord[], target: UsageTarget) {
+  if (records.length === 0) return { count: 0 };
+
+  return prisma.tokenUsage.createMany({
+    data: records.map((record) => ({
+      agent: record.agent,
+      provider: record.provider,
+      model: record.model,
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      totalTokens: record.totalTokens,
+      costUsd: record.costUsd,
+      latencyMs: record.latencyMs,
+      projectId: target.projectId,
+      userId: target.userId || undefined,
+      jobId: target.jobId,
+      variationId:
+        target.variationId ||
+        (record.variationNumber ? target.variationIds?.[record.variationNumber] : undefined),
+    })),
+  });
+}
+
+// Summarize spend per day, project, user and agent
+export async function getUsageSummary(options: {
+  projectId?: string;
+  userId?: string;
+  days?: number;
+}): Promise<UsageSummary> {
+  const { projectId, userId, days = 30 } = options;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const where: Prisma.TokenUsageWhereInput = { createdAt: { gte: since } };
+  if (projectId) where.projectId = projectId;
+  if (userId) where.userId = userId;
+
+  const records = await prisma.tokenUsage.findMany({
+    where,
+    select: {
+      agent: true,
+      promptTokens: true,
+      completionTokens: true,
+      totalTokens: true,
+      costUsd: true,
+      createdAt: true,
+      projectId: true,
+      userId: true,
+      project: { select: { name: true } },
+      user: { select: { name: true, email: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  type UsageRow = (typeof records)[number];
+
+  return {
+    since: since.toISOString(),
+    totals: summarizeLLMUsage(records),
+    byDay: groupUsage(records, (r: UsageRow) => {
+      const day = r.createdAt.toISOString().slice(0, 10);
+      return [day, day];
+    }),
+    byProject: sortByCost(
+      groupUsage(records, (r: UsageRow) => [r.projectId || 'none', r.project?.name || 'No project'])
+    ),
+    byUser: sortByCost(
+      groupUsage(records, (r: UsageRow) => [r.userId || 'none', r.user?.name || r.user?.email || 'Unassigned'])
+    ),
+    byAgent: sortByCost(groupUsage(records, (r: UsageRow) => [r.agent, r.agent])),
+  };
+}
+
+// Group records by [key, label], preserving first-seen order
+function groupUsage<T extends Parameters<typeof summarizeLLMUsage>[0][number]>(
+  records: T[],
+  getKey: (record: T) => [string, string]
+): UsageBreakdown[] {
+  const groups = new Map<string, { label: string; records: T[] }>();
+
+  for (const record of records) {
+    const [key, label] = getKey(record);
+    const group = groups.get(key) || { label, records: [] };
+    group.records.push(record);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    label: group.label,
+    ...summarizeLLMUsage(group.records),
+  }));
+}
+
+function sortByCost(breakdown: UsageBreakdown[]) {
+  return breakdown.sort((a, b) => b.costUsd - a.costUsd);
+}
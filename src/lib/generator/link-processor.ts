@@ -1,5 +1,6 @@
 import * as cheerio from 'cheerio';
 import type { DetectedLink, GenerationOptions, ChangeLog } from '@/types';
+import { injectParamPassthrough, passthroughParams } from '@/lib/builder-agent/param-passthrough';
 
 /**
  * Process links based on generation options
@@ -18,6 +19,17 @@ export function processLinks(
     }
   }
 
+  // Incoming click IDs go along with whatever the links now point to
+  if (injectParamPassthrough($, options.paramPassthrough)) {
+    changes.push({
+      type: 'link',
+      selector: 'body',
+      originalValue: '',
+      newValue: passthroughParams(options.paramPassthrough).join(', '),
+      reason: 'Pass incoming click parameters through to CTA links and redirects',
+    });
+  }
+
   return changes;
 }
 
@@ -150,8 +162,8 @@ function applyLinkReplacement(
   newUrl: string,
   reason: string
 ): ChangeLog | null {
-  // Find and update the link
-  const $links = $(`a[href="${link.originalUrl}"]`);
+  // Find and update the link (compared as text: macros like [SUBID] or {{sub1}} break selectors)
+  const $links = $('a[href]').filter((_, el) => $(el).attr('href') === link.originalUrl);
 
   if ($links.length === 0) {
     // Try to find by selector
@@ -1,5 +1,7 @@
 import * as cheerio from 'cheerio';
-import type { TrackingCode, GenerationOptions, ChangeLog } from '@/types';
+import type { TrackingCode, GenerationOptions, ChangeLog, TrackingCodeReplacement } from '@/types';
+import { matchesTrackingType } from '@/lib/parser/tracking-detector';
+import { pixelBaseHtml } from '@/lib/builder-agent/tracking-pixels';
 
 /**
  * Process tracking codes based on generation options
@@ -21,9 +23,11 @@ export function processTrackingCodes(
       continue;
     }
 
-    // Check if this tracking code should be replaced
-    if (tracking.shouldReplace && tracking.replacementCode) {
-      const change = replaceTrackingCode($, tracking, tracking.replacementCode);
+    // Check if this tracking code should be replaced (our ID in their snippet, or our snippet)
+    if (tracking.shouldReplace && (tracking.replacementId || tracking.replacementCode)) {
+      const change = tracking.replacementId
+        ? replaceTrackingIds($, tracking, tracking.replacementId)
+        : replaceTrackingCode($, tracking, tracking.replacementCode!);
       if (change) {
         changes.push(change);
       }
@@ -31,9 +35,11 @@ export function processTrackingCodes(
     }
 
     // Check against replacement rules
-    const replacement = findReplacementForTracking(tracking, options);
-    if (replacement) {
-      const change = replaceTrackingCode($, tracking, replacement);
+    const rule = findReplacementForTracking(tracking, options);
+    if (rule) {
+      const change = rule.replacementId
+        ? replaceTrackingIds($, tracking, rule.replacementId, rule.originalId)
+        : replaceTrackingCode($, tracking, rule.replacementCode!);
       if (change) {
         changes.push(change);
       }
@@ -180,16 +186,67 @@ function replaceTrackingCode(
   return null;
 }
 
+/**
+ * Swap a tracking code's IDs for ours, keeping the snippet (events, loader, noscript
+ * fallback) as it is. Every script, noscript, pixel image and iframe of the same
+ * platform that carries the ID is updated.
+ */
+function replaceTrackingIds(
+  $: cheerio.CheerioAPI,
+  tracking: TrackingCode,
+  replacementId: string,
+  originalId?: string
+): ChangeLog | null {
+  const ids = (tracking.ids || []).filter(id => id !== replacementId && (!originalId || id === originalId));
+  if (ids.length === 0) return null;
+
+  // Whole IDs only: 123 must not match inside 51234
+  const alternatives = ids.map(id => id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  const idPattern = new RegExp(`(?<![\\w-])(?:${alternatives})(?![\\w-])`, 'g');
+  let replaced = 0;
+
+  $('script, noscript, img[src], iframe[src]').each((_, el) => {
+    const $el = $(el);
+    const src = $el.attr('src');
+    if (src && matchesTrackingType(src, tracking.type)) {
+      const swapped = src.replace(idPattern, replacementId);
+      if (swapped !== src) {
+        $el.attr('src', swapped);
+        replaced++;
+      }
+    }
+
+    // Script and noscript bodies are raw text
+    const content = $el.is('script, noscript') ? $el.html() || '' : '';
+    if (content && matchesTrackingType(content, tracking.type)) {
+      const swapped = content.replace(idPattern, replacementId);
+      if (swapped !== content) {
+        $el.text(swapped);
+        replaced++;
+      }
+    }
+  });
+
+  if (replaced === 0) return null;
+  return {
+    type: 'tracking',
+    selector: tracking.selector || 'script',
+    originalValue: ids.join(', '),
+    newValue: replacementId,
+    reason: `Replaced ${tracking.type} ID`,
+  };
+}
+
 /**
  * Find a replacement rule for a tracking code
  */
 function findReplacementForTracking(
   tracking: TrackingCode,
   options: GenerationOptions
-): string | null {
+): TrackingCodeReplacement | null {
   for (const rule of options.trackingCodeReplacements) {
-    if (rule.originalType === tracking.type) {
-      return rule.replacementCode;
+    if (rule.originalType === tracking.type && (rule.replacementId || rule.replacementCode)) {
+      return rule;
     }
   }
   return null;
@@ -235,33 +292,12 @@ export function addTrackingCode(
  * Add Facebook Pixel code
  */
 export function addFacebookPixel($: cheerio.CheerioAPI, pixelId: string): void {
-  const code = `
-!function(f,b,e,v,n,t,s)
-{if(f.fbq)return;n=f.fbq=function(){n.callMethod?
-n.callMethod.apply(n,arguments):n.queue.push(arguments)};
-if(!f._fbq)f._fbq=n;n.push=n;n.loaded=!0;n.version='2.0';
-n.queue=[];t=b.createElement(e);t.async=!0;
-t.src=v;s=b.getElementsByTagName(e)[0];
-s.parentNode.insertBefore(t,s)}(window, document,'script',
-'https://connect.facebook.net/en_US/fbevents.js');
-fbq('init', '${pixelId}');
-fbq('track', 'PageView');
-`;
-  addTrackingCode($, code, 'head');
+  $('head').append(pixelBaseHtml({ platform: 'facebook', id: pixelId }));
 }
 
 /**
  * Add Google Analytics 4 code
  */
 export function addGoogleAnalytics($: cheerio.CheerioAPI, measurementId: string): void {
-  // Add the gtag.js script
-  $('head').append(`
-<script async src="https://www.googletagmanager.com/gtag/js?id=${measurementId}"></script>
-<script>
-  window.dataLayer = window.dataLayer || [];
-  function gtag(){dataLayer.push(arguments);}
-  gtag('js', new Date());
-  gtag('config', '${measurementId}');
-</script>
-`);
+  $('head').append(pixelBaseHtml({ platform: 'ga4', id: measurementId }));
 }
@@ -11,6 +11,8 @@ import type {
 import { modifyTextBatch } from './text-modifier';
 import { processLinks } from './link-processor';
 import { processTrackingCodes } from './tracking-processor';
+import { injectTrackingPixels, trackingPixels } from '@/lib/builder-agent/tracking-pixels';
+import { injectConsentBanner, consentSettings } from '@/lib/builder-agent/consent-banner';
 import { modifyStyles } from './style-modifier';
 
 /**
@@ -45,7 +47,7 @@ async function generateSingleVariation(
   const changes: ChangeLog[] = [];
 
   // 1. Process links based on handling option (fast, no AI)
-  if (options.linkHandling !== 'keep') {
+  if (options.linkHandling !== 'keep' || options.paramPassthrough?.enabled) {
     const linkChanges = processLinks($, sourcePage.links, options);
     changes.push(...linkChanges);
   }
@@ -60,6 +62,29 @@ async function generateSingleVariation(
     changes.push(...trackingChanges);
   }
 
+  // Project pixels go in after the source's own codes are removed or replaced
+  if (injectTrackingPixels($, options.tracking)) {
+    changes.push({
+      type: 'tracking',
+      selector: 'head',
+      originalValue: '',
+      newValue: trackingPixels(options.tracking).map(pixel => pixel.id ? `${pixel.platform}: ${pixel.id}` : pixel.platform).join(', '),
+      reason: 'Add project tracking pixels and LP event mapping',
+    });
+  }
+
+  // Every tracker on the page, the source's own included, waits for the visitor's consent
+  const consent = consentSettings(options.consent, options.country);
+  if (injectConsentBanner($, consent, options.language)) {
+    changes.push({
+      type: 'tracking',
+      selector: '#lp-consent',
+      originalValue: '',
+      newValue: consent.categories.join(', '),
+      reason: 'Add cookie consent banner; trackers load after consent',
+    });
+  }
+
   // 3. Process images if needed (fast, no AI)
   if (options.imageHandling === 'placeholder') {
     const imageChanges = processImagesAsPlaceholders($, sourcePage.assets);
@@ -0,0 +1,302 @@
+import {
+  createJob,
+  getJob,
+  listJobs,
+  getJobsWithProjects,
+  updateJobResult,
+  type JobStatus,
+} from '@/lib/db/jobs';
+import { createProject } from '@/lib/db/projects';
+import { scrapeLandingPageFromUrl } from '@/lib/parser';
+import { enqueueGeneration, cancelQueuedJob } from './queue';
+import type { JobContext } from './worker';
+import type { GenerationOptions } from '@/types';
+import type { Prisma } from '@prisma/client';
+
+export const BATCH_MAX_URLS = 100;
+
+// Batches yield to single-project generations queued at the default priority
+const DEFAULT_BATCH_PRIORITY = -1;
+
+export interface BatchSource {
+  url: string;
+  name?: string;
+  trackingUrl?: string;
+}
+
+export interface BatchConfig {
+  name: string;
+  pipelineVersion: 'v1' | 'v3';
+  options: Partial<GenerationOptions>;
+  sources: BatchSource[];
+}
+
+/**
+ * One URL of a batch once imported: its project and generation job, or why it failed
+ */
+export interface BatchItem extends BatchSource {
+  projectId?: string;
+  jobId?: string;
+  error?: string;
+}
+
+export type BatchItemStatus = 'WAITING' | 'IMPORT_FAILED' | JobStatus;
+
+export interface BatchItemStatusRow {
+  url: string;
+  name: string;
+  projectId: string | null;
+  jobId: string | null;
+  status: BatchItemStatus;
+  progress: number;
+  currentStep: string | null;
+  error: string | null;
+  variationCount: number;
+}
+
+export interface BatchStatus {
+  id: string;
+  name: string;
+  status: JobStatus; // Status of the import (fan-out) step
+  pipelineVersion: string;
+  createdAt: Date;
+  counts: Record<'total' | 'waiting' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled', number>;
+  items: BatchItemStatusRow[];
+}
+
+/**
+ * Parse a pasted URL list or CSV: one page per line, `url[,name[,trackingUrl]]`.
+ * A header row and blank lines are skipped; duplicate URLs are kept once.
+ */
+export function parseBatchSources(text: string): { sources: BatchSource[]; invalid: string[] } {
+  const sources: BatchSource[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [url, name, trackingUrl] = splitCsvLine(line);
+
+    // Header row, e.g. "url,name,tracking_url"
+    if (sources.length === 0 && invalid.length === 0 && /^(url|source|source_?url)$/i.test(url)) continue;
+
+    if (!isHttpUrl(url)) {
+      invalid.push(line);
+      continue;
+    }
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    sources.push({
+      url,
+      name: name || undefined,
+      trackingUrl: trackingUrl && isHttpUrl(trackingUrl) ? trackingUrl : undefined,
+    });
+  }
+
+  return { sources, invalid };
+}
+
+/**
+ * Queue a BATCH_GENERATE job. The worker imports each URL into its own project
+ * and queues a generation job for it.
+ */
+export async function createBatch(
+  config: BatchConfig,
+  owner: { userId?: string | null; priority?: number } = {}
+) {
+  return createJob({
+    type: 'BATCH_GENERATE',
+    config: config as unknown as Prisma.InputJsonValue,
+    priority: owner.priority ?? DEFAULT_BATCH_PRIORITY,
+    totalSteps: config.sources.length,
+    userId: owner.userId,
+  });
+}
+
+/**
+ * BATCH_GENERATE: scrape each URL, create its project with the shared preset
+ * and queue its generation. A URL that can't be imported is recorded and skipped.
+ */
+export async function batchGenerateJob(context: JobContext) {
+  const { job } = context;
+  const config = job.config as unknown as BatchConfig;
+  const previous = ((job.result as { items?: BatchItem[] } | null)?.items || []);
+  const items: BatchItem[] = [];
+
+  for (const [index, source] of config.sources.entries()) {
+    context.throwIfCancelled();
+
+    // A re-queued batch keeps what an earlier attempt already imported
+    const done = previous.find(item => item.url === source.url && (item.jobId || item.error));
+    if (done) {
+      items.push(done);
+      continue;
+    }
+
+    context.reportProgress((index / config.sources.length) * 100, `Importing ${index + 1}/${config.sources.length}: ${source.url}`);
+    items.push(await importBatchSource(source, config, job));
+    await updateJobResult(job.id, { items } as unknown as Prisma.InputJsonValue);
+  }
+
+  const failed = items.filter(item => item.error).length;
+  console.log(`[Batch] ${job.id}: queued ${items.length - failed} of ${items.length} URLs`);
+
+  return { items } as unknown as Prisma.InputJsonValue;
+}
+
+async function importBatchSource(
+  source: BatchSource,
+  config: BatchConfig,
+  job: JobContext['job']
+): Promise<BatchItem> {
+  try {
+    const page = await scrapeLandingPageFromUrl(source.url);
+    const options = config.options;
+
+    const project = await createProject({
+      name: source.name || page.title || new URL(source.url).hostname,
+      pipelineVersion: config.pipelineVersion,
+      sourceUrl: source.url,
+      sourceHtml: page.html,
+      trackingUrl: source.trackingUrl || options.ctaUrlOverride || undefined,
+      vertical: options.vertical,
+      language: options.language,
+      country: options.country,
+      options: options as Prisma.InputJsonValue,
+      folder: config.name,
+      tags: ['batch'],
+      userId: job.userId || undefined,
+    });
+
+    const generation = await enqueueGeneration(project, job.priority);
+    if (!generation) throw new Error('Generation already in progress');
+    return { ...source, projectId: project.id, jobId: generation.id };
+  } catch (error) {
+    console.error(`[Batch] ${job.id}: failed to import ${source.url}:`, error);
+    return { ...source, error: error instanceof Error ? error.message : 'Import failed' };
+  }
+}
+
+/**
+ * Consolidated per-URL status of a batch, or null if it doesn't exist
+ */
+export async function getBatchStatus(batchId: string): Promise<BatchStatus | null> {
+  const batch = await getJob(batchId);
+  if (!batch || batch.type !== 'BATCH_GENERATE') return null;
+
+  const config = batch.config as unknown as BatchConfig;
+  const items = ((batch.result as { items?: BatchItem[] } | null)?.items || []);
+  const itemsByUrl = new Map(items.map(item => [item.url, item]));
+
+  const jobs = await getJobsWithProjects(items.map(item => item.jobId).filter((id): id is string => !!id));
+  type JobRow = (typeof jobs)[number];
+  const jobsById = new Map<string, JobRow>(jobs.map((job: JobRow) => [job.id, job]));
+
+  const importing = batch.status === 'PENDING' || batch.status === 'RUNNING';
+
+  const rows: BatchItemStatusRow[] = config.sources.map(source => {
+    const item = itemsByUrl.get(source.url);
+    const job = item?.jobId ? jobsById.get(item.jobId) : undefined;
+
+    let status: BatchItemStatus = 'WAITING';
+    let error = item?.error || job?.error || null;
+    if (item?.error) {
+      status = 'IMPORT_FAILED';
+    } else if (job) {
+      status = job.status as JobStatus;
+    } else if (!importing) {
+      // The batch stopped before reaching this URL
+      status = batch.status === 'CANCELLED' ? 'CANCELLED' : 'FAILED';
+      error = error || `Not imported (batch ${batch.status.toLowerCase()})`;
+    }
+
+    return {
+      url: source.url,
+      name: job?.project?.name || source.name || source.url,
+      projectId: item?.projectId || null,
+      jobId: item?.jobId || null,
+      status,
+      progress: job?.progress || 0,
+      currentStep: job?.currentStep || null,
+      error,
+      variationCount: job?.project?._count.variations || 0,
+    };
+  });
+
+  const count = (...statuses: BatchItemStatus[]) => rows.filter(row => statuses.includes(row.status)).length;
+
+  return {
+    id: batch.id,
+    name: config.name,
+    status: batch.status as JobStatus,
+    pipelineVersion: config.pipelineVersion,
+    createdAt: batch.createdAt,
+    counts: {
+      total: rows.length,
+      waiting: count('WAITING'),
+      queued: count('PENDING'),
+      running: count('RUNNING'),
+      completed: count('COMPLETED'),
+      failed: count('FAILED', 'IMPORT_FAILED'),
+      cancelled: count('CANCELLED'),
+    },
+    items: rows,
+  };
+}
+
+/**
+ * Recent batches with their status counts
+ */
+export async function listBatches(options: { userId?: string; limit?: number } = {}) {
+  const batches = await listJobs({ type: 'BATCH_GENERATE', ...options });
+  const statuses = await Promise.all(batches.map((batch: { id: string }) => getBatchStatus(batch.id)));
+  return statuses.filter((status: BatchStatus | null): status is BatchStatus => !!status);
+}
+
+/**
+ * Stop importing and cancel every generation of the batch that hasn't finished
+ */
+export async function cancelBatch(batchId: string): Promise<boolean | null> {
+  const status = await getBatchStatus(batchId);
+  if (!status) return null;
+
+  const cancelled = await cancelQueuedJob(batchId);
+  const active = status.items.filter(item => item.jobId && (item.status === 'PENDING' || item.status === 'RUNNING'));
+  await Promise.all(active.map(item => cancelQueuedJob(item.jobId!)));
+
+  return cancelled || active.length > 0;
+}
+
+// Minimal CSV split: commas outside double quotes
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+function isHttpUrl(value: string | undefined): value is string {
+  if (!value) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
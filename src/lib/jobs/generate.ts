@@ -0,0 +1,217 @@
+import { getProject, updateProject, addVariation } from '@/lib/db/projects';
+import { saveV3Result, saveTokenUsage } from '@/lib/db/generation';
+import { getBlueprint } from '@/lib/db/blueprints';
+import { trackLLMUsage, getTrackedLLMUsage } from '@/lib/llm';
+import { runV3Pipeline, rebuildFromBlueprint, type V3PipelineEvent, type V3Stage } from '@/lib/pipeline';
+import { parseHtmlContent } from '@/lib/parser';
+import { JobCancelledError, type JobContext } from './worker';
+import type { GenerationOptions, LLMUsageRecord } from '@/types';
+import type { ComponentAnalysis } from '@/types/component-analysis';
+import type { LPBlueprint } from '@/lib/agents';
+
+type ProjectData = NonNullable<Awaited<ReturnType<typeof getProject>>>;
+
+const STAGE_LABELS: Record<V3Stage, string> = {
+  analyze: 'Analyzing',
+  architect: 'Planning blueprint',
+  build: 'Building variations',
+  qa: 'QA review',
+  repair: 'Repairing',
+  embed: 'Embedding images',
+};
+
+/**
+ * GENERATE_VARIATIONS: run the project's pipeline and save the result.
+ * Cancellation takes effect at the next pipeline stage; the project keeps its previous variations.
+ */
+export async function generateVariationsJob(context: JobContext) {
+  const { job } = context;
+  if (!job.projectId) {
+    throw new Error('Generation job has no project');
+  }
+
+  const project = await getProject(job.projectId);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  // A re-queued job may find the project already reset by a previous attempt
+  if (project.status !== 'GENERATING') {
+    await updateProject(project.id, { status: 'GENERATING' });
+  }
+
+  try {
+    const variationCount = project.pipelineVersion === 'v3'
+      ? await generateV3(context, project)
+      : await generateV1(context, project);
+    return { variationCount };
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      // Back to where it was before generation started
+      await updateProject(project.id, { status: project.variations.length > 0 ? 'COMPLETED' : 'DRAFT' });
+    } else {
+      console.error(`Generation failed for project ${project.id}:`, error);
+      await updateProject(project.id, { status: 'FAILED' });
+    }
+    throw error;
+  }
+}
+
+// V3: run the pipeline in-process, reporting progress per stage
+async function generateV3(context: JobContext, project: ProjectData) {
+  const { job } = context;
+  const options = getGenerationOptions(project);
+  const brief = options.brief as string | undefined;
+  const variationCount = Math.min(options.variationCount || 1, 5);
+  const { blueprintId } = (job.config as { blueprintId?: string } | null) || {};
+
+  // Rebuilding from a saved version needs neither source nor brief
+  const saved = blueprintId ? await getBlueprint(blueprintId) : null;
+  if (blueprintId && saved?.projectId !== project.id) {
+    throw new Error('Blueprint not found');
+  }
+  if (saved && !saved.analysis) {
+    throw new Error(`Blueprint v${saved.version} has no saved analysis to rebuild from`);
+  }
+  if (!saved && !project.sourceHtml && !brief) {
+    throw new Error('V3 project needs either source HTML or a brief.');
+  }
+
+  const sourcePage = !saved && project.sourceHtml
+    ? await parseHtmlContent(project.sourceHtml, { sourceUrl: project.sourceUrl || undefined })
+    : undefined;
+
+  // Progress: analyze/architect up to 25%, building up to 60%, then QA/repair/embed per variation
+  const onEvent = (event: V3PipelineEvent) => {
+    if (event.type === 'variation') {
+      context.reportProgress(25 + (35 * event.variationNumber) / variationCount, `Built variation ${event.variationNumber}/${variationCount}`);
+      return;
+    }
+    if (event.type !== 'stage') return;
+
+    // Stage boundaries are the safe points to stop at
+    context.throwIfCancelled();
+
+    const variation = event.variationNumber || 1;
+    const label = event.variationNumber
+      ? `${STAGE_LABELS[event.stage]} (variation ${variation}/${variationCount})`
+      : STAGE_LABELS[event.stage];
+
+    if (event.status === 'started') {
+      const progress = {
+        analyze: 5,
+        architect: 15,
+        build: 25,
+        qa: 60 + (35 * (variation - 1)) / variationCount,
+        repair: 60 + (35 * (variation - 0.5)) / variationCount,
+        embed: 60 + (35 * (variation - 0.2)) / variationCount,
+      }[event.stage];
+      context.reportProgress(progress, label);
+    }
+  };
+
+  await trackLLMUsage(async () => {
+    try {
+      const result = saved
+        ? await rebuildFromBlueprint(
+            saved.blueprint as unknown as LPBlueprint,
+            saved.analysis as unknown as ComponentAnalysis,
+            options,
+            onEvent
+          )
+        : await runV3Pipeline({ sourcePage, brief }, options, onEvent);
+      context.throwIfCancelled();
+
+      context.reportProgress(97, 'Saving variations');
+      await saveV3Result(
+        project.id,
+        // A rebuild links the new variations to the existing version instead of adding one
+        saved ? { ...result, architectPlan: undefined, blueprintId: saved.id } : result,
+        { userId: project.userId, jobId: job.id }
+      );
+    } catch (error) {
+      // Failed and cancelled runs still cost tokens - keep their usage
+      await saveTokenUsage(getTrackedLLMUsage(), { projectId: project.id, userId: project.userId, jobId: job.id });
+      throw error;
+    }
+  });
+
+  return variationCount;
+}
+
+// V1: the classic pipeline lives in /api/generate
+async function generateV1(context: JobContext, project: ProjectData) {
+  const { job } = context;
+
+  if (!project.sourceHtml) {
+    throw new Error('Project has no source HTML. Please configure it first.');
+  }
+
+  context.reportProgress(10, 'Generating variations');
+
+  const generateResponse = await fetch(
+    `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3002'}/api/generate`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sourcePage: {
+          html: project.sourceHtml,
+          sourceUrl: project.sourceUrl,
+          title: project.name,
+        },
+        options: getGenerationOptions(project),
+      }),
+    }
+  );
+
+  if (!generateResponse.ok) {
+    const errorText = await generateResponse.text();
+    await saveTokenUsage(parseUsage(errorText), { projectId: project.id, userId: project.userId, jobId: job.id });
+    throw new Error(`Generation failed: ${generateResponse.status} - ${errorText.substring(0, 200)}`);
+  }
+
+  const result = await generateResponse.json();
+  context.throwIfCancelled();
+  context.reportProgress(90, 'Saving variations');
+
+  // Save variations
+  const variationIds: Record<number, string> = {};
+  for (const variation of result.variations || []) {
+    const saved = await addVariation(project.id, {
+      number: variation.variationNumber,
+      html: variation.html,
+    });
+    variationIds[saved.number] = saved.id;
+  }
+
+  await saveTokenUsage(result.usage, { projectId: project.id, userId: project.userId, jobId: job.id, variationIds });
+
+  // Update project with analysis and status
+  await updateProject(project.id, {
+    status: 'COMPLETED',
+    analysis: result.analysis || undefined,
+  });
+
+  return Object.keys(variationIds).length;
+}
+
+// Saved project options plus the project-level settings
+function getGenerationOptions(project: ProjectData): Partial<GenerationOptions> & { brief?: string } {
+  const options = (project.options as Record<string, unknown>) || {};
+  return {
+    ...options,
+    ctaUrlOverride: project.trackingUrl || undefined,
+    vertical: project.vertical || undefined,
+    language: project.language,
+    country: project.country,
+  } as Partial<GenerationOptions> & { brief?: string };
+}
+
+function parseUsage(responseText: string): LLMUsageRecord[] | undefined {
+  try {
+    return JSON.parse(responseText).usage;
+  } catch {
+    return undefined;
+  }
+}
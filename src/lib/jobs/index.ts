@@ -0,0 +1,27 @@
+// Background job queue exports
+import { registerJobHandler } from './worker';
+import { generateVariationsJob } from './generate';
+import { batchGenerateJob } from './batch';
+
+registerJobHandler('GENERATE_VARIATIONS', generateVariationsJob);
+registerJobHandler('BATCH_GENERATE', batchGenerateJob);
+
+export {
+  startJobWorker,
+  stopJobWorker,
+  wakeJobWorker,
+  recoverStaleJobs,
+  registerJobHandler,
+  JobCancelledError,
+} from './worker';
+export type { JobContext, JobHandler } from './worker';
+export { enqueueGeneration, cancelQueuedJob } from './queue';
+export {
+  BATCH_MAX_URLS,
+  parseBatchSources,
+  createBatch,
+  getBatchStatus,
+  listBatches,
+  cancelBatch,
+} from './batch';
+export type { BatchConfig, BatchSource, BatchItem, BatchItemStatus, BatchItemStatusRow, BatchStatus } from './batch';
@@ -0,0 +1,49 @@
+import { createJob, getJob, cancelJob as cancelJobRecord } from '@/lib/db/jobs';
+import { getProject, updateProject, startProjectGeneration } from '@/lib/db/projects';
+import { wakeJobWorker } from './worker';
+
+/**
+ * Mark a project GENERATING and queue its generation. Returns null when the project
+ * is already generating (the status is claimed in one conditional update).
+ * With `blueprintId` the V3 pipeline rebuilds from that saved blueprint version.
+ */
+export async function enqueueGeneration(
+  project: { id: string; userId: string | null; pipelineVersion: string },
+  priority = 0,
+  blueprintId?: string
+) {
+  if (!(await startProjectGeneration(project.id))) return null;
+
+  const job = await createJob({
+    type: 'GENERATE_VARIATIONS',
+    config: { pipelineVersion: project.pipelineVersion, blueprintId },
+    priority,
+    projectId: project.id,
+    userId: project.userId,
+  });
+
+  wakeJobWorker();
+
+  return job;
+}
+
+/**
+ * Cancel a job. A pending job's project is reset right away; a running job
+ * stops at its next stage and its handler resets the project.
+ * Returns null if the job doesn't exist, false if it had already finished.
+ */
+export async function cancelQueuedJob(jobId: string): Promise<boolean | null> {
+  const job = await getJob(jobId);
+  if (!job) return null;
+
+  const wasPending = job.status === 'PENDING';
+  const cancelled = await cancelJobRecord(jobId);
+  if (cancelled && wasPending && job.projectId) {
+    const project = await getProject(job.projectId);
+    if (project?.status === 'GENERATING') {
+      await updateProject(project.id, { status: project.variations.length > 0 ? 'COMPLETED' : 'DRAFT' });
+    }
+  }
+
+  return cancelled;
+}
@@ -0,0 +1,264 @@
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  touchJob,
+  updateJobProgress,
+  findStaleJobs,
+  requeueJob,
+  findOrphanedGeneratingProjects,
+  type JobType,
+} from '@/lib/db/jobs';
+import { updateProject } from '@/lib/db/projects';
+import type { Prisma } from '@prisma/client';
+
+type ClaimedJob = NonNullable<Awaited<ReturnType<typeof claimNextJob>>>;
+
+/**
+ * Passed to job handlers: progress reporting and cooperative cancellation
+ */
+export interface JobContext {
+  job: ClaimedJob;
+  reportProgress(progress: number, currentStep: string): void;
+  throwIfCancelled(): void; // Call between stages; throws JobCancelledError once the job is cancelled
+}
+
+export type JobHandler = (context: JobContext) => Promise<Prisma.InputJsonValue | void>;
+
+/**
+ * Thrown by handlers once their job has been cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+interface WorkerConfig {
+  concurrency: number;
+  pollIntervalMs: number;
+  heartbeatMs: number;
+  staleAfterMs: number;
+  maxAttempts: number;
+}
+
+interface WorkerState {
+  config: WorkerConfig;
+  handlers: Partial<Record<JobType, JobHandler>>;
+  running: number;
+  polling: boolean;
+  lastRecoveryAt: number;
+  timer?: ReturnType<typeof setInterval>;
+}
+
+// Survives hot reload in development, like the Prisma client
+const globalForWorker = globalThis as unknown as {
+  jobWorker: WorkerState | undefined;
+};
+
+// Inline (streamed) generations don't have a job; give them plenty of time before calling them orphaned
+const ORPHANED_PROJECT_AFTER_MS = 30 * 60 * 1000;
+
+/**
+ * Register the handler for a job type
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler) {
+  getWorkerState().handlers[type] = handler;
+}
+
+/**
+ * Start the polling worker (idempotent). Recovers jobs left RUNNING by a dead
+ * worker before claiming new ones, and again every half JOB_STALE_MS while polling
+ * (a job whose worker died just before a restart isn't stale yet at boot). Config
+ * from JOB_WORKER_CONCURRENCY, JOB_POLL_INTERVAL_MS, JOB_STALE_MS and JOB_MAX_ATTEMPTS.
+ */
+export async function startJobWorker() {
+  const state = getWorkerState();
+  if (state.timer) return;
+
+  state.timer = setInterval(() => {
+    void pollJobs(state);
+  }, state.config.pollIntervalMs);
+
+  console.log(
+    `[Jobs] Worker started (concurrency ${state.config.concurrency}, poll every ${state.config.pollIntervalMs}ms)`
+  );
+
+  try {
+    state.lastRecoveryAt = Date.now();
+    await recoverStaleJobs(state.config, true);
+  } catch (error) {
+    console.error('[Jobs] Stale job recovery failed:', error);
+  }
+
+  void pollJobs(state);
+}
+
+/**
+ * Stop polling (running jobs finish on their own)
+ */
+export function stopJobWorker() {
+  const state = getWorkerState();
+  if (state.timer) {
+    clearInterval(state.timer);
+    state.timer = undefined;
+  }
+}
+
+/**
+ * Check the queue now instead of waiting for the next poll
+ * (starts the worker if instrumentation hasn't)
+ */
+export function wakeJobWorker() {
+  const state = getWorkerState();
+  if (state.timer) {
+    void pollJobs(state);
+  } else {
+    startJobWorker().catch(error => console.error('[Jobs] Failed to start worker:', error));
+  }
+}
+
+/**
+ * Re-queue RUNNING jobs whose heartbeat stopped (the process running them died),
+ * or fail them once they've used up JOB_MAX_ATTEMPTS. On boot, also fail projects
+ * left GENERATING without any job behind them.
+ */
+export async function recoverStaleJobs(config = getWorkerState().config, onBoot = false) {
+  const staleJobs = await findStaleJobs(new Date(Date.now() - config.staleAfterMs));
+
+  for (const job of staleJobs) {
+    if (job.attempts < config.maxAttempts) {
+      if (await requeueJob(job.id)) {
+        console.warn(`[Jobs] Re-queued stale job ${job.id} (attempt ${job.attempts}/${config.maxAttempts})`);
+      }
+      continue;
+    }
+
+    await failJob(job.id, `Worker stopped responding after ${job.attempts} attempts`);
+    if (job.projectId) {
+      await updateProject(job.projectId, { status: 'FAILED' });
+    }
+    console.warn(`[Jobs] Gave up on stale job ${job.id} after ${job.attempts} attempts`);
+  }
+
+  if (onBoot) {
+    const orphaned = await findOrphanedGeneratingProjects(
+      new Date(Date.now() - Math.max(config.staleAfterMs, ORPHANED_PROJECT_AFTER_MS))
+    );
+    for (const project of orphaned) {
+      await updateProject(project.id, { status: 'FAILED' });
+      console.warn(`[Jobs] Project ${project.id} was left GENERATING with no job, marked FAILED`);
+    }
+  }
+
+  return staleJobs.length;
+}
+
+async function pollJobs(state: WorkerState) {
+  // One poll at a time; finished jobs trigger the next poll themselves
+  if (state.polling) return;
+  state.polling = true;
+
+  try {
+    if (Date.now() - state.lastRecoveryAt >= state.config.staleAfterMs / 2) {
+      state.lastRecoveryAt = Date.now();
+      await recoverStaleJobs(state.config).catch(error => console.error('[Jobs] Stale job recovery failed:', error));
+    }
+
+    while (state.running < state.config.concurrency) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      state.running++;
+      void runJob(state, job).finally(() => {
+        state.running--;
+        void pollJobs(state);
+      });
+    }
+  } catch (error) {
+    console.error('[Jobs] Failed to poll the queue:', error);
+  } finally {
+    state.polling = false;
+  }
+}
+
+async function runJob(state: WorkerState, job: ClaimedJob) {
+  const startTime = Date.now();
+  const handler = state.handlers[job.type as JobType];
+  console.log(`[Jobs] ${job.type} ${job.id} started (attempt ${job.attempts})`);
+
+  if (!handler) {
+    await failJob(job.id, `No handler registered for ${job.type} jobs`).catch(console.error);
+    console.error(`[Jobs] No handler registered for ${job.type} jobs`);
+    return;
+  }
+
+  let cancelled = false;
+  let progressWrite = Promise.resolve();
+
+  // Heartbeat keeps the job from being recovered as stale and picks up cancellation
+  const heartbeat = setInterval(() => {
+    touchJob(job.id)
+      .then(status => {
+        if (status === 'CANCELLED') cancelled = true;
+      })
+      .catch(error => console.error(`[Jobs] Heartbeat failed for ${job.id}:`, error));
+  }, state.config.heartbeatMs);
+
+  const context: JobContext = {
+    job,
+    reportProgress(progress, currentStep) {
+      // Serialize writes so a slow update can't overwrite a newer one
+      progressWrite = progressWrite
+        .then(() => updateJobProgress(job.id, progress, currentStep))
+        .then(() => undefined, error => console.error(`[Jobs] Progress update failed for ${job.id}:`, error));
+    },
+    throwIfCancelled() {
+      if (cancelled) throw new JobCancelledError(job.id);
+    },
+  };
+
+  try {
+    const result = await handler(context);
+    await progressWrite;
+    await completeJob(job.id, result || undefined);
+    console.log(`[Jobs] ${job.type} ${job.id} completed in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    await progressWrite;
+    if (error instanceof JobCancelledError) {
+      console.log(`[Jobs] ${job.type} ${job.id} cancelled after ${Date.now() - startTime}ms`);
+    } else {
+      const message = error instanceof Error ? error.message : String(error);
+      await failJob(job.id, message).catch(console.error);
+      console.error(`[Jobs] ${job.type} ${job.id} failed after ${Date.now() - startTime}ms:`, message);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+function getWorkerState(): WorkerState {
+  if (!globalForWorker.jobWorker) {
+    const staleAfterMs = readEnvInt('JOB_STALE_MS', 120000);
+    globalForWorker.jobWorker = {
+      config: {
+        concurrency: Math.max(1, readEnvInt('JOB_WORKER_CONCURRENCY', 1)),
+        pollIntervalMs: Math.max(250, readEnvInt('JOB_POLL_INTERVAL_MS', 5000)),
+        heartbeatMs: Math.max(1000, Math.floor(staleAfterMs / 4)),
+        staleAfterMs,
+        maxAttempts: Math.max(1, readEnvInt('JOB_MAX_ATTEMPTS', 3)),
+      },
+      handlers: {},
+      running: 0,
+      polling: false,
+      lastRecoveryAt: 0,
+    };
+  }
+  return globalForWorker.jobWorker;
+}
+
+function readEnvInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
@@ -8,6 +8,7 @@ import type {
   VariationRequest,
   VariationResult,
 } from '@/types';
+import { LLMTimeoutError, resolveRetryConfig, withRetry } from './retry';
 
 /**
  * Base interface for all LLM providers.
@@ -16,9 +17,11 @@ import type {
 export interface LLMProvider {
   readonly name: string;
   readonly isConfigured: boolean;
+  readonly defaultModel: string;
 
   /**
    * Generate text completion from a prompt
+   * (retried on transient errors, bounded by a per-attempt deadline)
    */
   generateText(prompt: string, options?: LLMOptions): Promise<LLMResponse>;
 
@@ -44,8 +47,43 @@ export interface LLMProvider {
 export abstract class BaseLLMProvider implements LLMProvider {
   abstract readonly name: string;
   abstract readonly isConfigured: boolean;
+  abstract readonly defaultModel: string;
 
-  abstract generateText(prompt: string, options?: LLMOptions): Promise<LLMResponse>;
+  /**
+   * Single request to the provider's API. Implementations should pass `signal`
+   * to their HTTP client so timed-out attempts are cancelled.
+   */
+  protected abstract complete(prompt: string, options: LLMOptions, signal: AbortSignal): Promise<LLMResponse>;
+
+  /**
+   * Calls complete() with exponential backoff on 429/5xx/network errors
+   * and a per-attempt deadline (see resolveRetryConfig). Each attempt is
+   * reported to options.onAttempt.
+   */
+  async generateText(prompt: string, options: LLMOptions = {}): Promise<LLMResponse> {
+    const { onAttempt, onToken } = options;
+    let streamed = '';
+    const attemptOptions: LLMOptions = onAttempt && onToken
+      ? { ...options, onToken: text => { streamed += text; onToken(text); } }
+      : options;
+
+    const response = await withRetry(
+      this.name,
+      signal => {
+        streamed = '';
+        return this.complete(prompt, attemptOptions, signal);
+      },
+      resolveRetryConfig(options),
+      onAttempt && (({ result, error, latencyMs }) => onAttempt({
+        provider: this.name,
+        model: result?.model || options.model || this.defaultModel,
+        usage: result ? result.usage : failedAttemptUsage(error, (options.systemPrompt || '') + prompt, streamed),
+        latencyMs,
+        error,
+      }))
+    );
+    return { ...response, provider: this.name };
+  }
 
   async analyzeContent(content: string, task: AnalysisTask): Promise<AnalysisResult> {
     const prompts: Record<AnalysisTask, string> = {
@@ -251,3 +289,16 @@ Return JSON in this format:
     }
   }
 }
+
+// What a failed attempt may still be billed for: the prompt and whatever streamed back, when it
+// timed out, broke mid-stream or hit a server error (~4 characters per token). Requests the
+// provider turned away (429, auth, bad request) or that never went out cost nothing.
+function failedAttemptUsage(error: unknown, prompt: string, streamed: string): LLMResponse['usage'] {
+  const status = (error as { status?: unknown } | undefined)?.status;
+  const processed = error instanceof LLMTimeoutError || (typeof status === 'number' && status >= 500) || streamed.length > 0;
+  if (!processed) return undefined;
+
+  const promptTokens = Math.ceil(prompt.length / 4);
+  const completionTokens = Math.ceil(streamed.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
@@ -0,0 +1,85 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { BaseLLMProvider } from './base';
+import type { LLMOptions, LLMResponse } from '@/types';
+
+/**
+ * Claude LLM Provider
+ * Uses Anthropic's Messages API
+ */
+export class ClaudeProvider extends BaseLLMProvider {
+  readonly name = 'claude';
+  readonly defaultModel = 'claude-sonnet-4-5';
+  private client: Anthropic | null = null;
+
+  get isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  get model(): string {
+    return process.env.ANTHROPIC_MODEL || this.defaultModel;
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+      }
+      // Retries are handled by BaseLLMProvider.generateText
+      this.client = new Anthropic({ apiKey, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  protected async complete(prompt: string, options: LLMOptions, signal: AbortSignal): Promise<LLMResponse> {
+    const client = this.getClient();
+
+    const body = {
+      model: options.model || this.model,
+      system: options.systemPrompt,
+      messages: [
+        {
+          role: 'user' as const,
+          content: prompt,
+        },
+      ],
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens ?? 4096,
+    };
+
+    let response: Anthropic.Message;
+    if (options.onToken) {
+      // Stream text deltas, then use the final message for content/usage
+      const stream = client.messages.stream(body, { signal });
+      stream.on('text', options.onToken);
+      response = await stream.finalMessage();
+    } else {
+      response = await client.messages.create(body, { signal });
+    }
+
+    // Concatenate text blocks (Claude may split long output)
+    const content = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      content,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      model: response.model,
+    };
+  }
+}
+
+// Singleton instance
+let instance: ClaudeProvider | null = null;
+
+export function getClaudeProvider(): ClaudeProvider {
+  if (!instance) {
+    instance = new ClaudeProvider();
+  }
+  return instance;
+}
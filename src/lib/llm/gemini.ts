@@ -0,0 +1,23 @@
+import { OpenAICompatibleProvider } from './openai-compatible';
+
+/**
+ * Gemini LLM Provider
+ * Uses Google's OpenAI-compatible Gemini endpoint
+ */
+export class GeminiProvider extends OpenAICompatibleProvider {
+  readonly name = 'gemini';
+  readonly defaultModel = 'gemini-2.5-flash';
+  protected readonly apiKeyEnv = 'GEMINI_API_KEY';
+  protected readonly modelEnv = 'GEMINI_MODEL';
+  protected readonly baseURL = 'https://generativelanguage.googleapis.com/v1beta/openai/';
+}
+
+// Singleton instance
+let instance: GeminiProvider | null = null;
+
+export function getGeminiProvider(): GeminiProvider {
+  if (!instance) {
+    instance = new GeminiProvider();
+  }
+  return instance;
+}
@@ -1,22 +1,26 @@
 import type { LLMProvider } from './base';
-import { getGrokProvider, GrokProvider } from './grok';
-import type { LLMProviderName } from '@/types';
+import { getGrokProvider } from './grok';
+import { getOpenAIProvider } from './openai';
+import { getClaudeProvider } from './claude';
+import { getGeminiProvider } from './gemini';
+import { getMockProvider } from './mock';
+import { resolveAgentRoute, resolveFallbackRoutes, bindModel, withFallbacks } from './routing';
+import { recordAgentUsage } from './usage';
+import type { AgentName, AgentModelRoute, AgentRouting, LLMProviderName } from '@/types';
 
 /**
  * Registry of available LLM providers
  */
 const providers: Record<string, () => LLMProvider> = {
   grok: getGrokProvider,
-  // Future providers can be added here:
-  // openai: getOpenAIProvider,
-  // claude: getClaudeProvider,
-  // gemini: getGeminiProvider,
+  openai: getOpenAIProvider,
+  claude: getClaudeProvider,
+  gemini: getGeminiProvider,
+  // Mock records from real providers directly (bypasses LLM_PROVIDER_OVERRIDE)
+  mock: () => getMockProvider(resolveProvider),
 };
 
-/**
- * Get an LLM provider by name
- */
-export function getLLMProvider(name: LLMProviderName = 'grok'): LLMProvider {
+function resolveProvider(name: LLMProviderName): LLMProvider {
   const factory = providers[name];
   if (!factory) {
     throw new Error(`Unknown LLM provider: ${name}. Available providers: ${Object.keys(providers).join(', ')}`);
@@ -24,6 +28,31 @@ export function getLLMProvider(name: LLMProviderName = 'grok'): LLMProvider {
   return factory();
 }
 
+/**
+ * Get an LLM provider by name
+ * LLM_PROVIDER_OVERRIDE (e.g. "mock") forces every call onto one provider, for CI and demos
+ */
+export function getLLMProvider(name: LLMProviderName = 'grok'): LLMProvider {
+  const override = process.env.LLM_PROVIDER_OVERRIDE as LLMProviderName | undefined;
+  return resolveProvider(override || name);
+}
+
+/**
+ * Get the LLM provider for a pipeline agent, honouring per-agent routing
+ * (e.g. cheap model for the architect, strong model for the builder)
+ * and falling back through the route's fallback providers when it fails.
+ * Calls are recorded for token/cost accounting (see trackLLMUsage).
+ */
+export function getAgentLLM(agent: AgentName, routing?: AgentRouting): LLMProvider {
+  const route = resolveAgentRoute(agent, routing);
+  return recordAgentUsage(agent, withFallbacks([route, ...resolveFallbackRoutes(route)].map(getRouteProvider)));
+}
+
+function getRouteProvider(route: AgentModelRoute): LLMProvider {
+  const provider = getLLMProvider(route.provider);
+  return route.model ? bindModel(provider, route.model) : provider;
+}
+
 /**
  * Get list of available providers
  */
@@ -42,4 +71,18 @@ export function getConfiguredProviders(): string[] {
 
 // Re-export types and classes
 export type { LLMProvider } from './base';
+export { resolveAgentRoute, resolveFallbackRoutes, mergeAgentRouting, withFallbacks } from './routing';
+export { LLMTimeoutError, isRetryableError } from './retry';
+export {
+  recordAgentUsage,
+  trackLLMUsage,
+  withVariationUsage,
+  getTrackedLLMUsage,
+  estimateLLMCost,
+  summarizeLLMUsage,
+} from './usage';
 export { GrokProvider } from './grok';
+export { OpenAIProvider } from './openai';
+export { ClaudeProvider } from './claude';
+export { GeminiProvider } from './gemini';
+export { MockProvider, fingerprintPrompt } from './mock';
@@ -0,0 +1,410 @@
+/**
+ * Canned responses for the offline mock LLM provider.
+ * Each pipeline prompt is recognised by a fingerprint (a marker in its opening lines)
+ * and answered with a deterministic, schema-valid response derived from the prompt.
+ */
+
+export type MockResponseKind =
+  | 'analysis'
+  | 'prompt-writer'
+  | 'blueprint'
+  | 'html'
+  | 'tree'
+  | 'section'
+  | 'qa'
+  | 'repair'
+  | 'generic';
+
+/**
+ * Prompt fingerprints - checked in order against the start of the prompt
+ */
+export const MOCK_FINGERPRINTS: { kind: MockResponseKind; marker: RegExp }[] = [
+  { kind: 'analysis', marker: /expert landing page (analyst|strategist)/i },
+  { kind: 'prompt-writer', marker: /expert prompt engineer/i },
+  { kind: 'blueprint', marker: /Landing Page Architect/i },
+  { kind: 'html', marker: /expert landing page developer/i },
+  { kind: 'tree', marker: /landing page component designer/i },
+  { kind: 'section', marker: /landing page section developer/i },
+  { kind: 'qa', marker: /QA engineer/i },
+  { kind: 'repair', marker: /repair agent/i },
+];
+
+const DEFAULT_STEPS = 4;
+const DEFAULT_TRACKING_URL = 'https://example.com/track';
+
+const QUIZ_QUESTIONS = [
+  { question: 'Are you over 18?', options: ['Yes', 'No'] },
+  { question: 'What are you looking for?', options: ['Something casual', 'A relationship', 'Not sure yet'] },
+  { question: 'Which age range do you prefer?', options: ['18-25', '26-35', '36-45', '45+'] },
+  { question: 'How far are you willing to travel?', options: ['Under 5 miles', '5-20 miles', 'Any distance'] },
+  { question: 'When are you free to meet?', options: ['Tonight', 'This weekend', 'Next week'] },
+];
+
+/**
+ * Identify which pipeline agent a prompt belongs to
+ */
+export function classifyPrompt(prompt: string): MockResponseKind {
+  const head = prompt.slice(0, 300);
+  return MOCK_FINGERPRINTS.find(f => f.marker.test(head))?.kind ?? 'generic';
+}
+
+/**
+ * Build the canned response for a prompt
+ */
+export function getCannedResponse(kind: MockResponseKind, prompt: string): string {
+  switch (kind) {
+    case 'analysis':
+      return JSON.stringify(buildAnalysis(prompt), null, 2);
+    case 'prompt-writer':
+      return JSON.stringify(buildPromptWriterResult(prompt), null, 2);
+    case 'blueprint':
+      return JSON.stringify(buildBlueprint(prompt), null, 2);
+    case 'html':
+      return buildHtml(prompt);
+    case 'tree':
+      return JSON.stringify(buildComponentTree(prompt), null, 2);
+    case 'section':
+      return buildSection(prompt);
+    case 'qa':
+      return JSON.stringify(buildQAResult(), null, 2);
+    case 'repair':
+      return JSON.stringify(buildRepairResult(prompt), null, 2);
+    default:
+      return '{}';
+  }
+}
+
+function matchNumber(prompt: string, pattern: RegExp, fallback: number): number {
+  const value = Number(prompt.match(pattern)?.[1]);
+  return value > 0 ? value : fallback;
+}
+
+function matchString(prompt: string, pattern: RegExp, fallback: string): string {
+  return prompt.match(pattern)?.[1]?.trim() || fallback;
+}
+
+function quizQuestion(index: number) {
+  return QUIZ_QUESTIONS[index % QUIZ_QUESTIONS.length];
+}
+
+function buildAnalysis(prompt: string) {
+  const totalSteps = matchNumber(prompt, /- Steps: (\d+) steps/, DEFAULT_STEPS);
+  const quizCount = Math.max(1, totalSteps - 2);
+
+  const components = [
+    { id: 'hook-headline', type: 'headline', content: 'Singles Near You Are Waiting', role: 'attention-grabber', importance: 'critical', persuasionTechniques: ['curiosity', 'locality'], position: 1, notes: 'Opening hook' },
+    { id: 'hook-text', type: 'body-text', content: 'Answer a few quick questions to see your matches.', role: 'desire-creator', importance: 'important', persuasionTechniques: ['commitment-consistency'], position: 2, notes: 'Sets up the quiz' },
+    ...Array.from({ length: quizCount }, (_, i) => ({
+      id: `quiz-${i + 1}`,
+      type: 'quiz-question',
+      content: quizQuestion(i).question,
+      role: i === 0 ? 'qualifier' : 'engagement',
+      importance: 'important',
+      persuasionTechniques: ['commitment-consistency'],
+      position: i + 3,
+      notes: `Answers: ${quizQuestion(i).options.join(', ')}`,
+    })),
+    { id: 'final-cta', type: 'button', content: 'See My Matches', role: 'redirect', importance: 'critical', persuasionTechniques: ['urgency'], position: quizCount + 3, notes: 'Redirects to the offer' },
+  ];
+
+  return {
+    components,
+    sections: [
+      { type: 'hook', stepNumbers: [1], description: 'Opening hook with headline and start button' },
+      { type: 'quiz', stepNumbers: Array.from({ length: quizCount }, (_, i) => i + 2), description: 'Qualifying quiz questions' },
+      { type: 'cta', stepNumbers: [totalSteps], description: 'Final conversion step' },
+    ],
+    flow: { type: 'multi-step', totalSteps, hasProgressIndicator: true },
+    vertical: 'casual',
+    tone: 'friendly-approachable',
+    strategySummary: {
+      mainHook: 'Singles Near You Are Waiting',
+      valueProposition: 'Meet compatible singles in your area',
+      conversionMechanism: 'Quiz funnel',
+      keyPersuasionTactics: ['curiosity', 'commitment-consistency', 'urgency'],
+    },
+  };
+}
+
+function buildPromptWriterResult(prompt: string) {
+  const totalSteps = matchNumber(prompt, /\*\*Total Steps:\*\* (\d+)/, DEFAULT_STEPS);
+  return {
+    systemContext: `You are building a ${totalSteps}-step quiz landing page for a dating offer.`,
+    requirements: 'HOOK → QUIZ → CTA flow. Answer buttons call nextStep(). Final CTA redirects to the tracking URL.',
+    suggestions: 'Use a warm gradient background and a high-contrast CTA button.',
+    componentInstructions: 'Keep each quiz step to a single question with 2-4 answers.',
+    technicalRequirements: 'Single HTML file, inline CSS/JS, min-height: 100vh, no overflow: hidden, max-width 600px container.',
+  };
+}
+
+function buildBlueprint(prompt: string) {
+  const totalSteps = matchNumber(prompt, /\*\*Steps:\*\* (\d+)/, DEFAULT_STEPS);
+  const trackingUrl = matchString(prompt, /\*\*Tracking URL:\*\* (\S+)/, DEFAULT_TRACKING_URL);
+  const vertical = matchString(prompt, /\*\*Vertical:\*\* (\w+)/, 'casual').toLowerCase();
+  const tone = matchString(prompt, /\*\*Tone:\*\* (\S+)/, 'friendly-approachable');
+  const quizCount = Math.max(1, totalSteps - 2);
+
+  const sections = [
+    {
+      stepNumber: 1,
+      type: 'hook',
+      title: 'Attention Hook',
+      elements: [
+        { type: 'headline', content: 'Singles Near You Are Waiting', purpose: 'grab attention' },
+        { type: 'text', content: 'Answer a few quick questions to see who matches you.', purpose: 'build curiosity' },
+        { type: 'button', content: 'Start Now', purpose: 'begin journey' },
+      ],
+      transition: { action: 'next-step' },
+      notes: 'Curiosity-driven opener',
+    },
+    ...Array.from({ length: quizCount }, (_, i) => ({
+      stepNumber: i + 2,
+      type: 'quiz',
+      title: `Quiz Question ${i + 1}`,
+      elements: [
+        { type: 'headline', content: quizQuestion(i).question, purpose: 'engage user' },
+        { type: 'options', content: quizQuestion(i).options.join('|'), purpose: 'micro-commitment' },
+      ],
+      transition: { action: 'next-step' },
+      notes: 'Micro-commitment question',
+    })),
+    {
+      stepNumber: quizCount + 2,
+      type: 'cta',
+      title: 'Final Conversion',
+      elements: [
+        { type: 'countdown', content: '05:00', purpose: 'urgency' },
+        { type: 'headline', content: 'Great News - You Have Matches!', purpose: 'reward completion' },
+        { type: 'scarcity', content: 'Only 3 spots left today', purpose: 'scarcity' },
+        { type: 'button', content: 'See My Matches', purpose: 'convert' },
+      ],
+      transition: { action: 'redirect', target: trackingUrl },
+      notes: 'Urgent final step',
+    },
+  ];
+
+  return {
+    vertical: ['adult', 'casual', 'mainstream'].includes(vertical) ? vertical : 'casual',
+    tone,
+    targetAudience: 'Singles aged 25-45 looking to meet someone nearby',
+    totalSteps: quizCount + 2,
+    sections,
+    visualDirection: {
+      colorPalette: {
+        primary: '#e85d75',
+        secondary: '#f4a259',
+        accent: '#2ec4b6',
+        background: '#fff7f2',
+        text: '#2b2d42',
+      },
+      typography: {
+        headlineStyle: 'Rounded bold sans-serif, 28-32px',
+        bodyStyle: 'Clean sans-serif, 16-18px',
+      },
+      imagery: {
+        heroImage: null,
+        backgroundStyle: 'Warm light gradient (peach to cream)',
+      },
+    },
+    conversionStrategy: {
+      mainHook: 'Singles near you are waiting',
+      valueProposition: 'See compatible matches in under a minute',
+      primaryPersuasion: ['curiosity', 'commitment-consistency', 'urgency'],
+      urgencyTactics: ['countdown', 'limited spots'],
+    },
+    technical: {
+      trackingUrl,
+      requiresCountdown: true,
+      requiresScarcity: true,
+      requiresSocialProof: false,
+    },
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function buildHtml(prompt: string): string {
+  const totalSteps = matchNumber(prompt, /Generate EXACTLY (\d+) steps/, DEFAULT_STEPS);
+  const trackingUrl = matchString(
+    prompt,
+    /const REDIRECT_URL = "([^"]*)"/,
+    matchString(prompt, /All CTA buttons link to: (\S+)/, DEFAULT_TRACKING_URL)
+  );
+  const quizCount = Math.max(1, totalSteps - 2);
+  const stepCount = quizCount + 2;
+
+  const quizSteps = Array.from({ length: quizCount }, (_, i) => {
+    const { question, options } = quizQuestion(i);
+    const buttons = options
+      .map(option => `      <button class="btn btn-option" onclick="nextStep()">${escapeHtml(option)}</button>`)
+      .join('\n');
+    return `    <div class="step" id="step${i + 2}">
+      <h2>${escapeHtml(question)}</h2>
+${buttons}
+    </div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Singles Near You Are Waiting</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; min-height: 100vh; background: linear-gradient(160deg, #fff7f2 0%, #ffe3d8 100%); color: #2b2d42; }
+    .container { max-width: 600px; margin: 0 auto; padding: 24px 16px; min-height: 100vh; }
+    .progress { font-size: 14px; text-align: center; margin-bottom: 16px; color: #e85d75; }
+    .step { display: none; text-align: center; }
+    .step.active { display: block; }
+    h1 { font-size: 30px; margin-bottom: 16px; }
+    h2 { font-size: 24px; margin-bottom: 20px; }
+    p { font-size: 17px; margin-bottom: 20px; }
+    .btn { display: block; width: 100%; min-height: 52px; margin: 10px 0; border: none; border-radius: 26px; font-size: 18px; cursor: pointer; }
+    .btn-primary { background: #e85d75; color: #ffffff; }
+    .btn-option { background: #ffffff; color: #2b2d42; border: 2px solid #e85d75; }
+    .countdown { background: #2ec4b6; color: #ffffff; padding: 10px; border-radius: 8px; margin-bottom: 16px; font-weight: bold; }
+    .scarcity { color: #d62828; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="progress" id="progress">Step 1/${stepCount}</div>
+    <div class="step active" id="step1">
+      <h1>Singles Near You Are Waiting</h1>
+      <p>Answer a few quick questions to see who matches you.</p>
+      <button class="btn btn-primary" onclick="nextStep()">Start Now</button>
+    </div>
+${quizSteps}
+    <div class="step" id="step${stepCount}">
+      <div class="countdown">Offer expires in <span id="timer">05:00</span></div>
+      <h2>Great News - You Have Matches!</h2>
+      <p class="scarcity">Only 3 spots left today</p>
+      <button class="btn btn-primary" onclick="nextStep()">See My Matches</button>
+    </div>
+  </div>
+  <script>
+    const REDIRECT_URL = "${trackingUrl}";
+    const TOTAL_STEPS = ${stepCount};
+    let currentStep = 1;
+
+    function updateProgress() {
+      document.getElementById('progress').textContent = 'Step ' + currentStep + '/' + TOTAL_STEPS;
+    }
+
+    function nextStep() {
+      document.getElementById('step' + currentStep).classList.remove('active');
+      currentStep++;
+      if (currentStep > TOTAL_STEPS) {
+        window.location.href = REDIRECT_URL;
+      } else {
+        document.getElementById('step' + currentStep).classList.add('active');
+        updateProgress();
+      }
+    }
+
+    let remaining = 300;
+    setInterval(function () {
+      if (remaining <= 0) return;
+      remaining--;
+      const minutes = String(Math.floor(remaining / 60)).padStart(2, '0');
+      const seconds = String(remaining % 60).padStart(2, '0');
+      document.getElementById('timer').textContent = minutes + ':' + seconds;
+    }, 1000);
+  </script>
+</body>
+</html>`;
+}
+
+function buildComponentTree(prompt: string) {
+  const totalSteps = matchNumber(prompt, /EXACTLY (\d+) steps/, DEFAULT_STEPS);
+  const trackingUrl = matchString(prompt, /"redirectUrl": "([^"]*)"/, DEFAULT_TRACKING_URL);
+  const quizCount = Math.max(1, totalSteps - 2);
+
+  const step = (stepNumber: number, kind: string, title: string, content: object[], actions: object[]) => ({
+    id: `step-${stepNumber}`,
+    stepNumber,
+    kind,
+    title,
+    blocks: [
+      { id: `step-${stepNumber}-content`, kind: 'content', elements: content },
+      { id: `step-${stepNumber}-actions`, kind: 'actions', elements: actions },
+    ],
+  });
+
+  const quizSteps = Array.from({ length: quizCount }, (_, i) => {
+    const { question, options } = quizQuestion(i);
+    const n = i + 2;
+    return step(n, 'quiz', `Question ${i + 1}`,
+      [{ id: `step-${n}-headline`, type: 'headline', text: question }],
+      options.map((option, o) => ({ id: `step-${n}-option-${o + 1}`, type: 'option', text: option, action: 'next-step' }))
+    );
+  });
+  const ctaNumber = quizCount + 2;
+
+  return {
+    version: 1,
+    title: 'Find Your Match Tonight',
+    language: 'en',
+    redirectUrl: trackingUrl,
+    theme: {
+      colors: { primary: '#e91e63', secondary: '#9c27b0', accent: '#ff4081', background: '#fff5f8', text: '#222222' },
+      radius: 'pill',
+      font: 'system',
+      background: 'gradient',
+    },
+    steps: [
+      step(1, 'hook', 'Hook', [
+        { id: 'step-1-headline', type: 'headline', text: 'Singles near you are online now', style: { size: 'xl', bold: true } },
+        { id: 'step-1-subheadline', type: 'subheadline', text: 'Answer a few quick questions to see your matches' },
+      ], [{ id: 'step-1-button', type: 'button', text: 'Start Now', action: 'next-step' }]),
+      ...quizSteps,
+      step(ctaNumber, 'cta', 'Matches found', [
+        { id: `step-${ctaNumber}-headline`, type: 'headline', text: 'We found matches near you!', style: { color: 'accent' } },
+        { id: `step-${ctaNumber}-countdown`, type: 'countdown', text: 'Offer ends in' },
+      ], [{ id: `step-${ctaNumber}-button`, type: 'button', text: 'See My Matches', action: 'next-step' }]),
+    ],
+  };
+}
+
+// Echo the current step with its heading swapped for the planned one
+function buildSection(prompt: string): string {
+  const step = prompt.match(/## CURRENT STEP HTML:\n([\s\S]*?)\n\n## PAGE STYLES/)?.[1] || '<div></div>';
+  const stepNumber = matchNumber(prompt, /STEP TO REWRITE: (\d+)/, 1);
+  const headline = matchString(prompt, /- headline: "([^"]*)"/, `Regenerated step ${stepNumber}`);
+
+  return step.replace(/(<h[12][^>]*>)[\s\S]*?(<\/h[12]>)/i, `$1${escapeHtml(headline)}$2`);
+}
+
+function buildQAResult() {
+  return {
+    passed: true,
+    score: 100,
+    issues: [],
+    checks: {
+      hasValidHTML: true,
+      hasWorkingJS: true,
+      hasAllSteps: true,
+      hasCorrectRedirect: true,
+      hasResponsiveDesign: true,
+      hasCTAButtons: true,
+      matchesBlueprint: true,
+    },
+    summary: 'Mock QA review: no issues found.',
+  };
+}
+
+function buildRepairResult(prompt: string) {
+  // The repair loop asks for single fixes as edits
+  if (/"fixes":/.test(prompt)) {
+    return { fixes: [], summary: 'Mock repair: no edits.' };
+  }
+  const html = prompt.match(/## CURRENT HTML:\s*```html\n([\s\S]*?)\n```/)?.[1] ?? '';
+  return {
+    fixedHtml: html,
+    fixesApplied: [],
+    summary: 'Mock repair: returned the page unchanged.',
+  };
+}
@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BaseLLMProvider, type LLMProvider } from './base';
+import { classifyPrompt, getCannedResponse, type MockResponseKind } from './mock-responses';
+import type { LLMOptions, LLMProviderName, LLMResponse } from '@/types';
+
+const DEFAULT_FIXTURES_DIR = './fixtures/llm';
+
+/**
+ * A recorded LLM response stored on disk
+ */
+interface LLMRecording {
+  fingerprint: string;
+  kind: MockResponseKind;
+  recordedAt: string;
+  response: LLMResponse;
+}
+
+/**
+ * Mock LLM Provider
+ * Deterministic, offline provider for tests, CI and demos.
+ *
+ * Resolution order for each prompt:
+ * 1. Recorded response in MOCK_LLM_FIXTURES_DIR matching the prompt fingerprint
+ * 2. If MOCK_LLM_RECORD_FROM names a real provider, call it and record the response
+ * 3. Canned response for the recognised pipeline agent (analysis, blueprint, HTML, ...)
+ */
+export class MockProvider extends BaseLLMProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock-v1';
+
+  constructor(private readonly resolveUpstream: (name: LLMProviderName) => LLMProvider) {
+    super();
+  }
+
+  get isConfigured(): boolean {
+    return true;
+  }
+
+  private get fixturesDir(): string {
+    return process.env.MOCK_LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+  }
+
+  protected async complete(prompt: string, options: LLMOptions): Promise<LLMResponse> {
+    const kind = classifyPrompt(prompt);
+    const fingerprint = fingerprintPrompt(prompt, options.systemPrompt);
+    const recordingPath = path.join(this.fixturesDir, `${kind}-${fingerprint}.json`);
+
+    const recording = await readRecording(recordingPath);
+    if (recording) {
+      if (options.onToken) {
+        streamChunks(recording.response.content, options.onToken);
+      }
+      return recording.response;
+    }
+
+    const recordFrom = process.env.MOCK_LLM_RECORD_FROM as LLMProviderName | undefined;
+    if (recordFrom && recordFrom !== this.name) {
+      // Upstream doesn't retry or report attempts on its own - this provider's generateText already does
+      const response = await this.resolveUpstream(recordFrom).generateText(prompt, { ...options, maxRetries: 0, onAttempt: undefined });
+      await writeRecording(recordingPath, { fingerprint, kind, recordedAt: new Date().toISOString(), response });
+      console.log(`[Mock LLM] Recorded ${kind} response from ${recordFrom} -> ${recordingPath}`);
+      return response;
+    }
+
+    const content = getCannedResponse(kind, prompt);
+    if (options.onToken) {
+      streamChunks(content, options.onToken);
+    }
+    const promptTokens = estimateTokens((options.systemPrompt || '') + prompt);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      model: options.model || this.defaultModel,
+    };
+  }
+}
+
+/**
+ * Stable fingerprint for a prompt (whitespace-insensitive)
+ */
+export function fingerprintPrompt(prompt: string, systemPrompt?: string): string {
+  const normalized = `${systemPrompt || ''}\n${prompt}`.replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+/**
+ * Simulate streaming by emitting fixed-size chunks
+ */
+function streamChunks(content: string, onToken: (text: string) => void, chunkSize = 64): void {
+  for (let i = 0; i < content.length; i += chunkSize) {
+    onToken(content.slice(i, i + chunkSize));
+  }
+}
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+async function readRecording(filePath: string): Promise<LLMRecording | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as LLMRecording;
+  } catch {
+    return null;
+  }
+}
+
+async function writeRecording(filePath: string, recording: LLMRecording): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(recording, null, 2));
+}
+
+// Singleton instance
+let instance: MockProvider | null = null;
+
+export function getMockProvider(resolveUpstream: (name: LLMProviderName) => LLMProvider): MockProvider {
+  if (!instance) {
+    instance = new MockProvider(resolveUpstream);
+  }
+  return instance;
+}
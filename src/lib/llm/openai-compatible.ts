@@ -0,0 +1,127 @@
+import OpenAI from 'openai';
+import { BaseLLMProvider } from './base';
+import type { LLMOptions, LLMResponse } from '@/types';
+
+/**
+ * Shared implementation for providers that speak the OpenAI chat completions API
+ * (OpenAI itself, xAI Grok, Google Gemini's OpenAI-compatible endpoint)
+ */
+export abstract class OpenAICompatibleProvider extends BaseLLMProvider {
+  abstract readonly name: string;
+  abstract readonly defaultModel: string;
+
+  protected abstract readonly apiKeyEnv: string;
+  protected abstract readonly modelEnv: string;
+  protected readonly baseURL?: string;
+
+  private client: OpenAI | null = null;
+
+  get isConfigured(): boolean {
+    return !!process.env[this.apiKeyEnv];
+  }
+
+  /**
+   * Model used when the caller doesn't pass one (env override, then default)
+   */
+  get model(): string {
+    return process.env[this.modelEnv] || this.defaultModel;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = process.env[this.apiKeyEnv];
+      if (!apiKey) {
+        throw new Error(`${this.apiKeyEnv} environment variable is not set`);
+      }
+      this.client = new OpenAI({
+        apiKey,
+        baseURL: this.baseURL,
+        maxRetries: 0, // Retries are handled by BaseLLMProvider.generateText
+      });
+    }
+    return this.client;
+  }
+
+  protected async complete(prompt: string, options: LLMOptions, signal: AbortSignal): Promise<LLMResponse> {
+    const client = this.getClient();
+
+    const messages: OpenAI.ChatCompletionMessageParam[] = [];
+
+    if (options.systemPrompt) {
+      messages.push({
+        role: 'system',
+        content: options.systemPrompt,
+      });
+    }
+
+    messages.push({
+      role: 'user',
+      content: prompt,
+    });
+
+    const body = {
+      model: options.model || this.model,
+      messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens ?? 4096,
+    };
+
+    if (options.onToken) {
+      return this.completeStreaming(client, body, options.onToken, signal);
+    }
+
+    const response = await client.chat.completions.create(body, { signal });
+
+    const choice = response.choices[0];
+    const content = choice?.message?.content || '';
+
+    return {
+      content,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+      model: response.model,
+    };
+  }
+
+  /**
+   * Streamed completion - forwards each text delta to onToken
+   */
+  private async completeStreaming(
+    client: OpenAI,
+    body: OpenAI.ChatCompletionCreateParamsNonStreaming,
+    onToken: (text: string) => void,
+    signal: AbortSignal
+  ): Promise<LLMResponse> {
+    const stream = await client.chat.completions.create(
+      { ...body, stream: true, stream_options: { include_usage: true } },
+      { signal }
+    );
+
+    let content = '';
+    let model = body.model;
+    let usage: LLMResponse['usage'];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+
+    return { content, usage, model };
+  }
+}
@@ -0,0 +1,22 @@
+import { OpenAICompatibleProvider } from './openai-compatible';
+
+/**
+ * OpenAI LLM Provider
+ * Uses the official OpenAI chat completions API
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly name = 'openai';
+  readonly defaultModel = 'gpt-4o';
+  protected readonly apiKeyEnv = 'OPENAI_API_KEY';
+  protected readonly modelEnv = 'OPENAI_MODEL';
+}
+
+// Singleton instance
+let instance: OpenAIProvider | null = null;
+
+export function getOpenAIProvider(): OpenAIProvider {
+  if (!instance) {
+    instance = new OpenAIProvider();
+  }
+  return instance;
+}
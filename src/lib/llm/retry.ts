@@ -0,0 +1,165 @@
+import type { LLMOptions, LLMRetryConfig } from '@/types';
+
+const DEFAULT_RETRY_CONFIG: LLMRetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  timeoutMs: 180000, // Builder calls with 8000 max tokens can take a couple of minutes
+};
+
+// HTTP statuses worth retrying: request timeout, conflict, rate limit and server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 429]);
+
+// Network-level error codes worth retrying
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN']);
+
+/**
+ * Thrown when an attempt exceeds its deadline
+ */
+export class LLMTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} request timed out after ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * Retry policy from env (LLM_MAX_RETRIES, LLM_RETRY_BASE_DELAY_MS,
+ * LLM_RETRY_MAX_DELAY_MS, LLM_TIMEOUT_MS), with per-call overrides from LLMOptions
+ */
+export function resolveRetryConfig(options?: LLMOptions): LLMRetryConfig {
+  return {
+    maxRetries: options?.maxRetries ?? readEnvInt('LLM_MAX_RETRIES', DEFAULT_RETRY_CONFIG.maxRetries),
+    baseDelayMs: readEnvInt('LLM_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_CONFIG.baseDelayMs),
+    maxDelayMs: readEnvInt('LLM_RETRY_MAX_DELAY_MS', DEFAULT_RETRY_CONFIG.maxDelayMs),
+    timeoutMs: options?.timeoutMs ?? readEnvInt('LLM_TIMEOUT_MS', DEFAULT_RETRY_CONFIG.timeoutMs),
+  };
+}
+
+/**
+ * How one attempt of withRetry ended
+ */
+export interface AttemptOutcome<T> {
+  result?: T;
+  error?: unknown;
+  latencyMs: number;
+}
+
+/**
+ * Run an LLM call with a per-attempt deadline and exponential backoff on transient errors.
+ * Every attempt is logged and reported to `onAttempt`; non-retryable errors (auth, bad request,
+ * missing key) fail immediately.
+ */
+export async function withRetry<T>(
+  provider: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  config: LLMRetryConfig,
+  onAttempt?: (outcome: AttemptOutcome<T>) => void
+): Promise<T> {
+  const totalAttempts = config.maxRetries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    const startTime = Date.now();
+
+    try {
+      const result = await withTimeout(provider, call, config.timeoutMs);
+      const elapsed = Date.now() - startTime;
+      console.log(`[LLM] ${provider} attempt ${attempt}/${totalAttempts} succeeded in ${elapsed}ms`);
+      onAttempt?.({ result, latencyMs: elapsed });
+      return result;
+    } catch (error) {
+      const elapsed = Date.now() - startTime;
+      const retryable = isRetryableError(error);
+      onAttempt?.({ error, latencyMs: elapsed });
+
+      if (!retryable || attempt >= totalAttempts) {
+        console.error(
+          `[LLM] ${provider} attempt ${attempt}/${totalAttempts} failed after ${elapsed}ms (${describeError(error)})` +
+            (retryable ? ', giving up' : ', not retryable')
+        );
+        throw error;
+      }
+
+      const delay = getBackoffDelay(attempt, config, error);
+      console.warn(
+        `[LLM] ${provider} attempt ${attempt}/${totalAttempts} failed after ${elapsed}ms (${describeError(error)}), retrying in ${delay}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Whether an error is transient: 408/409/429/5xx, timeouts and connection failures
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) return true;
+  if (!error || typeof error !== 'object') return false;
+
+  const { status, code, name } = error as { status?: number; code?: string; name?: string };
+
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUSES.has(status) || status >= 500;
+  }
+  if (code && RETRYABLE_CODES.has(code)) return true;
+
+  // SDK connection errors (APIConnectionError, APIConnectionTimeoutError) carry no status
+  return !!name && /Connection|Timeout/.test(name);
+}
+
+async function withTimeout<T>(
+  provider: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  if (timeoutMs <= 0) {
+    return call(controller.signal);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new LLMTimeoutError(provider, timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+  });
+
+  try {
+    // Race as well as abort, in case the provider ignores the signal
+    return await Promise.race([call(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function getBackoffDelay(attempt: number, config: LLMRetryConfig, error: unknown): number {
+  const exponential = config.baseDelayMs * 2 ** (attempt - 1);
+  const jitter = Math.random() * config.baseDelayMs;
+  const retryAfter = getRetryAfterMs(error);
+  return Math.round(Math.min(Math.max(exponential + jitter, retryAfter), config.maxDelayMs));
+}
+
+/**
+ * Honour the Retry-After header on rate-limit responses (seconds)
+ */
+function getRetryAfterMs(error: unknown): number {
+  const headers = (error as { headers?: { get?: (name: string) => string | null } })?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : null;
+  const seconds = value ? parseFloat(value) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+}
+
+// SDK API errors already prefix the message with the HTTP status
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function readEnvInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,144 @@
+import { BaseLLMProvider, type LLMProvider } from './base';
+import type { AgentName, AgentModelRoute, AgentRouting, LLMOptions, LLMProviderName, LLMResponse } from '@/types';
+import { DEFAULT_AGENT_ROUTING, LLM_PROVIDERS } from '@/types';
+
+/**
+ * Wraps a provider so every call uses a fixed model
+ * unless the caller explicitly passes one
+ */
+class ModelBoundProvider extends BaseLLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly model: string
+  ) {
+    super();
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get isConfigured(): boolean {
+    return this.inner.isConfigured;
+  }
+
+  get defaultModel(): string {
+    return this.model;
+  }
+
+  // Retries and deadlines are applied by the wrapped provider
+  generateText(prompt: string, options?: LLMOptions): Promise<LLMResponse> {
+    return this.inner.generateText(prompt, { ...options, model: options?.model || this.model });
+  }
+
+  protected complete(prompt: string, options: LLMOptions): Promise<LLMResponse> {
+    return this.generateText(prompt, options);
+  }
+}
+
+/**
+ * Tries each provider in order until one succeeds.
+ * Each provider retries on its own first; unconfigured providers are skipped.
+ */
+class FallbackChainProvider extends BaseLLMProvider {
+  constructor(private readonly chain: LLMProvider[]) {
+    super();
+  }
+
+  get name(): string {
+    return this.chain[0].name;
+  }
+
+  get isConfigured(): boolean {
+    return this.chain.some(provider => provider.isConfigured);
+  }
+
+  get defaultModel(): string {
+    return this.chain[0].defaultModel;
+  }
+
+  async generateText(prompt: string, options?: LLMOptions): Promise<LLMResponse> {
+    let lastError: unknown;
+
+    for (let i = 0; i < this.chain.length; i++) {
+      const provider = this.chain[i];
+      const next = this.chain[i + 1];
+
+      if (!provider.isConfigured && next) {
+        console.warn(`[LLM] ${provider.name} is not configured, falling back to ${next.name}`);
+        continue;
+      }
+
+      try {
+        return await provider.generateText(prompt, options);
+      } catch (error) {
+        lastError = error;
+        if (next) {
+          console.warn(`[LLM] ${provider.name} failed (${error instanceof Error ? error.message : error}), falling back to ${next.name}`);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  protected complete(prompt: string, options: LLMOptions): Promise<LLMResponse> {
+    return this.generateText(prompt, options);
+  }
+}
+
+/**
+ * Resolve the provider/model route for an agent.
+ * Per-agent overrides win over DEFAULT_AGENT_ROUTING; unknown providers are ignored.
+ */
+export function resolveAgentRoute(agent: AgentName, routing?: AgentRouting): AgentModelRoute {
+  const override = routing?.[agent];
+  if (override?.provider && (LLM_PROVIDERS as readonly string[]).includes(override.provider)) {
+    return override;
+  }
+  return DEFAULT_AGENT_ROUTING[agent];
+}
+
+/**
+ * Fallback routes for an agent: the route's own list, else LLM_FALLBACK_PROVIDERS
+ * (comma-separated provider names). The primary provider is never repeated.
+ */
+export function resolveFallbackRoutes(route: AgentModelRoute): AgentModelRoute[] {
+  const fallbacks = route.fallbacks ?? parseFallbackProviders(process.env.LLM_FALLBACK_PROVIDERS);
+  return fallbacks.filter(
+    fallback =>
+      (LLM_PROVIDERS as readonly string[]).includes(fallback.provider) &&
+      !(fallback.provider === route.provider && fallback.model === route.model)
+  );
+}
+
+function parseFallbackProviders(value?: string): AgentModelRoute[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => ({ provider: name as LLMProviderName }));
+}
+
+/**
+ * Merge routing configs - later entries override earlier ones per agent
+ */
+export function mergeAgentRouting(...configs: (AgentRouting | undefined)[]): AgentRouting {
+  return configs.reduce<AgentRouting>((merged, config) => ({ ...merged, ...config }), {});
+}
+
+/**
+ * Bind a provider to a specific model
+ */
+export function bindModel(provider: LLMProvider, model: string): LLMProvider {
+  return new ModelBoundProvider(provider, model);
+}
+
+/**
+ * Chain providers so later ones are used when earlier ones fail
+ */
+export function withFallbacks(providers: LLMProvider[]): LLMProvider {
+  const chain = providers.filter((provider, index) => providers.indexOf(provider) === index);
+  return chain.length === 1 ? chain[0] : new FallbackChainProvider(chain);
+}
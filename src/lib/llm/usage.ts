@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { BaseLLMProvider, type LLMProvider } from './base';
+import { LLM_MODEL_PRICING } from '@/types';
+import type { AgentName, LLMAttempt, LLMOptions, LLMResponse, LLMUsageRecord, LLMUsageTotals } from '@/types';
+
+/**
+ * Usage collected for one request/job. Nested scopes share `records`
+ * and only differ in the variation they attribute calls to.
+ */
+interface UsageScope {
+  records: LLMUsageRecord[];
+  variationNumber?: number;
+}
+
+const usageStorage = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Records token usage, latency and cost of every attempt an agent's calls make
+ * (failed retries and fallbacks included) into the active usage scope
+ * (no-op outside trackLLMUsage)
+ */
+class UsageRecordingProvider extends BaseLLMProvider {
+  constructor(
+    private readonly agent: AgentName,
+    private readonly inner: LLMProvider
+  ) {
+    super();
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get isConfigured(): boolean {
+    return this.inner.isConfigured;
+  }
+
+  get defaultModel(): string {
+    return this.inner.defaultModel;
+  }
+
+  // Retries and deadlines are applied by the wrapped provider, which reports each attempt
+  async generateText(prompt: string, options?: LLMOptions): Promise<LLMResponse> {
+    const scope = usageStorage.getStore();
+    if (!scope) return this.inner.generateText(prompt, options);
+
+    return this.inner.generateText(prompt, {
+      ...options,
+      onAttempt: attempt => {
+        options?.onAttempt?.(attempt);
+        scope.records.push(usageRecord(this.agent, attempt, scope.variationNumber));
+      },
+    });
+  }
+
+  protected complete(prompt: string, options: LLMOptions): Promise<LLMResponse> {
+    return this.generateText(prompt, options);
+  }
+}
+
+/**
+ * Attribute a provider's calls to a pipeline agent
+ */
+export function recordAgentUsage(agent: AgentName, provider: LLMProvider): LLMProvider {
+  return new UsageRecordingProvider(agent, provider);
+}
+
+/**
+ * Run a pipeline and collect usage of every agent LLM call made inside it
+ */
+export function trackLLMUsage<T>(fn: () => Promise<T>): Promise<T> {
+  return usageStorage.run({ records: [] }, fn);
+}
+
+/**
+ * Attribute the calls made inside `fn` to a variation (builder, QA, repair)
+ */
+export function withVariationUsage<T>(variationNumber: number, fn: () => Promise<T>): Promise<T> {
+  const scope = usageStorage.getStore();
+  if (!scope) return fn();
+  return usageStorage.run({ records: scope.records, variationNumber }, fn);
+}
+
+/**
+ * Usage collected so far in the active scope
+ */
+export function getTrackedLLMUsage(): LLMUsageRecord[] {
+  return [...(usageStorage.getStore()?.records || [])];
+}
+
+/**
+ * Estimated cost in USD, using the longest matching model prefix in LLM_MODEL_PRICING
+ */
+export function estimateLLMCost(model: string, promptTokens: number, completionTokens: number): number {
+  const key = Object.keys(LLM_MODEL_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+
+  const pricing = LLM_MODEL_PRICING[key];
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Sum a list of usage records
+ */
+export function summarizeLLMUsage(records: Pick<LLMUsageRecord, 'promptTokens' | 'completionTokens' | 'totalTokens' | 'costUsd'>[]): LLMUsageTotals {
+  return records.reduce<LLMUsageTotals>(
+    (totals, record) => ({
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      totalTokens: totals.totalTokens + record.totalTokens,
+      costUsd: totals.costUsd + record.costUsd,
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 }
+  );
+}
+
+function usageRecord(agent: AgentName, attempt: LLMAttempt, variationNumber?: number): LLMUsageRecord {
+  const promptTokens = attempt.usage?.promptTokens ?? 0;
+  const completionTokens = attempt.usage?.completionTokens ?? 0;
+  return {
+    agent,
+    provider: attempt.provider,
+    model: attempt.model,
+    promptTokens,
+    completionTokens,
+    totalTokens: attempt.usage?.totalTokens ?? promptTokens + completionTokens,
+    latencyMs: attempt.latencyMs,
+    costUsd: attempt.provider === 'mock' ? 0 : estimateLLMCost(attempt.model, promptTokens, completionTokens),
+    variationNumber,
+  };
+}
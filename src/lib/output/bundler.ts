@@ -1,13 +1,15 @@
 import archiver from 'archiver';
 import { Writable } from 'stream';
-import type { GenerationResult } from '@/types';
+import { TRACKING_PLATFORM_LABELS, type GenerationResult, type TrackingConfig } from '@/types';
+import { trackingPixels, trackingEvents } from '@/lib/builder-agent/tracking-pixels';
 
 /**
  * Create a ZIP archive of generated variations
  */
 export async function createZipBundle(
   variations: GenerationResult[],
-  projectName: string
+  projectName: string,
+  tracking?: TrackingConfig
 ): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
@@ -52,7 +54,7 @@ export async function createZipBundle(
     }
 
     // Add project README
-    const readme = formatProjectReadme(variations, projectName);
+    const readme = formatProjectReadme(variations, projectName, tracking);
     archive.append(readme, { name: 'README.md' });
 
     // Finalize
@@ -108,7 +110,8 @@ function formatChangesAsMarkdown(variation: GenerationResult): string {
  */
 function formatProjectReadme(
   variations: GenerationResult[],
-  projectName: string
+  projectName: string,
+  tracking?: TrackingConfig
 ): string {
   return `# ${projectName}
 
@@ -120,7 +123,7 @@ ${variations.map((v, i) => {
   const folder = variations.length > 1 ? `variation-${v.variationNumber}/` : '';
   return `- **Variation ${v.variationNumber}**: \`${folder}index.html\` (${v.changes.length} changes)`;
 }).join('\n')}
-
+${formatTracking(tracking)}
 ## Quick Start
 
 1. Upload the contents of a variation folder to your web server
@@ -148,6 +151,29 @@ Powered by Adhoq Landing Page Builder
 `;
 }
 
+/**
+ * Format the project's tracking setup for the README (empty without pixels)
+ */
+function formatTracking(tracking?: TrackingConfig): string {
+  const pixels = trackingPixels(tracking);
+  if (pixels.length === 0) return '';
+
+  const events = trackingEvents(tracking);
+  const triggerLabel = (event: (typeof events)[number]) =>
+    event.trigger === 'step' ? `Step ${event.stepNumber} reached` : event.trigger === 'cta-click' ? 'CTA click' : 'Page view';
+
+  return `
+## Tracking
+
+Every variation loads these pixels:
+
+${pixels.map(pixel => `- ${TRACKING_PLATFORM_LABELS[pixel.platform]}${pixel.id ? `: \`${pixel.id}\`` : ''}`).join('\n')}
+
+${events.length > 0
+    ? `Events sent to each of them:\n\n${events.map(event => `- ${triggerLabel(event)} → \`${event.event}\``).join('\n')}\n`
+    : 'No LP events are mapped; the pixels record page views only.\n'}`;
+}
+
 /**
  * Create a single HTML file with inlined assets
  */
@@ -1,4 +1,5 @@
 import * as cheerio from 'cheerio';
+import sharp from 'sharp';
 
 const IMAGE_TIMEOUT_MS = 2000;
 const MAX_IMAGE_SIZE = 2 * 1024 * 1024; // 2MB
@@ -83,6 +84,7 @@ export async function embedExternalImages(html: string): Promise<string> {
     const src = $el.attr('src');
     if (src && urlMap.has(src) && urlMap.get(src) !== src) {
       $el.attr('src', urlMap.get(src)!);
+      $el.attr('data-embedded-from', src); // Lets lazyLoadImages() put it back on its URL
     }
   });
 
@@ -132,6 +134,87 @@ export async function embedExternalImages(html: string): Promise<string> {
   return $.html();
 }
 
+/**
+ * Re-encode the embedded images as WebP at most `maxWidth` wide, keeping each one only
+ * where it comes out smaller. SVG and GIF (vector/animated) are left as they are.
+ */
+export async function recompressEmbeddedImages(
+  html: string,
+  { maxWidth = 750, quality = 70 }: { maxWidth?: number; quality?: number } = {}
+): Promise<{ html: string; recompressed: number; savedBytes: number }> {
+  const dataUris = new Set(html.match(/data:image\/(?:png|jpe?g|webp|avif|tiff);base64,[A-Za-z0-9+/=]+/g) || []);
+  let fixed = html;
+  let recompressed = 0;
+  let savedBytes = 0;
+
+  for (const dataUri of dataUris) {
+    try {
+      const input = Buffer.from(dataUri.slice(dataUri.indexOf(',') + 1), 'base64');
+      const output = await sharp(input)
+        .resize({ width: maxWidth, withoutEnlargement: true })
+        .webp({ quality })
+        .toBuffer();
+      const smaller = `data:image/webp;base64,${output.toString('base64')}`;
+      if (smaller.length < dataUri.length) {
+        fixed = fixed.split(dataUri).join(smaller);
+        recompressed++;
+        savedBytes += dataUri.length - smaller.length;
+      }
+    } catch (error) {
+      console.warn('Image embedder: could not recompress an embedded image:', error);
+    }
+  }
+
+  if (recompressed > 0) {
+    console.log(`Image embedder: recompressed ${recompressed} image(s), ${Math.round(savedBytes / 1024)} KB saved`);
+  }
+  return { html: fixed, recompressed, savedBytes };
+}
+
+/**
+ * Put the embedded images below the first step back on their original URLs and
+ * let the browser load them (and any other image down there) lazily, so only what
+ * the visitor sees first is inside the HTML
+ */
+export function lazyLoadImages(html: string): { html: string; unembedded: number; lazy: number } {
+  const $ = cheerio.load(html);
+  const firstStep = $('.step').first();
+  let unembedded = 0;
+  let lazy = 0;
+
+  $('img').each((index, el) => {
+    const $el = $(el);
+    const aboveTheFold = firstStep.length > 0 ? $el.parents().is(firstStep) : index === 0;
+    if (aboveTheFold) return;
+
+    const original = $el.attr('data-embedded-from');
+    if (original) {
+      $el.attr('src', original);
+      $el.removeAttr('data-embedded-from');
+      unembedded++;
+    }
+    if (isExternalUrl($el.attr('src') || '') && $el.attr('loading') !== 'lazy') {
+      $el.attr('loading', 'lazy');
+      $el.attr('decoding', 'async');
+      lazy++;
+    }
+  });
+
+  return { html: unembedded + lazy > 0 ? $.html() : html, unembedded, lazy };
+}
+
+/**
+ * Drop the `data-embedded-from` markers once nothing needs them any more, so
+ * published pages don't carry the original image URLs
+ */
+export function stripEmbedMarkers(html: string): string {
+  const $ = cheerio.load(html);
+  const marked = $('[data-embedded-from]');
+  if (marked.length === 0) return html;
+  marked.removeAttr('data-embedded-from');
+  return $.html();
+}
+
 function isExternalUrl(url: string): boolean {
   return url.startsWith('http://') || url.startsWith('https://');
 }
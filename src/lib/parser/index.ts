@@ -1,6 +1,14 @@
 export { scrapeLandingPageFromUrl, parseHtmlContent } from './url-scraper';
 export { parseHtmlFile, parseZipFile, parseMultipleFiles } from './file-parser';
-export { detectLinks } from './link-detector';
+export {
+  detectLinks,
+  detectTracker,
+  findUrlMacros,
+  findMacroUrls,
+  restoreUrls,
+  resolveRedirectChain,
+  resolveLinkRedirects,
+} from './link-detector';
 export { detectTrackingCodes } from './tracking-detector';
 export { extractTextBlocks } from './text-extractor';
 export { extractForms } from './form-extractor';
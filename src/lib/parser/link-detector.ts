@@ -1,7 +1,7 @@
 import * as cheerio from 'cheerio';
 import type { Element } from 'domhandler';
 import { v4 as uuidv4 } from 'uuid';
-import type { DetectedLink } from '@/types';
+import { CLICK_ID_PARAMS, type DetectedLink } from '@/types';
 
 // Known affiliate network domains
 const AFFILIATE_DOMAINS = [
@@ -27,12 +27,31 @@ const AFFILIATE_DOMAINS = [
 const TRACKING_PARAMS = [
   'ref', 'aff', 'aid', 'affid', 'affiliate',
   'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
-  'gclid', 'fbclid', 'msclkid', 'ttclid',
-  'click_id', 'clickid', 'subid', 'sub_id',
+  ...CLICK_ID_PARAMS,
   'source', 'src', 'campaign', 'cid',
   'hop', 'vendor', 'aff_id',
 ];
 
+// Self-hosted and SaaS trackers (click URLs carry the macros the tracker fills in)
+const TRACKERS: { name: string; pattern: RegExp }[] = [
+  { name: 'Voluum', pattern: /voluumtrk\d*\.com|\.voluum\.com|vlmtrk\./i },
+  { name: 'RedTrack', pattern: /\.rdtk\.io|redtrack\.io/i },
+  { name: 'Binom', pattern: /\/click\.php\?(?:[^#]*&)?(?:lp|key)=|binom/i },
+  { name: 'Keitaro', pattern: /keitaro|\/click_api\/|[?&]_token=/i },
+  { name: 'BeMob', pattern: /bemob(?:trk)?\.com/i },
+  { name: 'ClickMagick', pattern: /clkmg\.com|clkmr\.com|clickmagick/i },
+  { name: 'FunnelFlux', pattern: /funnelflux|fluxtrk/i },
+  { name: 'ThriveTracker', pattern: /thrivetracker|\/tr\/click\b/i },
+  { name: 'Everflow', pattern: /everflow\.io|eflow\.team|[?&]oid=\d+&affid=/i },
+  { name: 'TUNE', pattern: /go2cloud\.org|hasoffers|\/aff_c\?offer_id=/i },
+];
+
+// Macro placeholders the tracker replaces: {clickid}, {{sub1}}, [SUBID]
+const URL_MACRO_PATTERN = /\{\{\s*[\w.-]+\s*\}\}|\{[\w.-]+\}|\[[A-Z][A-Z0-9_.-]*\]/g;
+
+// Link types whose redirect chain leads to the offer
+const OUTGOING_TYPES: DetectedLink['type'][] = ['cta', 'tracking', 'affiliate', 'redirect'];
+
 // Redirect service domains
 const REDIRECT_DOMAINS = [
   'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly',
@@ -57,6 +76,8 @@ export function detectLinks($: cheerio.CheerioAPI, baseUrl: string): DetectedLin
     const anchorText = $el.text().trim();
     const selector = generateLinkSelector($, el);
     const detection = analyzeLink(url, $el, baseUrl);
+    const tracker = detectTracker(url);
+    const macros = findUrlMacros(url);
 
     links.push({
       id: uuidv4(),
@@ -66,6 +87,8 @@ export function detectLinks($: cheerio.CheerioAPI, baseUrl: string): DetectedLin
       selector,
       confidence: detection.confidence,
       detectionReason: reason || detection.reason,
+      ...(tracker && { tracker }),
+      ...(macros.length > 0 && { macros }),
     });
   };
 
@@ -186,6 +209,12 @@ function analyzeLink(
     return { type: 'affiliate', confidence: affiliateCheck.confidence, reason: affiliateCheck.reason };
   }
 
+  // Check for tracker click URLs
+  const trackerCheck = checkTracker(href);
+  if (trackerCheck.isTracker) {
+    return { type: 'tracking', confidence: trackerCheck.confidence, reason: trackerCheck.reason };
+  }
+
   // Check for redirect/shortener services
   const redirectCheck = checkRedirect(href);
   if (redirectCheck.isRedirect) {
@@ -318,6 +347,37 @@ function checkRedirect(href: string): { isRedirect: boolean; confidence: number;
   return { isRedirect: false, confidence: 0, reason: '' };
 }
 
+/**
+ * Check for a known tracker or tracker macros
+ */
+function checkTracker(href: string): { isTracker: boolean; confidence: number; reason: string } {
+  const tracker = detectTracker(href);
+  if (tracker) {
+    return { isTracker: true, confidence: 0.9, reason: `Tracker URL: ${tracker}` };
+  }
+
+  const macros = findUrlMacros(href);
+  if (macros.length > 0) {
+    return { isTracker: true, confidence: 0.8, reason: `Tracker macros: ${macros.join(', ')}` };
+  }
+
+  return { isTracker: false, confidence: 0, reason: '' };
+}
+
+/**
+ * The tracker a click URL belongs to (Voluum, RedTrack, Binom, Keitaro, ...), if known
+ */
+export function detectTracker(url: string): string | undefined {
+  return TRACKERS.find(tracker => tracker.pattern.test(url))?.name;
+}
+
+/**
+ * Macro placeholders in a URL, e.g. ['{clickid}', '{{sub1}}', '[SUBID]']
+ */
+export function findUrlMacros(url: string): string[] {
+  return [...new Set(url.match(URL_MACRO_PATTERN) || [])];
+}
+
 /**
  * Check for tracking parameters
  */
@@ -372,3 +432,127 @@ function generateLinkSelector($: cheerio.CheerioAPI, el: Element): string {
 
   return 'a';
 }
+
+export interface RedirectChain {
+  chain: string[];   // Every URL visited, the original first
+  finalUrl: string;
+  error?: string;    // Why resolving stopped early (the chain so far is kept)
+}
+
+/**
+ * Follow a URL's redirects one hop at a time (HTTP 3xx Location, then meta refresh),
+ * without loading the final page's assets
+ */
+export async function resolveRedirectChain(
+  url: string,
+  options: { maxHops?: number; timeoutMs?: number } = {}
+): Promise<RedirectChain> {
+  const { maxHops = 10, timeoutMs = 5000 } = options;
+  const chain = [url];
+
+  try {
+    while (chain.length <= maxHops) {
+      const current = chain[chain.length - 1];
+      const response = await fetch(current, {
+        redirect: 'manual',
+        headers: { 'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36' },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      let next = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+      if (!next && response.ok && (response.headers.get('content-type') || '').includes('text/html')) {
+        const html = await response.text();
+        next = html.match(/<meta[^>]+http-equiv=["']?refresh["']?[^>]*content=["']?\s*\d+\s*;\s*url=['"]?([^"'>\s]+)/i)?.[1] || null;
+      } else {
+        await response.body?.cancel();
+      }
+
+      if (!next) {
+        return { chain, finalUrl: current };
+      }
+      const nextUrl = new URL(next, current).toString();
+      if (chain.includes(nextUrl)) {
+        return { chain, finalUrl: current, error: `Redirect loop back to ${nextUrl}` };
+      }
+      chain.push(nextUrl);
+    }
+    return { chain, finalUrl: chain[chain.length - 1], error: `More than ${maxHops} redirects` };
+  } catch (error) {
+    return { chain, finalUrl: chain[chain.length - 1], error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Resolve the redirect chains of a page's outgoing links (CTA, tracking, affiliate,
+ * redirect) and record where each one ends. Links are resolved one at a time and
+ * each URL only once.
+ */
+export async function resolveLinkRedirects(
+  links: DetectedLink[],
+  options: { maxHops?: number; timeoutMs?: number } = {}
+): Promise<DetectedLink[]> {
+  const resolved = new Map<string, RedirectChain>();
+  const result: DetectedLink[] = [];
+
+  for (const link of links) {
+    if (!OUTGOING_TYPES.includes(link.type) || !/^https?:\/\//i.test(link.originalUrl)) {
+      result.push(link);
+      continue;
+    }
+
+    const redirects = resolved.get(link.originalUrl) || await resolveRedirectChain(link.originalUrl, options);
+    resolved.set(link.originalUrl, redirects);
+    if (redirects.chain.length > 1) {
+      result.push({
+        ...link,
+        redirectChain: redirects.chain.slice(1),
+        // A chain that broke off doesn't say where the offer is
+        ...(!redirects.error && { finalDomain: new URL(redirects.finalUrl).hostname }),
+      });
+    } else {
+      result.push(link);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * URLs in a page that carry tracker macros (the ones an LLM stage is most likely to mangle)
+ */
+export function findMacroUrls(html: string): string[] {
+  const urls = (html.match(/https?:\/\/[^\s"'<>`\\)]+/g) || []).map(url => url.replace(/&amp;/g, '&'));
+  return [...new Set(urls.filter(url => findUrlMacros(url).length > 0))];
+}
+
+/**
+ * Put the exact text of the given URLs back after an LLM stage: a URL in the HTML with
+ * the same origin and path as one of them but different text (macros re-encoded,
+ * dropped or filled in) is replaced by it. Paths shared by several of the URLs are left
+ * alone, since there is no telling which one was meant.
+ */
+export function restoreUrls(html: string, urls: string[]): string {
+  const byKey = new Map<string, string[]>();
+  for (const url of new Set(urls)) {
+    const key = urlKey(url);
+    if (key) byKey.set(key, [...(byKey.get(key) || []), url]);
+  }
+  if (byKey.size === 0) return html;
+
+  return html.replace(/https?:\/\/[^\s"'<>`\\)]+/g, candidate => {
+    const text = candidate.replace(/&amp;/g, '&');
+    const matches = byKey.get(urlKey(text) || '');
+    if (!matches || matches.length !== 1 || matches.includes(text)) return candidate;
+    return matches[0];
+  });
+}
+
+// origin + path, the part of a URL an LLM leaves alone
+function urlKey(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.origin + decodeURIComponent(parsed.pathname);
+  } catch {
+    return null;
+  }
+}
@@ -3,12 +3,14 @@ import { v4 as uuidv4 } from 'uuid';
 import type { TrackingCode } from '@/types';
 
 /**
- * Patterns for detecting various tracking codes
+ * Patterns for detecting various tracking codes. `ids` and `events` capture (group 1)
+ * the account/pixel/container IDs and the events fired, for ID-level replacement.
  */
 const TRACKING_PATTERNS: {
   type: TrackingCode['type'];
   patterns: RegExp[];
-  extractor?: (match: RegExpMatchArray, fullCode: string) => string;
+  ids?: RegExp[];
+  events?: RegExp[];
 }[] = [
   {
     type: 'facebook-pixel',
@@ -18,6 +20,8 @@ const TRACKING_PATTERNS: {
       /facebook\.com\/tr\?/i,
       /fbq\s*\(/i,
     ],
+    ids: [/fbq\s*\(\s*['"]init['"]\s*,\s*['"](\d+)['"]/g, /facebook\.com\/tr\/?\?[^"'\s>]*?\bid=(\d+)/g],
+    events: [/fbq\s*\(\s*['"]track(?:Custom)?['"]\s*,\s*['"]([^'"]+)['"]/g, /facebook\.com\/tr\/?\?[^"'\s>]*?\bev=([\w-]+)/g],
   },
   {
     type: 'google-analytics',
@@ -29,6 +33,17 @@ const TRACKING_PATTERNS: {
       /ga\s*\(\s*['"]create['"]/i,
       /_gaq\.push/i,
     ],
+    ids: [/\b(G-[A-Z0-9]{6,}|UA-\d{4,}-\d+)\b/g],
+    events: [/gtag\s*\(\s*['"]event['"]\s*,\s*['"]([^'"]+)['"]/g],
+  },
+  {
+    type: 'google-ads',
+    patterns: [
+      /gtag\s*\(\s*['"]config['"]\s*,\s*['"]AW-/i,
+      /googleadservices\.com\/pagead\/conversion/i,
+    ],
+    ids: [/\b(AW-\d+)\b/g],
+    events: [/gtag\s*\(\s*['"]event['"]\s*,\s*['"]([^'"]+)['"]/g],
   },
   {
     type: 'google-tag-manager',
@@ -37,6 +52,8 @@ const TRACKING_PATTERNS: {
       /GTM-[A-Z0-9]+/i,
       /gtm\.start/i,
     ],
+    ids: [/\b(GTM-[A-Z0-9]{4,})\b/g],
+    events: [/dataLayer\.push\(\s*\{[^}]*?['"]?event['"]?\s*:\s*['"]((?!gtm\.)[^'"]+)['"]/g],
   },
   {
     type: 'tiktok-pixel',
@@ -45,6 +62,74 @@ const TRACKING_PATTERNS: {
       /analytics\.tiktok\.com/i,
       /ttq\s*\(/i,
     ],
+    ids: [/ttq\.load\s*\(\s*['"]([A-Z0-9]+)['"]/gi],
+    events: [/ttq\.track\s*\(\s*['"]([^'"]+)['"]/g, /ttq\.(page)\s*\(/g],
+  },
+  {
+    type: 'snap-pixel',
+    patterns: [/snaptr\s*\(/i, /sc-static\.net\/scevent\.min\.js/i, /tr\.snapchat\.com/i],
+    ids: [/snaptr\s*\(\s*['"]init['"]\s*,\s*['"]([\w-]+)['"]/g],
+    events: [/snaptr\s*\(\s*['"]track['"]\s*,\s*['"]([^'"]+)['"]/g],
+  },
+  {
+    type: 'twitter-pixel',
+    patterns: [/static\.ads-twitter\.com\/uwt\.js/i, /twq\s*\(/i, /analytics\.twitter\.com/i, /t\.co\/i\/adsct/i],
+    ids: [/twq\s*\(\s*['"](?:init|config)['"]\s*,\s*['"]([\w-]+)['"]/g, /(?:t\.co\/i\/adsct|analytics\.twitter\.com\/i\/adsct)\?[^"'\s>]*?\btxn_id=([\w-]+)/g],
+    events: [/twq\s*\(\s*['"](?:track|event)['"]\s*,\s*['"]([^'"]+)['"]/g],
+  },
+  {
+    type: 'pinterest-tag',
+    patterns: [/pintrk\s*\(/i, /s\.pinimg\.com\/ct\/core\.js/i, /ct\.pinterest\.com/i],
+    ids: [/pintrk\s*\(\s*['"]load['"]\s*,\s*['"](\d+)['"]/g, /ct\.pinterest\.com\/v3\/?\?[^"'\s>]*?\btid=(\d+)/g],
+    events: [/pintrk\s*\(\s*['"]track['"]\s*,\s*['"]([^'"]+)['"]/g, /ct\.pinterest\.com\/v3\/?\?[^"'\s>]*?\bevent=([\w-]+)/g],
+  },
+  {
+    type: 'reddit-pixel',
+    patterns: [/rdt\s*\(\s*['"]/i, /redditstatic\.com\/ads\/pixel\.js/i, /alb\.reddit\.com/i],
+    ids: [/rdt\s*\(\s*['"]init['"]\s*,\s*['"]([\w-]+)['"]/g, /alb\.reddit\.com\/[^"'\s>]*?\bid=([\w-]+)/g],
+    events: [/rdt\s*\(\s*['"]track['"]\s*,\s*['"]([^'"]+)['"]/g],
+  },
+  {
+    type: 'microsoft-uet',
+    patterns: [/bat\.bing\.com/i, /uetq/i],
+    ids: [/\bti\s*:\s*['"]?(\d+)/g, /bat\.bing\.com\/action\/0\?[^"'\s>]*?\bti=(\d+)/g],
+    events: [/uetq\.push\(\s*['"]event['"]\s*,\s*['"]([^'"]+)['"]/g],
+  },
+  {
+    type: 'quora-pixel',
+    patterns: [/qp\s*\(\s*['"]init['"]/i, /a\.quora\.com\/qevents\.js/i, /q\.quora\.com/i],
+    ids: [/qp\s*\(\s*['"]init['"]\s*,\s*['"](\w+)['"]/g, /q\.quora\.com\/_\/ad\/(\w+)\//g],
+    events: [/qp\s*\(\s*['"]track['"]\s*,\s*['"]([^'"]+)['"]/g],
+  },
+  // Native ad networks
+  {
+    type: 'taboola-pixel',
+    patterns: [/_tfa\.push/i, /cdn\.taboola\.com\/libtrc\/unip/i, /trc\.taboola\.com/i],
+    ids: [/_tfa\.push\(\s*\{[^}]*?\bid\s*:\s*['"]?(\d+)/g, /libtrc\/unip\/(\d+)\/tfa\.js/g, /trc\.taboola\.com\/(\d+)\/log/g],
+    events: [/_tfa\.push\(\s*\{[^}]*?\bname\s*:\s*['"]([^'"]+)['"]/g],
+  },
+  {
+    type: 'outbrain-pixel',
+    patterns: [/obApi\s*\(/i, /amplify\.outbrain\.com\/cp\/obtp\.js/i, /tr\.outbrain\.com/i],
+    ids: [/OB_ADV_ID\s*=\s*['"]([\w-]+)['"]/g, /tr\.outbrain\.com\/[^"'\s>]*?\bmarketerId=([\w-]+)/g],
+    events: [/obApi\s*\(\s*['"]track['"]\s*,\s*['"]([^'"]+)['"]/g, /tr\.outbrain\.com\/[^"'\s>]*?\bname=([\w-]+)/g],
+  },
+  {
+    type: 'mgid-pixel',
+    patterns: [/_mgq\.push/i, /\.mgid\.com/i],
+    ids: [/\.mgid\.com\/[^"'\s>]*?\b(?:cid|id)=(\d+)/g],
+    events: [/_mgq\.push\(\s*\[\s*['"]MgSensorInvoke['"]\s*,\s*['"]([^'"]+)['"]/g],
+  },
+  {
+    type: 'revcontent-pixel',
+    patterns: [/revcontent\.com/i],
+    ids: [/revcontent\.com\/[^"'\s>]*?\b(?:id|t)=([\w-]+)/g],
+  },
+  {
+    type: 'yahoo-dot',
+    patterns: [/s\.yimg\.com\/wi\/ytc\.js/i, /YAHOO\.ywa/i, /dotq\.push/i, /sp\.analytics\.yahoo\.com/i],
+    ids: [/['"]?\b(?:pixelId|projectId)['"]?\s*:\s*['"](\d+)['"]/g, /sp\.analytics\.yahoo\.com\/[^"'\s>]*?\b(?:\.yp|pixelId)=(\d+)/g],
+    events: [/dotq\.push\(\s*\{[^}]*?['"]?ea['"]?\s*:\s*['"]([^'"]+)['"]/g],
   },
   {
     type: 'custom',
@@ -68,6 +153,42 @@ const TRACKING_PATTERNS: {
   },
 ];
 
+/**
+ * Whether a snippet (script, noscript, pixel URL) belongs to a tracking platform
+ */
+export function matchesTrackingType(code: string, type: TrackingCode['type']): boolean {
+  const tracker = TRACKING_PATTERNS.find(t => t.type === type);
+  return !!tracker && tracker.patterns.some(pattern => pattern.test(code));
+}
+
+/**
+ * The account/pixel/container IDs and the events in a platform's snippet
+ */
+export function extractTrackingDetails(code: string, type: TrackingCode['type']): Pick<TrackingCode, 'ids' | 'events'> {
+  const tracker = TRACKING_PATTERNS.find(t => t.type === type);
+  const collect = (patterns: RegExp[] = []) =>
+    [...new Set(patterns.flatMap(pattern => [...code.matchAll(pattern)].map(match => match[1])))];
+
+  const ids = collect(tracker?.ids);
+  const events = collect(tracker?.events);
+  return {
+    ...(ids.length > 0 && { ids }),
+    ...(events.length > 0 && { events }),
+  };
+}
+
+/**
+ * The platform a snippet belongs to (the first that matches; undefined for non-tracking code)
+ */
+export function findTrackingType(code: string): TrackingCode['type'] | undefined {
+  return TRACKING_PATTERNS.find(t => t.patterns.some(pattern => pattern.test(code)))?.type;
+}
+
+// The platform of a pixel image / noscript fallback (the catch-all list doesn't count)
+function findPixelPlatform(code: string): TrackingCode['type'] | undefined {
+  return TRACKING_PATTERNS.find(t => t.type !== 'custom' && t.patterns.some(pattern => pattern.test(code)))?.type;
+}
+
 /**
  * Detect tracking codes and pixels in the HTML
  */
@@ -92,15 +213,17 @@ export function detectTrackingCodes($: cheerio.CheerioAPI): TrackingCode[] {
           seenCodes.add(codeHash);
 
           // Determine selector
+          const details = extractTrackingDetails(fullCode, tracker.type);
           const selector = src
             ? `script[src*="${extractDomainFromUrl(src)}"]`
-            : `script:contains("${extractIdentifier(inlineCode, tracker.type)}")`;
+            : `script:contains("${details.ids?.[0] || extractIdentifier(inlineCode)}")`;
 
           trackingCodes.push({
             id: uuidv4(),
             type: tracker.type,
             code: src || inlineCode.substring(0, 500),
             selector,
+            ...details,
             shouldRemove: false,
             shouldReplace: false,
           });
@@ -115,24 +238,25 @@ export function detectTrackingCodes($: cheerio.CheerioAPI): TrackingCode[] {
     const $el = $(el);
     const content = $el.html() || '';
 
-    // Facebook pixel noscript fallback
-    if (/facebook\.com\/tr\?/.test(content)) {
-      const codeHash = `facebook-pixel-noscript`;
+    // Pixel fallbacks of a known platform (Facebook, GTM, Snap, Pinterest, ...)
+    const platform = findPixelPlatform(content);
+    if (platform) {
+      const codeHash = `${platform}-noscript`;
       if (!seenCodes.has(codeHash)) {
         seenCodes.add(codeHash);
+        const details = extractTrackingDetails(content, platform);
         trackingCodes.push({
           id: uuidv4(),
-          type: 'facebook-pixel',
+          type: platform,
           code: content.substring(0, 500),
-          selector: 'noscript:contains("facebook.com/tr")',
+          selector: `noscript:contains("${details.ids?.[0] || extractDomainFromUrl(content)}")`,
+          ...details,
           shouldRemove: false,
           shouldReplace: false,
         });
       }
-    }
-
-    // Generic tracking pixel images
-    if (/\?id=|pixel|track|analytics/i.test(content)) {
+    } else if (/\?id=|pixel|track|analytics/i.test(content)) {
+      // Generic tracking pixel images
       const codeHash = `other-noscript-${content.substring(0, 50)}`;
       if (!seenCodes.has(codeHash)) {
         seenCodes.add(codeHash);
@@ -160,15 +284,17 @@ export function detectTrackingCodes($: cheerio.CheerioAPI): TrackingCode[] {
       (width === '1' && height === '1') ||
       (width === '0' && height === '0') ||
       /pixel|track|beacon/i.test(src) ||
-      /facebook\.com\/tr\?/.test(src);
+      !!findPixelPlatform(src);
 
     if (isTrackingPixel && !seenCodes.has(src)) {
       seenCodes.add(src);
+      const platform = findPixelPlatform(src);
       trackingCodes.push({
         id: uuidv4(),
-        type: 'other',
+        type: platform || 'other',
         code: src,
         selector: `img[src*="${extractDomainFromUrl(src)}"]`,
+        ...(platform && extractTrackingDetails(src, platform)),
         shouldRemove: false,
         shouldReplace: false,
       });
@@ -224,23 +350,9 @@ function extractDomainFromUrl(url: string): string {
 }
 
 /**
- * Extract a unique identifier from inline code
+ * Extract a unique identifier from inline code without a known ID
  */
-function extractIdentifier(code: string, type: TrackingCode['type']): string {
-  // Try to find tracking IDs
-  const patterns: Record<string, RegExp> = {
-    'facebook-pixel': /fbq\s*\(\s*['"]init['"]\s*,\s*['"](\d+)['"]/,
-    'google-analytics': /['"]([UG]A?-[A-Z0-9-]+)['"]/,
-    'google-tag-manager': /(GTM-[A-Z0-9]+)/,
-    'tiktok-pixel': /ttq\.load\s*\(\s*['"]([^'"]+)['"]/,
-  };
-
-  const pattern = patterns[type];
-  if (pattern) {
-    const match = code.match(pattern);
-    if (match) return match[1];
-  }
-
-  // Fallback to first 30 chars
-  return code.replace(/[\n\r\s]+/g, ' ').substring(0, 30);
+function extractIdentifier(code: string): string {
+  // Up to the first quote, which would end the :contains("...") selector
+  return code.replace(/[\n\r\s]+/g, ' ').substring(0, 30).split(/["\\]/)[0];
 }
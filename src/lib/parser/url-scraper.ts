@@ -3,7 +3,7 @@ import type { Element } from 'domhandler';
 import { v4 as uuidv4 } from 'uuid';
 import type { ParsedLandingPage, Asset } from '@/types';
 import { extractTextBlocks } from './text-extractor';
-import { detectLinks } from './link-detector';
+import { detectLinks, resolveLinkRedirects } from './link-detector';
 import { detectTrackingCodes } from './tracking-detector';
 import { extractForms } from './form-extractor';
 
@@ -11,7 +11,10 @@ import { extractForms } from './form-extractor';
  * Scrape and parse a landing page from a URL
  * Downloads and inlines CSS/JS for self-contained output
  */
-export async function scrapeLandingPageFromUrl(url: string): Promise<ParsedLandingPage> {
+export async function scrapeLandingPageFromUrl(
+  url: string,
+  options: { resolveRedirects?: boolean } = {}
+): Promise<ParsedLandingPage> {
   // Fetch the HTML
   const response = await fetch(url, {
     headers: {
@@ -33,7 +36,7 @@ export async function scrapeLandingPageFromUrl(url: string): Promise<ParsedLandi
   pathParts.pop(); // Remove last segment (file or empty)
   const baseUrl = urlObj.origin + pathParts.join('/');
 
-  return parseHtmlContent(html, { sourceUrl: url, resolvedUrl, baseUrl, fetchAssets: true });
+  return parseHtmlContent(html, { sourceUrl: url, resolvedUrl, baseUrl, fetchAssets: true, resolveRedirects: options.resolveRedirects });
 }
 
 /**
@@ -41,7 +44,14 @@ export async function scrapeLandingPageFromUrl(url: string): Promise<ParsedLandi
  */
 export async function parseHtmlContent(
   html: string,
-  options: { sourceUrl?: string; resolvedUrl?: string; sourceFileName?: string; baseUrl?: string; fetchAssets?: boolean }
+  options: {
+    sourceUrl?: string;
+    resolvedUrl?: string;
+    sourceFileName?: string;
+    baseUrl?: string;
+    fetchAssets?: boolean;
+    resolveRedirects?: boolean; // Follow outgoing links to their final offer domain (network, slow)
+  }
 ): Promise<ParsedLandingPage> {
   const $ = cheerio.load(html);
   const baseUrl = options.baseUrl || '';
@@ -67,7 +77,8 @@ export async function parseHtmlContent(
   const textContent = extractTextBlocks($);
 
   // Detect links
-  const links = detectLinks($, baseUrl);
+  const detectedLinks = detectLinks($, baseUrl);
+  const links = options.resolveRedirects ? await resolveLinkRedirects(detectedLinks) : detectedLinks;
 
   // Detect tracking codes
   const trackingCodes = detectTrackingCodes($);
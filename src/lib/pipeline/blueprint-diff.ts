@@ -0,0 +1,87 @@
+import type { LPBlueprint } from '@/lib/agents';
+
+/**
+ * One changed field between two blueprints, e.g. `sections[step 2].elements[0].content`
+ */
+export interface BlueprintChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+type FlatBlueprint = Map<string, string>;
+
+// Differ on every run, or handled separately (sections)
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'sections']);
+
+/**
+ * Field-level diff of two blueprints. Sections are matched by step number,
+ * everything else by key/index; ids and timestamps are ignored.
+ */
+export function diffBlueprints(before: LPBlueprint, after: LPBlueprint): BlueprintChange[] {
+  const a = flattenBlueprint(before);
+  const b = flattenBlueprint(after);
+  const changes: BlueprintChange[] = [];
+
+  for (const [path, value] of a) {
+    if (!b.has(path)) {
+      changes.push({ path, type: 'removed', before: value });
+    } else if (b.get(path) !== value) {
+      changes.push({ path, type: 'changed', before: value, after: b.get(path) });
+    }
+  }
+  for (const [path, value] of b) {
+    if (!a.has(path)) {
+      changes.push({ path, type: 'added', after: value });
+    }
+  }
+
+  // Top-level fields first, then sections by step (stable, so field order is kept)
+  return changes.sort((x, y) => stepOf(x.path) - stepOf(y.path));
+}
+
+function flattenBlueprint(blueprint: LPBlueprint): FlatBlueprint {
+  const out: FlatBlueprint = new Map();
+
+  for (const [key, value] of Object.entries(blueprint)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    flattenValue(value, key, out);
+  }
+  for (const section of blueprint.sections || []) {
+    for (const [key, value] of Object.entries(section)) {
+      if (key === 'stepNumber') continue;
+      flattenValue(value, `sections[step ${section.stepNumber}].${key}`, out);
+    }
+  }
+
+  return out;
+}
+
+function flattenValue(value: unknown, path: string, out: FlatBlueprint) {
+  if (value === undefined || value === null) return;
+
+  if (Array.isArray(value)) {
+    // Lists of plain values (e.g. urgency tactics) compare as one field
+    if (value.every(item => typeof item !== 'object' || item === null)) {
+      out.set(path, value.join(', '));
+      return;
+    }
+    value.forEach((item, index) => flattenValue(item, `${path}[${index}]`, out));
+    return;
+  }
+
+  if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      flattenValue(child, path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+
+  out.set(path, String(value));
+}
+
+function stepOf(path: string): number {
+  const match = path.match(/^sections\[step (\d+)\]/);
+  return match ? parseInt(match[1], 10) : 0;
+}
@@ -0,0 +1,282 @@
+import { generateBuilderPromptFromBlueprint } from '@/lib/agents';
+import type { LPBlueprint, BlueprintSection, BlueprintElement, BlueprintSectionType, BlueprintBranch } from '@/lib/agents';
+import type { ComponentAnalysis } from '@/types/component-analysis';
+import { validateAnswerParams } from '@/lib/builder-agent/answer-params';
+
+const SECTION_TYPES: readonly BlueprintSectionType[] = ['hook', 'quiz', 'cta'];
+
+const ELEMENT_TYPES: readonly BlueprintElement['type'][] = [
+  'headline', 'subheadline', 'image', 'text', 'button', 'options', 'progress', 'countdown', 'scarcity', 'social-proof',
+];
+
+const TRANSITION_ACTIONS: readonly BlueprintSection['transition']['action'][] = ['next-step', 'redirect'];
+
+const BRANCH_ACTIONS: readonly BlueprintBranch['action'][] = ['go-to-step', 'redirect'];
+
+const VERTICALS: readonly LPBlueprint['vertical'][] = ['adult', 'casual', 'mainstream'];
+
+const PALETTE_KEYS = ['primary', 'secondary', 'accent', 'background', 'text'] as const;
+
+const MAX_SECTIONS = 12;
+
+/**
+ * Check a user-supplied (edited) blueprint against the LPBlueprint shape.
+ * Returns the problems found, empty if the blueprint can be built.
+ */
+export function validateBlueprint(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return ['Blueprint must be an object'];
+  }
+
+  if (!VERTICALS.includes(value.vertical as LPBlueprint['vertical'])) {
+    errors.push(`vertical must be one of ${VERTICALS.join(', ')}`);
+  }
+  requireString(value, 'tone', 'tone', errors);
+  requireString(value, 'targetAudience', 'targetAudience', errors);
+
+  // Sections
+  const sections = value.sections;
+  if (!Array.isArray(sections) || sections.length < 2) {
+    errors.push('sections must list at least a hook and a CTA step');
+  } else {
+    if (sections.length > MAX_SECTIONS) {
+      errors.push(`sections can have at most ${MAX_SECTIONS} steps`);
+    }
+    sections.forEach((section, index) => validateSection(section, `sections[${index}]`, errors));
+    sections.forEach((section, index) => validateBranches(section, index, sections, `sections[${index}]`, errors));
+
+    // Branches and answer params name steps by number, so a number can only name one step
+    const stepNumbers = sections.map(section => isObject(section) ? section.stepNumber : undefined);
+    stepNumbers.forEach((stepNumber, index) => {
+      const first = stepNumbers.indexOf(stepNumber);
+      if (Number.isInteger(stepNumber) && first !== index) {
+        errors.push(`sections[${index}].stepNumber ${stepNumber} is already used by sections[${first}]`);
+      }
+    });
+
+    // The builder assumes the hook opens the page and the CTA closes it
+    if (sections[0]?.type !== 'hook') {
+      errors.push('The first step must be the hook');
+    }
+    if (sections[sections.length - 1]?.type !== 'cta') {
+      errors.push('The last step must be the CTA');
+    }
+  }
+
+  // Visual direction
+  const visual = value.visualDirection;
+  if (!isObject(visual) || !isObject(visual.colorPalette)) {
+    errors.push('visualDirection.colorPalette is required');
+  } else {
+    for (const key of PALETTE_KEYS) {
+      const color = visual.colorPalette[key];
+      if (typeof color !== 'string' || !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color)) {
+        errors.push(`visualDirection.colorPalette.${key} must be a hex colour`);
+      }
+    }
+    if (!isObject(visual.typography)) {
+      errors.push('visualDirection.typography is required');
+    } else {
+      requireString(visual.typography, 'headlineStyle', 'visualDirection.typography.headlineStyle', errors);
+      requireString(visual.typography, 'bodyStyle', 'visualDirection.typography.bodyStyle', errors);
+    }
+    if (!isObject(visual.imagery)) {
+      errors.push('visualDirection.imagery is required');
+    } else {
+      requireString(visual.imagery, 'backgroundStyle', 'visualDirection.imagery.backgroundStyle', errors);
+    }
+  }
+
+  // Conversion strategy
+  const strategy = value.conversionStrategy;
+  if (!isObject(strategy)) {
+    errors.push('conversionStrategy is required');
+  } else {
+    requireString(strategy, 'mainHook', 'conversionStrategy.mainHook', errors);
+    requireString(strategy, 'valueProposition', 'conversionStrategy.valueProposition', errors);
+    for (const key of ['primaryPersuasion', 'urgencyTactics']) {
+      const list = strategy[key];
+      if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+        errors.push(`conversionStrategy.${key} must be a list of strings`);
+      }
+    }
+  }
+
+  // Technical flags
+  const technical = value.technical;
+  if (!isObject(technical)) {
+    errors.push('technical is required');
+  } else {
+    for (const key of ['requiresCountdown', 'requiresScarcity', 'requiresSocialProof']) {
+      if (typeof technical[key] !== 'boolean') {
+        errors.push(`technical.${key} must be true or false`);
+      }
+    }
+    const answerErrors = validateAnswerParams(technical.answerParams, 'technical.answerParams');
+    errors.push(...answerErrors);
+    if (answerErrors.length === 0 && Array.isArray(technical.answerParams) && Array.isArray(sections)) {
+      // Only a quiz step has answers to pass on
+      technical.answerParams.forEach((mapping: { stepNumber: number }, index: number) => {
+        const section = sections.find(s => isObject(s) && s.stepNumber === mapping.stepNumber);
+        if (!isObject(section) || section.type !== 'quiz') {
+          errors.push(`technical.answerParams[${index}].stepNumber must be a quiz step`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize a validated, edited blueprint for the builder: steps are renumbered in
+ * their new order, transitions follow from position (the last step redirects to the
+ * tracking URL; earlier redirects and answer branches are kept, with their target
+ * steps renumbered) and the builder prompt is regenerated from the edited content.
+ */
+export function prepareEditedBlueprint(
+  blueprint: LPBlueprint,
+  analysis: ComponentAnalysis,
+  brief?: string
+): LPBlueprint {
+  const trackingUrl = analysis.trackingUrl || blueprint.technical.trackingUrl;
+  const lastIndex = blueprint.sections.length - 1;
+  // Steps after the main CTA are only reached through branches and keep their own exit
+  const ctaIndex = blueprint.sections.findIndex(section => section.type === 'cta');
+  const newNumber = new Map(blueprint.sections.map((section, index) => [section.stepNumber, index + 1]));
+
+  const sections: BlueprintSection[] = blueprint.sections.map((section, index) => {
+    const branches = (section.transition?.branches || [])
+      .filter(branch => branch.action === 'redirect' || newNumber.has(branch.stepNumber!))
+      .map(branch => branch.action === 'go-to-step' ? { ...branch, stepNumber: newNumber.get(branch.stepNumber!) } : branch);
+    const ownExit = index > ctaIndex && ctaIndex !== -1 ? section.transition?.target : undefined;
+    const transition: BlueprintSection['transition'] = index === lastIndex
+      ? { action: 'redirect', target: ownExit || trackingUrl }
+      : section.transition?.action === 'redirect'
+        ? { action: 'redirect', target: section.transition.target || trackingUrl }
+        : { action: 'next-step' };
+
+    return {
+      ...section,
+      stepNumber: index + 1,
+      transition: branches.length > 0 ? { ...transition, branches } : transition,
+    };
+  });
+
+  const edited: LPBlueprint = {
+    ...blueprint,
+    id: `blueprint-edited-${Date.now()}`,
+    createdAt: new Date(),
+    totalSteps: sections.length,
+    sections,
+    technical: {
+      ...blueprint.technical,
+      trackingUrl,
+      ...(blueprint.technical.answerParams && {
+        answerParams: blueprint.technical.answerParams
+          .filter(mapping => newNumber.has(mapping.stepNumber))
+          .map(mapping => ({ ...mapping, stepNumber: newNumber.get(mapping.stepNumber)! })),
+      }),
+    },
+  };
+
+  return {
+    ...edited,
+    builderPrompt: generateBuilderPromptFromBlueprint(edited, analysis, brief),
+  };
+}
+
+function validateSection(section: unknown, path: string, errors: string[]) {
+  if (!isObject(section)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  if (!SECTION_TYPES.includes(section.type as BlueprintSectionType)) {
+    errors.push(`${path}.type must be one of ${SECTION_TYPES.join(', ')}`);
+  }
+  if (typeof section.stepNumber !== 'number' || !Number.isInteger(section.stepNumber) || section.stepNumber < 1) {
+    errors.push(`${path}.stepNumber must be a positive integer`);
+  }
+  requireString(section, 'title', `${path}.title`, errors);
+  if (section.notes !== undefined && typeof section.notes !== 'string') {
+    errors.push(`${path}.notes must be a string`);
+  }
+  if (section.transition !== undefined && (
+    !isObject(section.transition) ||
+    !TRANSITION_ACTIONS.includes(section.transition.action as BlueprintSection['transition']['action'])
+  )) {
+    errors.push(`${path}.transition.action must be one of ${TRANSITION_ACTIONS.join(', ')}`);
+  }
+
+  if (!Array.isArray(section.elements) || section.elements.length === 0) {
+    errors.push(`${path}.elements must have at least one element`);
+    return;
+  }
+  section.elements.forEach((element, index) => validateElement(element, `${path}.elements[${index}]`, errors));
+}
+
+// Branches name one of the step's answers and jump forward to an existing step
+function validateBranches(section: unknown, index: number, sections: unknown[], path: string, errors: string[]) {
+  if (!isObject(section) || !isObject(section.transition) || section.transition.branches === undefined) return;
+  const branches = section.transition.branches;
+  if (!Array.isArray(branches)) {
+    errors.push(`${path}.transition.branches must be a list`);
+    return;
+  }
+
+  const answers = (Array.isArray(section.elements) ? section.elements : [])
+    .filter(element => isObject(element) && element.type === 'options' && typeof element.content === 'string')
+    .flatMap(element => (element.content as string).split('|').map(answer => answer.trim().toLowerCase()));
+  const laterSteps = sections.slice(index + 1).map(later => isObject(later) ? later.stepNumber : undefined);
+
+  branches.forEach((branch: unknown, branchIndex) => {
+    const branchPath = `${path}.transition.branches[${branchIndex}]`;
+    if (!isObject(branch)) {
+      errors.push(`${branchPath} must be an object`);
+      return;
+    }
+    if (typeof branch.answer !== 'string' || !answers.includes(branch.answer.trim().toLowerCase())) {
+      errors.push(`${branchPath}.answer must be one of the step's answers`);
+    }
+    if (!BRANCH_ACTIONS.includes(branch.action as BlueprintBranch['action'])) {
+      errors.push(`${branchPath}.action must be one of ${BRANCH_ACTIONS.join(', ')}`);
+    } else if (branch.action === 'go-to-step' && !laterSteps.includes(branch.stepNumber)) {
+      errors.push(`${branchPath}.stepNumber must be a later step`);
+    } else if (branch.action === 'redirect' && branch.target !== undefined &&
+        (typeof branch.target !== 'string' || !/^https?:\/\//.test(branch.target))) {
+      errors.push(`${branchPath}.target must be an http(s) URL`);
+    }
+  });
+}
+
+function validateElement(element: unknown, path: string, errors: string[]) {
+  if (!isObject(element)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  if (!ELEMENT_TYPES.includes(element.type as BlueprintElement['type'])) {
+    errors.push(`${path}.type must be one of ${ELEMENT_TYPES.join(', ')}`);
+  }
+  requireString(element, 'content', `${path}.content`, errors);
+  if (element.purpose !== undefined && typeof element.purpose !== 'string') {
+    errors.push(`${path}.purpose must be a string`);
+  }
+  if (element.style !== undefined && !isObject(element.style)) {
+    errors.push(`${path}.style must be an object`);
+  }
+}
+
+function requireString(target: Record<string, unknown>, key: string, path: string, errors: string[]) {
+  const value = target[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${path} is required`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,24 @@
+// Generation pipeline exports
+export {
+  runV3Pipeline,
+  planV3Blueprint,
+  rebuildFromBlueprint,
+  buildFromEditedBlueprint,
+  analyzeSourcePage,
+} from './v3';
+export type {
+  V3Stage,
+  V3PipelineInput,
+  V3PipelineResult,
+  V3PlanResult,
+  V3PipelineEvent,
+  V3EventHandler,
+  V3Variation,
+  V3BlueprintSummary,
+  V3QASummary,
+} from './v3';
+
+export { diffBlueprints } from './blueprint-diff';
+export type { BlueprintChange } from './blueprint-diff';
+
+export { validateBlueprint, prepareEditedBlueprint } from './blueprint-edit';
@@ -0,0 +1,685 @@
+import { analyzeWithAI } from '@/lib/analyzer/ai-analyzer';
+import { analyzeFromBrief } from '@/lib/analyzer/brief-analyzer';
+import {
+  planLandingPage,
+  reviewLandingPage,
+  repairUntilVerified,
+  quickValidate,
+  reviewComponentTree,
+  repairComponentTree,
+  reviewTrackingConsent,
+  addQAIssues,
+  auditAccessibility,
+  runClickThrough,
+  applyClickThrough,
+  analyzePerformance,
+  checkPerformanceBudget,
+  performanceBudget,
+  repairPerformance,
+  mergeRepairResults,
+} from '@/lib/agents';
+import {
+  buildVariations,
+  buildFromTemplate,
+  applyAnswerParams,
+  applyAnswerParamsToTree,
+  applyParamPassthrough,
+  passthroughParams,
+  applyTrackingPixels,
+  applyConsentBanner,
+  consentSettings,
+  renderComponentTree,
+  type BuilderResult,
+} from '@/lib/builder-agent';
+import { embedExternalImages, stripEmbedMarkers } from '@/lib/parser/image-embedder';
+import { withVariationUsage, getTrackedLLMUsage } from '@/lib/llm';
+import { prepareEditedBlueprint } from './blueprint-edit';
+import type { ParsedLandingPage, GenerationOptions, LLMUsageRecord, ComponentTree } from '@/types';
+import type { ComponentAnalysis, DatingVertical } from '@/types/component-analysis';
+import type { LPBlueprint, QAResult, RepairResult } from '@/lib/agents';
+
+export type V3Stage = 'analyze' | 'architect' | 'build' | 'qa' | 'repair' | 'embed';
+
+export type V3BlueprintSummary = Pick<LPBlueprint, 'id' | 'totalSteps' | 'visualDirection' | 'conversionStrategy'> & {
+  sections: { stepNumber: number; type: string; title: string }[];
+};
+
+export type V3QASummary = Pick<QAResult, 'id' | 'passed' | 'score' | 'criticalCount' | 'majorCount' | 'summary'>;
+
+export interface V3Variation {
+  id: string;
+  sourcePageId: string;
+  variationNumber: number;
+  html: string;
+  assets: never[];
+  changes: {
+    type: 'structure';
+    selector: string;
+    originalValue: string;
+    newValue: string;
+    reason: string;
+  }[];
+  generatedAt: Date;
+  qaResult: QAResult | null;
+  repairResult: RepairResult | null;
+  builtWith: 'llm' | 'template';
+  tree?: ComponentTree; // Component-tree and template builds
+}
+
+/**
+ * Result of a full V3 run (the /api/v3/generate response body)
+ */
+export interface V3PipelineResult {
+  success: true;
+  variations: V3Variation[];
+  count: number;
+  workflow: string;
+  analysis: ComponentAnalysis;
+  blueprint: V3BlueprintSummary;
+  architectPlan: LPBlueprint; // Full blueprint (builder prompt included), persisted as a version
+  qaResults: V3QASummary[];
+  usage: LLMUsageRecord[]; // Per-call token/cost records, persisted by the caller
+}
+
+/**
+ * Result of planV3Blueprint: the analysis and the full blueprint, ready to edit and build
+ */
+export interface V3PlanResult {
+  analysis: ComponentAnalysis;
+  blueprint: LPBlueprint;
+}
+
+/**
+ * Progress events emitted while the pipeline runs (streamed by /api/v3/generate/stream)
+ */
+export type V3PipelineEvent =
+  | { type: 'stage'; stage: V3Stage; status: 'started' | 'completed'; variationNumber?: number }
+  | { type: 'analysis'; analysis: ComponentAnalysis }
+  | { type: 'blueprint'; blueprint: V3BlueprintSummary }
+  | { type: 'plan'; analysis: ComponentAnalysis; blueprint: LPBlueprint }
+  | { type: 'token'; variationNumber: number; text: string }
+  | { type: 'variation'; variationNumber: number; html: string; success: boolean; error?: string }
+  | { type: 'qa'; variationNumber: number; qaResult: V3QASummary }
+  | {
+      type: 'repair';
+      variationNumber: number;
+      fixesApplied: RepairResult['fixesApplied'];
+      fixedCount: number;
+      failedCount: number;
+      summary: string;
+    }
+  | { type: 'done'; result: V3PipelineResult }
+  | { type: 'error'; error: string; usage: LLMUsageRecord[] };
+
+export type V3EventHandler = (event: V3PipelineEvent) => void;
+
+/**
+ * Input for a V3 run: a parsed source page or a from-scratch brief
+ */
+export interface V3PipelineInput {
+  sourcePage?: ParsedLandingPage;
+  brief?: string;
+}
+
+/**
+ * Full V3 workflow: Analyzer (or Brief Analyzer) → Architect → Builder → QA → Repair → Embed Images.
+ * Call inside trackLLMUsage() so `usage` is populated.
+ */
+export async function runV3Pipeline(
+  input: V3PipelineInput,
+  options: Partial<GenerationOptions>,
+  onEvent?: V3EventHandler
+): Promise<V3PipelineResult> {
+  const emit = onEvent || (() => {});
+  const variationCount = Math.min(options.variationCount || 1, 5);
+
+  const { analysis, workflow, brief } = await analyzeInput(input, options, emit);
+
+  // ===== STEPS 2-6: Shared pipeline =====
+  const blueprint = await planFromAnalysis(analysis, options, emit, brief);
+  const result = await buildFromBlueprint(blueprint, analysis, options, variationCount, workflow, emit, input.sourcePage?.id);
+
+  emit({ type: 'done', result });
+  return result;
+}
+
+/**
+ * Analyzer (or Brief Analyzer) → Architect only, so the blueprint can be reviewed and
+ * edited before building. Ends with a `plan` event carrying the full blueprint.
+ */
+export async function planV3Blueprint(
+  input: V3PipelineInput,
+  options: Partial<GenerationOptions>,
+  onEvent?: V3EventHandler
+): Promise<V3PlanResult> {
+  const emit = onEvent || (() => {});
+
+  const { analysis, brief } = await analyzeInput(input, options, emit);
+  const blueprint = await planFromAnalysis(analysis, options, emit, brief);
+
+  emit({ type: 'plan', analysis, blueprint });
+  return { analysis, blueprint };
+}
+
+/**
+ * Re-run Builder → QA → Repair → Embed Images from a saved blueprint, skipping
+ * Analyzer and Architect. Call inside trackLLMUsage() so `usage` is populated.
+ */
+export async function rebuildFromBlueprint(
+  blueprint: LPBlueprint,
+  analysis: ComponentAnalysis,
+  options: Partial<GenerationOptions>,
+  onEvent?: V3EventHandler
+): Promise<V3PipelineResult> {
+  console.log('=== V3 REBUILD FROM BLUEPRINT ===');
+  return runFromBlueprint(blueprint, analysis, options, 'v3-rebuild', onEvent);
+}
+
+/**
+ * Build from a user-edited blueprint (see planV3Blueprint). The blueprint must pass
+ * validateBlueprint(); steps are renumbered and the builder prompt regenerated.
+ */
+export async function buildFromEditedBlueprint(
+  blueprint: LPBlueprint,
+  analysis: ComponentAnalysis,
+  options: Partial<GenerationOptions>,
+  onEvent?: V3EventHandler,
+  brief?: string
+): Promise<V3PipelineResult> {
+  console.log('=== V3 BUILD FROM EDITED BLUEPRINT ===');
+  const prepared = prepareEditedBlueprint(blueprint, analysis, brief);
+  return runFromBlueprint(prepared, analysis, options, 'v3-edited', onEvent);
+}
+
+/**
+ * Analyze step only: AI Analyzer on the source page plus user overrides
+ */
+export async function analyzeSourcePage(
+  sourcePage: ParsedLandingPage,
+  options: Partial<GenerationOptions>
+): Promise<ComponentAnalysis> {
+  const analysis = await analyzeWithAI(sourcePage.html, sourcePage.sourceUrl, options.agentRouting);
+
+  // Apply overrides
+  if (options.ctaUrlOverride && options.ctaUrlOverride.trim()) {
+    analysis.trackingUrl = options.ctaUrlOverride.trim();
+  }
+  if (!analysis.trackingUrl) {
+    const bestLink = findBestTrackingLink(sourcePage);
+    if (bestLink) analysis.trackingUrl = bestLink;
+  }
+  applyAnalysisOverrides(analysis, options);
+
+  // Fix: If detected tracking URL is the source page itself, use the original sourceUrl instead
+  if (analysis.trackingUrl && sourcePage.resolvedUrl) {
+    try {
+      const detectedHost = new URL(analysis.trackingUrl).hostname;
+      const resolvedHost = new URL(sourcePage.resolvedUrl).hostname;
+      if (detectedHost === resolvedHost && sourcePage.sourceUrl) {
+        console.log(`Redirect fix: detected URL is the LP itself (${detectedHost}), using sourceUrl instead`);
+        analysis.trackingUrl = sourcePage.sourceUrl;
+      }
+    } catch { /* ignore URL parse errors */ }
+  }
+
+  return analysis;
+}
+
+/**
+ * Tracking URL, vertical and step count overrides from the generation options
+ */
+function applyAnalysisOverrides(analysis: ComponentAnalysis, options: Partial<GenerationOptions>) {
+  if (options.ctaUrlOverride && options.ctaUrlOverride.trim()) {
+    analysis.trackingUrl = options.ctaUrlOverride.trim();
+  }
+  if (options.vertical && options.vertical !== 'auto') {
+    analysis.vertical = options.vertical as DatingVertical;
+  }
+  if (options.stepCount && options.stepCount > 0) {
+    analysis.flow.totalSteps = options.stepCount;
+  }
+}
+
+/**
+ * Step 1: Brief Analyzer for a from-scratch brief, AI Analyzer for a source page
+ */
+async function analyzeInput(
+  input: V3PipelineInput,
+  options: Partial<GenerationOptions>,
+  emit: V3EventHandler
+): Promise<{ analysis: ComponentAnalysis; workflow: string; brief?: string }> {
+  emit({ type: 'stage', stage: 'analyze', status: 'started' });
+
+  let analysis: ComponentAnalysis;
+  let workflow: string;
+
+  if (input.brief && !input.sourcePage) {
+    console.log('=== V3 SCRATCH WORKFLOW (From Brief) ===');
+
+    // ===== STEP 1: BRIEF ANALYZER =====
+    console.log('\n📝 Step 1: Brief Analyzer...');
+    analysis = await analyzeFromBrief(input.brief, options);
+    applyAnalysisOverrides(analysis, options);
+    workflow = 'v3-scratch';
+
+    console.log('Brief Analysis:', {
+      components: analysis.components.length,
+      vertical: analysis.vertical,
+      tone: analysis.tone,
+      trackingUrl: analysis.trackingUrl,
+    });
+  } else if (input.sourcePage) {
+    console.log('=== V3 ARCHITECT WORKFLOW ===');
+
+    // ===== STEP 1: AI ANALYZER =====
+    console.log('\n📊 Step 1: AI Analyzer...');
+    analysis = await analyzeSourcePage(input.sourcePage, options);
+    workflow = 'v3-architect';
+
+    console.log('Analysis:', {
+      components: analysis.components.length,
+      vertical: analysis.vertical,
+      tone: analysis.tone,
+      trackingUrl: analysis.trackingUrl,
+    });
+  } else {
+    throw new Error('Either source page data or a brief is required');
+  }
+
+  emit({ type: 'analysis', analysis });
+  emit({ type: 'stage', stage: 'analyze', status: 'completed' });
+
+  // Only a from-scratch brief steers the Architect; a source page speaks for itself
+  return { analysis, workflow, brief: workflow === 'v3-scratch' ? input.brief : undefined };
+}
+
+/**
+ * Step 2: Architect plans the blueprint from the analysis
+ */
+async function planFromAnalysis(
+  analysis: ComponentAnalysis,
+  options: Partial<GenerationOptions>,
+  emit: V3EventHandler,
+  brief?: string
+): Promise<LPBlueprint> {
+  // ===== STEP 2: ARCHITECT =====
+  console.log('\n🏗️ Step 2: Architect...');
+  emit({ type: 'stage', stage: 'architect', status: 'started' });
+
+  const stylingOptions = {
+    colorScheme: options.colorScheme,
+    customColors: options.customColors,
+    layoutStyle: options.layoutStyle,
+    linkHandling: options.linkHandling,
+    textHandling: options.textHandling,
+    tone: options.tone,
+    targetAge: options.targetAge,
+    language: options.language,
+    country: options.country,
+    creativity: options.creativity,
+    customInstructions: options.textInstructions,
+    addElements: options.addElements,
+    brief,
+  };
+
+  const blueprint = await planLandingPage(analysis, stylingOptions, brief, options.agentRouting);
+  console.log('Blueprint created:', {
+    sections: blueprint.sections.length,
+    totalSteps: blueprint.totalSteps,
+    promptLength: blueprint.builderPrompt.length,
+  });
+
+  emit({ type: 'blueprint', blueprint: summarizeBlueprint(blueprint) });
+  emit({ type: 'stage', stage: 'architect', status: 'completed' });
+
+  return blueprint;
+}
+
+/**
+ * Builder → QA → Repair → Embed Images from a ready blueprint, with its analysis and blueprint events
+ */
+async function runFromBlueprint(
+  blueprint: LPBlueprint,
+  analysis: ComponentAnalysis,
+  options: Partial<GenerationOptions>,
+  workflow: string,
+  onEvent?: V3EventHandler
+): Promise<V3PipelineResult> {
+  const emit = onEvent || (() => {});
+  const variationCount = Math.min(options.variationCount || 1, 5);
+
+  emit({ type: 'analysis', analysis });
+  emit({ type: 'blueprint', blueprint: summarizeBlueprint(blueprint) });
+
+  const result = await buildFromBlueprint(blueprint, analysis, options, variationCount, workflow, emit);
+
+  emit({ type: 'done', result });
+  return result;
+}
+
+/**
+ * Builder → QA → Repair → Embed Images for a given blueprint
+ */
+async function buildFromBlueprint(
+  blueprint: LPBlueprint,
+  analysis: ComponentAnalysis,
+  options: Partial<GenerationOptions>,
+  variationCount: number,
+  workflow: string,
+  emit: V3EventHandler,
+  sourcePageId?: string
+): Promise<V3PipelineResult> {
+  // ===== STEP 3: BUILDER =====
+  console.log('\n🔨 Step 3: Builder...');
+  emit({ type: 'stage', stage: 'build', status: 'started' });
+
+  const builderPrompt = {
+    systemContext: `Building ${blueprint.vertical} dating LP with ${blueprint.totalSteps} steps`,
+    requirements: blueprint.builderPrompt,
+    suggestions: '',
+    componentInstructions: '',
+    technicalRequirements: '',
+    fullPrompt: blueprint.builderPrompt,
+  };
+
+  const emitVariation = (variationNumber: number, result: BuilderResult) =>
+    emit({ type: 'variation', variationNumber, html: result.html, success: result.success, error: result.error });
+
+  let buildResults: BuilderResult[];
+  if (options.builderMode === 'template') {
+    // Deterministic pages straight from the blueprint - no LLM call
+    buildResults = Array.from({ length: variationCount }, (_, index) =>
+      buildFromTemplate(blueprint, index + 1, options.language)
+    );
+    buildResults.forEach((result, index) => emitVariation(index + 1, result));
+  } else {
+    buildResults = await buildVariations(builderPrompt, analysis, variationCount, options.agentRouting, {
+      onToken: (variationNumber, text) => emit({ type: 'token', variationNumber, text }),
+      onVariation: emitVariation,
+    }, options.builderMode === 'tree' ? 'tree' : 'html');
+
+    // A failed or broken LLM build falls back to the template page
+    // (a tree that passed the schema is left to tree QA and repair)
+    buildResults = buildResults.map((result, index) => {
+      const criticalCount = result.success && !result.tree ? quickValidate(result.html, blueprint).criticalCount : 0;
+      if (result.success && criticalCount === 0) return result;
+
+      console.log(`Variation ${index + 1}: ${result.error || `${criticalCount} critical issues`}, using the template renderer`);
+      const fallback = { ...buildFromTemplate(blueprint, index + 1, options.language), id: result.id };
+      emitVariation(index + 1, fallback);
+      return fallback;
+    });
+  }
+
+  // Quiz answers the offer URL should receive are wired in, whatever the builder produced
+  const answerParams = blueprint.technical.answerParams || [];
+  if (answerParams.length > 0) {
+    buildResults = buildResults.map(result => {
+      if (!result.success) return result;
+      if (!result.tree) return { ...result, html: applyAnswerParams(result.html, answerParams) };
+      const tree = applyAnswerParamsToTree(result.tree, answerParams);
+      return { ...result, tree, html: renderComponentTree(tree) };
+    });
+  }
+  console.log('Build complete:', {
+    variations: buildResults.length,
+    successful: buildResults.filter(r => r.success).length,
+    template: buildResults.filter(r => r.builtWith === 'template').length,
+  });
+  emit({ type: 'stage', stage: 'build', status: 'completed' });
+
+  // ===== STEP 4: QA =====
+  console.log('\n🔍 Step 4: QA Review...');
+  const qaResults: QAResult[] = [];
+  const finalVariations = [];
+
+  for (const [index, result] of buildResults.entries()) {
+    const variationNumber = index + 1;
+
+    if (!result.success) {
+      finalVariations.push({
+        ...result,
+        qaResult: null,
+        repairResult: null,
+      });
+      continue;
+    }
+
+    // Run QA on each variation
+    emit({ type: 'stage', stage: 'qa', status: 'started', variationNumber });
+    let qaResult: QAResult;
+    if (result.tree) {
+      // Trees are checked against the blueprint directly - no LLM needed
+      qaResult = reviewComponentTree(result.tree, blueprint);
+    } else {
+      try {
+        // Try LLM-based QA first
+        qaResult = await withVariationUsage(variationNumber, () =>
+          reviewLandingPage(result.html, blueprint, options.agentRouting)
+        );
+      } catch (error) {
+        console.log('LLM QA failed, using quick validate:', error);
+        qaResult = quickValidate(result.html, blueprint);
+      }
+    }
+
+    qaResults.push(qaResult);
+    console.log(`Variation ${result.id} QA:`, {
+      passed: qaResult.passed,
+      score: qaResult.score,
+      critical: qaResult.criticalCount,
+      major: qaResult.majorCount,
+    });
+    emit({ type: 'qa', variationNumber, qaResult: summarizeQA(qaResult) });
+    emit({ type: 'stage', stage: 'qa', status: 'completed', variationNumber });
+
+    // ===== STEP 5: REPAIR (if needed) =====
+    let finalHtml = result.html;
+    let tree = result.tree;
+    let repairResult: RepairResult | null = null;
+
+    if (tree && qaResult.criticalCount + qaResult.majorCount > 0) {
+      // Tree repair is deterministic and free, so majors are fixed too
+      console.log('\n🔧 Step 5: Repairing component tree...');
+      emit({ type: 'stage', stage: 'repair', status: 'started', variationNumber });
+      const { tree: repairedTree, ...treeRepair } = repairComponentTree(tree, blueprint, qaResult);
+      tree = repairedTree;
+      finalHtml = treeRepair.html;
+      repairResult = treeRepair;
+      console.log('Repair complete:', {
+        fixed: treeRepair.fixedCount,
+        failed: treeRepair.failedCount,
+      });
+      emit({
+        type: 'repair',
+        variationNumber,
+        fixesApplied: treeRepair.fixesApplied,
+        fixedCount: treeRepair.fixedCount,
+        failedCount: treeRepair.failedCount,
+        summary: treeRepair.summary,
+      });
+      emit({ type: 'stage', stage: 'repair', status: 'completed', variationNumber });
+    } else if (!tree && !qaResult.passed && qaResult.criticalCount > 0) {
+      console.log('\n🔧 Step 5: Repair Agent...');
+      emit({ type: 'stage', stage: 'repair', status: 'started', variationNumber });
+      try {
+        // Fixes are checked on the page as it will ship (answer params included)
+        const { qaResult: repairedQA, ...loopResult } = await withVariationUsage(variationNumber, () =>
+          repairUntilVerified(result.html, blueprint, qaResult, undefined, {
+            maxIterations: options.repairIterations,
+            routing: options.agentRouting,
+            prepare: page => applyAnswerParams(page, answerParams),
+          })
+        );
+        repairResult = loopResult;
+        qaResult = repairedQA;
+        finalHtml = applyAnswerParams(repairResult.html, answerParams);
+        console.log('Repair complete:', {
+          fixed: repairResult.fixedCount,
+          failed: repairResult.failedCount,
+          score: qaResult.score,
+        });
+        emit({
+          type: 'repair',
+          variationNumber,
+          fixesApplied: repairResult.fixesApplied,
+          fixedCount: repairResult.fixedCount,
+          failedCount: repairResult.failedCount,
+          summary: repairResult.summary,
+        });
+      } catch (error) {
+        console.error('Repair failed:', error);
+      }
+      emit({ type: 'stage', stage: 'repair', status: 'completed', variationNumber });
+    }
+
+    // Added after QA and repair so neither can drop them
+    finalHtml = applyParamPassthrough(finalHtml, options.paramPassthrough);
+    finalHtml = applyTrackingPixels(finalHtml, options.tracking);
+    finalHtml = applyConsentBanner(finalHtml, consentSettings(options.consent, options.country), options.language);
+
+    // Trackers are only on the page now, so consent is checked here rather than in QA above
+    const consentIssues = reviewTrackingConsent(finalHtml, options.country);
+    if (consentIssues.length > 0) {
+      qaResult = addQAIssues(qaResult, consentIssues);
+    }
+    // Contrast, tap targets, alt text, headings, keyboard focus, lang/dir - banner included
+    qaResult = addQAIssues(qaResult, auditAccessibility(finalHtml, options.language), 'in the accessibility audit');
+
+    // The finished page is clicked through in a simulated DOM, so the JS and redirect
+    // checks rest on what the page actually does
+    try {
+      const clickThrough = await runClickThrough(finalHtml, blueprint, { params: passthroughParams(options.paramPassthrough) });
+      console.log(`Variation ${result.id} click-through:`, {
+        steps: clickThrough.stepsVisited.length,
+        clicks: clickThrough.clicks,
+        issues: clickThrough.issues.length,
+      });
+      qaResult = applyClickThrough(qaResult, clickThrough);
+    } catch (error) {
+      console.error('Click-through QA failed:', error);
+    }
+
+    // ===== STEP 6: EMBED IMAGES =====
+    console.log('\n🖼️ Step 6: Embedding images...');
+    emit({ type: 'stage', stage: 'embed', status: 'started', variationNumber });
+    try {
+      finalHtml = await embedExternalImages(finalHtml);
+    } catch (error) {
+      console.error('Image embedding failed (keeping original URLs):', error);
+    }
+    emit({ type: 'stage', stage: 'embed', status: 'completed', variationNumber });
+
+    // Weighed after embedding, which is what makes pages heavy; images over budget are
+    // recompressed or lazy-loaded and whatever is still over is reported
+    const budget = performanceBudget(options.performanceBudget);
+    let performanceIssues = checkPerformanceBudget(analyzePerformance(finalHtml), budget);
+    if (performanceIssues.length > 0) {
+      try {
+        const performanceRepair = await repairPerformance(finalHtml, performanceIssues, budget);
+        finalHtml = performanceRepair.html;
+        repairResult = mergeRepairResults(repairResult, performanceRepair);
+        emit({
+          type: 'repair',
+          variationNumber,
+          fixesApplied: performanceRepair.fixesApplied,
+          fixedCount: performanceRepair.fixedCount,
+          failedCount: performanceRepair.failedCount,
+          summary: performanceRepair.summary,
+        });
+        performanceIssues = checkPerformanceBudget(analyzePerformance(finalHtml), budget);
+      } catch (error) {
+        console.error('Page-weight repair failed:', error);
+      }
+      qaResult = addQAIssues(qaResult, performanceIssues, 'in the performance check');
+    }
+    finalHtml = stripEmbedMarkers(finalHtml);
+    qaResults[qaResults.length - 1] = qaResult;
+
+    finalVariations.push({
+      id: result.id,
+      html: finalHtml,
+      success: result.success,
+      generatedAt: result.generatedAt,
+      builtWith: result.builtWith,
+      tree,
+      qaResult,
+      repairResult,
+    });
+  }
+
+  // Convert to response format
+  const variations: V3Variation[] = finalVariations.map((result, index) => ({
+    id: result.id,
+    sourcePageId: sourcePageId || 'scratch',
+    variationNumber: index + 1,
+    html: result.html,
+    assets: [],
+    changes: [{
+      type: 'structure' as const,
+      selector: 'html',
+      originalValue: '',
+      newValue: '',
+      reason: result.builtWith === 'template'
+        ? `Rendered from the blueprint templates (${workflow} workflow)`
+        : `Generated with ${workflow} workflow`,
+    }],
+    generatedAt: result.generatedAt,
+    qaResult: result.qaResult,
+    repairResult: result.repairResult,
+    builtWith: result.builtWith || 'llm',
+    tree: result.tree,
+  }));
+
+  return {
+    success: true,
+    variations,
+    count: variations.length,
+    workflow,
+    analysis,
+    blueprint: summarizeBlueprint(blueprint),
+    architectPlan: blueprint,
+    qaResults: qaResults.map(summarizeQA),
+    usage: getTrackedLLMUsage(),
+  };
+}
+
+function summarizeBlueprint(blueprint: LPBlueprint): V3BlueprintSummary {
+  return {
+    id: blueprint.id,
+    totalSteps: blueprint.totalSteps,
+    sections: blueprint.sections.map(s => ({
+      stepNumber: s.stepNumber,
+      type: s.type,
+      title: s.title,
+    })),
+    visualDirection: blueprint.visualDirection,
+    conversionStrategy: blueprint.conversionStrategy,
+  };
+}
+
+function summarizeQA(qa: QAResult): V3QASummary {
+  return {
+    id: qa.id,
+    passed: qa.passed,
+    score: qa.score,
+    criticalCount: qa.criticalCount,
+    majorCount: qa.majorCount,
+    summary: qa.summary,
+  };
+}
+
+/**
+ * Find best tracking link from parsed page
+ */
+function findBestTrackingLink(sourcePage: ParsedLandingPage): string | null {
+  if (!sourcePage.links || sourcePage.links.length === 0) return null;
+
+  const ctaLink = sourcePage.links.find(l => l.type === 'cta' && l.originalUrl !== '#');
+  const affiliateLink = sourcePage.links.find(l => l.type === 'affiliate');
+  const trackingLink = sourcePage.links.find(l => l.type === 'tracking' && l.originalUrl.startsWith('http'));
+  const redirectLink = sourcePage.links.find(l => l.type === 'redirect');
+
+  const bestLink = ctaLink || affiliateLink || trackingLink || redirectLink;
+  return bestLink?.originalUrl || null;
+}
@@ -1,4 +1,4 @@
-import { getLLMProvider } from '@/lib/llm';
+import { getAgentLLM } from '@/lib/llm';
 import type {
   ComponentAnalysis,
   AnalyzedComponent,
@@ -10,6 +10,7 @@ import type {
 import type { ColorScheme, LayoutStyle, LinkHandling, CustomColors, ToneStyle, TargetAgeGroup } from '@/types/generation-options';
 import type { AddElementOptions } from '@/types/builder';
 import type { LanguageCode, CountryCode } from '@/types/languages';
+import type { AgentRouting } from '@/types/llm';
 import { LANGUAGES, COUNTRIES, LANGUAGE_GUIDELINES } from '@/types/languages';
 
 /**
@@ -38,9 +39,10 @@ export interface BuilderStylingOptions {
 export async function writeBuilderPrompt(
   analysis: ComponentAnalysis,
   stylingOptions?: BuilderStylingOptions,
-  customRules?: Partial<typeof DEFAULT_PROMPT_RULES>
+  customRules?: Partial<typeof DEFAULT_PROMPT_RULES>,
+  routing?: AgentRouting
 ): Promise<BuilderPrompt> {
-  const llm = getLLMProvider('grok');
+  const llm = getAgentLLM('promptWriter', routing);
 
   // Get critical and important components
   const criticalComponents = analysis.components.filter(c => c.importance === 'critical');
@@ -106,6 +106,18 @@ export interface AddElementOptions {
     buttonText: string;
     position: 'top' | 'bottom';
   };
+
+  // Quiz answers appended to the offer URL at redirect time (V3 multi-step pages)
+  answerParams?: AnswerParamMapping[];
+}
+
+/**
+ * A quiz answer passed to the offer URL as a query parameter / tracker sub-ID
+ */
+export interface AnswerParamMapping {
+  stepNumber: number;               // Quiz step whose answer is passed on
+  param: string;                    // e.g. "age" or "sub2"
+  values?: Record<string, string>;  // Answer text → value sent (default: a slug of the answer)
 }
 
 /**
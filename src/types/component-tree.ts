@@ -0,0 +1,82 @@
+// Types for the builder's structured output: a page as steps → blocks → elements
+
+export const COLOR_TOKENS = ['primary', 'secondary', 'accent', 'background', 'text'] as const;
+export type ColorToken = (typeof COLOR_TOKENS)[number];
+
+export const SIZE_TOKENS = ['sm', 'md', 'lg', 'xl'] as const;
+export type SizeToken = (typeof SIZE_TOKENS)[number];
+
+export const RADIUS_TOKENS = ['none', 'sm', 'md', 'lg', 'pill'] as const;
+export type RadiusToken = (typeof RADIUS_TOKENS)[number];
+
+export const FONT_TOKENS = ['system', 'serif', 'rounded'] as const;
+export type FontToken = (typeof FONT_TOKENS)[number];
+
+export const BACKGROUND_TOKENS = ['solid', 'gradient', 'card'] as const;
+export type BackgroundToken = (typeof BACKGROUND_TOKENS)[number];
+
+export const TREE_STEP_KINDS = ['hook', 'quiz', 'cta'] as const;
+export type TreeStepKind = (typeof TREE_STEP_KINDS)[number];
+
+// content → .step-content, actions → .step-cta (the thumb-reachable area)
+export const TREE_BLOCK_KINDS = ['content', 'actions'] as const;
+export type TreeBlockKind = (typeof TREE_BLOCK_KINDS)[number];
+
+export const TREE_ELEMENT_TYPES = [
+  'headline', 'subheadline', 'text', 'image', 'button', 'option', 'countdown', 'scarcity', 'social-proof',
+] as const;
+export type TreeElementType = (typeof TREE_ELEMENT_TYPES)[number];
+
+// Buttons and answer options; 'go-to-step' jumps forward to targetStep, 'redirect'
+// leaves for url (default: the tree's redirectUrl) immediately
+export const TREE_ACTIONS = ['next-step', 'go-to-step', 'redirect'] as const;
+export type TreeAction = (typeof TREE_ACTIONS)[number];
+
+export interface TreeElementStyle {
+  color?: ColorToken;
+  background?: ColorToken;
+  size?: SizeToken;
+  bold?: boolean;
+}
+
+export interface TreeElement {
+  id: string;
+  type: TreeElementType;
+  text?: string;        // Copy (every type but image)
+  src?: string;         // image
+  alt?: string;         // image
+  action?: TreeAction;  // button / option
+  targetStep?: number;  // go-to-step
+  url?: string;         // redirect to a different offer
+  param?: string;       // option: query parameter its answer sets on the offer URL
+  value?: string;       // option: value sent for param
+  style?: TreeElementStyle;
+}
+
+export interface TreeBlock {
+  id: string;
+  kind: TreeBlockKind;
+  elements: TreeElement[];
+}
+
+export interface TreeStep {
+  id: string;
+  stepNumber: number;
+  kind: TreeStepKind;
+  title: string;
+  blocks: TreeBlock[];
+}
+
+export interface ComponentTree {
+  version: 1;
+  title: string;
+  language: string;
+  redirectUrl: string;
+  theme: {
+    colors: Record<ColorToken, string>;
+    radius: RadiusToken;
+    font: FontToken;
+    background: BackgroundToken;
+  };
+  steps: TreeStep[];
+}
@@ -2,6 +2,7 @@
 
 import type { AddElementOptions } from './builder';
 import type { LanguageCode, CountryCode } from './languages';
+import type { AgentRouting } from './llm';
 
 export type TextHandling = 'keep' | 'rewrite-slight' | 'rewrite-complete';
 export type ImageHandling = 'keep' | 'placeholder' | 'ai-generate';
@@ -9,6 +10,7 @@ export type LinkHandling = 'keep' | 'replace-all' | 'remove-non-cta';
 export type StyleHandling = 'keep' | 'modify-colors' | 'modify-layout' | 'restyle-complete' | 'generate-new';
 export type OutputFormat = 'single-html' | 'full-folder' | 'zip';
 export type DatingVertical = 'auto' | 'adult' | 'casual' | 'mainstream';
+export type BuilderMode = 'llm' | 'tree' | 'template'; // V3: AI-written HTML, an AI-written component tree, or the blueprint renderer
 
 // Color scheme options
 export type ColorScheme = 'keep' | 'generate-matching' | 'custom';
@@ -89,6 +91,21 @@ export interface GenerationOptions {
   // CTA/Redirect URL override (if not detected or needs to be changed)
   ctaUrlOverride?: string;
 
+  // Incoming click IDs / sub-IDs carried over to the CTA and redirect URLs
+  paramPassthrough?: ParamPassthrough;
+
+  // Base pixels and LP event mapping injected into every variation
+  tracking?: TrackingConfig;
+
+  // Cookie consent banner gating the trackers (default: on for CONSENT_COUNTRIES)
+  consent?: ConsentOptions;
+
+  // Page-weight limits checked on every finished variation (unset fields use DEFAULT_PERFORMANCE_BUDGET)
+  performanceBudget?: Partial<PerformanceBudget>;
+
+  // Repair rounds for LLM-built pages (default: DEFAULT_REPAIR_ITERATIONS)
+  repairIterations?: number;
+
   // Number of steps/questions for multi-step landers (default: auto-detect from source)
   stepCount?: number;
 
@@ -102,8 +119,86 @@ export interface GenerationOptions {
   // AI settings
   llmProvider: string; // 'grok' | 'openai' | 'claude' etc
   creativity: number; // 0-1, temperature for AI generation
+  agentRouting?: AgentRouting; // Per-agent provider/model overrides (V3 agents)
+  builderMode?: BuilderMode; // V3 builder output (default 'llm')
+}
+
+// Click IDs the traffic sources and trackers append; the default passthrough list
+export const CLICK_ID_PARAMS = [
+  'clickid', 'click_id', 'subid', 'sub_id', 'gclid', 'fbclid', 'msclkid', 'ttclid',
+];
+
+export interface ParamPassthrough {
+  enabled: boolean;
+  params: string[]; // Incoming query parameters to pass on; a {param} macro in the URL is filled instead of appending
+}
+
+export const TRACKING_PLATFORMS = ['facebook', 'tiktok', 'ga4', 'gtm', 'snap', 'custom'] as const;
+export type TrackingPlatform = (typeof TRACKING_PLATFORMS)[number];
+
+export const TRACKING_PLATFORM_LABELS: Record<TrackingPlatform, string> = {
+  facebook: 'Facebook Pixel',
+  tiktok: 'TikTok Pixel',
+  ga4: 'Google Analytics 4',
+  gtm: 'Google Tag Manager',
+  snap: 'Snap Pixel',
+  custom: 'Custom code',
+};
+
+// page-view fires on load, step when stepNumber becomes the active step, cta-click on the way to the offer
+export const TRACKING_TRIGGERS = ['page-view', 'step', 'cta-click'] as const;
+export type TrackingTrigger = (typeof TRACKING_TRIGGERS)[number];
+
+export interface TrackingPixel {
+  platform: TrackingPlatform;
+  id: string;     // Pixel ID / measurement ID / container ID (custom: a label)
+  code?: string;  // custom: the snippet to add to the head
+}
+
+export interface TrackingEventMapping {
+  trigger: TrackingTrigger;
+  stepNumber?: number; // step
+  event: string;       // Sent to every configured platform (custom code gets an lp:track DOM event)
 }
 
+export interface TrackingConfig {
+  pixels: TrackingPixel[];
+  events: TrackingEventMapping[];
+}
+
+// Tracker categories the visitor can allow separately (anything else loads on "Accept all" only)
+export const CONSENT_CATEGORIES = ['analytics', 'marketing'] as const;
+export type ConsentCategory = (typeof CONSENT_CATEGORIES)[number];
+
+export interface ConsentOptions {
+  enabled: boolean;
+  categories: ConsentCategory[]; // Choices the banner offers
+}
+
+// Page-weight limits (sizes in KB as they are in the HTML file, base64 included)
+export interface PerformanceBudget {
+  totalKB: number;        // The whole page
+  imageKB: number;        // Inline (data URI) images together
+  scriptKB: number;       // Inline scripts
+  cssKB: number;          // <style> blocks and style attributes
+  renderBlocking: number; // External scripts/stylesheets the first paint waits for
+  fonts: number;          // Web fonts loaded
+  loadSeconds3G: number;  // Estimated load time on 3G
+}
+
+export const DEFAULT_PERFORMANCE_BUDGET: PerformanceBudget = {
+  totalKB: 1500,
+  imageKB: 1000,
+  scriptKB: 100,
+  cssKB: 60,
+  renderBlocking: 1,
+  fonts: 2,
+  loadSeconds3G: 8,
+};
+
+export const DEFAULT_REPAIR_ITERATIONS = 3;
+export const MAX_REPAIR_ITERATIONS = 5;
+
 export interface LinkReplacement {
   originalPattern: string; // regex pattern or exact match
   replacementUrl: string;
@@ -112,7 +207,9 @@ export interface LinkReplacement {
 
 export interface TrackingCodeReplacement {
   originalType: string;
-  replacementCode: string;
+  replacementCode?: string; // Replaces the whole snippet
+  replacementId?: string;   // Swaps the pixel/account ID only (takes precedence)
+  originalId?: string;      // Only swap this ID (default: every ID of the type)
 }
 
 export interface GenerationResult {
@@ -4,6 +4,7 @@ export * from './llm';
 export * from './analyzer';
 export * from './builder';
 export * from './languages';
+export * from './component-tree';
 
 // Re-export from component-analysis, excluding DatingVertical to avoid conflict
 // generation-options.ts has DatingVertical = 'auto' | 'adult' | 'casual' | 'mainstream' (with auto)
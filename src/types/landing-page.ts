@@ -50,16 +50,27 @@ export interface DetectedLink {
   selector: string;
   confidence: number; // 0-1, how confident we are about the type
   detectionReason: string;
+  tracker?: string;         // Tracker the click URL belongs to (Voluum, RedTrack, ...)
+  macros?: string[];        // Tracker macros in the URL ({clickid}, {{sub1}}, [SUBID]), kept byte-exact
+  redirectChain?: string[]; // Hops after originalUrl, when redirects were resolved
+  finalDomain?: string;     // Where the redirect chain ends (the offer)
 }
 
 export interface TrackingCode {
   id: string;
-  type: 'facebook-pixel' | 'google-analytics' | 'google-tag-manager' | 'tiktok-pixel' | 'custom' | 'other';
+  type:
+    | 'facebook-pixel' | 'google-analytics' | 'google-ads' | 'google-tag-manager' | 'tiktok-pixel'
+    | 'snap-pixel' | 'twitter-pixel' | 'pinterest-tag' | 'reddit-pixel' | 'microsoft-uet' | 'quora-pixel'
+    | 'taboola-pixel' | 'outbrain-pixel' | 'mgid-pixel' | 'revcontent-pixel' | 'yahoo-dot'
+    | 'custom' | 'other';
   code: string;
   selector?: string;
+  ids?: string[];     // Account / pixel / container IDs in the code
+  events?: string[];  // Events it fires (PageView, Lead, ...)
   shouldRemove: boolean;
   shouldReplace: boolean;
   replacementCode?: string;
+  replacementId?: string; // Our ID to put in place of theirs (keeps the snippet)
 }
 
 export interface FormElement {
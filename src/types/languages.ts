@@ -332,6 +332,21 @@ export const COUNTRIES: Record<CountryCode, CountryConfig> = {
   'IL': { code: 'IL', name: 'Israel', language: 'he', flag: '🇮🇱' },
 };
 
+/**
+ * Countries where trackers need the visitor's consent first (EU/EEA, UK, Switzerland)
+ */
+export const CONSENT_COUNTRIES: CountryCode[] = [
+  'GB', 'IE', 'DE', 'AT', 'CH', 'BE', 'LU', 'FR', 'ES', 'PT', 'IT', 'NL', 'PL', 'SE', 'NO', 'DK',
+  'FI', 'CZ', 'SK', 'HU', 'RO', 'GR', 'CY', 'LT', 'EE', 'SI', 'HR',
+];
+
+/**
+ * Whether pages for a country need a cookie consent banner by default
+ */
+export function requiresConsent(countryCode?: string): boolean {
+  return !!countryCode && CONSENT_COUNTRIES.includes(countryCode as CountryCode);
+}
+
 /**
  * Get language config by country code
  */
@@ -4,6 +4,28 @@ export interface LLMOptions {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  model?: string; // Override the provider's default model for this call
+  timeoutMs?: number; // Per-attempt deadline (overrides LLM_TIMEOUT_MS)
+  maxRetries?: number; // Retries on 429/5xx/network errors (overrides LLM_MAX_RETRIES)
+  onToken?: (text: string) => void; // Stream completion text as it arrives (a retried attempt streams again)
+  onAttempt?: (attempt: LLMAttempt) => void; // Every request made, failed retries and fallbacks included
+}
+
+// One request to a provider, as reported to LLMOptions.onAttempt
+export interface LLMAttempt {
+  provider: string;
+  model: string;
+  usage?: LLMResponse['usage']; // Estimated for failed attempts the provider may still bill
+  latencyMs: number;
+  error?: unknown; // Set when the attempt failed
+}
+
+// Retry/timeout policy applied by BaseLLMProvider.generateText
+export interface LLMRetryConfig {
+  maxRetries: number;
+  baseDelayMs: number; // First backoff delay, doubled on each retry
+  maxDelayMs: number;
+  timeoutMs: number; // Per-attempt deadline, 0 disables
 }
 
 export interface LLMResponse {
@@ -14,6 +36,7 @@ export interface LLMResponse {
     totalTokens: number;
   };
   model: string;
+  provider?: string; // Provider that answered (set by BaseLLMProvider, useful behind fallbacks)
 }
 
 export type AnalysisTask =
@@ -69,5 +92,75 @@ export interface LLMProviderConfig {
   model?: string;
 }
 
-export const LLM_PROVIDERS = ['grok', 'openai', 'claude', 'gemini'] as const;
+export const LLM_PROVIDERS = ['grok', 'openai', 'claude', 'gemini', 'mock'] as const;
 export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+// Selectable models per provider (first entry is the default)
+export const LLM_PROVIDER_MODELS: Record<LLMProviderName, readonly string[]> = {
+  grok: ['grok-3-fast', 'grok-3', 'grok-3-mini'],
+  openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+  claude: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'],
+  gemini: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
+  mock: ['mock-v1'], // Offline canned/recorded responses
+};
+
+// Per-agent provider/model routing
+export type AgentName = 'analyzer' | 'promptWriter' | 'architect' | 'builder' | 'qa' | 'repair';
+
+export interface AgentModelRoute {
+  provider: LLMProviderName;
+  model?: string; // Defaults to the provider's configured model
+  fallbacks?: AgentModelRoute[]; // Tried in order when this route fails (defaults to LLM_FALLBACK_PROVIDERS)
+}
+
+export type AgentRouting = Partial<Record<AgentName, AgentModelRoute>>;
+
+// QA runs on a different provider than the builder for a fresh perspective
+export const DEFAULT_AGENT_ROUTING: Record<AgentName, AgentModelRoute> = {
+  analyzer: { provider: 'grok' },
+  promptWriter: { provider: 'grok' },
+  architect: { provider: 'grok' },
+  builder: { provider: 'grok' },
+  qa: { provider: 'openai', model: 'gpt-4o' },
+  repair: { provider: 'grok' },
+};
+
+// Token and cost accounting for a single LLM call
+export interface LLMUsageRecord {
+  agent: AgentName;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number; // Of this attempt (failed retries and fallbacks get their own records)
+  costUsd: number;
+  variationNumber?: number; // Set for calls made while building/reviewing/repairing one variation
+}
+
+// Aggregated usage (API responses, dashboard)
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// USD per 1M tokens. Matched by longest model prefix, since APIs return dated
+// model names (e.g. gpt-4o-2024-08-06). Unknown models are costed at 0.
+export const LLM_MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'grok-3-fast': { input: 5, output: 25 },
+  'grok-3-mini': { input: 0.3, output: 0.5 },
+  'grok-3': { input: 3, output: 15 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};